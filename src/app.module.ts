@@ -11,6 +11,12 @@ import { UploadClaimModule } from './backend-for-frontend/upload-claim/upload-cl
 import { ModerationModule } from './core/moderation/moderation.module';
 import { RetrivalModule } from './core/retrival/retrival.module';
 import { EventsModule } from './core/events/events.module';
+import { WebhooksModule } from './core/webhooks/webhooks.module';
+import { UserDataModule } from './core/user-data/user-data.module';
+import { ReconciliationModule } from './core/reconciliation/reconciliation.module';
+import { QuotaModule } from './core/quota/quota.module';
+import { RateLimitOverridesModule } from './core/rate-limit-overrides/rate-limit-overrides.module';
+import { RenditionBackfillModule } from './core/rendition-backfill/rendition-backfill.module';
 import { MulterModule } from '@nestjs/platform-express';
 import { memoryStorage } from 'multer';
 
@@ -29,6 +35,12 @@ import { memoryStorage } from 'multer';
     ModerationModule,
     RetrivalModule,
     EventsModule,
+    WebhooksModule,
+    UserDataModule,
+    ReconciliationModule,
+    QuotaModule,
+    RateLimitOverridesModule,
+    RenditionBackfillModule,
   ],
   controllers: [AppController],
   providers: [AppService],
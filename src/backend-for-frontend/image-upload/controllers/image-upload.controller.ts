@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Query,
   Req,
   Logger,
@@ -11,10 +12,22 @@ import {
   ForbiddenException,
   UseInterceptors,
   UploadedFile,
+  UploadedFiles,
+  HttpCode,
+  HttpStatus,
+  Headers,
+  Res,
+  StreamableFile,
+  Body,
 } from '@nestjs/common';
 import { ImageUploadService } from '../services/image-upload.service';
+import { ImageTransformService } from '../services/image-transform.service';
+import { ImageTransformQueryDto } from '../dto/image-transform-query.dto';
 import { UploadResponseDto } from '../../../shared/dto/upload-response.dto';
 import { ClaimBasedUploadDto } from '../dto/claim-based-upload.dto';
+import { BatchUploadResponseDto } from '../dto/batch-upload-response.dto';
+import { ImageFramingPipe } from '../pipes/image-framing.pipe';
+import { ImageFraming } from '../../../shared/utils/image-crop.util';
 import {
   ApiConsumes,
   ApiBody,
@@ -24,11 +37,14 @@ import {
   ApiQuery,
   ApiBearerAuth,
   ApiParam,
+  ApiHeader,
 } from '@nestjs/swagger';
-import { Observable, throwError, tap } from 'rxjs';
-import { Request } from 'express';
+import { Observable, throwError, tap, from, firstValueFrom } from 'rxjs';
+import { Request, Response } from 'express';
 import { WithDecodedUserJWT, UserID } from '@gpe/backend-common/dist/auth';
-import { FileInterceptor } from '@nestjs/platform-express';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
+import config from '../../../config';
+import { IDEMPOTENCY_KEY_HEADER, IdempotencyScope, IdempotencyService } from '../../../core/idempotency/idempotency.service';
 
 @ApiTags('images')
 @Controller('images')
@@ -37,6 +53,8 @@ export class ImageUploadController {
 
   constructor(
     private readonly imageUploadService: ImageUploadService,
+    private readonly idempotencyService: IdempotencyService,
+    private readonly imageTransformService: ImageTransformService,
   ) {
     this.logger.log('ImageUploadController initialized');
   }
@@ -54,6 +72,12 @@ export class ImageUploadController {
           format: 'binary',
           description: 'Image file to upload',
         },
+        focalX: { type: 'number', description: 'Horizontal position of the focal point, relative to the image width (0-1)' },
+        focalY: { type: 'number', description: 'Vertical position of the focal point, relative to the image height (0-1)' },
+        cropLeft: { type: 'integer', description: 'Left edge of the crop rectangle in pixels' },
+        cropTop: { type: 'integer', description: 'Top edge of the crop rectangle in pixels' },
+        cropWidth: { type: 'integer', description: 'Width of the crop rectangle in pixels, must match the aspect ratio of the profile' },
+        cropHeight: { type: 'integer', description: 'Height of the crop rectangle in pixels' },
       },
       required: ['file'],
     },
@@ -66,6 +90,8 @@ export class ImageUploadController {
   @ApiResponse({ status: 400, description: 'Bad request or invalid claim' })
   @ApiResponse({ status: 403, description: 'Claim cannot be used or user not authorized' })
   @ApiResponse({ status: 415, description: 'Unsupported media type' })
+  @ApiHeader({ name: IDEMPOTENCY_KEY_HEADER, required: false, description: 'Optional client-generated key, a retried request with the same key replays the first response instead of running again' })
+  @ApiResponse({ status: 409, description: 'Idempotency-Key reused for a different request or still in progress' })
   @ApiBearerAuth()
   @WithDecodedUserJWT()
   @UseInterceptors(FileInterceptor('file'))
@@ -74,6 +100,8 @@ export class ImageUploadController {
     @UserID() userId: string,
     @Query('claimId') claimId: string,
     @UploadedFile() file: Express.Multer.File,
+    @Body(ImageFramingPipe) framing: ImageFraming,
+    @Headers('idempotency-key') idempotencyKey?: string,
   ): Observable<UploadResponseDto> {
     this.logger.log(`Received claim-based image upload request: claimId=${claimId}`);
 
@@ -84,10 +112,155 @@ export class ImageUploadController {
 
     this.logger.log(`Processing claim-based request for file: ${file.originalname} (${file.size} bytes, ${file.mimetype})`);
 
-    return this.imageUploadService.uploadImageWithClaim(file, claimId, userId).pipe(
+    const upload = this.imageUploadService.uploadImageWithClaim(file, claimId, userId, framing).pipe(
       tap(result => {
         this.logger.log(`Claim-based upload completed successfully: url=${result.url}, size=${result.fileSize} bytes`);
       })
     );
+
+    return from(this.idempotencyService.execute(
+      {
+        key: idempotencyKey,
+        userId,
+        scope: IdempotencyScope.IMAGE_UPLOAD,
+        parameters: { claimId, filename: file.originalname, mimetype: file.mimetype, content: file.buffer, framing },
+      },
+      () => firstValueFrom(upload)
+    ));
+  }
+
+  @Post('upload/batch')
+  @ApiOperation({
+    summary: 'Upload and process several images using a batch claim',
+    description: 'Every file is assigned to the next unused item claim of the batch. Files are processed one after another, a failing file does not stop the others.'
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiQuery({ name: 'claimId', required: true, description: 'Batch claim ID for this upload' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        files: {
+          type: 'array',
+          items: { type: 'string', format: 'binary' },
+          description: 'Image files to upload',
+        },
+      },
+      required: ['files'],
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Result of every file',
+    type: BatchUploadResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'No files, not a batch claim or not enough unused item claims left' })
+  @ApiResponse({ status: 403, description: 'User not authorized' })
+  @ApiBearerAuth()
+  @WithDecodedUserJWT()
+  @UseInterceptors(FilesInterceptor('files', config.claims.batch.maxItems))
+  uploadImagesWithBatchClaim(
+    @UserID() userId: string,
+    @Query('claimId') claimId: string,
+    @UploadedFiles() files: Express.Multer.File[],
+  ): Observable<BatchUploadResponseDto> {
+    this.logger.log(`Received batch image upload request: claimId=${claimId}, files=${files?.length ?? 0}`);
+
+    if (!files?.length) {
+      return throwError(() => new BadRequestException('No files provided'));
+    }
+
+    return this.imageUploadService.uploadImagesWithBatchClaim(files, claimId, userId).pipe(
+      tap(result => {
+        const failed = result.items.filter(item => item.error).length;
+        this.logger.log(`Batch upload completed: ${result.items.length - failed} succeeded, ${failed} failed`);
+      })
+    );
+  }
+
+  @Post('upload/complete')
+  @ApiOperation({
+    summary: 'Process an image that was uploaded directly to S3',
+    description: 'Call after the PUT to the presigned URL from POST /api/v1/claim/{claimId}/presigned-upload succeeded.'
+  })
+  @ApiQuery({ name: 'claimId', required: true, description: 'Claim ID the presigned upload was issued for' })
+  @ApiResponse({
+    status: 201,
+    description: 'Image successfully processed',
+    type: UploadResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'No presigned upload issued or image not uploaded yet' })
+  @ApiResponse({ status: 403, description: 'Claim cannot be used or user not authorized' })
+  @ApiResponse({ status: 415, description: 'Unsupported media type' })
+  @ApiBearerAuth()
+  @WithDecodedUserJWT()
+  completeDirectUpload(
+    @UserID() userId: string,
+    @Query('claimId') claimId: string,
+  ): Observable<UploadResponseDto> {
+    this.logger.log(`Received direct upload completion request: claimId=${claimId}`);
+
+    if (!claimId) {
+      return throwError(() => new BadRequestException('claimId is required'));
+    }
+
+    return this.imageUploadService.completeDirectUpload(claimId, userId).pipe(
+      tap(result => {
+        this.logger.log(`Direct upload completed successfully: url=${result.url}, size=${result.fileSize} bytes`);
+      })
+    );
+  }
+
+  @Get(':assetId/transform')
+  @ApiOperation({
+    summary: 'Get a rendition of an image',
+    description: 'Derives a rendition from the stored image. Width, height, fit, format and quality must be allowed by the upload profile of the image. Renditions are cached, repeated requests with If-None-Match are answered with 304.'
+  })
+  @ApiParam({ name: 'assetId', description: 'The image asset ID, with or without the image- prefix' })
+  @ApiHeader({ name: 'If-None-Match', required: false, description: 'ETag of a rendition the client already has' })
+  @ApiResponse({ status: 200, description: 'The rendition' })
+  @ApiResponse({ status: 304, description: 'The rendition did not change' })
+  @ApiResponse({ status: 400, description: 'Rendition not allowed for the upload profile of the image' })
+  @ApiResponse({ status: 404, description: 'Image not found' })
+  @ApiResponse({ status: 503, description: 'Too many renditions are being generated, retry later' })
+  async transformImage(
+    @Param('assetId') assetId: string,
+    @Query() query: ImageTransformQueryDto,
+    @Res({ passthrough: true }) res: Response,
+    @Headers('if-none-match') ifNoneMatch?: string,
+  ): Promise<StreamableFile | void> {
+    const rendition = await this.imageTransformService.transform(
+      assetId,
+      { width: query.w, height: query.h, fit: query.fit, format: query.format, quality: query.q },
+      ifNoneMatch
+    );
+
+    res.setHeader('ETag', rendition.etag);
+    res.setHeader('Cache-Control', rendition.cacheControl);
+    if (!rendition.body) {
+      res.status(HttpStatus.NOT_MODIFIED);
+      return;
+    }
+    return new StreamableFile(rendition.body, { type: rendition.contentType, length: rendition.body.length });
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete an image',
+    description: 'Soft-deletes the image. Its files are removed from storage once the retention period of the upload profile elapsed. Only the owner can delete an image.'
+  })
+  @ApiParam({ name: 'id', description: 'The image asset ID (without the image- prefix)' })
+  @ApiResponse({ status: 204, description: 'Image deleted' })
+  @ApiResponse({ status: 403, description: 'User is not the owner of the image' })
+  @ApiResponse({ status: 404, description: 'Image not found' })
+  @ApiBearerAuth()
+  @WithDecodedUserJWT()
+  async deleteImage(
+    @UserID() userId: string,
+    @Param('id') id: string,
+  ): Promise<void> {
+    this.logger.log(`Received image deletion request: id=${id}`);
+    await this.imageUploadService.deleteImageAssetForOwner(id, userId);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,273 @@
+import {
+  Controller,
+  Post,
+  Patch,
+  Head,
+  Options,
+  Param,
+  Query,
+  Body,
+  Headers,
+  Res,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  BadRequestException,
+  HttpException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiHeader,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { WithDecodedUserJWT, UserID } from '@gpe/backend-common/dist/auth';
+import {
+  ResumableUploadService,
+  ResumableUploadProgress,
+} from '../services/resumable-upload.service';
+import {
+  TUS_CHUNK_CONTENT_TYPE,
+  TUS_EXTENSIONS,
+  TUS_RESUMABLE_VERSION,
+  parseTusInteger,
+  parseTusMetadata,
+} from '../../../shared/utils/tus.util';
+import config from '../../../config';
+
+@ApiTags('images')
+@Controller('images/tus')
+export class ResumableUploadController {
+  private readonly logger = new Logger(ResumableUploadController.name);
+
+  constructor(private readonly resumableUploadService: ResumableUploadService) {
+    this.logger.log('ResumableUploadController initialized');
+  }
+
+  @Options()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Discover the tus capabilities of the server' })
+  @ApiResponse({
+    status: 204,
+    description: 'Tus-Version, Tus-Extension and Tus-Max-Size headers',
+  })
+  getCapabilities(@Res({ passthrough: true }) res: Response): void {
+    res.setHeader('Tus-Resumable', TUS_RESUMABLE_VERSION);
+    res.setHeader('Tus-Version', TUS_RESUMABLE_VERSION);
+    res.setHeader('Tus-Extension', TUS_EXTENSIONS.join(','));
+    res.setHeader('Tus-Max-Size', String(config.media.maxFileSize));
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create a resumable image upload for a claim',
+    description:
+      'tus 1.0 creation. The returned Location is used for the following HEAD and PATCH requests.',
+  })
+  @ApiQuery({
+    name: 'claimId',
+    required: true,
+    description: 'Claim ID for this upload',
+  })
+  @ApiHeader({
+    name: 'Tus-Resumable',
+    required: true,
+    description: 'Must be 1.0.0',
+  })
+  @ApiHeader({
+    name: 'Upload-Length',
+    required: true,
+    description: 'Total size of the image in bytes',
+  })
+  @ApiHeader({
+    name: 'Upload-Metadata',
+    required: true,
+    description: 'tus metadata, must contain filetype and may contain filename',
+  })
+  @ApiResponse({ status: 201, description: 'Upload created' })
+  @ApiResponse({
+    status: 403,
+    description: 'Claim cannot be used or user not authorized',
+  })
+  @ApiResponse({
+    status: 413,
+    description: 'Upload-Length exceeds the profile limit',
+  })
+  @ApiResponse({ status: 415, description: 'Unsupported media type' })
+  @ApiBearerAuth()
+  @WithDecodedUserJWT()
+  async createUpload(
+    @UserID() userId: string,
+    @Query('claimId') claimId: string,
+    @Headers('tus-resumable') tusResumable: string,
+    @Headers('upload-length') uploadLengthHeader: string,
+    @Headers('upload-metadata') uploadMetadataHeader: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    this.assertTusVersion(tusResumable, res);
+    this.logger.log(
+      `Received resumable upload creation request: claimId=${claimId}`,
+    );
+
+    if (!claimId) {
+      throw new BadRequestException('claimId is required');
+    }
+
+    const uploadLength = parseTusInteger(uploadLengthHeader);
+    if (uploadLength === null || uploadLength === 0) {
+      throw new BadRequestException('Upload-Length must be a positive integer');
+    }
+
+    const progress = await this.resumableUploadService.createUpload(
+      claimId,
+      userId,
+      uploadLength,
+      parseTusMetadata(uploadMetadataHeader),
+    );
+
+    // Relative to the creation URL so it keeps working behind path-rewriting proxies
+    res.setHeader('Location', `tus/${claimId}`);
+    this.setProgressHeaders(res, progress);
+  }
+
+  @Head(':claimId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get the current offset of a resumable image upload',
+  })
+  @ApiParam({ name: 'claimId', description: 'Claim ID of the upload' })
+  @ApiResponse({
+    status: 200,
+    description: 'Upload-Offset and Upload-Length headers',
+  })
+  @ApiResponse({ status: 404, description: 'Claim or upload not found' })
+  @ApiBearerAuth()
+  @WithDecodedUserJWT()
+  async getUploadOffset(
+    @UserID() userId: string,
+    @Param('claimId') claimId: string,
+    @Headers('tus-resumable') tusResumable: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    this.assertTusVersion(tusResumable, res);
+
+    const progress = await this.resumableUploadService.getUploadProgress(
+      claimId,
+      userId,
+    );
+    res.setHeader('Cache-Control', 'no-store');
+    this.setProgressHeaders(res, progress);
+  }
+
+  @Patch(':claimId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Upload a chunk of a resumable image upload',
+    description:
+      "The image is processed with the claim's upload profile once the final chunk arrives. Check the claim status for the result.",
+  })
+  @ApiParam({ name: 'claimId', description: 'Claim ID of the upload' })
+  @ApiHeader({
+    name: 'Tus-Resumable',
+    required: true,
+    description: 'Must be 1.0.0',
+  })
+  @ApiHeader({
+    name: 'Upload-Offset',
+    required: true,
+    description: 'Offset the chunk starts at',
+  })
+  @ApiHeader({
+    name: 'Content-Type',
+    required: true,
+    description: TUS_CHUNK_CONTENT_TYPE,
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Chunk stored, Upload-Offset contains the new offset',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Upload-Offset does not match the current offset',
+  })
+  @ApiResponse({ status: 415, description: 'Wrong Content-Type' })
+  @ApiBearerAuth()
+  @WithDecodedUserJWT()
+  async uploadChunk(
+    @UserID() userId: string,
+    @Param('claimId') claimId: string,
+    @Headers('tus-resumable') tusResumable: string,
+    @Headers('upload-offset') uploadOffsetHeader: string,
+    @Headers('content-type') contentType: string,
+    @Body() chunk: Buffer,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    this.assertTusVersion(tusResumable, res);
+
+    if (!contentType || !contentType.startsWith(TUS_CHUNK_CONTENT_TYPE)) {
+      throw new UnsupportedMediaTypeException(
+        `Content-Type must be ${TUS_CHUNK_CONTENT_TYPE}`,
+      );
+    }
+
+    const offset = parseTusInteger(uploadOffsetHeader);
+    if (offset === null) {
+      throw new BadRequestException(
+        'Upload-Offset must be a non-negative integer',
+      );
+    }
+
+    const body = Buffer.isBuffer(chunk) ? chunk : Buffer.alloc(0);
+    this.logger.log(
+      `Received chunk for claim ${claimId}: offset=${offset}, size=${body.length} bytes`,
+    );
+
+    const progress = await this.resumableUploadService.appendChunk(
+      claimId,
+      userId,
+      offset,
+      body,
+    );
+    this.setProgressHeaders(res, progress);
+
+    if (progress.completed) {
+      this.logger.log(
+        `Resumable upload completed for claim ${claimId}: url=${progress.result?.url}`,
+      );
+    }
+  }
+
+  /**
+   * Rejects requests that do not speak the supported tus version (412 Precondition Failed)
+   */
+  private assertTusVersion(tusResumable: string, res: Response): void {
+    res.setHeader('Tus-Resumable', TUS_RESUMABLE_VERSION);
+    if (tusResumable !== TUS_RESUMABLE_VERSION) {
+      res.setHeader('Tus-Version', TUS_RESUMABLE_VERSION);
+      throw new HttpException(
+        `Unsupported Tus-Resumable version: ${tusResumable}`,
+        HttpStatus.PRECONDITION_FAILED,
+      );
+    }
+  }
+
+  private setProgressHeaders(
+    res: Response,
+    progress: ResumableUploadProgress,
+  ): void {
+    res.setHeader('Upload-Offset', String(progress.offset));
+    res.setHeader('Upload-Length', String(progress.length));
+    if (progress.expiresAt) {
+      res.setHeader(
+        'Upload-Expires',
+        new Date(progress.expiresAt).toUTCString(),
+      );
+    }
+  }
+}
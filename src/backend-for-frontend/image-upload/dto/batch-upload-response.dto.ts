@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UploadResponseDto } from '../../../shared/dto/upload-response.dto';
+
+export class BatchUploadItemDto {
+  @ApiProperty({
+    description: 'The item claim the file was uploaded to',
+    example: '38e7df21-a229-4d3c-b302-29c4a4e4d110',
+  })
+  claimId: string;
+
+  @ApiProperty({
+    description: 'Original filename of the uploaded file',
+    example: 'photo.jpg',
+  })
+  filename: string;
+
+  @ApiProperty({
+    description: 'Upload result if the file was processed successfully',
+    type: UploadResponseDto,
+    required: false,
+  })
+  result?: UploadResponseDto;
+
+  @ApiProperty({
+    description:
+      'Error message if the file could not be processed, check the item claim for details',
+    example: 'Content moderation failed',
+    required: false,
+  })
+  error?: string;
+}
+
+export class BatchUploadResponseDto {
+  @ApiProperty({
+    description: 'The batch claim the files were uploaded to',
+    example: '0b5c0e2a-8f57-4c3e-9d0e-1f6f1c8b2a10',
+  })
+  batchClaimId: string;
+
+  @ApiProperty({
+    description: 'One entry per file, in the order the files were sent',
+    type: [BatchUploadItemDto],
+  })
+  items: BatchUploadItemDto[];
+}
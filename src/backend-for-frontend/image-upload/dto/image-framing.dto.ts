@@ -0,0 +1,86 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNumber, Max, Min, ValidateIf } from 'class-validator';
+import { Type } from 'class-transformer';
+
+const hasFocalPoint = (dto: ImageFramingDto) =>
+  dto.focalX !== undefined || dto.focalY !== undefined;
+const hasCrop = (dto: ImageFramingDto) =>
+  [dto.cropLeft, dto.cropTop, dto.cropWidth, dto.cropHeight].some(
+    (value) => value !== undefined,
+  );
+
+/**
+ * Optional form fields of an image upload that frame the image. Coordinates refer to the image with its
+ * EXIF orientation applied. A crop rectangle must match the aspect ratio of the upload profile.
+ */
+export class ImageFramingDto {
+  @ApiProperty({
+    description:
+      'Horizontal position of the focal point, relative to the image width (0-1)',
+    required: false,
+    example: 0.5,
+  })
+  @ValidateIf(hasFocalPoint)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @Type(() => Number)
+  focalX?: number;
+
+  @ApiProperty({
+    description:
+      'Vertical position of the focal point, relative to the image height (0-1)',
+    required: false,
+    example: 0.3,
+  })
+  @ValidateIf(hasFocalPoint)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @Type(() => Number)
+  focalY?: number;
+
+  @ApiProperty({
+    description: 'Left edge of the crop rectangle in pixels',
+    required: false,
+    example: 120,
+  })
+  @ValidateIf(hasCrop)
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  cropLeft?: number;
+
+  @ApiProperty({
+    description: 'Top edge of the crop rectangle in pixels',
+    required: false,
+    example: 0,
+  })
+  @ValidateIf(hasCrop)
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  cropTop?: number;
+
+  @ApiProperty({
+    description: 'Width of the crop rectangle in pixels',
+    required: false,
+    example: 800,
+  })
+  @ValidateIf(hasCrop)
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  cropWidth?: number;
+
+  @ApiProperty({
+    description: 'Height of the crop rectangle in pixels',
+    required: false,
+    example: 800,
+  })
+  @ValidateIf(hasCrop)
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  cropHeight?: number;
+}
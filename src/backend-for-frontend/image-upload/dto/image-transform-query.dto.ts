@@ -0,0 +1,62 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ImageOutputFormat, ImageTransformFit } from '../../../config/types';
+
+const FITS: ImageTransformFit[] = ['cover', 'contain', 'inside'];
+const FORMATS: ImageOutputFormat[] = ['webp', 'avif', 'jpeg'];
+
+/**
+ * Query of the transformation endpoint. Which values are allowed is configured per upload profile.
+ */
+export class ImageTransformQueryDto {
+  @ApiProperty({
+    description: 'Width of the rendition in pixels',
+    required: false,
+    example: 256,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(4096)
+  @Type(() => Number)
+  w?: number;
+
+  @ApiProperty({
+    description: 'Height of the rendition in pixels',
+    required: false,
+    example: 256,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(4096)
+  @Type(() => Number)
+  h?: number;
+
+  @ApiProperty({
+    description: 'How the image is fitted into width and height',
+    enum: FITS,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(FITS)
+  fit?: ImageTransformFit;
+
+  @ApiProperty({ description: 'Output format', enum: FORMATS, required: false })
+  @IsOptional()
+  @IsIn(FORMATS)
+  format?: ImageOutputFormat;
+
+  @ApiProperty({
+    description: 'Compression quality',
+    required: false,
+    example: 75,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  q?: number;
+}
@@ -2,17 +2,28 @@ import { Module, MiddlewareConsumer, RequestMethod, forwardRef } from '@nestjs/c
 import { MongooseModule } from '@nestjs/mongoose';
 import { ImageAsset, ImageAssetSchema } from '../../shared/schemas/image-asset.schema';
 import { ImageUploadController } from './controllers/image-upload.controller';
+import { ResumableUploadController } from './controllers/resumable-upload.controller';
 import { ImageProcessorService } from './services/image-processor.service';
 import { ImageUploadService } from './services/image-upload.service';
+import { ImageTransformService } from './services/image-transform.service';
+import { ResumableUploadService } from './services/resumable-upload.service';
+import { UploadChunk, UploadChunkSchema } from './schemas/upload-chunk.schema';
 import { ModerationModule } from '../../core/moderation/moderation.module';
 import { UploadClaimModule } from '../upload-claim/upload-claim.module';
 import { S3Module } from '@gpe/backend-common/dist/aws/s3';
+import { StorageModule } from '../../shared/storage/storage.module';
+import { WebhooksModule } from '../../core/webhooks/webhooks.module';
+import { OutboxModule } from '../../core/outbox/outbox.module';
+import { AssetDeletionModule } from '../../core/asset-deletion/asset-deletion.module';
+import { IdempotencyModule } from '../../core/idempotency/idempotency.module';
+import { QuotaModule } from '../../core/quota/quota.module';
 import config from 'src/config';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: ImageAsset.name, schema: ImageAssetSchema },
+      { name: UploadChunk.name, schema: UploadChunkSchema },
     ]),
     S3Module.register({
       bucket: config.aws.services.s3.bucket,
@@ -20,12 +31,20 @@ import config from 'src/config';
       region: config.aws.services.s3.region,
     }),
     ModerationModule,
+    StorageModule,
+    WebhooksModule,
+    OutboxModule,
+    AssetDeletionModule,
+    IdempotencyModule,
+    QuotaModule,
     forwardRef(() => UploadClaimModule), // Use forwardRef to break circular dependency
   ],
-  controllers: [ImageUploadController],
+  controllers: [ImageUploadController, ResumableUploadController],
   providers: [
     ImageUploadService,
-    ImageProcessorService
+    ImageProcessorService,
+    ImageTransformService,
+    ResumableUploadService
   ],
   exports: [ImageUploadService, ImageProcessorService],
 })
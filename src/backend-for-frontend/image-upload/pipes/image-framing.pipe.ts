@@ -0,0 +1,53 @@
+import {
+  ArgumentMetadata,
+  Injectable,
+  PipeTransform,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ImageFramingDto } from '../dto/image-framing.dto';
+import { ImageFraming } from '../../../shared/utils/image-crop.util';
+
+/**
+ * Reads the framing fields from the multipart form of an image upload. Other form fields are ignored
+ * instead of rejected, the global ValidationPipe would refuse them.
+ * The parameter must be typed as ImageFraming (an interface), so the global pipe passes the body through.
+ */
+@Injectable()
+export class ImageFramingPipe implements PipeTransform<
+  Record<string, unknown> | undefined,
+  Promise<ImageFraming>
+> {
+  private readonly validationPipe = new ValidationPipe({
+    transform: true,
+    whitelist: true,
+    forbidNonWhitelisted: false,
+    expectedType: ImageFramingDto,
+  });
+
+  async transform(
+    body: Record<string, unknown> | undefined,
+    metadata: ArgumentMetadata,
+  ): Promise<ImageFraming> {
+    const dto = (await this.validationPipe.transform(
+      body ?? {},
+      metadata,
+    )) as ImageFramingDto;
+
+    // Both are optional, the profile's crop mode applies without them
+    return {
+      focalPoint:
+        dto.focalX !== undefined
+          ? { x: dto.focalX, y: dto.focalY! }
+          : undefined,
+      crop:
+        dto.cropWidth !== undefined
+          ? {
+              left: dto.cropLeft!,
+              top: dto.cropTop!,
+              width: dto.cropWidth,
+              height: dto.cropHeight!,
+            }
+          : undefined,
+    };
+  }
+}
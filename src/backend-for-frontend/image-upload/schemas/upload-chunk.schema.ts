@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * A single chunk of a resumable (tus) image upload.
+ * Chunks are kept until the final offset is reached and the image pipeline ran,
+ * or until the owning claim expires.
+ */
+@Schema({ timestamps: true })
+export class UploadChunk extends Document {
+  @Prop({ required: true })
+  claimId: string;
+
+  @Prop({ required: true })
+  offset: number;
+
+  @Prop({ type: Buffer, required: true })
+  data: Buffer;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const UploadChunkSchema = SchemaFactory.createForClass(UploadChunk);
+
+// Indexes
+UploadChunkSchema.index({ claimId: 1, offset: 1 }, { unique: true });
+UploadChunkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -1,23 +1,135 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import * as sharp from 'sharp';
-import { Observable, from, switchMap, map, catchError, throwError } from 'rxjs';
+import { Observable, from, switchMap, map, catchError, throwError, forkJoin, of } from 'rxjs';
 import config from '../../../config';
-import { ImageOptions } from '../../../shared/interfaces/image-options.interface';
+import { ImageCropMode, ImageOutputFormat } from '../../../config/types';
+import { ImageOptions, ResolutionOption } from '../../../shared/interfaces/image-options.interface';
+import { OriginalEncoding, imageEncoderOptions, originalEncoding, resolveImageFormats } from '../../../shared/utils/image-format.util';
+import { ImageTransform } from '../../../shared/utils/image-transform.util';
+import {
+  CropRect,
+  ImageFraming,
+  aspectRatioDeviation,
+  computeCropRect,
+  cropCenter,
+  findCropViolation,
+  focalPointToPixels,
+  parseAspectRatio,
+} from '../../../shared/utils/image-crop.util';
+
+/**
+ * A rendition encoded in one output format
+ */
+export interface EncodedImage {
+  format: ImageOutputFormat;
+  buffer: Buffer;
+  info: sharp.OutputInfo;
+}
+
+/**
+ * The uploaded image without metadata and with its orientation applied
+ */
+export interface SanitizedOriginal {
+  encoding: OriginalEncoding;
+  buffer: Buffer;
+  info: sharp.OutputInfo;
+}
 
 @Injectable()
 export class ImageProcessorService {
   private readonly logger = new Logger(ImageProcessorService.name);
 
+  /**
+   * Sanitize an uploaded image so it can be kept as the master all renditions are derived from.
+   * The EXIF orientation is applied to the pixels and all metadata (EXIF, GPS, XMP, ICC) is dropped.
+   * @param buffer Uploaded image buffer
+   * @returns Observable with the sanitized image
+   */
+  sanitizeOriginal(buffer: Buffer): Observable<SanitizedOriginal> {
+    this.logger.log(`Sanitizing original image, size: ${buffer.length} bytes`);
+
+    return from(sharp(buffer).metadata()).pipe(
+      switchMap((metadata) => {
+        const encoding = originalEncoding(metadata.format);
+        // Sharp drops all metadata unless told otherwise
+        const image = sharp(buffer).rotate().toFormat(encoding.format, encoding.options);
+
+        return from(image.toBuffer({ resolveWithObject: true })).pipe(
+          map(({ data, info }) => {
+            this.logger.log(`Sanitized original: ${data.length} bytes, ${info.width}x${info.height} ${encoding.format}`);
+            return { encoding, buffer: data, info };
+          })
+        );
+      }),
+      catchError((error) => {
+        this.logger.error(`Error sanitizing image: ${error.message}`, error.stack);
+        return throwError(() => new BadRequestException(`Error processing image: ${error.message}`));
+      }),
+    );
+  }
+
+  /**
+   * Decide which part of an image its renditions show. Images whose aspect ratio deviates more than allowed
+   * are cropped to it as the crop mode says, a crop rectangle or focal point sent with the upload takes precedence.
+   * @param buffer Sanitized original, coordinates refer to it
+   * @param options Processing options of the profile
+   * @param requested Crop rectangle and/or focal point sent with the upload
+   * @returns Observable with the crop to apply to every rendition (if any) and the focal point to keep
+   */
+  resolveFraming(buffer: Buffer, options: ImageOptions, requested: ImageFraming = {}): Observable<ImageFraming> {
+    return from(sharp(buffer).metadata()).pipe(
+      switchMap(({ width, height }) => {
+        if (!width || !height) {
+          return throwError(() => new BadRequestException('Image dimensions could not be determined'));
+        }
+        const ratio = parseAspectRatio(options.aspectRatio);
+        const allowedDeviation = options.allowedDeviation ?? 0.075; // 7.5% default
+
+        if (requested.crop) {
+          const violation = findCropViolation(requested.crop, width, height);
+          if (violation) {
+            return throwError(() => new BadRequestException(violation));
+          }
+          if (ratio && aspectRatioDeviation(requested.crop.width, requested.crop.height, ratio) > allowedDeviation) {
+            return throwError(() => new BadRequestException(`Crop ${requested.crop!.width}x${requested.crop!.height} does not match required aspect ratio ${options.aspectRatio}`));
+          }
+          return of({ crop: requested.crop, focalPoint: requested.focalPoint ?? cropCenter(requested.crop, width, height) });
+        }
+
+        const cropMode = options.cropMode ?? 'reject';
+        // Images of profiles that do not crop are rejected by processImage
+        if (!ratio || cropMode === 'reject' || aspectRatioDeviation(width, height, ratio) <= allowedDeviation) {
+          return of({ focalPoint: requested.focalPoint });
+        }
+
+        const bounds = { left: 0, top: 0, width, height };
+        if (requested.focalPoint || cropMode === 'center' || cropMode === 'focalPoint') {
+          const focalPoint = requested.focalPoint ?? { x: 0.5, y: 0.5 };
+          return of({ crop: computeCropRect(bounds, ratio, focalPointToPixels(focalPoint, width, height)), focalPoint });
+        }
+        return this.findSalientCrop(buffer, bounds, ratio, cropMode);
+      }),
+      catchError((error) => {
+        if (error instanceof BadRequestException) {
+          this.logger.warn(`Bad request while framing image: ${error.message}`);
+          return throwError(() => error);
+        }
+        this.logger.error(`Error framing image: ${error.message}`, error.stack);
+        return throwError(() => new BadRequestException(`Error processing image: ${error.message}`));
+      }),
+    );
+  }
+
   /**
    * Process an image with the given options
    * @param buffer Image buffer
    * @param options Processing options
-   * @returns Observable with processed image buffer and metadata
+   * @returns Observable with the image encoded in every requested format, the primary format first
    */
   processImage(
     buffer: Buffer,
     options: ImageOptions,
-  ): Observable<{ buffer: Buffer; info: sharp.OutputInfo }> {
+  ): Observable<EncodedImage[]> {
     this.logger.log(`Processing image with options: ${JSON.stringify(options)}, original size: ${buffer.length} bytes`);
     
     // Create a sharp instance
@@ -30,6 +142,13 @@ export class ImageProcessorService {
     return from(image.metadata()).pipe(
       switchMap((metadata) => {
         this.logger.log(`Original image metadata: width=${metadata.width}px, height=${metadata.height}px, format=${metadata.format}`);
+
+        // Cut out the framed region first, all checks apply to it
+        if (options.crop) {
+          this.logger.log(`Cropping image to ${options.crop.width}x${options.crop.height} at ${options.crop.left},${options.crop.top}`);
+          image.extract(options.crop);
+          metadata = { ...metadata, width: options.crop.width, height: options.crop.height };
+        }
         
         // Aspect ratio check (retryable error)
         if (options.aspectRatio && metadata.width && metadata.height) {
@@ -78,28 +197,9 @@ export class ImageProcessorService {
           this.logger.log('No resizing needed, image dimensions are within limits');
         }
 
-        // Convert to WebP with specified or default quality
+        // Encode every format with specified or default quality
         const quality = options.quality ?? config.media.defaultQuality;
-        this.logger.log(`Converting image to WebP format with quality: ${quality}`);
-        image.webp({
-          quality: quality,
-          effort: 6, // Higher compression effort
-        });
-
-        // Get the processed buffer
-        this.logger.debug('Getting processed buffer from Sharp');
-        return from(image.toBuffer({ resolveWithObject: true })).pipe(
-          map((result) => {
-            // Sharp may return either { buffer, info } or { data, info }
-            // Normalize the result to always have buffer property with correct type
-            const buffer = ('buffer' in result ? result.buffer : result.data) as Buffer;
-            this.logger.log(`Image processing completed. Result size: ${buffer.length} bytes, format: ${result.info.format}`);
-            return {
-              buffer: buffer,
-              info: result.info
-            };
-          })
-        );
+        return this.encodeFormats(image, resolveImageFormats(options.formats), quality);
       }),
       catchError((error) => {
         if (error instanceof BadRequestException) {
@@ -116,17 +216,12 @@ export class ImageProcessorService {
    * Process an image at a specific resolution
    * @param buffer Original image buffer
    * @param resolution Resolution options
-   * @returns Observable with processed image buffer and metadata
+   * @returns Observable with the resolution encoded in every requested format, the primary format first
    */
   processImageAtResolution(
     buffer: Buffer,
-    resolution: {
-      width: number;
-      height: number;
-      quality?: number;
-      suffix: string;
-    },
-  ): Observable<{ buffer: Buffer; info: sharp.OutputInfo }> {
+    resolution: ResolutionOption,
+  ): Observable<EncodedImage[]> {
     this.logger.log(`Processing image at resolution: ${JSON.stringify(resolution)}`);
     
     // Create a sharp instance
@@ -137,6 +232,10 @@ export class ImageProcessorService {
 
     return from(image.metadata()).pipe(
       switchMap((metadata) => {
+        if (resolution.crop) {
+          image.extract(resolution.crop);
+        }
+
         // Resize to the specified dimensions
         this.logger.log(`Resizing image to: ${resolution.width}x${resolution.height}`);
         image.resize({
@@ -146,25 +245,9 @@ export class ImageProcessorService {
           withoutEnlargement: true,
         });
 
-        // Convert to WebP with specified or default quality
+        // Encode every format with specified or default quality
         const quality = resolution.quality ?? config.media.defaultQuality;
-        this.logger.log(`Converting to WebP format with quality: ${quality}`);
-        image.webp({
-          quality: quality,
-          effort: 6, // Higher compression effort
-        });
-
-        // Get the processed buffer
-        return from(image.toBuffer({ resolveWithObject: true })).pipe(
-          map((result) => {
-            const buffer = ('buffer' in result ? result.buffer : result.data) as Buffer;
-            this.logger.log(`Resolution processing completed. Result size: ${buffer.length} bytes, dimensions: ${result.info.width}x${result.info.height}`);
-            return {
-              buffer: buffer,
-              info: result.info
-            };
-          })
-        );
+        return this.encodeFormats(image, resolveImageFormats(resolution.formats), quality);
       }),
       catchError((error) => {
         this.logger.error(`Error processing image resolution: ${error.message}`, error.stack);
@@ -172,4 +255,87 @@ export class ImageProcessorService {
       }),
     );
   }
-}
\ No newline at end of file
+
+  /**
+   * Derives a rendition from a stored image
+   * @param buffer Stored image buffer
+   * @param transform Size, fit, format and quality of the rendition
+   * @param framing Region of the image to show and the point that stays in view when cover crops it further
+   * @returns Observable with the encoded rendition
+   */
+  transformImage(buffer: Buffer, transform: ImageTransform, framing: ImageFraming = {}): Observable<EncodedImage> {
+    this.logger.log(`Transforming image: ${JSON.stringify(transform)}`);
+
+    const image = sharp(buffer);
+    return from(image.metadata()).pipe(
+      switchMap(({ width = 0, height = 0 }) => {
+        let region: CropRect | undefined = framing.crop;
+        if (framing.focalPoint && transform.fit === 'cover' && transform.width && transform.height) {
+          // Sharp only crops around fixed positions, cut the region around the focal point ourselves
+          const focus = focalPointToPixels(framing.focalPoint, width, height);
+          region = computeCropRect(region ?? { left: 0, top: 0, width, height }, transform.width / transform.height, focus);
+        }
+        if (region) {
+          image.extract(region);
+        }
+
+        image.resize({
+          width: transform.width,
+          height: transform.height,
+          fit: transform.fit,
+          withoutEnlargement: true,
+        });
+        return this.encodeFormats(image, [transform.format], transform.quality);
+      }),
+      map(([encoded]) => encoded),
+      catchError((error) => {
+        this.logger.error(`Error transforming image: ${error.message}`, error.stack);
+        return throwError(() => new BadRequestException(`Error transforming image: ${error.message}`));
+      }),
+    );
+  }
+
+  /**
+   * Lets sharp find the region with the required aspect ratio worth keeping
+   * @param image The whole image
+   * @param cropMode attention for the most salient region, entropy for the most detailed one
+   */
+  private findSalientCrop(buffer: Buffer, image: CropRect, ratio: number, cropMode: ImageCropMode): Observable<ImageFraming> {
+    const target = computeCropRect(image, ratio);
+    const strategy = cropMode === 'entropy' ? sharp.strategy.entropy : sharp.strategy.attention;
+
+    // Resizing to the largest region only crops, raw output skips encoding
+    const resized = sharp(buffer).resize({ width: target.width, height: target.height, fit: 'cover', position: strategy });
+    return from(resized.raw().toBuffer({ resolveWithObject: true })).pipe(
+      map(({ info }) => {
+        // Sharp reports the offsets of the region as negative numbers
+        const crop = { ...target, left: Math.abs(info.cropOffsetLeft ?? target.left), top: Math.abs(info.cropOffsetTop ?? target.top) };
+        const focalPoint = cropMode === 'attention' && info.attentionX !== undefined && info.attentionY !== undefined
+          ? { x: info.attentionX / image.width, y: info.attentionY / image.height }
+          : cropCenter(crop, image.width, image.height);
+
+        this.logger.log(`Cropping to ${crop.width}x${crop.height} at ${crop.left},${crop.top} (${cropMode})`);
+        return { crop, focalPoint };
+      })
+    );
+  }
+
+  /**
+   * Encodes the prepared image in every format in parallel, each from its own clone of the pipeline
+   */
+  private encodeFormats(image: sharp.Sharp, formats: ImageOutputFormat[], quality: number): Observable<EncodedImage[]> {
+    this.logger.log(`Encoding image as ${formats.join(', ')} with quality: ${quality}`);
+
+    return forkJoin(formats.map(format =>
+      from(image.clone().toFormat(format, imageEncoderOptions(format, quality)).toBuffer({ resolveWithObject: true })).pipe(
+        map((result) => {
+          // Sharp may return either { buffer, info } or { data, info }
+          // Normalize the result to always have buffer property with correct type
+          const buffer = ('buffer' in result ? result.buffer : result.data) as Buffer;
+          this.logger.log(`Encoded ${format}: ${buffer.length} bytes, dimensions: ${result.info.width}x${result.info.height}`);
+          return { format, buffer, info: result.info };
+        })
+      )
+    ));
+  }
+}
@@ -0,0 +1,203 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, isValidObjectId } from 'mongoose';
+import { firstValueFrom } from 'rxjs';
+import config from '../../../config';
+import { ImageAsset } from '../../../shared/schemas/image-asset.schema';
+import { ObjectStorageService } from '../../../shared/storage/object-storage.service';
+import { IMAGE_FORMAT_MIME_TYPES } from '../../../shared/utils/image-format.util';
+import {
+  ImageTransformQuery,
+  findImageTransformViolation,
+  imageTransformETag,
+  imageTransformFileName,
+  imageTransformVersion,
+  matchesETag,
+  resolveImageTransform,
+} from '../../../shared/utils/image-transform.util';
+import {
+  storageFolderOfKey,
+  storageKeyFromUrl,
+} from '../../../shared/utils/storage-key.util';
+import { QuotaService } from '../../../core/quota/quota.service';
+import { ImageProcessorService } from './image-processor.service';
+
+export interface TransformedImage {
+  etag: string;
+  contentType: string;
+  cacheControl: string;
+  body?: Buffer; // Not set if the client already has the rendition
+}
+
+/**
+ * Derives renditions from stored images on request. Generated renditions are cached next to the
+ * other files of the asset, so they are removed together with the asset, and count towards the
+ * storage quota of its owner.
+ */
+@Injectable()
+export class ImageTransformService {
+  private readonly logger = new Logger(ImageTransformService.name);
+  private generating = 0; // Renditions being generated by this replica
+
+  constructor(
+    @InjectModel(ImageAsset.name) private imageAssetModel: Model<ImageAsset>,
+    private readonly objectStorageService: ObjectStorageService,
+    private readonly imageProcessorService: ImageProcessorService,
+    private readonly quotaService: QuotaService,
+  ) {}
+
+  /**
+   * Gets a rendition of an image, generating and caching it on first request
+   * @param assetId The image asset ID, with or without the image- prefix
+   * @param query The requested rendition
+   * @param ifNoneMatch The If-None-Match header of the request
+   * @throws NotFoundException if the image does not exist or was deleted
+   * @throws BadRequestException if the upload profile does not allow the rendition
+   * @throws ServiceUnavailableException if too many renditions are being generated
+   */
+  async transform(
+    assetId: string,
+    query: ImageTransformQuery,
+    ifNoneMatch?: string,
+  ): Promise<TransformedImage> {
+    const asset = await this.getTransformableAsset(assetId);
+
+    const allowlist = config.media.uploadProfiles.find(
+      (profile) => profile.name === asset.profileName,
+    )?.transform;
+    if (!allowlist) {
+      throw new BadRequestException(
+        `Images of profile ${asset.profileName} cannot be transformed`,
+      );
+    }
+    const violation = findImageTransformViolation(query, allowlist);
+    if (violation) {
+      throw new BadRequestException(violation);
+    }
+
+    const transform = resolveImageTransform(query, allowlist);
+    // Images uploaded before the sanitized original was kept are transformed from their main image
+    const mainKey = asset.storageUrl
+      ? storageKeyFromUrl(asset.storageUrl)
+      : asset.storageKey!;
+    const sourceKey = asset.original?.storageKey ?? mainKey;
+    // Crop and focal point refer to the original, main images of older uploads are already framed
+    const framing = asset.original
+      ? { crop: asset.crop, focalPoint: asset.focalPoint }
+      : {};
+    const fileName = imageTransformFileName(
+      config.media.transform.variantPrefix,
+      transform,
+      imageTransformVersion(sourceKey, framing),
+    );
+    const result: TransformedImage = {
+      etag: imageTransformETag(asset._id.toString(), fileName),
+      contentType: IMAGE_FORMAT_MIME_TYPES[transform.format],
+      cacheControl: `public, max-age=${config.media.transform.cacheMaxAgeSeconds}`,
+    };
+
+    if (matchesETag(ifNoneMatch, result.etag)) {
+      return result;
+    }
+
+    const variantKey = `${storageFolderOfKey(mainKey)}${fileName}`;
+    try {
+      return {
+        ...result,
+        body: await this.objectStorageService.getObjectBuffer(variantKey),
+      };
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+    }
+
+    // Encoding is CPU bound, requests beyond the limit are turned away instead of queued
+    if (this.generating >= config.media.transform.maxConcurrentGenerations) {
+      throw new ServiceUnavailableException(
+        'Too many renditions are being generated, try again later',
+      );
+    }
+
+    this.generating++;
+    let rendition: Buffer;
+    try {
+      this.logger.log(
+        `Generating rendition ${variantKey} of image ${asset._id.toString()}`,
+      );
+      const source = await this.objectStorageService.getObjectBuffer(sourceKey);
+      rendition = (
+        await firstValueFrom(
+          this.imageProcessorService.transformImage(source, transform, framing),
+        )
+      ).buffer;
+    } finally {
+      this.generating--;
+    }
+
+    // Caching is best effort, the rendition is generated again on the next request
+    await this.cacheRendition(
+      asset,
+      variantKey,
+      fileName,
+      rendition,
+      result.contentType,
+    ).catch((error: Error) => {
+      this.logger.warn(
+        `Failed to cache rendition ${variantKey}: ${error.message}`,
+      );
+    });
+
+    return { ...result, body: rendition };
+  }
+
+  /**
+   * Stores a generated rendition and counts it once, even if concurrent requests generated it as well
+   */
+  private async cacheRendition(
+    asset: ImageAsset,
+    variantKey: string,
+    fileName: string,
+    rendition: Buffer,
+    contentType: string,
+  ): Promise<void> {
+    await this.objectStorageService.putObject(
+      variantKey,
+      rendition,
+      contentType,
+    );
+
+    const { modifiedCount } = await this.imageAssetModel
+      .updateOne(
+        { _id: asset._id, transformVariants: { $ne: fileName } },
+        {
+          $push: { transformVariants: fileName },
+          $inc: { transformVariantsSize: rendition.length },
+        },
+      )
+      .exec();
+    if (modifiedCount && asset.userId) {
+      await this.quotaService.recordBytesChanged(
+        asset.userId,
+        rendition.length,
+      );
+    }
+  }
+
+  private async getTransformableAsset(assetId: string): Promise<ImageAsset> {
+    const id = assetId.replace(/^image-/, '');
+    const asset = isValidObjectId(id)
+      ? await this.imageAssetModel.findById(id).exec()
+      : null;
+    if (!asset || asset.deletedAt || (!asset.storageKey && !asset.storageUrl)) {
+      throw new NotFoundException(`Image ${assetId} not found`);
+    }
+    return asset;
+  }
+}
@@ -1,19 +1,35 @@
-import { Injectable, Logger, UnsupportedMediaTypeException, BadRequestException, ForbiddenException, HttpException, HttpStatus } from '@nestjs/common';
-import { Observable, map, switchMap, tap, from, throwError, of, forkJoin, firstValueFrom, lastValueFrom } from 'rxjs';
+import { Injectable, Logger, OnModuleInit, UnsupportedMediaTypeException, BadRequestException, ConflictException, ForbiddenException, HttpException, HttpStatus, NotFoundException } from '@nestjs/common';
+import { Observable, map, switchMap, tap, from, throwError, of, forkJoin, firstValueFrom, lastValueFrom, catchError, concatMap, toArray, shareReplay } from 'rxjs';
 import { v4 as uuidv4 } from 'uuid';
-import { ImageProcessorService } from './image-processor.service';
-import { ImageOptions } from '../../../shared/interfaces/image-options.interface';
+import { EncodedImage, ImageProcessorService, SanitizedOriginal } from './image-processor.service';
+import { ImageOptions, ResolutionOption } from '../../../shared/interfaces/image-options.interface';
 import { UploadResult } from '../../../shared/interfaces/upload-result.interface';
 import config from '../../../config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
-import { ImageAsset } from '../../../shared/schemas/image-asset.schema';
+import { ImageAsset, ImageFormatVersion, ImageOriginal } from '../../../shared/schemas/image-asset.schema';
 import { UploadClaimService } from '../../upload-claim/upload-claim.service';
 import { ModerationService, ModerationResult } from '../../../core/moderation/moderation.service';
-import { ClaimStatus } from 'src/backend-for-frontend/upload-claim/schemas/upload-claim.schema';
+import { ClaimErrorCode, ClaimStatus } from 'src/backend-for-frontend/upload-claim/schemas/upload-claim.schema';
+import { ClaimActor, InvalidClaimTransitionException } from '../../upload-claim/claim-transitions';
 import { S3AccessLevel, S3Service } from '@gpe/backend-common/dist/aws/s3';
+import { ObjectStorageService } from '../../../shared/storage/object-storage.service';
+import { WebhooksService } from '../../../core/webhooks/webhooks.service';
+import { WebhookEvent } from '../../../core/webhooks/schemas/webhook-subscription.schema';
+import { OutboxService, OutboxTask } from '../../../core/outbox/outbox.service';
+import { OutboxMessageKind } from '../../../core/outbox/schemas/outbox-message.schema';
+import { imageReadyEvent, moderationRejectedEvent } from '../../../core/events/media-events';
+import { storageKeyFromUrl } from '../../../shared/utils/storage-key.util';
+import { imageStoredBytes } from '../../../shared/utils/storage-quota.util';
+import { IMAGE_FORMAT_MIME_TYPES, renditionFileName, resolveImageFormats } from '../../../shared/utils/image-format.util';
+import { ImageOutputFormat } from '../../../config/types';
+import { QuotaService } from '../../../core/quota/quota.service';
+import { ImageFraming } from '../../../shared/utils/image-crop.util';
+import { AssetDeletionService } from '../../../core/asset-deletion/asset-deletion.service';
+import { BatchUploadResponseDto } from '../dto/batch-upload-response.dto';
 
 interface ProcessedImageInfo {
+    format: ImageOutputFormat;
     buffer: Buffer;
     info: {
         width: number;
@@ -21,6 +37,14 @@ interface ProcessedImageInfo {
     };
 }
 
+/**
+ * Every format the main image and the resolutions were stored in
+ */
+interface RenditionFormats {
+    main?: Record<string, ImageFormatVersion>;
+    resolutions?: Record<string, Record<string, ImageFormatVersion>>;
+}
+
 interface UploadContext {
     userId: string;
     claimId: string;
@@ -30,12 +54,33 @@ interface UploadContext {
     mainImageInfo?: ProcessedImageInfo;
     mainImageUrl?: string;
     resolutionUrls?: Record<string, string>;
+    resolutionSizes?: Record<string, number>;
+    formats?: RenditionFormats;
+    original?: ImageOriginal;
+    framing?: ImageFraming; // Requested with the upload, then the one the renditions were cut with
     moderationResult?: ModerationResult;
     moderationWarning?: string;
 }
 
+/**
+ * Payload of a claim.update outbox task
+ */
+interface ClaimUpdateTask {
+    claimId: string;
+    status: ClaimStatus;
+    reason?: string;
+    errorCode?: ClaimErrorCode;
+    fileUrl?: string;
+    moderationMessage?: string;
+    fileMetadata?: any;
+    moderationResult?: ModerationResult;
+    notify?: WebhookEvent;
+    /** Storage folder of the upload attempt, removed once the update was applied */
+    folderPath?: string;
+}
+
 @Injectable()
-export class ImageUploadService {
+export class ImageUploadService implements OnModuleInit {
     private readonly logger = new Logger(ImageUploadService.name);
 
     constructor(
@@ -43,22 +88,37 @@ export class ImageUploadService {
         private readonly imageProcessorService: ImageProcessorService,
         private readonly uploadClaimService: UploadClaimService,
         private readonly moderationService: ModerationService,
+        private readonly objectStorageService: ObjectStorageService,
+        private readonly webhooksService: WebhooksService,
+        private readonly outboxService: OutboxService,
+        private readonly assetDeletionService: AssetDeletionService,
+        private readonly quotaService: QuotaService,
         @InjectModel(ImageAsset.name) private imageAssetModel: Model<ImageAsset>
     ) {
         this.logger.log('ImageUploadService initialized');
     }
 
+    /**
+     * Register the handlers of the side-effects this service stores in the outbox
+     */
+    onModuleInit(): void {
+        this.outboxService.registerHandler(OutboxMessageKind.CLAIM_UPDATE, payload => this.applyClaimUpdate(payload as ClaimUpdateTask));
+        this.outboxService.registerHandler(OutboxMessageKind.CLAIM_NOTIFICATION, payload => this.notifyClaimWebhooks(payload.event, payload.claimId));
+    }
+
     /**
      * Upload an image with processing using a valid claim
      * @param file The image file
      * @param claimId The claim ID for this upload
      * @param userId The ID of the user performing the upload
+     * @param framing Crop rectangle and/or focal point sent with the upload
      * @returns Observable with upload result
      */
     uploadImageWithClaim(
         file: Express.Multer.File,
         claimId: string,
-        userId: string
+        userId: string,
+        framing?: ImageFraming
     ): Observable<UploadResult> {
         this.logger.log(`Starting claim-based image upload: filename=${file.originalname}, claimId=${claimId}`);
 
@@ -79,7 +139,7 @@ export class ImageUploadService {
             }),
             switchMap(context => {
                 // Process everything in parallel - moderation, main image, and all resolutions
-                return this.runFullParallelProcessing(context);
+                return this.runFullParallelProcessing({ ...context, framing });
             }),
             switchMap(context => {
                 // After ALL processing is done, check if moderation failed
@@ -87,13 +147,12 @@ export class ImageUploadService {
                     this.logger.warn(`Content moderation detected issue: ${context.moderationResult.message}`);
 
                     // Handle moderation failure - update claim status and clean up all uploaded files
-                    this.handleModerationFailure(context.claimId, context.moderationResult, context.folderPath);
-
                     // Instead of throwing an error, return a rejection directly
-                    return of(new HttpException(
-                        'Content moderation failed',
-                        HttpStatus.METHOD_NOT_ALLOWED
-                    )).pipe(
+                    return from(this.handleModerationFailure(context.claimId, context.moderationResult, context.folderPath)).pipe(
+                        map(() => new HttpException(
+                            'Content moderation failed',
+                            HttpStatus.METHOD_NOT_ALLOWED
+                        )),
                         // Using mergeMap and throwError prevents the uncaught exception in logs
                         // while still returning proper HTTP 405 response
                         switchMap(error => throwError(() => error))
@@ -106,9 +165,12 @@ export class ImageUploadService {
             // Global error handling
             tap({
                 error: (error) => {
-                    // Only handle general upload errors, moderation is handled above
-                    if (!(error instanceof HttpException) && uploadContext) {
-                        this.handleUploadError(uploadContext.claimId, error);
+                    // Moderation rejections and claims cancelled while processing (409) are settled above,
+                    // any other error after the claim was taken fails it, including rejected images and crops
+                    const settled = error instanceof HttpException
+                        && [HttpStatus.METHOD_NOT_ALLOWED, HttpStatus.CONFLICT].includes(error.getStatus());
+                    if (uploadContext && !settled) {
+                        this.handleUploadError(uploadContext, error);
                     } else if (!(error instanceof HttpException)) {
                         this.logger.error(`Error during upload process: ${error.message}`, error.stack);
                     }
@@ -117,6 +179,86 @@ export class ImageUploadService {
         );
     }
 
+    /**
+     * Upload several images to the unused item claims of a batch claim, one after another.
+     * A failing file does not stop the others, its error is reported in the response and on its item claim.
+     * @param files The images to upload
+     * @param batchClaimId The batch claim ID
+     * @param userId The ID of the user performing the upload
+     * @returns Observable with the result of every file
+     */
+    uploadImagesWithBatchClaim(
+        files: Express.Multer.File[],
+        batchClaimId: string,
+        userId: string
+    ): Observable<BatchUploadResponseDto> {
+        this.logger.log(`Starting batch image upload: ${files.length} file(s), batchClaimId=${batchClaimId}`);
+
+        return from(this.uploadClaimService.getBatchItemsForUpload(batchClaimId, userId, files.length)).pipe(
+            switchMap(items => from(files.map((file, index) => ({ file, claimId: items[index].claimId })))),
+            // Sequential to keep memory bounded, every file runs the full image pipeline
+            concatMap(({ file, claimId }) => this.uploadImageWithClaim(file, claimId, userId).pipe(
+                map(result => ({ claimId, filename: file.originalname, result })),
+                catchError(error => of({ claimId, filename: file.originalname, error: error.message as string }))
+            )),
+            toArray(),
+            map(items => ({ batchClaimId, items }))
+        );
+    }
+
+    /**
+     * Complete a direct-to-S3 upload: pull the staged object and run it through the regular pipeline
+     * @param claimId The claim ID the presigned upload was issued for
+     * @param userId The ID of the user performing the upload
+     * @returns Observable with upload result
+     */
+    completeDirectUpload(claimId: string, userId: string): Observable<UploadResult> {
+        this.logger.log(`Completing direct upload for claim ${claimId}`);
+
+        return from(this.uploadClaimService.getClaim(claimId)).pipe(
+            switchMap(claim => {
+                if (String(claim.claimRequestorUserId) !== String(userId)) {
+                    this.logger.warn(`User ${userId} is not authorized to use claim ${claimId}`);
+                    return throwError(() => new ForbiddenException(`User ${userId} is not authorized to use claim ${claimId}`));
+                }
+
+                const stagingKey = claim.directUploadKey;
+                if (!stagingKey) {
+                    return throwError(() => new BadRequestException(`No presigned upload was issued for claim ${claimId}`));
+                }
+
+                return from(this.objectStorageService.getObjectBuffer(stagingKey)).pipe(
+                    catchError(error => {
+                        if (error instanceof NotFoundException) {
+                            return throwError(() => new BadRequestException(`Image for claim ${claimId} has not been uploaded yet`));
+                        }
+                        return throwError(() => error);
+                    }),
+                    switchMap(buffer => {
+                        const metadata = claim.uploadMetadata || {};
+                        const file = {
+                            fieldname: 'file',
+                            originalname: metadata.filename || claimId,
+                            encoding: '7bit',
+                            mimetype: metadata.filetype,
+                            size: buffer.length,
+                            buffer,
+                        } as Express.Multer.File;
+
+                        return this.uploadImageWithClaim(file, claimId, userId);
+                    }),
+                    // The staged object is kept after a failure so the claim can be retried, the claim
+                    // sweeper removes it once the claim can no longer be completed
+                    tap(() => {
+                        this.objectStorageService.deleteObject(stagingKey).catch(error => {
+                            this.logger.error(`Failed to delete staged upload ${stagingKey}: ${error.message}`, error.stack);
+                        });
+                    })
+                );
+            })
+        );
+    }
+
     /**
      * Run all processing and uploads in parallel (moderation, main image, and all resolutions)
      */
@@ -141,21 +283,30 @@ export class ImageUploadService {
         // Get image options from profile
         const imageOptions: ImageOptions = this.extractImageOptions(profile);
 
+        // Every rendition is derived from the sanitized original, which is kept privately
+        const sanitized$ = this.imageProcessorService.sanitizeOriginal(context.file.buffer).pipe(shareReplay(1));
+        const original$ = sanitized$.pipe(switchMap(original => this.storeOriginal(context, original)));
+
+        // The main image and all resolutions are cut from the same region of the original
+        const framing$ = sanitized$.pipe(
+            switchMap(original => this.imageProcessorService.resolveFraming(original.buffer, imageOptions, context.framing)),
+            shareReplay(1)
+        );
+        const source$ = forkJoin({ original: sanitized$, framing: framing$ });
+
         // Process the main image
-        const mainImage$ = this.imageProcessorService.processImage(context.file.buffer, imageOptions).pipe(
-            switchMap(mainImageInfo => {
+        const mainImage$ = source$.pipe(
+            switchMap(({ original, framing }) => this.imageProcessorService.processImage(original.buffer, { ...imageOptions, crop: framing.crop })),
+            switchMap(encodings => {
+                const mainImageInfo = encodings[0];
                 this.logger.log(`Main image processing completed: width=${mainImageInfo.info.width}px, height=${mainImageInfo.info.height}px`);
 
-                // Upload the main image as index.webp in the folder
-                const mainFilePath = `${context.folderPath}index.webp`;
-                this.logger.log(`Uploading main image to: ${mainFilePath}`);
-
-                return this.awsS3Service.uploadFile(mainFilePath, mainImageInfo.buffer, 'image/webp', {
-                    acl: S3AccessLevel.PUBLIC_READ,
-                }).pipe(
-                    map(mainImageUrl => ({
+                // Upload the main image as index.<extension> in the folder, once per format
+                return this.uploadEncodings(context, 'index', encodings).pipe(
+                    map(formats => ({
                         mainImageInfo,
-                        mainImageUrl
+                        mainImageUrl: formats[mainImageInfo.format].url,
+                        formats
                     }))
                 );
             })
@@ -163,22 +314,33 @@ export class ImageUploadService {
 
         // Process all additional resolutions in parallel
         const resolutions = profile.constraints?.resolutions || [];
-        let resolutions$ = of({ resolutionUrls: {} as Record<string, string> });
+        let resolutions$ = of({
+            resolutionUrls: {} as Record<string, string>,
+            resolutionSizes: {} as Record<string, number>,
+            resolutionFormats: {} as Record<string, Record<string, ImageFormatVersion>>
+        });
 
         if (resolutions.length > 0) {
             this.logger.log(`Processing ${resolutions.length} additional resolutions for profile ${context.profileName}`);
 
-            const resolutionObservables = resolutions.map(resolution =>
-                this.processAndUploadResolution(context, resolution)
-            );
-
-            resolutions$ = forkJoin(resolutionObservables).pipe(
+            resolutions$ = source$.pipe(
+                switchMap(({ original, framing }) => forkJoin(resolutions.map(resolution =>
+                    this.processAndUploadResolution(context, original.buffer, {
+                        ...resolution,
+                        formats: resolveImageFormats(resolution.formats, profile.constraints.outputFormats),
+                        crop: framing.crop
+                    })
+                ))),
                 map(results => {
                     const resolutionUrls: Record<string, string> = {};
+                    const resolutionSizes: Record<string, number> = {};
+                    const resolutionFormats: Record<string, Record<string, ImageFormatVersion>> = {};
                     results.forEach(item => {
                         resolutionUrls[item.suffix] = item.url;
+                        resolutionSizes[item.suffix] = item.size;
+                        resolutionFormats[item.suffix] = item.formats;
                     });
-                    return { resolutionUrls };
+                    return { resolutionUrls, resolutionSizes, resolutionFormats };
                 })
             );
         }
@@ -187,43 +349,55 @@ export class ImageUploadService {
         return forkJoin({
             moderationResult: moderationCheck$,
             mainImage: mainImage$,
-            resolutions: resolutions$
+            resolutions: resolutions$,
+            original: original$,
+            framing: framing$
         }).pipe(
-            map(({ moderationResult, mainImage, resolutions }) => {
+            map(({ moderationResult, mainImage, resolutions, original, framing }) => {
                 return {
                     ...context,
                     moderationResult,
+                    original,
+                    framing,
                     mainImageInfo: mainImage.mainImageInfo,
                     mainImageUrl: mainImage.mainImageUrl,
-                    resolutionUrls: resolutions.resolutionUrls
+                    resolutionUrls: resolutions.resolutionUrls,
+                    resolutionSizes: resolutions.resolutionSizes,
+                    formats: { main: mainImage.formats, resolutions: resolutions.resolutionFormats }
                 };
             })
         );
     }
 
     /**
-     * Handle moderation failure by cleaning up uploads and updating claim
+     * Handle moderation failure by cleaning up uploads and updating claim.
+     * Both side-effects are stored in the outbox first, so they still happen if the process dies.
      */
-    private handleModerationFailure(claimId: string, moderationResult: ModerationResult, folderPath?: string): void {
+    private async handleModerationFailure(claimId: string, moderationResult: ModerationResult, folderPath?: string): Promise<void> {
         this.logger.warn(`Handling moderation failure for claim ${claimId}`);
 
         // Update claim to failed status with moderation error message
         // Using 'failed' status instead of 'moderation_rejected' to make it retryable
-        this.uploadClaimService.updateClaimStatus(
+        const tasks: OutboxTask[] = [this.claimUpdateTask({
             claimId,
-            ClaimStatus.FAILED,
-            'Content moderation failed',
-            undefined,
-            moderationResult.message
-        ).catch(error => {
-            this.logger.error(`Failed to update claim status: ${error.message}`, error.stack);
-        })
+            status: ClaimStatus.FAILED,
+            reason: 'Content moderation failed',
+            errorCode: ClaimErrorCode.MODERATION_FAILED,
+            moderationMessage: moderationResult.message,
+            moderationResult,
+            notify: WebhookEvent.CLAIM_FAILED,
+        })];
 
         // Delete uploaded files if a folder path was specified
         if (folderPath) {
-            this.awsS3Service.deleteFolder(folderPath).catch(error => {
-                this.logger.error(`Failed to delete uploaded files after moderation failure: ${error.message}`, error.stack);
-            });
+            tasks.push({ kind: OutboxMessageKind.S3_CLEANUP, payload: { folderPath } });
+        }
+
+        try {
+            const taskIds = await this.outboxService.withTransaction(session => this.outboxService.enqueueTasks(tasks, session));
+            await this.outboxService.processNow(taskIds);
+        } catch (error) {
+            this.logger.error(`Failed to store moderation failure side-effects for claim ${claimId}: ${error.message}`, error.stack);
         }
     }
 
@@ -263,19 +437,23 @@ export class ImageUploadService {
 
                 this.logger.log(`Using profile ${profileName} for upload`);
 
-                // Update claim status to processing
-                return from(this.uploadClaimService.updateClaimStatus(claimId, ClaimStatus.PROCESSING)).pipe(
-                    map(() => {
-                        // Determine S3 prefix based on profile
-                        let s3Prefix = 'images/';
-                        if (profile.s3 && profile.s3.prefix) {
-                            s3Prefix = profile.s3.prefix;
-                        }
+                // Determine S3 prefix based on profile
+                let s3Prefix = 'images/';
+                if (profile.s3 && profile.s3.prefix) {
+                    s3Prefix = profile.s3.prefix;
+                }
 
-                        // Generate a UUID for the hash folder
-                        const folderPath = `${s3Prefix}${uuidv4()}/`;
-                        this.logger.log(`Generated folder path for S3: ${folderPath}`);
+                // Generate a UUID for the hash folder
+                const folderPath = `${s3Prefix}${uuidv4()}/`;
+                this.logger.log(`Generated folder path for S3: ${folderPath}`);
 
+                // Update claim status to processing, the folder is recorded so a cancelled claim can clean it up
+                return from(this.uploadClaimService.updateClaimStatus(claimId, ClaimStatus.PROCESSING, undefined, undefined, undefined, undefined, {
+                    actor: ClaimActor.USER,
+                    actorId: userId,
+                    storageFolder: folderPath,
+                })).pipe(
+                    map(() => {
                         // Return the upload context
                         return {
                             userId,
@@ -291,23 +469,61 @@ export class ImageUploadService {
     }
 
     /**
-     * Process and upload a single resolution
+     * Stores the sanitized original next to the renditions. Unlike them it is not publicly readable.
      */
-    private processAndUploadResolution(context: UploadContext, resolution: any): Observable<{ suffix: string, url: string }> {
-        return this.imageProcessorService.processImageAtResolution(context.file.buffer, resolution).pipe(
-            switchMap(({ buffer: resBuffer, info }) => {
-                const resolutionPath = `${context.folderPath}${resolution.suffix}.webp`;
-                this.logger.log(`Uploading ${resolution.suffix} version to: ${resolutionPath}`);
-
-                return this.awsS3Service.uploadFile(resolutionPath, resBuffer, 'image/webp', {
-                    acl: S3AccessLevel.PUBLIC_READ,
-                }).pipe(
-                    map(url => ({
-                        suffix: resolution.suffix,
-                        url
-                    }))
-                );
-            })
+    private storeOriginal(context: UploadContext, original: SanitizedOriginal): Observable<ImageOriginal> {
+        const storageKey = `${context.folderPath}original.${original.encoding.extension}`;
+        this.logger.log(`Uploading sanitized original to: ${storageKey}`);
+
+        return from(this.objectStorageService.putObject(storageKey, original.buffer, original.encoding.mimeType)).pipe(
+            map(() => ({
+                storageKey,
+                format: original.encoding.format,
+                mimeType: original.encoding.mimeType,
+                width: original.info.width,
+                height: original.info.height,
+                size: original.buffer.length
+            }))
+        );
+    }
+
+    /**
+     * Process and upload a single resolution in all its formats
+     * @param source The sanitized original
+     * @returns URL and size of the primary format, and every stored format
+     */
+    private processAndUploadResolution(
+        context: UploadContext,
+        source: Buffer,
+        resolution: ResolutionOption
+    ): Observable<{ suffix: string, url: string, size: number, formats: Record<string, ImageFormatVersion> }> {
+        return this.imageProcessorService.processImageAtResolution(source, resolution).pipe(
+            switchMap(encodings => this.uploadEncodings(context, resolution.suffix, encodings).pipe(
+                map(formats => ({
+                    suffix: resolution.suffix,
+                    url: formats[encodings[0].format].url,
+                    size: encodings[0].buffer.length,
+                    formats
+                }))
+            ))
+        );
+    }
+
+    /**
+     * Uploads every format of a rendition next to each other, e.g. small.webp, small.avif and small.jpg
+     */
+    private uploadEncodings(context: UploadContext, name: string, encodings: EncodedImage[]): Observable<Record<string, ImageFormatVersion>> {
+        return forkJoin(encodings.map(({ format, buffer }) => {
+            const path = `${context.folderPath}${renditionFileName(name, format)}`;
+            this.logger.log(`Uploading ${name} version as ${format} to: ${path}`);
+
+            return this.awsS3Service.uploadFile(path, buffer, IMAGE_FORMAT_MIME_TYPES[format], {
+                acl: S3AccessLevel.PUBLIC_READ,
+            }).pipe(
+                map((url: string) => ({ format, url, storageKey: storageKeyFromUrl(url), size: buffer.length }))
+            );
+        })).pipe(
+            map(versions => Object.fromEntries(versions.map(({ format, ...version }) => [format, version])))
         );
     }
 
@@ -315,7 +531,7 @@ export class ImageUploadService {
      * Creates records and finalizes the upload
      */
     private finalizeUpload(context: UploadContext): Observable<UploadResult> {
-        const { mainImageInfo, mainImageUrl, userId, claimId, profileName, resolutionUrls, file, moderationWarning } = context;
+        const { mainImageInfo, mainImageUrl, userId, claimId, profileName, resolutionUrls, resolutionSizes, formats, original, framing, file, moderationWarning } = context;
 
         // Handle case where mainImageInfo might be undefined
         if (!mainImageInfo || !mainImageUrl) {
@@ -323,33 +539,42 @@ export class ImageUploadService {
         }
 
         // Create metadata for the upload
-        const fileMetadata = this.createFileMetadata(mainImageInfo, file.originalname, resolutionUrls);
+        const fileMetadata = this.createFileMetadata(mainImageInfo, file.originalname, resolutionUrls, formats);
 
         // Include moderation warning in metadata if available
         if (moderationWarning) {
             fileMetadata.moderationWarning = moderationWarning;
         }
 
-        // Update claim status
-        this.uploadClaimService.updateClaimStatus(
+        // Claim update, committed together with the upload record. Webhooks are notified once both are
+        // written, so the payload contains the image
+        const claimUpdate: ClaimUpdateTask = {
             claimId,
-            ClaimStatus.READY,
-            'File successfully uploaded and processed',
-            mainImageUrl,
-            undefined,
-            fileMetadata
-        ).catch(error => {
-            this.logger.error(`Failed to update claim status: ${error.message}`, error.stack);
-        })
+            status: ClaimStatus.READY,
+            reason: 'File successfully uploaded and processed',
+            fileUrl: mainImageUrl,
+            fileMetadata,
+            notify: WebhookEvent.CLAIM_READY,
+        };
 
         // Create and save upload record, then return result with id
-        return from(this.createAndSaveRecord(userId, profileName, mainImageInfo, mainImageUrl, file.originalname, claimId, resolutionUrls, moderationWarning)).pipe(
+        return from(this.createAndSaveRecord(userId, profileName, mainImageInfo, mainImageUrl, file.originalname, claimId, resolutionUrls, moderationWarning, claimUpdate, resolutionSizes, formats, original, framing)).pipe(
             map(record => {
-                const result = this.createUploadResult('image-' + record._id, mainImageInfo, mainImageUrl, resolutionUrls);
+                const result = this.createUploadResult('image-' + record._id, mainImageInfo, mainImageUrl, resolutionUrls, formats);
                 if (moderationWarning) {
                     result.moderationWarning = moderationWarning;
                 }
                 return result;
+            }),
+            catchError(error => {
+                if (error instanceof ConflictException) {
+                    // The claim was cancelled while processing, remove what was uploaded after its cleanup ran
+                    return from(this.outboxService.enqueueTasks([{ kind: OutboxMessageKind.S3_CLEANUP, payload: { folderPath: context.folderPath } }])).pipe(
+                        switchMap(taskIds => from(this.outboxService.processNow(taskIds))),
+                        switchMap(() => throwError(() => error))
+                    );
+                }
+                return throwError(() => error);
             })
         );
     }
@@ -368,6 +593,8 @@ export class ImageUploadService {
             if (constraints.maxHeight) imageOptions.maxHeight = constraints.maxHeight;
             if (constraints.aspectRatio) imageOptions.aspectRatio = constraints.aspectRatio;
             if (constraints.allowedDeviation) imageOptions.allowedDeviation = constraints.allowedDeviation;
+            if (constraints.cropMode) imageOptions.cropMode = constraints.cropMode;
+            imageOptions.formats = resolveImageFormats(constraints.outputFormats);
         }
 
         return imageOptions;
@@ -376,11 +603,16 @@ export class ImageUploadService {
     /**
      * Creates file metadata object
      */
-    private createFileMetadata(mainImageInfo: ProcessedImageInfo, originalFilename: string, resolutionUrls?: Record<string, string>): any {
+    private createFileMetadata(
+        mainImageInfo: ProcessedImageInfo,
+        originalFilename: string,
+        resolutionUrls?: Record<string, string>,
+        formats?: RenditionFormats
+    ): any {
         const metadata: any = {
             width: mainImageInfo.info.width,
             height: mainImageInfo.info.height,
-            format: 'webp',
+            format: mainImageInfo.format,
             size: mainImageInfo.buffer.length,
             originalFilename
         };
@@ -388,6 +620,7 @@ export class ImageUploadService {
         if (resolutionUrls) {
             metadata.resolutions = resolutionUrls;
         }
+        Object.assign(metadata, this.formatUrlMaps(formats));
 
         return metadata;
     }
@@ -402,8 +635,13 @@ export class ImageUploadService {
         mainImageUrl: string,
         originalFilename: string,
         claimId: string,
-        resolutionUrls?: Record<string, string>,
-        moderationWarning?: string
+        resolutionUrls: Record<string, string> | undefined,
+        moderationWarning: string | undefined,
+        claimUpdate: ClaimUpdateTask,
+        resolutionSizes: Record<string, number> = {},
+        formats: RenditionFormats = {},
+        original?: ImageOriginal,
+        framing: ImageFraming = {}
     ): Promise<any> {
         const recordData: any = {
             userId,
@@ -412,7 +650,11 @@ export class ImageUploadService {
             fileSize: mainImageInfo.buffer.length,
             width: mainImageInfo.info.width,
             height: mainImageInfo.info.height,
-            format: 'webp',
+            format: mainImageInfo.format,
+            formats: formats.main,
+            original,
+            crop: framing.crop,
+            focalPoint: framing.focalPoint,
             originalFilename,
             claimId: claimId
         };
@@ -429,13 +671,14 @@ export class ImageUploadService {
                         height = resolutionConfig.height;
                     }
                 }
-                const urlParts = url.split('/');
-                const storageKey = urlParts.slice(3).join('/');
+                const storageKey = storageKeyFromUrl(url);
                 recordData.resizedVersions[suffix] = {
                     url: url,
                     width: width,
                     height: height,
-                    storageKey: storageKey
+                    storageKey: storageKey,
+                    size: resolutionSizes[suffix],
+                    formats: formats.resolutions?.[suffix]
                 };
             });
         }
@@ -445,7 +688,27 @@ export class ImageUploadService {
         }
         const record = new this.imageAssetModel(recordData);
         try {
-            await record.save();
+            // The claim becomes ready together with the asset record and the media.image.ready event. A claim
+            // that is no longer processing (e.g. cancelled meanwhile) aborts the transaction with a ConflictException
+            const { claim, taskIds } = await this.outboxService.withTransaction(async session => {
+                const { status, reason, fileUrl, fileMetadata, notify } = claimUpdate;
+                const updatedClaim = await this.uploadClaimService.updateClaimStatus(claimId, status, reason, fileUrl, undefined, fileMetadata, {
+                    expectedStatus: ClaimStatus.PROCESSING,
+                    session,
+                });
+                await record.save({ session });
+                await this.quotaService.recordAssetStored(userId, imageStoredBytes(record), session);
+                await this.outboxService.enqueue([imageReadyEvent(record)], session);
+                const notificationIds = await this.outboxService.enqueueTasks(
+                    notify ? [{ kind: OutboxMessageKind.CLAIM_NOTIFICATION, payload: { event: notify, claimId } }] : [],
+                    session
+                );
+                return { claim: updatedClaim, taskIds: notificationIds };
+            });
+            await this.outboxService.processNow(taskIds);
+            await this.uploadClaimService.commitRateLimitSlot(claim).catch(error => {
+                this.logger.error(`Failed to commit the rate limit slot of claim ${claimId}: ${error.message}`, error.stack);
+            });
             return record;
         } catch (error) {
             this.logger.error(`Failed to save image asset record: ${error.message}`, error.stack);
@@ -460,7 +723,8 @@ export class ImageUploadService {
         id: string,
         mainImageInfo: ProcessedImageInfo,
         mainImageUrl: string,
-        resolutionUrls?: Record<string, string>
+        resolutionUrls?: Record<string, string>,
+        formats?: RenditionFormats
     ): UploadResult {
         const result: any = {
             id,
@@ -468,31 +732,93 @@ export class ImageUploadService {
             fileSize: mainImageInfo.buffer.length,
             width: mainImageInfo.info.width,
             height: mainImageInfo.info.height,
-            format: 'webp'
+            format: mainImageInfo.format
         };
         if (resolutionUrls) {
             result.resolutions = resolutionUrls;
         }
-        return result;
+        return Object.assign(result, this.formatUrlMaps(formats));
+    }
+
+    /**
+     * URLs of every format of the main image and the resolutions, keyed by format
+     */
+    private formatUrlMaps(formats?: RenditionFormats): Pick<UploadResult, 'formats' | 'resolutionFormats'> {
+        const urls = (versions: Record<string, ImageFormatVersion>) =>
+            Object.fromEntries(Object.entries(versions).map(([format, version]) => [format, version.url]));
+
+        return {
+            ...(formats?.main ? { formats: urls(formats.main) } : {}),
+            ...(formats?.resolutions ? {
+                resolutionFormats: Object.fromEntries(Object.entries(formats.resolutions).map(([suffix, versions]) => [suffix, urls(versions)]))
+            } : {}),
+        };
     }
 
     /**
      * Handles errors during upload process
      */
-    private handleUploadError(claimId: string, error: any): void {
+    private handleUploadError(context: UploadContext, error: any): void {
+        const { claimId, folderPath } = context;
         const errorMsg = error.message || 'Unknown error during image processing';
         this.logger.error(`Error processing image for claim ${claimId}: ${errorMsg}`, error.stack);
 
-        // Update claim to failed status with error message
-        this.uploadClaimService.updateClaimStatus(
+        // Update claim to failed status with error message, a retry uploads to a new folder
+        const claimUpdate = this.claimUpdateTask({
             claimId,
-            ClaimStatus.FAILED,
-            'File processing error.',
-            undefined,
-            errorMsg
-        ).catch(updateError => {
-            this.logger.error(`Failed to update claim failure status: ${updateError.message}`, updateError.stack);
+            status: ClaimStatus.FAILED,
+            reason: 'File processing error.',
+            errorCode: ClaimErrorCode.PROCESSING_ERROR,
+            moderationMessage: errorMsg,
+            notify: WebhookEvent.CLAIM_FAILED,
+            folderPath,
         });
+
+        this.outboxService.enqueueTasks([claimUpdate])
+            .then(taskIds => this.outboxService.processNow(taskIds))
+            .catch(updateError => {
+                this.logger.error(`Failed to store claim failure update: ${updateError.message}`, updateError.stack);
+            });
+    }
+
+    private claimUpdateTask(update: ClaimUpdateTask): OutboxTask {
+        return { kind: OutboxMessageKind.CLAIM_UPDATE, payload: update };
+    }
+
+    /**
+     * Outbox handler: applies a claim update and schedules the webhook notification with it
+     */
+    private async applyClaimUpdate(update: ClaimUpdateTask): Promise<void> {
+        const { claimId, status, reason, errorCode, fileUrl, moderationMessage, fileMetadata, moderationResult, notify, folderPath } = update;
+
+        try {
+            await this.uploadClaimService.updateClaimStatus(claimId, status, reason, fileUrl, moderationMessage, fileMetadata, {
+                events: claim => moderationResult ? [moderationRejectedEvent(claim, moderationResult)] : [],
+                tasks: () => {
+                    const tasks: OutboxTask[] = [];
+                    if (notify) tasks.push({ kind: OutboxMessageKind.CLAIM_NOTIFICATION, payload: { event: notify, claimId } });
+                    if (folderPath) tasks.push({ kind: OutboxMessageKind.S3_CLEANUP, payload: { folderPath } });
+                    return tasks;
+                },
+                errorCode,
+            });
+        } catch (error) {
+            // Retrying cannot make an illegal transition valid, e.g. a failure reported for a claim that is already final
+            if (error instanceof InvalidClaimTransitionException) {
+                this.logger.warn(`Dropping claim update: ${error.message}`);
+                return;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Outbox handler: sends a claim lifecycle event to the webhook subscribers of the claim's upload profile
+     */
+    private async notifyClaimWebhooks(event: WebhookEvent, claimId: string): Promise<void> {
+        const claim = await this.uploadClaimService.getClaim(claimId);
+        const response = await this.uploadClaimService.formatClaimResponse(claim);
+        await this.webhooksService.dispatch(event, claim.uploadProfile, response);
     }
 
     /**
@@ -539,4 +865,18 @@ export class ImageUploadService {
         // Return the complete asset with all raw data
         return asset;
     }
+
+    /**
+     * Delete an image asset, but only if the user is the owner
+     * @param assetId The ID of the image asset to delete
+     * @param userId The ID of the user making the request
+     */
+    async deleteImageAssetForOwner(assetId: string, userId: string): Promise<void> {
+        const asset = await this.getImageAssetForOwner(assetId, userId);
+        if (!asset) {
+            throw new NotFoundException(`Image asset with ID ${assetId} not found`);
+        }
+
+        await this.assetDeletionService.deleteImage(asset, userId);
+    }
 }
\ No newline at end of file
@@ -0,0 +1,276 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { firstValueFrom } from 'rxjs';
+import config from '../../../config';
+import { UploadChunk } from '../schemas/upload-chunk.schema';
+import { ImageUploadService } from './image-upload.service';
+import { UploadClaimService } from '../../upload-claim/upload-claim.service';
+import { UploadClaim } from '../../upload-claim/schemas/upload-claim.schema';
+import { UploadResult } from '../../../shared/interfaces/upload-result.interface';
+
+export interface ResumableUploadProgress {
+  offset: number;
+  length: number;
+  expiresAt?: Date;
+  completed: boolean;
+  result?: UploadResult;
+}
+
+/**
+ * Implements tus 1.0 style resumable uploads on top of upload claims.
+ * Chunks are persisted in Mongo and the regular ImageUploadService pipeline
+ * runs once the final offset is reached.
+ */
+@Injectable()
+export class ResumableUploadService {
+  private readonly logger = new Logger(ResumableUploadService.name);
+
+  constructor(
+    private readonly imageUploadService: ImageUploadService,
+    private readonly uploadClaimService: UploadClaimService,
+    @InjectModel(UploadChunk.name) private uploadChunkModel: Model<UploadChunk>,
+  ) {
+    this.logger.log('ResumableUploadService initialized');
+  }
+
+  /**
+   * Creates a resumable upload for a claim, discarding any previously received chunks
+   * @param claimId The claim ID to upload for
+   * @param userId The ID of the user performing the upload
+   * @param uploadLength Total size of the file in bytes
+   * @param metadata Decoded Upload-Metadata, must contain the filetype
+   * @returns The initial upload progress
+   */
+  async createUpload(
+    claimId: string,
+    userId: string,
+    uploadLength: number,
+    metadata: Record<string, string>,
+  ): Promise<ResumableUploadProgress> {
+    this.logger.log(
+      `Creating resumable upload: claimId=${claimId}, length=${uploadLength}`,
+    );
+
+    const claim = await this.uploadClaimService.validateClaimForUpload(claimId);
+    this.assertClaimOwner(claim, userId);
+
+    const profile = config.media.uploadProfiles.find(
+      (p) => p.name === claim.uploadProfile,
+    );
+    if (!profile) {
+      throw new BadRequestException(
+        `Upload profile ${claim.uploadProfile} not found`,
+      );
+    }
+
+    const maxSize = Math.min(
+      profile.constraints.maxSize,
+      config.media.maxFileSize,
+    );
+    if (uploadLength > maxSize) {
+      throw new PayloadTooLargeException(
+        `Upload-Length ${uploadLength} exceeds the maximum of ${maxSize} bytes`,
+      );
+    }
+
+    if (!metadata.filetype) {
+      throw new BadRequestException(
+        'Upload-Metadata must include the filetype',
+      );
+    }
+    if (!config.media.allowedMimeTypes.includes(metadata.filetype)) {
+      throw new UnsupportedMediaTypeException(
+        `File type ${metadata.filetype} not allowed. Allowed types: ${config.media.allowedMimeTypes.join(', ')}`,
+      );
+    }
+
+    // Creating an upload again restarts it from zero
+    await this.uploadChunkModel.deleteMany({ claimId }).exec();
+    const updatedClaim = await this.uploadClaimService.startResumableUpload(
+      claimId,
+      uploadLength,
+      metadata,
+    );
+
+    return this.toProgress(updatedClaim);
+  }
+
+  /**
+   * Gets the current offset of a resumable upload
+   * @param claimId The claim ID of the upload
+   * @param userId The ID of the user performing the upload
+   * @returns The current upload progress
+   */
+  async getUploadProgress(
+    claimId: string,
+    userId: string,
+  ): Promise<ResumableUploadProgress> {
+    const claim = await this.uploadClaimService.getClaim(claimId);
+    this.assertClaimOwner(claim, userId);
+    this.assertUploadStarted(claim);
+
+    return this.toProgress(claim);
+  }
+
+  /**
+   * Appends a chunk to a resumable upload and runs the image pipeline once the upload is complete
+   * @param claimId The claim ID of the upload
+   * @param userId The ID of the user performing the upload
+   * @param offset The offset the client claims to write at (Upload-Offset)
+   * @param chunk The chunk bytes
+   * @returns The upload progress after the chunk was stored
+   */
+  async appendChunk(
+    claimId: string,
+    userId: string,
+    offset: number,
+    chunk: Buffer,
+  ): Promise<ResumableUploadProgress> {
+    const claim = await this.uploadClaimService.validateClaimForUpload(claimId);
+    this.assertClaimOwner(claim, userId);
+    this.assertUploadStarted(claim);
+
+    const currentOffset = claim.uploadOffset ?? 0;
+    if (offset !== currentOffset) {
+      throw new ConflictException(
+        `Upload-Offset ${offset} does not match the current offset ${currentOffset}`,
+      );
+    }
+
+    if (!chunk.length) {
+      return this.toProgress(claim);
+    }
+
+    const nextOffset = offset + chunk.length;
+    if (nextOffset > claim.uploadLength!) {
+      throw new BadRequestException(
+        `Chunk exceeds the announced Upload-Length of ${claim.uploadLength} bytes`,
+      );
+    }
+
+    try {
+      await this.uploadChunkModel.create({
+        claimId,
+        offset,
+        data: chunk,
+        expiresAt: claim.expiresAt,
+      });
+    } catch (error) {
+      // Unique index on (claimId, offset) - another request already wrote this chunk
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException(
+          `A chunk at offset ${offset} was already received`,
+        );
+      }
+      throw error;
+    }
+
+    const updatedClaim = await this.uploadClaimService.advanceUploadOffset(
+      claimId,
+      offset,
+      nextOffset,
+    );
+    if (!updatedClaim) {
+      await this.uploadChunkModel.deleteOne({ claimId, offset }).exec();
+      throw new ConflictException(
+        `Upload offset for claim ${claimId} changed concurrently`,
+      );
+    }
+
+    this.logger.log(
+      `Stored chunk for claim ${claimId}: ${nextOffset}/${claim.uploadLength} bytes`,
+    );
+
+    if (nextOffset < claim.uploadLength!) {
+      return this.toProgress(updatedClaim);
+    }
+
+    const result = await this.completeUpload(updatedClaim, userId);
+    return { ...this.toProgress(updatedClaim), completed: true, result };
+  }
+
+  /**
+   * Assembles all chunks and hands the file over to the regular image upload pipeline
+   */
+  private async completeUpload(
+    claim: UploadClaim,
+    userId: string,
+  ): Promise<UploadResult> {
+    this.logger.log(
+      `All bytes received for claim ${claim.claimId}, starting image processing`,
+    );
+
+    const chunks = await this.uploadChunkModel
+      .find({ claimId: claim.claimId })
+      .sort({ offset: 1 })
+      .exec();
+    const buffer = Buffer.concat(chunks.map((chunk) => chunk.data));
+
+    const metadata = claim.uploadMetadata || {};
+    const file = {
+      fieldname: 'file',
+      originalname: metadata.filename || `${claim.claimId}`,
+      encoding: '7bit',
+      mimetype: metadata.filetype,
+      size: buffer.length,
+      buffer,
+    } as Express.Multer.File;
+
+    let result: UploadResult;
+    try {
+      result = await firstValueFrom(
+        this.imageUploadService.uploadImageWithClaim(
+          file,
+          claim.claimId,
+          userId,
+        ),
+      );
+    } catch (error) {
+      // The chunks are dropped either way, so a retry of the claim has to send the file again from the start
+      await this.uploadChunkModel.deleteMany({ claimId: claim.claimId }).exec();
+      await this.uploadClaimService.rewindUploadOffset(claim.claimId);
+      throw error;
+    }
+
+    await this.uploadChunkModel.deleteMany({ claimId: claim.claimId }).exec();
+    return result;
+  }
+
+  private assertClaimOwner(claim: UploadClaim, userId: string): void {
+    if (String(claim.claimRequestorUserId) !== String(userId)) {
+      this.logger.warn(
+        `User ${userId} is not authorized to use claim ${claim.claimId}`,
+      );
+      throw new ForbiddenException(
+        `User ${userId} is not authorized to use claim ${claim.claimId}`,
+      );
+    }
+  }
+
+  private assertUploadStarted(claim: UploadClaim): void {
+    if (claim.uploadLength === undefined || claim.uploadLength === null) {
+      throw new NotFoundException(
+        `No resumable upload was created for claim ${claim.claimId}`,
+      );
+    }
+  }
+
+  private toProgress(claim: UploadClaim): ResumableUploadProgress {
+    return {
+      offset: claim.uploadOffset ?? 0,
+      length: claim.uploadLength!,
+      expiresAt: claim.expiresAt,
+      completed: false,
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { ClaimStatus } from './schemas/upload-claim.schema';
+import { aggregateBatchStatus, countClaimStatuses } from './claim-batch';
+
+describe('claim batch', () => {
+  it('should count the statuses of the items', () => {
+    expect(
+      countClaimStatuses([
+        ClaimStatus.READY,
+        ClaimStatus.PENDING,
+        ClaimStatus.READY,
+      ]),
+    ).toEqual({
+      [ClaimStatus.READY]: 2,
+      [ClaimStatus.PENDING]: 1,
+    });
+  });
+
+  it('should be pending until the first item starts', () => {
+    expect(
+      aggregateBatchStatus([ClaimStatus.PENDING, ClaimStatus.PENDING]),
+    ).toBe(ClaimStatus.PENDING);
+  });
+
+  it('should be processing while any item is open', () => {
+    expect(aggregateBatchStatus([ClaimStatus.READY, ClaimStatus.PENDING])).toBe(
+      ClaimStatus.PROCESSING,
+    );
+    expect(
+      aggregateBatchStatus([ClaimStatus.FAILED, ClaimStatus.PROCESSING]),
+    ).toBe(ClaimStatus.PROCESSING);
+  });
+
+  it('should succeed once every item succeeded', () => {
+    expect(aggregateBatchStatus([ClaimStatus.READY, ClaimStatus.READY])).toBe(
+      ClaimStatus.READY,
+    );
+    expect(
+      aggregateBatchStatus([ClaimStatus.READY, ClaimStatus.UPLOADED]),
+    ).toBe(ClaimStatus.UPLOADED);
+  });
+
+  it('should fail if any finished item did not succeed', () => {
+    expect(
+      aggregateBatchStatus([
+        ClaimStatus.READY,
+        ClaimStatus.MODERATION_REJECTED,
+      ]),
+    ).toBe(ClaimStatus.FAILED);
+    expect(aggregateBatchStatus([ClaimStatus.READY, ClaimStatus.EXPIRED])).toBe(
+      ClaimStatus.FAILED,
+    );
+  });
+
+  it('should ignore cancelled items unless every item was cancelled', () => {
+    expect(
+      aggregateBatchStatus([ClaimStatus.READY, ClaimStatus.CANCELLED]),
+    ).toBe(ClaimStatus.READY);
+    expect(
+      aggregateBatchStatus([ClaimStatus.PENDING, ClaimStatus.CANCELLED]),
+    ).toBe(ClaimStatus.PENDING);
+    expect(
+      aggregateBatchStatus([ClaimStatus.CANCELLED, ClaimStatus.CANCELLED]),
+    ).toBe(ClaimStatus.CANCELLED);
+  });
+
+  it('should be expired if every item expired', () => {
+    expect(
+      aggregateBatchStatus([ClaimStatus.EXPIRED, ClaimStatus.EXPIRED]),
+    ).toBe(ClaimStatus.EXPIRED);
+  });
+});
@@ -0,0 +1,44 @@
+import { ClaimStatus } from './schemas/upload-claim.schema';
+
+export type ClaimStatusCounts = Partial<Record<ClaimStatus, number>>;
+
+export function countClaimStatuses(statuses: ClaimStatus[]): ClaimStatusCounts {
+  const counts: ClaimStatusCounts = {};
+  for (const status of statuses) {
+    counts[status] = (counts[status] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Derives the status of a batch claim from the statuses of its items:
+ * pending until an item starts, processing while any item is still open,
+ * ready/uploaded once every item that was not cancelled succeeded, expired or cancelled
+ * if every item expired or was cancelled, and failed otherwise.
+ */
+export function aggregateBatchStatus(statuses: ClaimStatus[]): ClaimStatus {
+  const counts = countClaimStatuses(statuses);
+  const count = (status: ClaimStatus) => counts[status] ?? 0;
+  // Cancelled items released their slot, the rest of the batch decides the outcome
+  const active = statuses.length - count(ClaimStatus.CANCELLED);
+
+  if (statuses.length && !active) {
+    return ClaimStatus.CANCELLED;
+  }
+  if (count(ClaimStatus.PENDING) === active) {
+    return ClaimStatus.PENDING;
+  }
+  if (count(ClaimStatus.PENDING) || count(ClaimStatus.PROCESSING)) {
+    return ClaimStatus.PROCESSING;
+  }
+  if (count(ClaimStatus.READY) === active) {
+    return ClaimStatus.READY;
+  }
+  if (count(ClaimStatus.READY) + count(ClaimStatus.UPLOADED) === active) {
+    return ClaimStatus.UPLOADED;
+  }
+  if (count(ClaimStatus.EXPIRED) === active) {
+    return ClaimStatus.EXPIRED;
+  }
+  return ClaimStatus.FAILED;
+}
@@ -0,0 +1,200 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { UploadClaim, ClaimStatus } from './schemas/upload-claim.schema';
+import {
+  CLAIM_CANCELLED_REASON,
+  UploadClaimService,
+} from './upload-claim.service';
+import { ClaimActor, isClaimTransitionAllowed } from './claim-transitions';
+import { ClaimResponseDto } from './dto/claim-response.dto';
+import { ImageAsset } from '../../shared/schemas/image-asset.schema';
+import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { OutboxTask } from '../../core/outbox/outbox.service';
+import { OutboxMessageKind } from '../../core/outbox/schemas/outbox-message.schema';
+import { WebhookEvent } from '../../core/webhooks/schemas/webhook-subscription.schema';
+
+/**
+ * Releases claims their owner abandoned: the claim is cancelled, anything that was already
+ * uploaded for it is removed and the rate limit slot it consumed is given back.
+ */
+@Injectable()
+export class ClaimCancellationService {
+  private readonly logger = new Logger(ClaimCancellationService.name);
+
+  constructor(
+    @InjectModel(UploadClaim.name) private uploadClaimModel: Model<UploadClaim>,
+    @InjectModel(ImageAsset.name) private imageAssetModel: Model<ImageAsset>,
+    @InjectModel(VideoAsset.name) private videoAssetModel: Model<VideoAsset>,
+    private readonly uploadClaimService: UploadClaimService,
+  ) {}
+
+  /**
+   * Cancels a claim, or every unfinished item of a batch claim
+   * @param claimId The ID of the claim to cancel
+   * @param userId The ID of the requesting user, must be the claim requestor
+   * @returns Promise with the cancelled claim
+   * @throws ForbiddenException if the claim belongs to another user
+   * @throws InvalidClaimTransitionException if the claim is already finished
+   */
+  async cancelClaim(
+    claimId: string,
+    userId: string,
+  ): Promise<ClaimResponseDto> {
+    const claim = await this.uploadClaimService.getClaim(claimId);
+    if (String(claim.claimRequestorUserId) !== String(userId)) {
+      this.logger.warn(
+        `User ${userId} is not authorized to cancel claim ${claimId}`,
+      );
+      throw new ForbiddenException(
+        `User ${userId} is not authorized to cancel claim ${claimId}`,
+      );
+    }
+
+    if (claim.batchSize) {
+      await this.cancelBatchItems(claim, userId);
+    } else {
+      await this.cancelSingleClaim(claim, userId);
+    }
+
+    return this.uploadClaimService.formatClaimResponse(
+      await this.uploadClaimService.getClaim(claimId),
+    );
+  }
+
+  private async cancelBatchItems(
+    batchClaim: UploadClaim,
+    userId: string,
+  ): Promise<void> {
+    const items = await this.uploadClaimModel
+      .find({ parentClaimId: batchClaim.claimId })
+      .exec();
+    const open = items.filter(
+      (item) =>
+        item.status !== ClaimStatus.CANCELLED &&
+        isClaimTransitionAllowed(item.status, ClaimStatus.CANCELLED),
+    );
+
+    for (const item of open) {
+      try {
+        await this.cancelSingleClaim(item, userId);
+      } catch (error) {
+        if (error instanceof ConflictException) {
+          // The item finished while the batch was being cancelled
+          continue;
+        }
+        throw error;
+      }
+    }
+    this.logger.log(
+      `Cancelled ${open.length} open item(s) of batch claim ${batchClaim.claimId}`,
+    );
+  }
+
+  private async cancelSingleClaim(
+    claim: UploadClaim,
+    userId: string,
+  ): Promise<void> {
+    const { tasks, unusedDirectUpload } = await this.getCleanupTasks(
+      claim,
+      userId,
+    );
+
+    await this.uploadClaimService.updateClaimStatus(
+      claim.claimId,
+      ClaimStatus.CANCELLED,
+      CLAIM_CANCELLED_REASON,
+      undefined,
+      undefined,
+      undefined,
+      {
+        expectedStatus: claim.status,
+        actor: ClaimActor.USER,
+        actorId: userId,
+        tasks: () => tasks,
+      },
+    );
+    // The rate limit slot was released with the status change
+    this.logger.log(`Claim ${claim.claimId} cancelled by user ${userId}`);
+
+    if (unusedDirectUpload) {
+      await this.videoAssetModel
+        .updateOne(
+          { _id: unusedDirectUpload._id, muxAssetId: { $exists: false } },
+          { status: 'errored', errorMessage: 'The upload was cancelled' },
+        )
+        .exec();
+    }
+  }
+
+  /**
+   * Builds the claim.cancelled webhook and the removal of whatever was uploaded for a claim so far. The tasks
+   * are stored together with the cancellation, so the cleanup happens at least once even if a step fails or the process dies.
+   */
+  private async getCleanupTasks(
+    claim: UploadClaim,
+    userId: string,
+  ): Promise<{ tasks: OutboxTask[]; unusedDirectUpload?: VideoAsset }> {
+    const tasks: OutboxTask[] = [
+      {
+        kind: OutboxMessageKind.CLAIM_NOTIFICATION,
+        payload: {
+          event: WebhookEvent.CLAIM_CANCELLED,
+          claimId: claim.claimId,
+        },
+      },
+    ];
+    if (claim.storageFolder) {
+      tasks.push({
+        kind: OutboxMessageKind.S3_CLEANUP,
+        payload: { folderPath: claim.storageFolder },
+      });
+    }
+    if (claim.directUploadKey) {
+      tasks.push({
+        kind: OutboxMessageKind.S3_OBJECT_DELETE,
+        payload: { key: claim.directUploadKey },
+      });
+    }
+
+    const image = await this.imageAssetModel
+      .findOne({ claimId: claim.claimId })
+      .select('_id')
+      .exec();
+    if (image) {
+      tasks.push({
+        kind: OutboxMessageKind.ASSET_ERASE,
+        payload: {
+          assetId: `image-${image._id.toString()}`,
+          deletedBy: userId,
+        },
+      });
+    }
+
+    const video = await this.videoAssetModel
+      .findOne({ claimId: claim.claimId })
+      .exec();
+    if (video?.muxAssetId) {
+      // Mux already received the file
+      tasks.push({
+        kind: OutboxMessageKind.ASSET_ERASE,
+        payload: {
+          assetId: `video-${video._id.toString()}`,
+          deletedBy: userId,
+        },
+      });
+    } else if (video?.muxDirectUploadId) {
+      tasks.push({
+        kind: OutboxMessageKind.MUX_ASSET_DELETE,
+        payload: { muxDirectUploadId: video.muxDirectUploadId },
+      });
+      return { tasks, unusedDirectUpload: video };
+    }
+    return { tasks };
+  }
+}
@@ -0,0 +1,27 @@
+import { ClaimErrorCode } from './schemas/upload-claim.schema';
+import { canRetryClaim, isClaimErrorRetryable } from './claim-errors';
+
+describe('claim errors', () => {
+  it('should treat transient failures as retryable', () => {
+    expect(isClaimErrorRetryable(ClaimErrorCode.PROCESSING_ERROR)).toBe(true);
+    expect(isClaimErrorRetryable(ClaimErrorCode.PROCESSING_TIMEOUT)).toBe(true);
+  });
+
+  it('should not retry video processing or unknown failures', () => {
+    expect(isClaimErrorRetryable(ClaimErrorCode.VIDEO_PROCESSING_FAILED)).toBe(
+      false,
+    );
+    expect(isClaimErrorRetryable(ClaimErrorCode.UNKNOWN)).toBe(false);
+  });
+
+  it('should allow retries until the limit is reached', () => {
+    expect(canRetryClaim({ retryable: true, retryCount: 0 }, 3)).toBe(true);
+    expect(canRetryClaim({ retryable: true, retryCount: 2 }, 3)).toBe(true);
+    expect(canRetryClaim({ retryable: true, retryCount: 3 }, 3)).toBe(false);
+  });
+
+  it('should not allow retries of non-retryable failures', () => {
+    expect(canRetryClaim({ retryable: false, retryCount: 0 }, 3)).toBe(false);
+    expect(canRetryClaim({}, 3)).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+import { ClaimErrorCode } from './schemas/upload-claim.schema';
+
+/**
+ * Which failures can be fixed by uploading again. Video processing failures mean Mux could not read the file.
+ */
+export const CLAIM_ERROR_RETRYABLE: Readonly<Record<ClaimErrorCode, boolean>> =
+  {
+    [ClaimErrorCode.PROCESSING_ERROR]: true,
+    [ClaimErrorCode.MODERATION_FAILED]: true,
+    [ClaimErrorCode.VIDEO_UPLOAD_ERROR]: true,
+    [ClaimErrorCode.PROCESSING_TIMEOUT]: true,
+    [ClaimErrorCode.VIDEO_PROCESSING_FAILED]: false,
+    [ClaimErrorCode.UNKNOWN]: false,
+  };
+
+export function isClaimErrorRetryable(errorCode: ClaimErrorCode): boolean {
+  return CLAIM_ERROR_RETRYABLE[errorCode] ?? false;
+}
+
+/**
+ * Whether a failed claim may be uploaded again
+ * @param failure The retry state of the claim
+ * @param maxRetries The retry limit of the claim's upload profile
+ */
+export function canRetryClaim(
+  failure: { retryable?: boolean; retryCount?: number },
+  maxRetries: number,
+): boolean {
+  return !!failure.retryable && (failure.retryCount ?? 0) < maxRetries;
+}
@@ -0,0 +1,81 @@
+import { findClaimExpectationViolation } from './claim-expectations';
+
+describe('claim expectations', () => {
+  const imageConstraints = {
+    maxSize: 1000,
+    allowedMimeTypes: ['image/jpeg', 'image/png'],
+  };
+  const videoConstraints = {
+    maxSize: 5000,
+    allowedFormats: ['mp4', 'mov'],
+    allowedContextKeys: ['courseId', 'lessonId'],
+  };
+
+  it('should accept expectations within the profile limits', () => {
+    expect(
+      findClaimExpectationViolation(
+        { mimeType: 'image/png', fileSize: 1000, filename: 'avatar.png' },
+        imageConstraints,
+      ),
+    ).toBeNull();
+    expect(
+      findClaimExpectationViolation(
+        {
+          mimeType: 'video/quicktime',
+          filename: 'lesson.MOV',
+          context: { courseId: 'c1', lessonId: 3 },
+        },
+        videoConstraints,
+      ),
+    ).toBeNull();
+  });
+
+  it('should accept claims without expectations', () => {
+    expect(findClaimExpectationViolation({}, videoConstraints)).toBeNull();
+  });
+
+  it('should reject files larger than the profile allows', () => {
+    expect(
+      findClaimExpectationViolation({ fileSize: 1001 }, imageConstraints),
+    ).toContain('exceeds the maximum of 1000 bytes');
+  });
+
+  it('should reject MIME types the profile does not allow', () => {
+    expect(
+      findClaimExpectationViolation(
+        { mimeType: 'image/gif' },
+        imageConstraints,
+      ),
+    ).toContain('image/gif not allowed');
+    expect(
+      findClaimExpectationViolation(
+        { mimeType: 'video/webm' },
+        videoConstraints,
+      ),
+    ).toContain('video/webm not allowed');
+  });
+
+  it('should reject video filenames with an extension outside the allowed formats', () => {
+    expect(
+      findClaimExpectationViolation(
+        { filename: 'lesson.avi' },
+        videoConstraints,
+      ),
+    ).toContain('.avi not allowed');
+  });
+
+  it('should reject unknown context keys and nested context values', () => {
+    expect(
+      findClaimExpectationViolation(
+        { context: { chapterId: 'x' } },
+        videoConstraints,
+      ),
+    ).toContain("'chapterId' not allowed");
+    expect(
+      findClaimExpectationViolation(
+        { context: { courseId: { $ne: null } } },
+        videoConstraints,
+      ),
+    ).toContain('must be a string, number or boolean');
+  });
+});
@@ -0,0 +1,88 @@
+import { extname } from 'path';
+
+// MIME types of the video formats upload profiles can allow
+export const VIDEO_FORMAT_MIME_TYPES: Readonly<Record<string, string>> = {
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  avi: 'video/x-msvideo',
+  webm: 'video/webm',
+};
+
+/**
+ * What the client announced about the file it is going to upload for a claim
+ */
+export interface ClaimExpectations {
+  mimeType?: string;
+  fileSize?: number;
+  filename?: string;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Limits of an upload profile the expectations are checked against, unset limits are not checked
+ */
+export interface ClaimUploadConstraints {
+  maxSize?: number;
+  allowedMimeTypes?: string[];
+  /** File extensions, used for video profiles */
+  allowedFormats?: string[];
+  /** Keys the context may contain */
+  allowedContextKeys?: string[];
+}
+
+/**
+ * Checks the announced file against the limits of the upload profile
+ * @returns Why the expectations are not allowed, or null if they are
+ */
+export function findClaimExpectationViolation(
+  expectations: ClaimExpectations,
+  constraints: ClaimUploadConstraints,
+): string | null {
+  const { mimeType, fileSize, filename, context } = expectations;
+
+  if (
+    fileSize !== undefined &&
+    constraints.maxSize !== undefined &&
+    fileSize > constraints.maxSize
+  ) {
+    return `File size ${fileSize} exceeds the maximum of ${constraints.maxSize} bytes`;
+  }
+
+  if (
+    mimeType &&
+    constraints.allowedMimeTypes &&
+    !constraints.allowedMimeTypes.includes(mimeType)
+  ) {
+    return `File type ${mimeType} not allowed. Allowed types: ${constraints.allowedMimeTypes.join(', ')}`;
+  }
+
+  if (constraints.allowedFormats) {
+    const allowedMimeTypes = constraints.allowedFormats
+      .map((format) => VIDEO_FORMAT_MIME_TYPES[format])
+      .filter(Boolean);
+    if (mimeType && !allowedMimeTypes.includes(mimeType)) {
+      return `File type ${mimeType} not allowed. Allowed formats: ${constraints.allowedFormats.join(', ')}`;
+    }
+
+    const extension = filename ? extname(filename).slice(1).toLowerCase() : '';
+    if (extension && !constraints.allowedFormats.includes(extension)) {
+      return `File extension .${extension} not allowed. Allowed formats: ${constraints.allowedFormats.join(', ')}`;
+    }
+  }
+
+  if (context) {
+    for (const [key, value] of Object.entries(context)) {
+      if (
+        constraints.allowedContextKeys &&
+        !constraints.allowedContextKeys.includes(key)
+      ) {
+        return `Context key '${key}' not allowed. Allowed keys: ${constraints.allowedContextKeys.join(', ')}`;
+      }
+      if (!['string', 'number', 'boolean'].includes(typeof value)) {
+        return `Context value of '${key}' must be a string, number or boolean`;
+      }
+    }
+  }
+
+  return null;
+}
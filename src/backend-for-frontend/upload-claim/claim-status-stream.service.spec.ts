@@ -0,0 +1,205 @@
+import { EventEmitter } from 'events';
+import {
+  BadRequestException,
+  MessageEvent,
+  NotFoundException,
+} from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Observable, filter, firstValueFrom, take, toArray } from 'rxjs';
+import config from '../../config';
+import { ClaimStatusStreamService } from './claim-status-stream.service';
+import { ClaimStatus, UploadClaim } from './schemas/upload-claim.schema';
+import { UploadClaimService } from './upload-claim.service';
+
+const USER_ID = 'user-1';
+
+describe('ClaimStatusStreamService', () => {
+  let service: ClaimStatusStreamService;
+  let changeStream: EventEmitter & { close: jest.Mock };
+  let uploadClaimModel: { watch: jest.Mock; hydrate: jest.Mock };
+  let uploadClaimService: {
+    getClaim: jest.Mock;
+    formatClaimResponse: jest.Mock;
+  };
+
+  const claims: Record<string, Partial<UploadClaim>> = {
+    a: {
+      claimId: 'a',
+      claimRequestorUserId: USER_ID,
+      status: ClaimStatus.PENDING,
+    },
+    b: {
+      claimId: 'b',
+      claimRequestorUserId: USER_ID,
+      status: ClaimStatus.PROCESSING,
+    },
+    foreign: {
+      claimId: 'foreign',
+      claimRequestorUserId: 'user-2',
+      status: ClaimStatus.PENDING,
+    },
+  };
+
+  // Status and error events only, heartbeats are left out
+  const collect = (events$: Observable<MessageEvent>, count: number) =>
+    firstValueFrom(
+      events$.pipe(
+        filter((event) => event.type !== 'heartbeat'),
+        take(count),
+        toArray(),
+      ),
+    );
+
+  beforeEach(async () => {
+    changeStream = Object.assign(new EventEmitter(), {
+      close: jest.fn().mockResolvedValue(undefined),
+    });
+    uploadClaimModel = {
+      watch: jest.fn().mockReturnValue(changeStream),
+      hydrate: jest.fn((document: UploadClaim) => document),
+    };
+    uploadClaimService = {
+      getClaim: jest.fn((claimId: string) =>
+        claims[claimId]
+          ? Promise.resolve(claims[claimId])
+          : Promise.reject(
+              new NotFoundException(`Claim with ID ${claimId} not found`),
+            ),
+      ),
+      formatClaimResponse: jest.fn((claim: UploadClaim) =>
+        Promise.resolve({ claimId: claim.claimId, status: claim.status }),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClaimStatusStreamService,
+        {
+          provide: getModelToken(UploadClaim.name),
+          useValue: uploadClaimModel,
+        },
+        { provide: UploadClaimService, useValue: uploadClaimService },
+      ],
+    }).compile();
+
+    service = module.get<ClaimStatusStreamService>(ClaimStatusStreamService);
+  });
+
+  it('should start with the current status of every claim', async () => {
+    const events = await collect(
+      service.streamClaimStatus(['a', 'b'], USER_ID),
+      2,
+    );
+
+    expect(events).toEqual(
+      expect.arrayContaining([
+        {
+          type: 'claim-status',
+          id: 'a:pending',
+          data: { claimId: 'a', status: ClaimStatus.PENDING },
+        },
+        {
+          type: 'claim-status',
+          id: 'b:processing',
+          data: { claimId: 'b', status: ClaimStatus.PROCESSING },
+        },
+      ]),
+    );
+  });
+
+  it('should report an unreadable claim and keep streaming the others', async () => {
+    const events = collect(
+      service.streamClaimStatus(['missing', 'a'], USER_ID),
+      3,
+    );
+    changeStream.emit('change', {
+      operationType: 'update',
+      fullDocument: {
+        claimId: 'a',
+        claimRequestorUserId: USER_ID,
+        status: ClaimStatus.PROCESSING,
+      },
+    });
+
+    expect(await events).toEqual(
+      expect.arrayContaining([
+        {
+          type: 'claim-error',
+          id: 'missing:error',
+          data: {
+            claimId: 'missing',
+            statusCode: 404,
+            message: 'Claim with ID missing not found',
+          },
+        },
+        expect.objectContaining({ type: 'claim-status', id: 'a:pending' }),
+        expect.objectContaining({ type: 'claim-status', id: 'a:processing' }),
+      ]),
+    );
+  });
+
+  it('should neither report nor forward claims of other users', async () => {
+    const events = collect(service.streamClaimStatus(['foreign'], USER_ID), 1);
+    changeStream.emit('change', {
+      operationType: 'update',
+      fullDocument: { ...claims.foreign, status: ClaimStatus.PROCESSING },
+    });
+
+    expect(await events).toEqual([
+      {
+        type: 'claim-error',
+        id: 'foreign:error',
+        data: {
+          claimId: 'foreign',
+          statusCode: 403,
+          message: `User ${USER_ID} is not authorized to view claim foreign`,
+        },
+      },
+    ]);
+    expect(uploadClaimService.formatClaimResponse).not.toHaveBeenCalled();
+  });
+
+  it('should only forward transitions of the watched claims', async () => {
+    const events = collect(service.streamClaimStatus(['a'], USER_ID), 2);
+    changeStream.emit('change', {
+      operationType: 'update',
+      fullDocument: {
+        claimId: 'b',
+        claimRequestorUserId: USER_ID,
+        status: ClaimStatus.FAILED,
+      },
+    });
+    changeStream.emit('change', {
+      operationType: 'update',
+      fullDocument: {
+        claimId: 'a',
+        claimRequestorUserId: USER_ID,
+        status: ClaimStatus.FAILED,
+      },
+    });
+
+    expect((await events).map((event) => event.id).sort()).toEqual([
+      'a:failed',
+      'a:pending',
+    ]);
+  });
+
+  it('should close the change stream once the last client disconnected', async () => {
+    await collect(service.streamClaimStatus(['a'], USER_ID), 1);
+
+    expect(uploadClaimModel.watch).toHaveBeenCalledTimes(1);
+    expect(changeStream.close).toHaveBeenCalled();
+  });
+
+  it('should refuse to watch more claims than allowed', () => {
+    const claimIds = Array.from(
+      { length: config.claims.statusStream.maxClaimsPerStream + 1 },
+      (_, index) => `claim-${index}`,
+    );
+
+    expect(() => service.streamClaimStatus(claimIds, USER_ID)).toThrow(
+      BadRequestException,
+    );
+  });
+});
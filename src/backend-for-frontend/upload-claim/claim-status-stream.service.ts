@@ -0,0 +1,214 @@
+import {
+  Injectable,
+  Logger,
+  MessageEvent,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, mongo } from 'mongoose';
+import {
+  Observable,
+  catchError,
+  concatMap,
+  filter,
+  from,
+  interval,
+  map,
+  merge,
+  mergeMap,
+  of,
+  retry,
+  share,
+  timer,
+} from 'rxjs';
+import { UploadClaim } from './schemas/upload-claim.schema';
+import { UploadClaimService } from './upload-claim.service';
+import config from '../../config';
+
+const CHANGE_STREAM_RETRY_DELAY_MS = 5000;
+
+// A claim to report the status of, or an event that is sent as is
+type StreamItem = { claim: UploadClaim } | { event: MessageEvent };
+
+/**
+ * Streams claim status transitions to SSE clients.
+ *
+ * Status changes are read from a Mongo change stream on the claims collection, so a
+ * client connected to one replica also receives transitions written by any other replica.
+ * A single change stream is shared by all open connections of this instance.
+ */
+@Injectable()
+export class ClaimStatusStreamService {
+  private readonly logger = new Logger(ClaimStatusStreamService.name);
+  private readonly statusChanges$: Observable<UploadClaim>;
+
+  constructor(
+    @InjectModel(UploadClaim.name) private uploadClaimModel: Model<UploadClaim>,
+    private readonly uploadClaimService: UploadClaimService,
+  ) {
+    this.statusChanges$ = this.watchStatusChanges().pipe(
+      retry({ delay: () => timer(CHANGE_STREAM_RETRY_DELAY_MS) }),
+      share(),
+    );
+    this.logger.log('ClaimStatusStreamService initialized');
+  }
+
+  /**
+   * Streams the current status and every following status transition of the given claims.
+   * Claims of other users are reported as a "claim-error" and never streamed.
+   * @param claimIds The claims to watch
+   * @param userId The authenticated user, only their claims are streamed
+   * @returns Observable of SSE message events carrying a ClaimResponseDto
+   */
+  streamClaimStatus(
+    claimIds: string[],
+    userId: string,
+  ): Observable<MessageEvent> {
+    const { maxClaimsPerStream, heartbeatIntervalMs } =
+      config.claims.statusStream;
+    if (claimIds.length === 0) {
+      throw new BadRequestException('At least one claimId is required');
+    }
+    if (claimIds.length > maxClaimsPerStream) {
+      throw new BadRequestException(
+        `Cannot watch more than ${maxClaimsPerStream} claims at once`,
+      );
+    }
+
+    this.logger.log(
+      `Opening status stream for claims of user ${userId}: ${claimIds.join(', ')}`,
+    );
+    const isOwnClaim = (claim: UploadClaim) =>
+      String(claim.claimRequestorUserId) === String(userId);
+
+    // Emit the current state first so clients never miss a transition that happened before connecting.
+    // A claim that cannot be read (e.g. an unknown ID) is reported on its own, the others keep streaming
+    const snapshot$ = from(claimIds).pipe(
+      mergeMap((claimId) =>
+        from(this.uploadClaimService.getClaim(claimId)).pipe(
+          map((claim): StreamItem => {
+            if (!isOwnClaim(claim)) {
+              throw new ForbiddenException(
+                `User ${userId} is not authorized to view claim ${claimId}`,
+              );
+            }
+            return { claim };
+          }),
+          catchError((error: Error) =>
+            of<StreamItem>({ event: this.toClaimErrorEvent(claimId, error) }),
+          ),
+        ),
+      ),
+    );
+
+    const transitions$ = this.statusChanges$.pipe(
+      filter((claim) => claimIds.includes(claim.claimId) && isOwnClaim(claim)),
+      map((claim): StreamItem => ({ claim })),
+    );
+
+    const statusEvents$ = merge(snapshot$, transitions$).pipe(
+      concatMap((item) =>
+        'event' in item
+          ? of(item.event)
+          : from(this.uploadClaimService.formatClaimResponse(item.claim)).pipe(
+              map((response) => ({
+                type: 'claim-status',
+                id: `${response.claimId}:${response.status}`,
+                data: response,
+              })),
+            ),
+      ),
+    );
+
+    const heartbeat$ = interval(heartbeatIntervalMs).pipe(
+      map(() => ({
+        type: 'heartbeat',
+        data: { timestamp: new Date().toISOString() },
+      })),
+    );
+
+    return merge(statusEvents$, heartbeat$);
+  }
+
+  private toClaimErrorEvent(claimId: string, error: Error): MessageEvent {
+    if (error instanceof HttpException) {
+      return {
+        type: 'claim-error',
+        id: `${claimId}:error`,
+        data: {
+          claimId,
+          statusCode: error.getStatus(),
+          message: error.message,
+        },
+      };
+    }
+    this.logger.error(
+      `Failed to read claim ${claimId} for the status stream: ${error.message}`,
+      error.stack,
+    );
+    const data = {
+      claimId,
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      message: 'Claim status could not be read',
+    };
+    return { type: 'claim-error', id: `${claimId}:error`, data };
+  }
+
+  /**
+   * Wraps a Mongo change stream that emits a claim whenever its status changed
+   */
+  private watchStatusChanges(): Observable<UploadClaim> {
+    return new Observable<UploadClaim>((subscriber) => {
+      this.logger.log('Opening claim change stream');
+
+      const changeStream = this.uploadClaimModel.watch<
+        UploadClaim,
+        mongo.ChangeStreamDocument<UploadClaim>
+      >(
+        [
+          {
+            $match: {
+              $or: [
+                { operationType: { $in: ['insert', 'replace'] } },
+                {
+                  operationType: 'update',
+                  'updateDescription.updatedFields.status': { $exists: true },
+                },
+              ],
+            },
+          },
+        ],
+        { fullDocument: 'updateLookup' },
+      );
+
+      changeStream.on(
+        'change',
+        (change: mongo.ChangeStreamDocument<UploadClaim>) => {
+          if ('fullDocument' in change && change.fullDocument) {
+            subscriber.next(this.uploadClaimModel.hydrate(change.fullDocument));
+          }
+        },
+      );
+      changeStream.on('error', (error) => {
+        this.logger.error(
+          `Claim change stream failed: ${error.message}`,
+          error.stack,
+        );
+        subscriber.error(error);
+      });
+
+      return () => {
+        this.logger.log('Closing claim change stream');
+        changeStream.close().catch((error: Error) => {
+          this.logger.error(
+            `Failed to close claim change stream: ${error.message}`,
+            error.stack,
+          );
+        });
+      };
+    });
+  }
+}
@@ -0,0 +1,316 @@
+import { ConflictException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import config from '../../config';
+import { ObjectStorageService } from '../../shared/storage/object-storage.service';
+import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { OutboxMessageKind } from '../../core/outbox/schemas/outbox-message.schema';
+import { WebhookEvent } from '../../core/webhooks/schemas/webhook-subscription.schema';
+import { ClaimSweeperService } from './claim-sweeper.service';
+import {
+  ClaimErrorCode,
+  ClaimStatus,
+  UploadClaim,
+} from './schemas/upload-claim.schema';
+import {
+  CLAIM_EXPIRED_REASON,
+  CLAIM_PROCESSING_TIMEOUT_REASON,
+  UpdateClaimStatusOptions,
+  UploadClaimService,
+} from './upload-claim.service';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+// Query of the claims of one profile (or of all unknown profiles) that are processing for too long
+interface ProcessingFilter {
+  status: ClaimStatus;
+  uploadProfile: string | { $nin: string[] };
+  $or: { processingStartedAt: { $lte: Date } }[];
+}
+
+// Arguments of UploadClaimService.updateClaimStatus
+type UpdateClaimStatusCall = [
+  string,
+  ClaimStatus,
+  string,
+  unknown,
+  unknown,
+  unknown,
+  UpdateClaimStatusOptions,
+];
+
+// Chainable stand-in for find().select().limit().exec()
+const query = <T>(result: T) => ({
+  select: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  exec: jest.fn().mockResolvedValue(result),
+});
+
+describe('ClaimSweeperService', () => {
+  let service: ClaimSweeperService;
+  let uploadClaimModel: { find: jest.Mock };
+  let videoAssetModel: { findOne: jest.Mock; updateOne: jest.Mock };
+  let uploadClaimService: { updateClaimStatus: jest.Mock };
+  let objectStorageService: {
+    listObjectPage: jest.Mock;
+    deleteObject: jest.Mock;
+  };
+
+  // Claims returned for the find() of a status, all other queries find nothing
+  const givenClaims = (
+    claims: Partial<Record<ClaimStatus, Partial<UploadClaim>[]>>,
+    staged: Partial<UploadClaim>[] = [],
+  ) => {
+    uploadClaimModel.find.mockImplementation((filter: Record<string, any>) =>
+      query(
+        filter.claimId ? staged : (claims[filter.status as ClaimStatus] ?? []),
+      ),
+    );
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+
+    uploadClaimModel = { find: jest.fn() };
+    videoAssetModel = {
+      findOne: jest
+        .fn()
+        .mockReturnValue({ exec: jest.fn().mockResolvedValue(null) }),
+      updateOne: jest
+        .fn()
+        .mockReturnValue({ exec: jest.fn().mockResolvedValue({}) }),
+    };
+    uploadClaimService = { updateClaimStatus: jest.fn().mockResolvedValue({}) };
+    objectStorageService = {
+      listObjectPage: jest
+        .fn()
+        .mockResolvedValue({ objects: [], isTruncated: false }),
+      deleteObject: jest.fn().mockResolvedValue(undefined),
+    };
+    givenClaims({});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClaimSweeperService,
+        {
+          provide: getModelToken(UploadClaim.name),
+          useValue: uploadClaimModel,
+        },
+        { provide: getModelToken(VideoAsset.name), useValue: videoAssetModel },
+        { provide: UploadClaimService, useValue: uploadClaimService },
+        { provide: ObjectStorageService, useValue: objectStorageService },
+      ],
+    }).compile();
+
+    service = module.get<ClaimSweeperService>(ClaimSweeperService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should expire due pending claims only if they are still pending', async () => {
+    givenClaims({
+      [ClaimStatus.PENDING]: [{ claimId: 'a' }, { claimId: 'b' }],
+    });
+    uploadClaimService.updateClaimStatus
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(
+        new ConflictException('Claim b is no longer pending'),
+      );
+
+    await expect(service.sweep()).resolves.toMatchObject({ expiredClaims: 1 });
+
+    expect(uploadClaimService.updateClaimStatus).toHaveBeenCalledTimes(2);
+    expect(uploadClaimService.updateClaimStatus).toHaveBeenCalledWith(
+      'a',
+      ClaimStatus.EXPIRED,
+      CLAIM_EXPIRED_REASON,
+      undefined,
+      undefined,
+      undefined,
+      expect.objectContaining({ expectedStatus: ClaimStatus.PENDING }),
+    );
+    const options = (
+      uploadClaimService.updateClaimStatus.mock
+        .calls[0] as UpdateClaimStatusCall
+    )[6];
+    expect(options.tasks!({ claimId: 'a' } as UploadClaim)).toEqual([
+      {
+        kind: OutboxMessageKind.CLAIM_NOTIFICATION,
+        payload: { event: WebhookEvent.CLAIM_EXPIRED, claimId: 'a' },
+      },
+    ]);
+  });
+
+  it('should use the processing timeout of every profile and the default for unknown profiles', async () => {
+    await service.sweep();
+
+    const processingFilters = uploadClaimModel.find.mock.calls
+      .map(([filter]) => filter as ProcessingFilter)
+      .filter((filter) => filter.status === ClaimStatus.PROCESSING);
+    const cutoffOf = (filter: ProcessingFilter) =>
+      filter.$or[0].processingStartedAt.$lte.getTime();
+
+    const courseContent = processingFilters.find(
+      (filter) => filter.uploadProfile === 'course_content',
+    )!;
+    expect(cutoffOf(courseContent)).toBe(NOW.getTime() - 24 * 60 * MINUTE_MS);
+
+    const profilePicture = processingFilters.find(
+      (filter) => filter.uploadProfile === 'profile_picture',
+    )!;
+    expect(cutoffOf(profilePicture)).toBe(
+      NOW.getTime() -
+        config.claims.sweeper.defaultProcessingTimeoutMinutes * MINUTE_MS,
+    );
+
+    const unknown = processingFilters.find(
+      (filter) => typeof filter.uploadProfile === 'object',
+    )!;
+    expect(unknown.uploadProfile).toHaveProperty(
+      '$nin',
+      expect.arrayContaining(['profile_picture', 'course_content']),
+    );
+    expect(cutoffOf(unknown)).toBe(
+      NOW.getTime() -
+        config.claims.sweeper.defaultProcessingTimeoutMinutes * MINUTE_MS,
+    );
+  });
+
+  it('should fail timed out claims with a retryable reason and cancel their unused Mux upload', async () => {
+    uploadClaimModel.find.mockImplementation((filter: Record<string, any>) =>
+      query(
+        filter.status === ClaimStatus.PROCESSING &&
+          filter.uploadProfile === 'course_content'
+          ? [{ claimId: 'c' }]
+          : [],
+      ),
+    );
+    videoAssetModel.findOne.mockReturnValue({
+      exec: jest
+        .fn()
+        .mockResolvedValue({ _id: 'video-1', muxDirectUploadId: 'upload-1' }),
+    });
+
+    await expect(service.sweep()).resolves.toMatchObject({
+      timedOutClaims: 1,
+    });
+
+    const [claimId, status, reason, , , , options] = uploadClaimService
+      .updateClaimStatus.mock.calls[0] as UpdateClaimStatusCall;
+    expect([claimId, status, reason]).toEqual([
+      'c',
+      ClaimStatus.FAILED,
+      CLAIM_PROCESSING_TIMEOUT_REASON,
+    ]);
+    expect(options).toEqual(
+      expect.objectContaining({
+        expectedStatus: ClaimStatus.PROCESSING,
+        errorCode: ClaimErrorCode.PROCESSING_TIMEOUT,
+      }),
+    );
+    expect(options.tasks!({ claimId: 'c' } as UploadClaim)).toEqual([
+      expect.objectContaining({ kind: OutboxMessageKind.CLAIM_NOTIFICATION }),
+      {
+        kind: OutboxMessageKind.MUX_ASSET_DELETE,
+        payload: { muxDirectUploadId: 'upload-1' },
+      },
+    ]);
+    expect(videoAssetModel.updateOne).toHaveBeenCalledWith(
+      { _id: 'video-1', muxAssetId: { $exists: false } },
+      expect.objectContaining({ status: 'errored' }),
+    );
+  });
+
+  it('should leave the Mux upload alone if the claim finished while it was swept', async () => {
+    uploadClaimModel.find.mockImplementation((filter: Record<string, any>) =>
+      query(
+        filter.status === ClaimStatus.PROCESSING &&
+          filter.uploadProfile === 'course_content'
+          ? [{ claimId: 'c' }]
+          : [],
+      ),
+    );
+    videoAssetModel.findOne.mockReturnValue({
+      exec: jest
+        .fn()
+        .mockResolvedValue({ _id: 'video-1', muxDirectUploadId: 'upload-1' }),
+    });
+    uploadClaimService.updateClaimStatus.mockRejectedValue(
+      new ConflictException('Claim c is no longer processing'),
+    );
+
+    await expect(service.sweep()).resolves.toMatchObject({
+      timedOutClaims: 0,
+    });
+    expect(videoAssetModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should delete old staged uploads of claims that can no longer be completed', async () => {
+    const { stagingPrefix, urlExpirySeconds } = config.media.directUpload;
+    const old = new Date(NOW.getTime() - (urlExpirySeconds + 60) * 1000);
+    objectStorageService.listObjectPage.mockResolvedValue({
+      objects: ['pending', 'retryable', 'ready', 'expired', 'unknown']
+        .map((claimId) => ({
+          key: `${stagingPrefix}${claimId}`,
+          size: 1,
+          lastModified: old,
+        }))
+        .concat({
+          key: `${stagingPrefix}uploading`,
+          size: 1,
+          lastModified: NOW,
+        }),
+      isTruncated: false,
+    });
+    givenClaims({}, [
+      { claimId: 'pending', status: ClaimStatus.PENDING },
+      { claimId: 'retryable', status: ClaimStatus.FAILED, retryable: true },
+      { claimId: 'ready', status: ClaimStatus.READY },
+      {
+        claimId: 'expired',
+        status: ClaimStatus.PENDING,
+        expiresAt: new Date(NOW.getTime() - MINUTE_MS),
+      },
+    ]);
+
+    await expect(service.sweep()).resolves.toMatchObject({
+      deletedStagedUploads: 3,
+    });
+
+    const deleted = objectStorageService.deleteObject.mock.calls.map(
+      ([key]) => key as string,
+    );
+    expect(deleted.sort()).toEqual([
+      `${stagingPrefix}expired`,
+      `${stagingPrefix}ready`,
+      `${stagingPrefix}unknown`,
+    ]);
+  });
+
+  it('should check one page of staged uploads per run and start over after the last one', async () => {
+    const { stagingPrefix } = config.media.directUpload;
+    const { batchSize } = config.claims.sweeper;
+    const page = (claimId: string, isTruncated: boolean) => ({
+      objects: [
+        { key: `${stagingPrefix}${claimId}`, size: 1, lastModified: NOW },
+      ],
+      isTruncated,
+    });
+    objectStorageService.listObjectPage
+      .mockResolvedValueOnce(page('a', true))
+      .mockResolvedValueOnce(page('b', false));
+
+    await service.sweep();
+    await service.sweep();
+    await service.sweep();
+
+    expect(objectStorageService.listObjectPage.mock.calls).toEqual([
+      [stagingPrefix, batchSize, undefined],
+      [stagingPrefix, batchSize, `${stagingPrefix}a`],
+      [stagingPrefix, batchSize, undefined],
+    ]);
+  });
+});
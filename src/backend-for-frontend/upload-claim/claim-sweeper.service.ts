@@ -0,0 +1,320 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Subscription } from 'rxjs';
+import {
+  UploadClaim,
+  ClaimStatus,
+  ClaimErrorCode,
+} from './schemas/upload-claim.schema';
+import {
+  CLAIM_EXPIRED_REASON,
+  CLAIM_PROCESSING_TIMEOUT_REASON,
+  UploadClaimService,
+} from './upload-claim.service';
+import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { OutboxTask } from '../../core/outbox/outbox.service';
+import { OutboxMessageKind } from '../../core/outbox/schemas/outbox-message.schema';
+import { WebhookEvent } from '../../core/webhooks/schemas/webhook-subscription.schema';
+import { ObjectStorageService } from '../../shared/storage/object-storage.service';
+import config from '../../config';
+import { startPolling } from '../../shared/utils/polling.util';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface ClaimSweepResult {
+  expiredClaims: number;
+  timedOutClaims: number;
+  deletedStagedUploads: number;
+}
+
+/**
+ * Periodically cleans up claims that would otherwise stay open forever:
+ * pending claims past expiresAt are marked expired, claims processing longer than the
+ * processing timeout of their profile are failed with a retryable reason and their
+ * unused Mux direct upload is cancelled. Staged direct uploads of claims that can no longer
+ * be completed are deleted, one page of the staging prefix per run.
+ */
+@Injectable()
+export class ClaimSweeperService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ClaimSweeperService.name);
+  private sweepSubscription?: Subscription;
+  // Last staged upload key checked, the next run continues after it
+  private stagedUploadCursor?: string;
+
+  constructor(
+    @InjectModel(UploadClaim.name) private uploadClaimModel: Model<UploadClaim>,
+    @InjectModel(VideoAsset.name) private videoAssetModel: Model<VideoAsset>,
+    private readonly uploadClaimService: UploadClaimService,
+    private readonly objectStorageService: ObjectStorageService,
+  ) {}
+
+  /**
+   * Start sweeping when the module starts
+   */
+  onModuleInit(): void {
+    this.sweepSubscription = startPolling(
+      config.claims.sweeper.intervalMs,
+      () => this.sweep(),
+      this.logger,
+      'Claim sweep',
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.sweepSubscription?.unsubscribe();
+  }
+
+  /**
+   * Expires and fails due claims and deletes their leftover staged uploads
+   * @returns What the run changed
+   */
+  async sweep(): Promise<ClaimSweepResult> {
+    const result: ClaimSweepResult = {
+      expiredClaims: await this.expirePendingClaims(),
+      timedOutClaims: await this.failTimedOutClaims(),
+      deletedStagedUploads: await this.deleteUnusableStagedUploads(),
+    };
+
+    const { expiredClaims, timedOutClaims, deletedStagedUploads } = result;
+    if (expiredClaims || timedOutClaims || deletedStagedUploads) {
+      this.logger.log(
+        `Claim sweep: ${expiredClaims} claim(s) expired, ${timedOutClaims} claim(s) timed out, ${deletedStagedUploads} staged upload(s) deleted`,
+      );
+    }
+    return result;
+  }
+
+  private async expirePendingClaims(): Promise<number> {
+    const claims = await this.uploadClaimModel
+      .find({
+        status: ClaimStatus.PENDING,
+        expiresAt: { $lte: new Date() },
+        // Batch claims have no status of their own, their items expire individually
+        batchSize: { $exists: false },
+      })
+      .select('claimId')
+      .limit(config.claims.sweeper.batchSize)
+      .exec();
+
+    let swept = 0;
+    for (const claim of claims) {
+      if (
+        await this.transition(
+          claim.claimId,
+          ClaimStatus.PENDING,
+          ClaimStatus.EXPIRED,
+          CLAIM_EXPIRED_REASON,
+          [
+            {
+              kind: OutboxMessageKind.CLAIM_NOTIFICATION,
+              payload: {
+                event: WebhookEvent.CLAIM_EXPIRED,
+                claimId: claim.claimId,
+              },
+            },
+          ],
+        )
+      ) {
+        swept++;
+      }
+    }
+    return swept;
+  }
+
+  private async failTimedOutClaims(): Promise<number> {
+    const { batchSize, defaultProcessingTimeoutMinutes } =
+      config.claims.sweeper;
+    const profiles = [...config.media.uploadProfiles, ...config.videoProfiles];
+
+    // One query per timeout; claims of unknown profiles use the default timeout
+    const selectors = [
+      ...profiles.map((profile) => ({
+        filter: { uploadProfile: profile.name },
+        timeoutMinutes:
+          profile.processingTimeoutMinutes ?? defaultProcessingTimeoutMinutes,
+      })),
+      {
+        filter: {
+          uploadProfile: { $nin: profiles.map((profile) => profile.name) },
+        },
+        timeoutMinutes: defaultProcessingTimeoutMinutes,
+      },
+    ];
+
+    let swept = 0;
+    for (const { filter, timeoutMinutes } of selectors) {
+      const cutoff = new Date(Date.now() - timeoutMinutes * MINUTE_MS);
+      const claims = await this.uploadClaimModel
+        .find({
+          ...filter,
+          status: ClaimStatus.PROCESSING,
+          $or: [
+            { processingStartedAt: { $lte: cutoff } },
+            // Claims that started processing before processingStartedAt was recorded
+            {
+              processingStartedAt: { $exists: false },
+              updatedAt: { $lte: cutoff },
+            },
+          ],
+        })
+        .select('claimId')
+        .limit(batchSize)
+        .exec();
+
+      for (const claim of claims) {
+        if (await this.failTimedOutClaim(claim.claimId)) {
+          swept++;
+        }
+      }
+    }
+    return swept;
+  }
+
+  /**
+   * Fails a stuck claim and cancels its Mux direct upload if Mux never received the file
+   */
+  private async failTimedOutClaim(claimId: string): Promise<boolean> {
+    const video = await this.videoAssetModel.findOne({ claimId }).exec();
+    const unusedDirectUploadId =
+      video && !video.muxAssetId ? video.muxDirectUploadId : undefined;
+
+    const tasks: OutboxTask[] = [
+      {
+        kind: OutboxMessageKind.CLAIM_NOTIFICATION,
+        payload: { event: WebhookEvent.CLAIM_FAILED, claimId },
+      },
+    ];
+    if (unusedDirectUploadId) {
+      tasks.push({
+        kind: OutboxMessageKind.MUX_ASSET_DELETE,
+        payload: { muxDirectUploadId: unusedDirectUploadId },
+      });
+    }
+
+    const failed = await this.transition(
+      claimId,
+      ClaimStatus.PROCESSING,
+      ClaimStatus.FAILED,
+      CLAIM_PROCESSING_TIMEOUT_REASON,
+      tasks,
+      ClaimErrorCode.PROCESSING_TIMEOUT,
+    );
+
+    if (failed && unusedDirectUploadId) {
+      await this.videoAssetModel
+        .updateOne(
+          { _id: video!._id, muxAssetId: { $exists: false } },
+          {
+            status: 'errored',
+            errorMessage:
+              'The direct upload was not used before the processing timeout',
+          },
+        )
+        .exec();
+      this.logger.log(
+        `Cancelling unused Mux direct upload ${unusedDirectUploadId} of claim ${claimId}`,
+      );
+    }
+    return failed;
+  }
+
+  /**
+   * Deletes staged direct uploads whose claim is gone, finished or can no longer be retried. Uploads are
+   * staged at <stagingPrefix><claimId>, objects younger than the presigned URL may still be uploading.
+   * Each run checks the next batchSize keys and starts over from the beginning after the last page.
+   * @returns Number of deleted objects
+   */
+  private async deleteUnusableStagedUploads(): Promise<number> {
+    const { stagingPrefix, urlExpirySeconds } = config.media.directUpload;
+    const cutoff = new Date(Date.now() - urlExpirySeconds * 1000);
+
+    const { objects, isTruncated } =
+      await this.objectStorageService.listObjectPage(
+        stagingPrefix,
+        config.claims.sweeper.batchSize,
+        this.stagedUploadCursor,
+      );
+    this.stagedUploadCursor = isTruncated ? objects.at(-1)?.key : undefined;
+
+    const staged = objects.filter((object) => object.lastModified <= cutoff);
+    if (!staged.length) return 0;
+
+    const claims = await this.uploadClaimModel
+      .find({
+        claimId: {
+          $in: staged.map((object) => object.key.slice(stagingPrefix.length)),
+        },
+      })
+      .select('claimId status retryable expiresAt')
+      .exec();
+    const claimsById = new Map(claims.map((claim) => [claim.claimId, claim]));
+
+    const unusable = staged.filter((object) => {
+      const claim = claimsById.get(object.key.slice(stagingPrefix.length));
+      return !claim || !this.canCompleteDirectUpload(claim);
+    });
+
+    for (const object of unusable) {
+      await this.objectStorageService.deleteObject(object.key);
+    }
+    return unusable.length;
+  }
+
+  /**
+   * Whether the upload of a claim may still be completed (or is being processed and may fail retryably)
+   */
+  private canCompleteDirectUpload(claim: UploadClaim): boolean {
+    if (claim.expiresAt && claim.expiresAt <= new Date()) return false;
+    return (
+      claim.status === ClaimStatus.PENDING ||
+      claim.status === ClaimStatus.PROCESSING ||
+      (claim.status === ClaimStatus.FAILED && !!claim.retryable)
+    );
+  }
+
+  /**
+   * Moves a claim to a new status unless it left the expected status in the meantime
+   * @returns Whether the claim was updated
+   */
+  private async transition(
+    claimId: string,
+    fromStatus: ClaimStatus,
+    toStatus: ClaimStatus,
+    reason: string,
+    tasks: OutboxTask[] = [],
+    errorCode?: ClaimErrorCode,
+  ): Promise<boolean> {
+    try {
+      await this.uploadClaimService.updateClaimStatus(
+        claimId,
+        toStatus,
+        reason,
+        undefined,
+        undefined,
+        undefined,
+        {
+          expectedStatus: fromStatus,
+          tasks: () => tasks,
+          errorCode,
+        },
+      );
+      this.logger.log(
+        `Claim ${claimId} moved from ${fromStatus} to ${toStatus}: ${reason}`,
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        // The upload progressed while the claim was being swept
+        return false;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { ClaimStatus } from './schemas/upload-claim.schema';
+import {
+  assertClaimTransition,
+  InvalidClaimTransitionException,
+  isClaimTransitionAllowed,
+} from './claim-transitions';
+
+describe('claim transitions', () => {
+  it('should allow the regular upload flow', () => {
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.PENDING, ClaimStatus.PROCESSING),
+    ).toBe(true);
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.PROCESSING, ClaimStatus.UPLOADED),
+    ).toBe(true);
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.PROCESSING, ClaimStatus.READY),
+    ).toBe(true);
+  });
+
+  it('should allow retrying a failed claim', () => {
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.FAILED, ClaimStatus.PROCESSING),
+    ).toBe(true);
+  });
+
+  it('should allow cancelling unfinished claims only', () => {
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.PENDING, ClaimStatus.CANCELLED),
+    ).toBe(true);
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.PROCESSING, ClaimStatus.CANCELLED),
+    ).toBe(true);
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.FAILED, ClaimStatus.CANCELLED),
+    ).toBe(true);
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.READY, ClaimStatus.CANCELLED),
+    ).toBe(false);
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.CANCELLED, ClaimStatus.PROCESSING),
+    ).toBe(false);
+  });
+
+  it('should allow updates that keep the status', () => {
+    expect(isClaimTransitionAllowed(ClaimStatus.READY, ClaimStatus.READY)).toBe(
+      true,
+    );
+  });
+
+  it('should not allow leaving a final status', () => {
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.READY, ClaimStatus.PROCESSING),
+    ).toBe(false);
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.UPLOADED, ClaimStatus.FAILED),
+    ).toBe(false);
+    expect(
+      isClaimTransitionAllowed(
+        ClaimStatus.MODERATION_REJECTED,
+        ClaimStatus.PROCESSING,
+      ),
+    ).toBe(false);
+    expect(
+      isClaimTransitionAllowed(ClaimStatus.EXPIRED, ClaimStatus.PENDING),
+    ).toBe(false);
+  });
+
+  it('should throw a typed error for illegal transitions', () => {
+    expect(() =>
+      assertClaimTransition('claim-1', ClaimStatus.READY, ClaimStatus.FAILED),
+    ).toThrow(InvalidClaimTransitionException);
+    expect(() =>
+      assertClaimTransition(
+        'claim-1',
+        ClaimStatus.PENDING,
+        ClaimStatus.PROCESSING,
+      ),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,76 @@
+import { ConflictException } from '@nestjs/common';
+import { ClaimStatus } from './schemas/upload-claim.schema';
+
+/**
+ * Who caused a claim status change
+ */
+export enum ClaimActor {
+  USER = 'user',
+  SYSTEM = 'system',
+  MUX = 'mux',
+}
+
+/**
+ * Which statuses may follow which. Updates that keep the status (e.g. redelivered events) are always allowed.
+ */
+export const CLAIM_TRANSITIONS: Readonly<
+  Record<ClaimStatus, readonly ClaimStatus[]>
+> = {
+  [ClaimStatus.PENDING]: [
+    ClaimStatus.PROCESSING,
+    ClaimStatus.FAILED,
+    ClaimStatus.EXPIRED,
+    ClaimStatus.CANCELLED,
+  ],
+  [ClaimStatus.PROCESSING]: [
+    ClaimStatus.UPLOADED,
+    ClaimStatus.READY,
+    ClaimStatus.FAILED,
+    ClaimStatus.MODERATION_REJECTED,
+    ClaimStatus.CANCELLED,
+  ],
+  // Retryable failures are uploaded again; Mux may still finish a video after its claim timed out
+  [ClaimStatus.FAILED]: [
+    ClaimStatus.PROCESSING,
+    ClaimStatus.READY,
+    ClaimStatus.CANCELLED,
+  ],
+  [ClaimStatus.UPLOADED]: [],
+  [ClaimStatus.READY]: [],
+  [ClaimStatus.MODERATION_REJECTED]: [],
+  [ClaimStatus.EXPIRED]: [],
+  [ClaimStatus.CANCELLED]: [],
+};
+
+export function isClaimTransitionAllowed(
+  from: ClaimStatus,
+  to: ClaimStatus,
+): boolean {
+  return from === to || CLAIM_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Thrown when a status change is not allowed by the transition table
+ */
+export class InvalidClaimTransitionException extends ConflictException {
+  constructor(
+    readonly claimId: string,
+    readonly from: ClaimStatus,
+    readonly to: ClaimStatus,
+  ) {
+    super(`Claim ${claimId} cannot move from ${from} to ${to}`);
+  }
+}
+
+/**
+ * @throws InvalidClaimTransitionException if the transition is not allowed
+ */
+export function assertClaimTransition(
+  claimId: string,
+  from: ClaimStatus,
+  to: ClaimStatus,
+): void {
+  if (!isClaimTransitionAllowed(from, to)) {
+    throw new InvalidClaimTransitionException(claimId, from, to);
+  }
+}
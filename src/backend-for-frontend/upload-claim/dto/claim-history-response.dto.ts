@@ -0,0 +1,68 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ClaimStatus } from '../schemas/upload-claim.schema';
+import { ClaimActor } from '../claim-transitions';
+
+export class ClaimStatusChangeDto {
+  @ApiProperty({
+    description: 'When the status changed',
+    example: '2025-01-01T12:00:00.000Z',
+  })
+  at: Date;
+
+  @ApiProperty({
+    description: 'Who caused the change',
+    enum: ClaimActor,
+    example: ClaimActor.USER,
+  })
+  actor: ClaimActor;
+
+  @ApiProperty({
+    description: 'User ID of the actor (if the actor is a user)',
+    example: 'user123',
+    required: false,
+  })
+  actorId?: string;
+
+  @ApiProperty({
+    description: 'Previous status, not set for the creation of the claim',
+    enum: ClaimStatus,
+    example: ClaimStatus.PENDING,
+    required: false,
+  })
+  from?: ClaimStatus;
+
+  @ApiProperty({
+    description: 'New status',
+    enum: ClaimStatus,
+    example: ClaimStatus.PROCESSING,
+  })
+  to: ClaimStatus;
+
+  @ApiProperty({
+    description: 'Reason for the change (if applicable)',
+    example: 'Processing timed out.',
+    required: false,
+  })
+  reason?: string;
+}
+
+export class ClaimHistoryResponseDto {
+  @ApiProperty({
+    description: 'Unique identifier for the claim',
+    example: 'claim123',
+  })
+  claimId: string;
+
+  @ApiProperty({
+    description: 'Current status of the claim',
+    enum: ClaimStatus,
+    example: ClaimStatus.READY,
+  })
+  status: ClaimStatus;
+
+  @ApiProperty({
+    description: 'Status changes, oldest first',
+    type: [ClaimStatusChangeDto],
+  })
+  history: ClaimStatusChangeDto[];
+}
@@ -1,8 +1,9 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { ClaimStatus } from '../schemas/upload-claim.schema';
-import { IsEnum, IsNotEmpty, IsOptional, IsString, IsUrl, IsObject } from 'class-validator';
+import { ClaimErrorCode, ClaimStatus } from '../schemas/upload-claim.schema';
+import { IsEnum, IsNotEmpty, IsOptional, IsString, IsUrl, IsObject, IsNumber, IsBoolean } from 'class-validator';
 import { ImageAsset } from '../../../shared/schemas/image-asset.schema';
 import { VideoAsset } from '../../../shared/schemas/video-asset.schema';
+import { ClaimTargetDto } from './create-claim.dto';
 
 // Interface for the image asset facade
 interface ImageAssetFacade extends Omit<ImageAsset, '_id'> {
@@ -14,6 +15,26 @@ interface VideoAssetFacade extends Omit<VideoAsset, '_id'> {
   id: string;
 }
 
+export class BatchClaimSummaryDto {
+  @ApiProperty({
+    description: 'Number of item claims in the batch',
+    example: 3,
+  })
+  size: number;
+
+  @ApiProperty({
+    description: 'Number of items per status',
+    example: { ready: 2, processing: 1 },
+  })
+  counts: Partial<Record<ClaimStatus, number>>;
+
+  @ApiProperty({
+    description: 'The item claims, ordered by their position in the batch',
+    type: () => [ClaimResponseDto],
+  })
+  items: ClaimResponseDto[];
+}
+
 export class ClaimResponseDto {
   @ApiProperty({
     description: 'Unique identifier for the claim',
@@ -26,9 +47,9 @@ export class ClaimResponseDto {
   @ApiProperty({
     description: 'Current status of the claim',
     example: 'pending',
-    enum: ['pending', 'processing', 'uploaded', 'failed', 'moderation_rejected'],
+    enum: ['pending', 'processing', 'uploaded', 'failed', 'moderation_rejected', 'expired', 'cancelled'],
   })
-  @IsEnum(['pending', 'processing', 'uploaded', 'failed', 'moderation_rejected'])
+  @IsEnum(['pending', 'processing', 'uploaded', 'failed', 'moderation_rejected', 'expired', 'cancelled'])
   status: ClaimStatus;
 
   @ApiProperty({
@@ -64,6 +85,88 @@ export class ClaimResponseDto {
   @IsString()
   @IsOptional()
   moderationMessage?: string;
+
+  @ApiProperty({
+    description: 'File the client announced when requesting the claim',
+    example: { mimeType: 'image/jpeg', fileSize: 2048000, filename: 'avatar.jpg' },
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  expected?: { mimeType?: string; fileSize?: number; filename?: string };
+
+  @ApiProperty({
+    description: 'Client metadata the claim was requested with',
+    example: { courseId: 'course123', lessonId: 'lesson456' },
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  context?: Record<string, string | number | boolean>;
+
+  @ApiProperty({
+    description: 'Entity the upload will be attached to',
+    type: ClaimTargetDto,
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  target?: ClaimTargetDto;
+
+  @ApiProperty({
+    description: 'Why the claim failed (if status is failed)',
+    enum: ClaimErrorCode,
+    example: ClaimErrorCode.PROCESSING_ERROR,
+    required: false,
+  })
+  @IsEnum(ClaimErrorCode)
+  @IsOptional()
+  errorCode?: ClaimErrorCode;
+
+  @ApiProperty({
+    description: 'Whether the claim can be uploaded again (if status is failed)',
+    example: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  retryable?: boolean;
+
+  @ApiProperty({
+    description: 'How often the claim was already uploaded again after a failure (if status is failed)',
+    example: 1,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  retryCount?: number;
+
+  @ApiProperty({
+    description: 'How often the claim can be uploaded again after a failure (if status is failed)',
+    example: 3,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  maxRetries?: number;
+
+  @ApiProperty({
+    description: 'Number of bytes received so far for a resumable (tus) upload',
+    example: 1048576,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  uploadOffset?: number;
+
+  @ApiProperty({
+    description: 'Total number of bytes announced for a resumable (tus) upload',
+    example: 4194304,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  uploadLength?: number;
   
   @ApiProperty({
     description: 'Video asset information if this claim is for a video',
@@ -80,4 +183,31 @@ export class ClaimResponseDto {
   @IsObject()
   @IsOptional()
   image?: ImageAssetFacade | any;
+
+  @ApiProperty({
+    description: 'Batch claim ID this claim is an item of (if applicable)',
+    example: 'batch123',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  parentClaimId?: string;
+
+  @ApiProperty({
+    description: 'Position of this claim within its batch (if applicable)',
+    example: 0,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  batchIndex?: number;
+
+  @ApiProperty({
+    description: 'Aggregate of the item claims if this is a batch claim, the status is derived from the items',
+    type: () => BatchClaimSummaryDto,
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  batch?: BatchClaimSummaryDto;
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsString, Max, Min } from 'class-validator';
+import config from '../../../config';
+
+export class CreateBatchClaimDto {
+  @ApiProperty({
+    description:
+      'Name of the upload profile to use for every item of the batch',
+    example: 'post_image',
+  })
+  @IsNotEmpty()
+  @IsString()
+  uploadProfile: string;
+
+  @ApiProperty({
+    description: 'Number of files the batch reserves claims for',
+    example: 10,
+    minimum: 1,
+    maximum: config.claims.batch.maxItems,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(config.claims.batch.maxItems)
+  count: number;
+}
@@ -1,5 +1,26 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsObject, IsOptional, IsString, MaxLength, Min, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ClaimTargetDto {
+  @ApiProperty({
+    description: 'Type of the entity the upload will be attached to',
+    example: 'lesson',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  type: string;
+
+  @ApiProperty({
+    description: 'ID of the entity the upload will be attached to',
+    example: 'lesson123',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  id: string;
+}
 
 export class CreateClaimDto {
   @ApiProperty({
@@ -17,4 +38,55 @@ export class CreateClaimDto {
   @IsNotEmpty()
   @IsString()
   uploadProfile: string;
-}
\ No newline at end of file
+
+  @ApiProperty({
+    description: 'MIME type of the file that will be uploaded',
+    required: false,
+    example: 'image/jpeg',
+  })
+  @IsOptional()
+  @IsString()
+  expectedMimeType?: string;
+
+  @ApiProperty({
+    description: 'Size of the file that will be uploaded in bytes',
+    required: false,
+    example: 2048000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  expectedFileSize?: number;
+
+  @ApiProperty({
+    description: 'Filename of the file on the client',
+    required: false,
+    example: 'avatar.jpg',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  filename?: string;
+
+  @ApiProperty({
+    description: 'Client metadata stored with the claim, video profiles only accept their pass-through parameters',
+    required: false,
+    example: { courseId: 'course123', lessonId: 'lesson456' },
+  })
+  @IsOptional()
+  @IsObject()
+  context?: Record<string, string | number | boolean>;
+
+  @ApiProperty({
+    description: 'Entity the upload will be attached to',
+    required: false,
+    type: ClaimTargetDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ClaimTargetDto)
+  target?: ClaimTargetDto;
+}
+
+// Request body of POST /claims, the requestor is taken from the JWT
+export class CreateClaimRequestDto extends OmitType(CreateClaimDto, ['claimRequestorUserId'] as const) { }
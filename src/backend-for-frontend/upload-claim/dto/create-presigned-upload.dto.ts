@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreatePresignedUploadDto {
+  @ApiProperty({
+    description: 'MIME type of the image that will be uploaded',
+    example: 'image/jpeg',
+  })
+  @IsNotEmpty()
+  @IsString()
+  contentType: string;
+
+  @ApiProperty({
+    description: 'Exact size of the image in bytes',
+    example: 2048000,
+  })
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  contentLength: number;
+
+  @ApiProperty({
+    description: 'Original filename of the image',
+    required: false,
+    example: 'avatar.jpg',
+  })
+  @IsOptional()
+  @IsString()
+  filename?: string;
+}
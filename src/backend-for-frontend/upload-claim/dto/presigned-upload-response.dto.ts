@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PresignedUploadResponseDto {
+  @ApiProperty({
+    description: 'The claim the upload belongs to',
+    example: '38e7df21-a229-4d3c-b302-29c4a4e4d110',
+  })
+  claimId: string;
+
+  @ApiProperty({
+    description: 'Presigned S3 URL to PUT the image to',
+    example:
+      'https://gpe-media-dev.s3.eu-central-1.amazonaws.com/uploads/staging/38e7df21-a229-4d3c-b302-29c4a4e4d110?X-Amz-Signature=...',
+  })
+  uploadUrl: string;
+
+  @ApiProperty({
+    description: 'HTTP method to use for the upload',
+    example: 'PUT',
+  })
+  method: string;
+
+  @ApiProperty({
+    description:
+      'Headers that must be sent with the upload, they are part of the signature',
+    example: { 'Content-Type': 'image/jpeg', 'Content-Length': '2048000' },
+  })
+  headers: Record<string, string>;
+
+  @ApiProperty({
+    description: 'When the presigned URL stops working',
+    example: '2025-06-01T12:15:00.000Z',
+  })
+  expiresAt: string;
+
+  @ApiProperty({
+    description: 'Maximum file size in bytes allowed by the upload profile',
+    example: 5242880,
+  })
+  maxSize: number;
+}
@@ -8,6 +8,18 @@ export enum ClaimStatus {
   FAILED = 'failed',
   MODERATION_REJECTED = 'moderation_rejected',
   READY = 'ready',
+  EXPIRED = 'expired',
+  CANCELLED = 'cancelled',
+}
+
+// Why a claim failed, decides whether it can be retried
+export enum ClaimErrorCode {
+  PROCESSING_ERROR = 'processing_error',
+  MODERATION_FAILED = 'moderation_failed',
+  VIDEO_UPLOAD_ERROR = 'video_upload_error',
+  VIDEO_PROCESSING_FAILED = 'video_processing_failed',
+  PROCESSING_TIMEOUT = 'processing_timeout',
+  UNKNOWN = 'unknown',
 }
 
 // Define a separate schema for file metadata
@@ -31,6 +43,45 @@ class FileMetadata {
   format?: string;
 }
 
+// One entry of the append-only status history
+@Schema({ _id: false })
+export class ClaimStatusChange {
+  @Prop({ required: true })
+  at: Date;
+
+  // ClaimActor: 'user', 'system' or 'mux'
+  @Prop({ required: true })
+  actor: string;
+
+  // User ID for user actions
+  @Prop()
+  actorId?: string;
+
+  // Not set for the creation of the claim
+  @Prop({ enum: ClaimStatus })
+  from?: ClaimStatus;
+
+  @Prop({ required: true, enum: ClaimStatus })
+  to: ClaimStatus;
+
+  @Prop()
+  reason?: string;
+}
+
+export const ClaimStatusChangeSchema = SchemaFactory.createForClass(ClaimStatusChange);
+
+// Entity the upload will be attached to, e.g. a lesson
+@Schema({ _id: false })
+export class ClaimTarget {
+  @Prop({ required: true })
+  type: string;
+
+  @Prop({ required: true })
+  id: string;
+}
+
+export const ClaimTargetSchema = SchemaFactory.createForClass(ClaimTarget);
+
 @Schema({ timestamps: true })
 export class UploadClaim extends Document {
   @Prop({ required: true, index: true })
@@ -57,6 +108,76 @@ export class UploadClaim extends Document {
   @Prop({ type: MongooseSchema.Types.Mixed })
   fileMetadata?: FileMetadata;
 
+  // Announced by the client when requesting the claim
+  @Prop()
+  expectedMimeType?: string;
+
+  // Announced by the client when requesting the claim
+  @Prop()
+  expectedFileSize?: number;
+
+  // Filename on the client, announced when requesting the claim
+  @Prop()
+  clientFilename?: string;
+
+  // Client metadata, e.g. courseId and lessonId
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  context?: Record<string, string | number | boolean>;
+
+  @Prop({ type: ClaimTargetSchema })
+  target?: ClaimTarget;
+
+  // Set while the claim is failed
+  @Prop({ enum: ClaimErrorCode })
+  errorCode?: ClaimErrorCode;
+
+  // Whether the failure allows uploading again, derived from the error code
+  @Prop()
+  retryable?: boolean;
+
+  // How often the claim was uploaded again after a failure
+  @Prop({ default: 0 })
+  retryCount: number;
+
+  // Resumable (tus) upload session - total bytes announced by the client
+  @Prop()
+  uploadLength?: number;
+
+  // Resumable (tus) upload session - bytes received so far
+  @Prop()
+  uploadOffset?: number;
+
+  // Resumable (tus) upload session - decoded Upload-Metadata (filename, filetype)
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  uploadMetadata?: Record<string, string>;
+
+  // Direct-to-S3 upload - staging object key the presigned URL points to
+  @Prop()
+  directUploadKey?: string;
+
+  // Storage folder the image pipeline writes to, removed if the claim is cancelled
+  @Prop()
+  storageFolder?: string;
+
+  @Prop({ type: [ClaimStatusChangeSchema], default: [] })
+  statusHistory: ClaimStatusChange[];
+
+  // Batch claim - number of item claims reserved under this claim, only set on the parent
+  @Prop()
+  batchSize?: number;
+
+  // Batch item - claimId of the parent batch claim
+  @Prop({ index: true })
+  parentClaimId?: string;
+
+  // Batch item - position within the batch, starting at 0
+  @Prop()
+  batchIndex?: number;
+
+  // When the claim last moved to processing, used to detect stuck uploads
+  @Prop()
+  processingStartedAt?: Date;
+
   @Prop({ default: Date.now })
   expiresAt: Date;
 
@@ -67,17 +188,8 @@ export class UploadClaim extends Document {
   updatedAt: Date;
 }
 
-@Schema({ timestamps: true })
-export class UserUploadStats extends Document {
-  @Prop({ required: true, index: true })
-  userId: string;
-
-  @Prop({ required: true, index: true })
-  profileName: string;
-
-  @Prop({ type: [Date], default: [] })
-  uploadDates: Date[];
-}
-
 export const UploadClaimSchema = SchemaFactory.createForClass(UploadClaim);
-export const UserUploadStatsSchema = SchemaFactory.createForClass(UserUploadStats);
\ No newline at end of file
+
+// Indexes
+UploadClaimSchema.index({ status: 1, expiresAt: 1 });
+UploadClaimSchema.index({ status: 1, processingStartedAt: 1 });
@@ -1,6 +1,22 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 
+// Rate limit slot of one claim, reserved when the claim is created
+@Schema({ _id: false })
+export class RateLimitSlot {
+  @Prop({ required: true })
+  claimId: string;
+
+  @Prop({ required: true })
+  at: Date;
+
+  // Set once the upload finished, committed slots are not released anymore
+  @Prop({ default: false })
+  committed: boolean;
+}
+
+export const RateLimitSlotSchema = SchemaFactory.createForClass(RateLimitSlot);
+
 @Schema({ timestamps: true })
 export class UserUploadStats extends Document {
   @Prop({ required: true, index: true })
@@ -9,8 +25,15 @@ export class UserUploadStats extends Document {
   @Prop({ required: true, index: true })
   profileName: string;
 
+  // Uploads tracked before slots were reserved per claim, counted until they leave the rate limit period
   @Prop({ type: [Date], default: [] })
   uploadDates: Date[];
+
+  @Prop({ type: [RateLimitSlotSchema], default: [] })
+  slots: RateLimitSlot[];
 }
 
-export const UserUploadStatsSchema = SchemaFactory.createForClass(UserUploadStats);
\ No newline at end of file
+export const UserUploadStatsSchema = SchemaFactory.createForClass(UserUploadStats);
+
+// Indexes
+UserUploadStatsSchema.index({ userId: 1, profileName: 1 }, { unique: true });
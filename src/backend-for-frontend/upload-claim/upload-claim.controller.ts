@@ -1,12 +1,22 @@
-import { Controller, Post, Get, Body, Query, Param, UseInterceptors, BadRequestException, Logger } from '@nestjs/common';
+import { Controller, Post, Get, Delete, Sse, Body, Query, Param, Headers, UseInterceptors, BadRequestException, Logger, MessageEvent } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth, ApiParam, ApiHeader } from '@nestjs/swagger';
 import { UploadClaimService } from './upload-claim.service';
-import { CreateClaimDto } from './dto/create-claim.dto';
+import { ClaimStatusStreamService } from './claim-status-stream.service';
+import { ClaimCancellationService } from './claim-cancellation.service';
+import { CreateClaimDto, CreateClaimRequestDto } from './dto/create-claim.dto';
+import { CreateBatchClaimDto } from './dto/create-batch-claim.dto';
 import { ClaimResponseDto } from './dto/claim-response.dto';
+import { CreatePresignedUploadDto } from './dto/create-presigned-upload.dto';
+import { PresignedUploadResponseDto } from './dto/presigned-upload-response.dto';
+import { ClaimHistoryResponseDto } from './dto/claim-history-response.dto';
 import { ImageUploadService } from '../image-upload/services/image-upload.service';
 import { VideoUploadService } from '../video-upload/services/video-upload.service';
 import { ModerationService } from '../../core/moderation/moderation.service';
+import { IDEMPOTENCY_KEY_HEADER, IdempotencyScope, IdempotencyService } from '../../core/idempotency/idempotency.service';
+import { QuotaService } from '../../core/quota/quota.service';
+import { QuotaResponseDto } from '../../core/quota/dto/quota-response.dto';
 import { WithDecodedUserJWT, UserID } from '@gpe/backend-common/dist/auth';
 
 @ApiTags('upload-claim')
@@ -17,24 +27,61 @@ export class UploadClaimController {
 
   constructor(
     private readonly uploadClaimService: UploadClaimService,
+    private readonly claimStatusStreamService: ClaimStatusStreamService,
+    private readonly claimCancellationService: ClaimCancellationService,
     private readonly imageUploadService: ImageUploadService,
     private readonly videoUploadService: VideoUploadService,
     private readonly moderationService: ModerationService,
+    private readonly idempotencyService: IdempotencyService,
+    private readonly quotaService: QuotaService,
   ) {
     this.logger.log('UploadClaimController initialized');
   }
 
+  @Post('claims')
+  @ApiOperation({
+    summary: 'Create a new upload claim',
+    description: 'The announced MIME type, file size, filename and context are checked against the upload profile and stored with the claim.'
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Claim created successfully',
+    type: ClaimResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Unknown upload profile or the announced file is not allowed by it' })
+  @ApiResponse({ status: 403, description: 'Rate limit or storage quota reached' })
+  @ApiHeader({ name: IDEMPOTENCY_KEY_HEADER, required: false, description: 'Optional client-generated key, a retried request with the same key replays the first response instead of running again' })
+  @ApiResponse({ status: 409, description: 'Idempotency-Key reused for a different request or still in progress' })
+  @WithDecodedUserJWT()
+  async createClaimWithBody(
+    @UserID() userId: string,
+    @Body() dto: CreateClaimRequestDto,
+    @Headers('idempotency-key') idempotencyKey?: string
+  ): Promise<ClaimResponseDto> {
+    this.logger.log(`Creating claim for authenticated user ${userId} with profile ${dto.uploadProfile}`);
+    return this.idempotencyService.execute(
+      { key: idempotencyKey, userId, scope: IdempotencyScope.CLAIM_CREATE, parameters: dto },
+      () => this.uploadClaimService.createClaim({ ...dto, claimRequestorUserId: userId })
+    );
+  }
+
+  /**
+   * @deprecated Use POST /api/v1/claims, GET responses may be cached by proxies
+   */
   @Get('claim')
-  @ApiOperation({ summary: 'Create a new upload claim' })
+  @ApiOperation({ summary: 'Create a new upload claim', deprecated: true })
   @ApiResponse({
     status: 200,
     description: 'Claim created successfully',
     type: ClaimResponseDto,
   })
+  @ApiHeader({ name: IDEMPOTENCY_KEY_HEADER, required: false, description: 'Optional client-generated key, a retried request with the same key replays the first response instead of running again' })
+  @ApiResponse({ status: 409, description: 'Idempotency-Key reused for a different request or still in progress' })
   @WithDecodedUserJWT()
   async createClaim(
     @UserID() userId: string,
-    @Query('uploadProfile') uploadProfile: string
+    @Query('uploadProfile') uploadProfile: string,
+    @Headers('idempotency-key') idempotencyKey?: string
   ): Promise<ClaimResponseDto> {
     this.logger.log(`Creating claim for authenticated user ${userId} with profile ${uploadProfile}`);
     
@@ -43,11 +90,64 @@ export class UploadClaimController {
       uploadProfile: uploadProfile
     };
     
-    const response = await this.uploadClaimService.createClaim(createClaimDto);
+    const response = await this.idempotencyService.execute(
+      { key: idempotencyKey, userId, scope: IdempotencyScope.LEGACY_CLAIM_CREATE, parameters: { uploadProfile } },
+      () => this.uploadClaimService.createClaim(createClaimDto)
+    );
     this.logger.log(`Claim created with response: ${JSON.stringify(response)}`);
     return response;
   }
 
+  @Post('claim/batch')
+  @ApiOperation({
+    summary: 'Create a batch claim for uploading multiple files',
+    description: 'Reserves one item claim per file under a parent claim. Upload to the item claims individually or send all images at once to POST /images/upload/batch. The status of the batch is derived from its items.'
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Batch claim created successfully',
+    type: ClaimResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'The batch exceeds the rate limit of the upload profile or the storage quota' })
+  @ApiHeader({ name: IDEMPOTENCY_KEY_HEADER, required: false, description: 'Optional client-generated key, a retried request with the same key replays the first response instead of running again' })
+  @ApiResponse({ status: 409, description: 'Idempotency-Key reused for a different request or still in progress' })
+  @WithDecodedUserJWT()
+  async createBatchClaim(
+    @UserID() userId: string,
+    @Body() dto: CreateBatchClaimDto,
+    @Headers('idempotency-key') idempotencyKey?: string
+  ): Promise<ClaimResponseDto> {
+    this.logger.log(`Creating batch claim of ${dto.count} items for user ${userId} with profile ${dto.uploadProfile}`);
+    return this.idempotencyService.execute(
+      { key: idempotencyKey, userId, scope: IdempotencyScope.BATCH_CLAIM_CREATE, parameters: dto },
+      () => this.uploadClaimService.createBatchClaim(userId, dto)
+    );
+  }
+
+  @Post('claim/:claimId/presigned-upload')
+  @ApiOperation({
+    summary: 'Get a presigned S3 URL to upload an image directly',
+    description: 'The URL only accepts the declared content type and size. Call POST /images/upload/complete once the upload finished.'
+  })
+  @ApiParam({ name: 'claimId', description: 'The claim ID to upload for' })
+  @ApiResponse({
+    status: 201,
+    description: 'Presigned upload created',
+    type: PresignedUploadResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Claim cannot be used or user not authorized' })
+  @ApiResponse({ status: 413, description: 'File size exceeds the profile limit' })
+  @ApiResponse({ status: 415, description: 'Unsupported media type' })
+  @WithDecodedUserJWT()
+  async createPresignedUpload(
+    @UserID() userId: string,
+    @Param('claimId') claimId: string,
+    @Body() dto: CreatePresignedUploadDto
+  ): Promise<PresignedUploadResponseDto> {
+    this.logger.log(`Creating presigned upload for claim ${claimId} and user ${userId}`);
+    return this.uploadClaimService.createPresignedImageUpload(claimId, userId, dto);
+  }
+
   @Get('status')
   @ApiOperation({ summary: 'Check the status of a claim' })
   @ApiQuery({
@@ -67,6 +167,76 @@ export class UploadClaimController {
     return await this.uploadClaimService.formatClaimResponse(claim);
   }
 
+  @Get('claim/:claimId/history')
+  @ApiOperation({
+    summary: 'Get the status history of a claim',
+    description: 'Lists every status change of the claim with its time, actor (user, system or mux) and reason.'
+  })
+  @ApiParam({ name: 'claimId', description: 'The claim ID to get the history for' })
+  @ApiResponse({
+    status: 200,
+    description: 'Claim status history',
+    type: ClaimHistoryResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'User not authorized' })
+  @ApiResponse({ status: 404, description: 'Claim not found' })
+  @WithDecodedUserJWT()
+  async getClaimHistory(
+    @UserID() userId: string,
+    @Param('claimId') claimId: string
+  ): Promise<ClaimHistoryResponseDto> {
+    this.logger.log(`Retrieving status history of claim ${claimId} for user ${userId}`);
+    return this.uploadClaimService.getClaimHistory(claimId, userId);
+  }
+
+  @Delete('claim/:claimId')
+  @ApiOperation({
+    summary: 'Cancel an upload claim',
+    description: 'Releases a pending, processing or failed claim: open Mux direct uploads are cancelled, partially uploaded files are removed and a consumed rate limit slot is refunded. Cancelling a batch claim cancels all of its unfinished items.'
+  })
+  @ApiParam({ name: 'claimId', description: 'The claim ID to cancel' })
+  @ApiResponse({
+    status: 200,
+    description: 'Claim cancelled',
+    type: ClaimResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'User not authorized' })
+  @ApiResponse({ status: 404, description: 'Claim not found' })
+  @ApiResponse({ status: 409, description: 'Claim is already finished' })
+  @WithDecodedUserJWT()
+  async cancelClaim(
+    @UserID() userId: string,
+    @Param('claimId') claimId: string
+  ): Promise<ClaimResponseDto> {
+    this.logger.log(`Cancelling claim ${claimId} for user ${userId}`);
+    return this.claimCancellationService.cancelClaim(claimId, userId);
+  }
+
+  @Sse('status/stream')
+  @ApiOperation({
+    summary: 'Stream status changes of one or more claims (Server-Sent Events)',
+    description: 'Emits the current status of every claim right away, then one "claim-status" event per status transition. A claim that cannot be read (e.g. an unknown ID or a claim of another user) gets a "claim-error" event instead, the other claims keep streaming. A "heartbeat" event keeps idle connections open.'
+  })
+  @ApiQuery({
+    name: 'claimId',
+    required: true,
+    type: String,
+    description: 'The claim ID to watch, multiple IDs can be separated by commas',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'text/event-stream of ClaimResponseDto payloads',
+  })
+  @WithDecodedUserJWT()
+  streamClaimStatus(
+    @UserID() userId: string,
+    @Query('claimId') claimId: string
+  ): Observable<MessageEvent> {
+    const claimIds = (claimId || '').split(',').map(id => id.trim()).filter(Boolean);
+    this.logger.log(`Opening status stream for claims ${claimIds.join(', ')} and user ${userId}`);
+    return this.claimStatusStreamService.streamClaimStatus(claimIds, userId);
+  }
+
   @Get('rate-limit-info')
   @ApiOperation({ summary: 'Get information about user\'s rate limits for an upload profile' })
   @ApiQuery({
@@ -85,7 +255,32 @@ export class UploadClaimController {
         maxUploads: { type: 'number', example: 3 },
         periodDays: { type: 'number', example: 30 },
         remainingUploads: { type: 'number', example: 1 },
-        nextResetDate: { type: 'string', example: '2025-06-01T23:59:59.999Z' }
+        nextResetDate: { type: 'string', example: '2025-06-01T23:59:59.999Z' },
+        windows: {
+          type: 'array',
+          description: 'Every window of the rate limit, the primary one first. Reserved slots of unfinished claims count as uploads.',
+          items: {
+            type: 'object',
+            properties: {
+              maxUploads: { type: 'number', example: 5 },
+              periodHours: { type: 'number', example: 1 },
+              usedUploads: { type: 'number', example: 5 },
+              remainingUploads: { type: 'number', example: 0 },
+              resetDate: { type: 'string', example: '2025-06-01T13:00:00.000Z' }
+            }
+          }
+        },
+        override: {
+          type: 'object',
+          nullable: true,
+          description: 'Limits granted to the user by support, replacing the rate limit of the profile',
+          properties: {
+            maxUploads: { type: 'number', example: 20 },
+            periodDays: { type: 'number', example: 30 },
+            exempt: { type: 'boolean', example: false },
+            expiresAt: { type: 'string', example: '2025-07-01T00:00:00.000Z' }
+          }
+        }
       }
     }
   })
@@ -97,4 +292,15 @@ export class UploadClaimController {
     this.logger.log(`Getting rate limit info for user ${userId} and profile ${uploadProfile}`);
     return this.uploadClaimService.getRateLimitInfo(userId, uploadProfile);
   }
+
+  @Get('quota')
+  @ApiOperation({
+    summary: 'Get the storage usage and quota of the authenticated user',
+    description: 'Counts every stored asset of all upload profiles, including resized versions. Deleted assets no longer count.'
+  })
+  @ApiResponse({ status: 200, description: 'Usage and limits of the user', type: QuotaResponseDto })
+  @WithDecodedUserJWT()
+  async getQuota(@UserID() userId: string): Promise<QuotaResponseDto> {
+    return this.quotaService.getQuota(userId);
+  }
 }
\ No newline at end of file
@@ -2,11 +2,21 @@ import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { UploadClaimController } from './upload-claim.controller';
 import { UploadClaimService } from './upload-claim.service';
+import { ClaimStatusStreamService } from './claim-status-stream.service';
+import { ClaimSweeperService } from './claim-sweeper.service';
+import { ClaimCancellationService } from './claim-cancellation.service';
+import { UserUploadStatsDedupeService } from './user-upload-stats-dedupe.service';
 import { UploadClaim, UploadClaimSchema } from './schemas/upload-claim.schema';
 import { UserUploadStats, UserUploadStatsSchema } from './schemas/user-upload-stats.schema';
 import { ImageUploadModule } from '../image-upload/image-upload.module';
 import { VideoUploadModule } from '../video-upload/video-upload.module';
 import { ModerationModule } from '../../core/moderation/moderation.module';
+import { StorageModule } from '../../shared/storage/storage.module';
+import { OutboxModule } from '../../core/outbox/outbox.module';
+import { AssetDeletionModule } from '../../core/asset-deletion/asset-deletion.module';
+import { IdempotencyModule } from '../../core/idempotency/idempotency.module';
+import { QuotaModule } from '../../core/quota/quota.module';
+import { RateLimitOverridesModule } from '../../core/rate-limit-overrides/rate-limit-overrides.module';
 import { ImageAsset, ImageAssetSchema } from '../../shared/schemas/image-asset.schema';
 import { VideoAsset, VideoAssetSchema } from '../../shared/schemas/video-asset.schema';
 
@@ -21,9 +31,15 @@ import { VideoAsset, VideoAssetSchema } from '../../shared/schemas/video-asset.s
     forwardRef(() => ImageUploadModule),
     forwardRef(() => VideoUploadModule),
     ModerationModule,
+    StorageModule,
+    OutboxModule,
+    AssetDeletionModule, // Handles the cleanup tasks stored when a claim is cancelled
+    IdempotencyModule,
+    QuotaModule,
+    RateLimitOverridesModule,
   ],
   controllers: [UploadClaimController],
-  providers: [UploadClaimService],
+  providers: [UploadClaimService, ClaimStatusStreamService, ClaimSweeperService, ClaimCancellationService, UserUploadStatsDedupeService],
   exports: [UploadClaimService],
 })
 export class UploadClaimModule {}
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { PayloadTooLargeException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import config from '../../config';
+import { ImageAsset } from '../../shared/schemas/image-asset.schema';
+import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { ObjectStorageService } from '../../shared/storage/object-storage.service';
+import { OutboxService } from '../../core/outbox/outbox.service';
+import { QuotaService } from '../../core/quota/quota.service';
+import { RateLimitOverridesService } from '../../core/rate-limit-overrides/rate-limit-overrides.service';
+import { ClaimStatus, UploadClaim } from './schemas/upload-claim.schema';
+import { UserUploadStats } from './schemas/user-upload-stats.schema';
+import { UploadClaimService } from './upload-claim.service';
+
+const MB = 1024 * 1024;
+
+describe('UploadClaimService', () => {
+  let service: UploadClaimService;
+  let uploadClaimModel: { findOne: jest.Mock; updateOne: jest.Mock };
+  let objectStorageService: { createPresignedPutUrl: jest.Mock };
+  const maxFileSize = config.media.maxFileSize;
+
+  beforeEach(async () => {
+    uploadClaimModel = {
+      findOne: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          claimId: 'claim-1',
+          claimRequestorUserId: 'user-1',
+          uploadProfile: 'profile_picture',
+          status: ClaimStatus.PENDING,
+        }),
+      }),
+      updateOne: jest
+        .fn()
+        .mockReturnValue({ exec: jest.fn().mockResolvedValue({}) }),
+    };
+    objectStorageService = {
+      createPresignedPutUrl: jest
+        .fn()
+        .mockResolvedValue('https://upload.example'),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadClaimService,
+        {
+          provide: getModelToken(UploadClaim.name),
+          useValue: uploadClaimModel,
+        },
+        { provide: getModelToken(UserUploadStats.name), useValue: {} },
+        { provide: getModelToken(ImageAsset.name), useValue: {} },
+        { provide: getModelToken(VideoAsset.name), useValue: {} },
+        { provide: ObjectStorageService, useValue: objectStorageService },
+        { provide: OutboxService, useValue: {} },
+        { provide: QuotaService, useValue: {} },
+        { provide: RateLimitOverridesService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<UploadClaimService>(UploadClaimService);
+  });
+
+  afterEach(() => {
+    config.media.maxFileSize = maxFileSize;
+  });
+
+  describe('createPresignedImageUpload', () => {
+    const presign = (contentLength: number) =>
+      service.createPresignedImageUpload('claim-1', 'user-1', {
+        contentType: 'image/png',
+        contentLength,
+        filename: 'me.png',
+      });
+
+    it('should sign the staging key of the claim', async () => {
+      await presign(MB);
+
+      expect(objectStorageService.createPresignedPutUrl).toHaveBeenCalledWith(
+        `${config.media.directUpload.stagingPrefix}claim-1`,
+        'image/png',
+        MB,
+        config.media.directUpload.urlExpirySeconds,
+      );
+    });
+
+    it('should refuse files above the maximum size of the profile', async () => {
+      await expect(presign(6 * MB)).rejects.toThrow(PayloadTooLargeException);
+      expect(objectStorageService.createPresignedPutUrl).not.toHaveBeenCalled();
+    });
+
+    it('should refuse files above the global maximum size even if the profile allows them', async () => {
+      config.media.maxFileSize = 2 * MB;
+
+      await expect(presign(3 * MB)).rejects.toThrow(
+        `exceeds the maximum of ${2 * MB} bytes`,
+      );
+      expect(objectStorageService.createPresignedPutUrl).not.toHaveBeenCalled();
+    });
+  });
+});
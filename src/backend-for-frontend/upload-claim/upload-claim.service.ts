@@ -1,15 +1,70 @@
-import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException, ConflictException, PayloadTooLargeException, UnsupportedMediaTypeException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { ClientSession, Error as MongooseError, Model } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
-import { UploadClaim, ClaimStatus, UserUploadStats } from './schemas/upload-claim.schema';
+import { UploadClaim, ClaimStatus, ClaimErrorCode } from './schemas/upload-claim.schema';
+import { UserUploadStats } from './schemas/user-upload-stats.schema';
 import { CreateClaimDto } from './dto/create-claim.dto';
+import { CreateBatchClaimDto } from './dto/create-batch-claim.dto';
 import { ClaimResponseDto } from './dto/claim-response.dto';
+import { CreatePresignedUploadDto } from './dto/create-presigned-upload.dto';
+import { PresignedUploadResponseDto } from './dto/presigned-upload-response.dto';
 import config from '../../config';
-import { UploadProfile } from '../../config/types';
+import { UploadProfile, UploadRateLimit } from '../../config/types';
 import { Observable } from 'rxjs';
 import { ImageAsset } from '../../shared/schemas/image-asset.schema';
 import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { ObjectStorageService } from '../../shared/storage/object-storage.service';
+import { OutboxEvent, OutboxService, OutboxTask } from '../../core/outbox/outbox.service';
+import { claimFailedEvent } from '../../core/events/media-events';
+import { assertClaimTransition, ClaimActor } from './claim-transitions';
+import { canRetryClaim, isClaimErrorRetryable } from './claim-errors';
+import { aggregateBatchStatus, countClaimStatuses } from './claim-batch';
+import { ClaimUploadConstraints, findClaimExpectationViolation } from './claim-expectations';
+import {
+  RateLimitPeriodUsage,
+  applyRateLimitOverride,
+  computeRateLimitUsage,
+  formatRateLimitPeriod,
+  getLongestRateLimitPeriodMs,
+  getRateLimitPeriods,
+  getRemainingRateLimit,
+} from '../../shared/utils/rate-limit.util';
+import { ClaimHistoryResponseDto } from './dto/claim-history-response.dto';
+import { QuotaService } from '../../core/quota/quota.service';
+import { RateLimitOverridesService } from '../../core/rate-limit-overrides/rate-limit-overrides.service';
+import { RateLimitOverride } from '../../core/rate-limit-overrides/schemas/rate-limit-override.schema';
+
+// Reasons recorded by the claim sweeper
+export const CLAIM_EXPIRED_REASON = 'Claim expired before an upload was started.';
+export const CLAIM_PROCESSING_TIMEOUT_REASON = 'Processing timed out.';
+export const CLAIM_CANCELLED_REASON = 'Cancelled by the user.';
+
+// Statuses that give the rate limit slot of a claim back or keep it for good
+const RATE_LIMIT_RELEASING_STATUSES = [ClaimStatus.FAILED, ClaimStatus.EXPIRED, ClaimStatus.CANCELLED];
+const RATE_LIMIT_COMMITTING_STATUSES = [ClaimStatus.UPLOADED, ClaimStatus.READY, ClaimStatus.MODERATION_REJECTED];
+
+export interface UpdateClaimStatusOptions {
+  /** Builds additional events that are published atomically with the status change */
+  events?: (claim: UploadClaim) => OutboxEvent[];
+  /** Builds side-effects that are stored atomically with the status change and executed afterwards */
+  tasks?: (claim: UploadClaim) => OutboxTask[];
+  /** Only apply the change if the claim is still in this status, otherwise a ConflictException is thrown */
+  expectedStatus?: ClaimStatus;
+  /** Who caused the change, recorded in the status history (defaults to system) */
+  actor?: ClaimActor;
+  /** User ID of the actor if it is a user */
+  actorId?: string;
+  /** Why the claim failed, only used for the failed status (defaults to unknown, which is not retryable) */
+  errorCode?: ClaimErrorCode;
+  /** Storage folder the upload writes to, removed if the claim is cancelled */
+  storageFolder?: string;
+  /**
+   * Transaction to make the change part of. Tasks are left to the outbox relay and the rate limit slot is not
+   * settled, the caller does that once the transaction committed.
+   */
+  session?: ClientSession;
+}
 
 @Injectable()
 export class UploadClaimService {
@@ -20,6 +75,10 @@ export class UploadClaimService {
     @InjectModel(UserUploadStats.name) private userUploadStatsModel: Model<UserUploadStats>,
     @InjectModel(ImageAsset.name) private imageAssetModel: Model<ImageAsset>,
     @InjectModel(VideoAsset.name) private videoAssetModel: Model<VideoAsset>,
+    private readonly objectStorageService: ObjectStorageService,
+    private readonly outboxService: OutboxService,
+    private readonly quotaService: QuotaService,
+    private readonly rateLimitOverridesService: RateLimitOverridesService,
   ) {
     this.logger.log('UploadClaimService initialized');
   }
@@ -31,68 +90,182 @@ export class UploadClaimService {
    * @returns Promise<boolean> True if user has reached their limit, false otherwise
    */
   async hasReachedRateLimit(userId: string, profileName: string): Promise<boolean> {
+    const remaining = await this.getRemainingUploads(userId, profileName);
+    return remaining !== null && remaining <= 0;
+  }
+
+  /**
+   * Gets how many more uploads a user can make for a specific upload profile before any rate limit window is full.
+   * Reserved slots of unfinished claims count as uploads, an active override of the user replaces the profile's rate limit.
+   * @param userId The user ID to check
+   * @param profileName The upload profile name
+   * @returns Promise with the number of remaining uploads, null if the user is not rate limited
+   */
+  async getRemainingUploads(userId: string, profileName: string): Promise<number | null> {
     this.logger.log(`Checking rate limit for user ${userId} and profile ${profileName}`);
     
-    const uploadProfile = this.getUploadProfile(profileName);
-    if (!uploadProfile || !uploadProfile.rateLimit) {
-      // If no rate limit is configured, default to no limit
-      return false;
-    }
-    
-    const { maxUploads, periodDays } = uploadProfile.rateLimit;
-    
-    // Calculate the cutoff date for the rate limit period
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - periodDays);
-    
-    // Get or create user stats
-    let userStats = await this.userUploadStatsModel.findOne({ 
-      userId, 
-      profileName 
-    }).exec();
-    
-    if (!userStats) {
-      // If no stats found, user hasn't uploaded anything yet
-      return false;
+    const { rateLimit } = await this.getEffectiveRateLimit(userId, profileName);
+    if (!rateLimit) {
+      // If no rate limit is configured or the user is exempt, default to no limit
+      return null;
     }
-    
-    // Filter upload dates to only include those within the rate limit period
-    const recentUploads = userStats.uploadDates.filter(date => date > cutoffDate);
-    
-    this.logger.log(`User ${userId} has ${recentUploads.length}/${maxUploads} uploads for ${profileName} in the last ${periodDays} days`);
-    
-    // Check if user has reached their limit
-    return recentUploads.length >= maxUploads;
+
+    const usage = await this.getRateLimitUsage(userId, profileName, rateLimit);
+    const remaining = getRemainingRateLimit(usage);
+
+    this.logger.log(`User ${userId} has ${remaining} uploads left for ${profileName}`);
+    return remaining;
   }
 
   /**
-   * Tracks a successful upload for a user
+   * Reserves one rate limit slot per claim in a single conditional update, so concurrent requests
+   * cannot exceed the limit. Either every slot is reserved or none. Slots that left the longest
+   * window are pruned in the same update.
    * @param userId The user ID
    * @param profileName The upload profile name
-   * @returns Promise<void>
+   * @param claimIds The claims to reserve slots for
+   * @throws ForbiddenException if a window of the rate limit has no room for all claims
    */
-  async trackSuccessfulUpload(userId: string, profileName: string): Promise<void> {
-    this.logger.log(`Tracking successful upload for user ${userId} and profile ${profileName}`);
-    
-    // Get or create user stats
-    let userStats = await this.userUploadStatsModel.findOne({ 
-      userId, 
-      profileName 
-    }).exec();
-    
-    if (!userStats) {
-      userStats = new this.userUploadStatsModel({
+  async reserveRateLimitSlots(userId: string, profileName: string, claimIds: string[]): Promise<void> {
+    if (claimIds.length === 0) {
+      return;
+    }
+    const { rateLimit, profileRateLimit } = await this.getEffectiveRateLimit(userId, profileName);
+    if (!rateLimit) {
+      return;
+    }
+
+    const now = new Date();
+    const periods = getRateLimitPeriods(rateLimit);
+    // Keep what the profile's own windows count, so they are accurate again once an override ends
+    const pruneBefore = new Date(now.getTime() - getLongestRateLimitPeriodMs([
+      ...periods,
+      ...(profileRateLimit ? getRateLimitPeriods(profileRateLimit) : []),
+    ]));
+    const keepAfter = (input: string, cutoff: Date, field = '$$this') => ({
+      $filter: { input: { $ifNull: [input, []] }, cond: { $gt: [field, cutoff] } },
+    });
+    const countSince = (cutoff: Date) => ({
+      $add: [{ $size: keepAfter('$slots', cutoff, '$$this.at') }, { $size: keepAfter('$uploadDates', cutoff) }],
+    });
+
+    // Create the stats first, so the reservation is a single update of an existing document
+    try {
+      await this.userUploadStatsModel.updateOne(
+        { userId, profileName },
+        { $setOnInsert: { uploadDates: [], slots: [] } },
+        { upsert: true }
+      ).exec();
+    } catch (error) {
+      // Unique index on (userId, profileName) - created concurrently
+      if (error.code !== 11000) {
+        throw error;
+      }
+    }
+
+    const result = await this.userUploadStatsModel.updateOne(
+      {
         userId,
         profileName,
-        uploadDates: [],
-      });
+        $expr: {
+          $and: periods.map(period => ({
+            $lte: [countSince(new Date(now.getTime() - period.periodMs)), period.maxUploads - claimIds.length],
+          })),
+        },
+      },
+      [{
+        $set: {
+          uploadDates: keepAfter('$uploadDates', pruneBefore),
+          slots: {
+            $concatArrays: [
+              keepAfter('$slots', pruneBefore, '$$this.at'),
+              { $literal: claimIds.map(claimId => ({ claimId, at: now, committed: false })) },
+            ],
+          },
+        },
+      }]
+    ).exec();
+
+    if (result.matchedCount === 0) {
+      const usage = await this.getRateLimitUsage(userId, profileName, rateLimit);
+      const window = usage.find(period => period.remaining < claimIds.length) ?? usage[0];
+      this.logger.warn(`User ${userId} has reached rate limit for ${profileName}: ${window.used}/${window.maxUploads} in ${window.periodMs}ms`);
+      throw new ForbiddenException(
+        `Rate limit reached: You can only upload ${window.maxUploads} ${profileName}s in a ${formatRateLimitPeriod(window.periodMs)} period, ${window.remaining} left`
+      );
     }
-    
-    // Add current date to upload dates
-    userStats.uploadDates.push(new Date());
-    
-    await userStats.save();
-    this.logger.log(`Successfully tracked upload for user ${userId} and profile ${profileName}`);
+    this.logger.log(`Reserved ${claimIds.length} rate limit slot(s) for user ${userId} and profile ${profileName}`);
+  }
+
+  /**
+   * Gives back the rate limit slot of a claim that will not be uploaded. Committed slots are kept.
+   * @param claim The claim whose slot should no longer count
+   */
+  async releaseRateLimitSlot(claim: UploadClaim): Promise<void> {
+    const result = await this.userUploadStatsModel.updateOne(
+      { userId: claim.claimRequestorUserId, profileName: claim.uploadProfile },
+      { $pull: { slots: { claimId: claim.claimId, committed: false } } }
+    ).exec();
+
+    if (result.modifiedCount) {
+      this.logger.log(`Released rate limit slot of claim ${claim.claimId} for user ${claim.claimRequestorUserId}`);
+    }
+  }
+
+  /**
+   * Marks the rate limit slot of a finished claim as used for good
+   * @param claim The finished claim
+   */
+  async commitRateLimitSlot(claim: UploadClaim): Promise<void> {
+    const filter = { userId: claim.claimRequestorUserId, profileName: claim.uploadProfile };
+    const result = await this.userUploadStatsModel.updateOne(
+      { ...filter, slots: { $elemMatch: { claimId: claim.claimId } } },
+      { $set: { 'slots.$.committed': true } }
+    ).exec();
+
+    if (result.matchedCount === 0) {
+      // Claims created before slots were reserved, or whose slot was released when they failed -
+      // the finished upload counts nevertheless
+      await this.userUploadStatsModel.updateOne(
+        filter,
+        { $push: { slots: { claimId: claim.claimId, at: new Date(), committed: true } } },
+        { upsert: true }
+      ).exec();
+    }
+    this.logger.log(`Committed rate limit slot of claim ${claim.claimId} for user ${claim.claimRequestorUserId}`);
+  }
+
+  /**
+   * Releases the slot of a claim that will not be uploaded and commits the slot of a finished upload
+   */
+  private async settleRateLimitSlot(claim: UploadClaim): Promise<void> {
+    if (RATE_LIMIT_RELEASING_STATUSES.includes(claim.status)) {
+      await this.releaseRateLimitSlot(claim);
+    } else if (RATE_LIMIT_COMMITTING_STATUSES.includes(claim.status)) {
+      await this.commitRateLimitSlot(claim);
+    }
+  }
+
+  /**
+   * Resolves the rate limit of a user for a profile, an active override replaces the configured one
+   */
+  private async getEffectiveRateLimit(userId: string, profileName: string): Promise<{
+    rateLimit?: UploadRateLimit;
+    profileRateLimit?: UploadRateLimit;
+    override: RateLimitOverride | null;
+  }> {
+    const profileRateLimit: UploadRateLimit | undefined = this.getUploadProfile(profileName)?.rateLimit;
+    const override = await this.rateLimitOverridesService.findActive(userId, profileName);
+    return { rateLimit: applyRateLimitOverride(profileRateLimit, override), profileRateLimit, override };
+  }
+
+  /**
+   * Counts the uploads and reservations of a user in every window of a rate limit
+   */
+  private async getRateLimitUsage(userId: string, profileName: string, rateLimit: UploadRateLimit): Promise<RateLimitPeriodUsage[]> {
+    const userStats = await this.userUploadStatsModel.findOne({ userId, profileName }).exec();
+    const dates = userStats ? [...userStats.uploadDates, ...(userStats.slots ?? []).map(slot => slot.at)] : [];
+    return computeRateLimitUsage(dates, getRateLimitPeriods(rateLimit));
   }
 
   /**
@@ -111,19 +284,18 @@ export class UploadClaimService {
       throw new BadRequestException(errorMsg);
     }
 
-    // Check rate limits if configured for this profile
-    if (uploadProfile.rateLimit) {
-      const hasReachedLimit = await this.hasReachedRateLimit(
-        createClaimDto.claimRequestorUserId,
-        createClaimDto.uploadProfile
-      );
-      
-      if (hasReachedLimit) {
-        const { maxUploads, periodDays } = uploadProfile.rateLimit;
-        const errorMsg = `Rate limit reached: You can only upload ${maxUploads} ${createClaimDto.uploadProfile}s in a ${periodDays}-day period`;
-        this.logger.warn(`User ${createClaimDto.claimRequestorUserId} has reached rate limit for ${createClaimDto.uploadProfile}`);
-        throw new ForbiddenException(errorMsg);
-      }
+    const violation = findClaimExpectationViolation(
+      {
+        mimeType: createClaimDto.expectedMimeType,
+        fileSize: createClaimDto.expectedFileSize,
+        filename: createClaimDto.filename,
+        context: createClaimDto.context,
+      },
+      this.getClaimUploadConstraints(createClaimDto.uploadProfile)
+    );
+    if (violation) {
+      this.logger.warn(`Rejected claim for user ${createClaimDto.claimRequestorUserId} with profile ${createClaimDto.uploadProfile}: ${violation}`);
+      throw new BadRequestException(violation);
     }
 
     // Create new claim with a UUID
@@ -137,15 +309,123 @@ export class UploadClaimService {
       uploadProfile: createClaimDto.uploadProfile,
       status: 'pending' as ClaimStatus,
       expiresAt,
+      expectedMimeType: createClaimDto.expectedMimeType,
+      expectedFileSize: createClaimDto.expectedFileSize,
+      clientFilename: createClaimDto.filename,
+      context: createClaimDto.context,
+      target: createClaimDto.target,
+      statusHistory: [{
+        at: new Date(),
+        actor: ClaimActor.USER,
+        actorId: createClaimDto.claimRequestorUserId,
+        to: ClaimStatus.PENDING,
+      }],
+    });
+
+    await this.quotaService.assertWithinQuota(createClaimDto.claimRequestorUserId, {
+      bytes: createClaimDto.expectedFileSize ?? 0,
+      assets: 1,
     });
 
-    await newClaim.save();
+    // Reserve the rate limit slot up front, so concurrent requests cannot all pass the limit
+    await this.reserveRateLimitSlots(createClaimDto.claimRequestorUserId, createClaimDto.uploadProfile, [claimId]);
+    try {
+      await newClaim.save();
+    } catch (error) {
+      await this.releaseRateLimitSlot(newClaim);
+      throw error;
+    }
     this.logger.log(`Claim created successfully: ${claimId}`);
 
     // Use formatClaimResponse to maintain consistent response format
     return this.formatClaimResponse(newClaim);
   }
 
+  /**
+   * Creates a batch claim that reserves one item claim per file under a parent claim.
+   * The whole batch is rejected if it does not fit into the remaining rate limit.
+   * @param userId The ID of the user requesting the batch
+   * @param dto The upload profile and number of files
+   * @returns Promise with the batch claim including its item claims
+   */
+  async createBatchClaim(userId: string, dto: CreateBatchClaimDto): Promise<ClaimResponseDto> {
+    this.logger.log(`Creating batch claim of ${dto.count} items for user ${userId} with profile ${dto.uploadProfile}`);
+
+    const uploadProfile = this.getUploadProfile(dto.uploadProfile);
+    if (!uploadProfile) {
+      const errorMsg = `Upload profile '${dto.uploadProfile}' not found`;
+      this.logger.warn(errorMsg);
+      throw new BadRequestException(errorMsg);
+    }
+
+    const batchClaimId = uuidv4();
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + 24); // Claims expire after 24 hours
+
+    const newClaim = (fields: Partial<UploadClaim>) => new this.uploadClaimModel({
+      claimRequestorUserId: userId,
+      uploadProfile: dto.uploadProfile,
+      status: ClaimStatus.PENDING,
+      expiresAt,
+      statusHistory: [{ at: new Date(), actor: ClaimActor.USER, actorId: userId, to: ClaimStatus.PENDING }],
+      ...fields,
+    });
+
+    const batchClaim = newClaim({ claimId: batchClaimId, batchSize: dto.count });
+    const items = Array.from({ length: dto.count }, (_, batchIndex) =>
+      newClaim({ claimId: uuidv4(), parentClaimId: batchClaimId, batchIndex })
+    );
+
+    await this.quotaService.assertWithinQuota(userId, { bytes: 0, assets: dto.count });
+
+    // One slot per item, reserved together so the batch either fits into the rate limit or is rejected
+    await this.reserveRateLimitSlots(userId, dto.uploadProfile, items.map(item => item.claimId));
+
+    // The parent and all of its items are created together or not at all
+    try {
+      await this.outboxService.withTransaction(async session => {
+        await batchClaim.save({ session });
+        await this.uploadClaimModel.insertMany(items, { session });
+      });
+    } catch (error) {
+      await Promise.all(items.map(item => this.releaseRateLimitSlot(item)));
+      throw error;
+    }
+    this.logger.log(`Batch claim created successfully: ${batchClaimId}`);
+
+    return this.formatClaimResponse(batchClaim);
+  }
+
+  /**
+   * Picks the unused item claims of a batch for a multi-file upload
+   * @param batchClaimId The ID of the batch claim
+   * @param userId The ID of the user performing the upload
+   * @param count Number of files to upload
+   * @returns Promise with the pending item claims, ordered by their position in the batch
+   * @throws BadRequestException if the claim is not a batch or has not enough unused items left
+   * @throws ForbiddenException if the batch belongs to another user
+   */
+  async getBatchItemsForUpload(batchClaimId: string, userId: string, count: number): Promise<UploadClaim[]> {
+    const batchClaim = await this.getClaim(batchClaimId);
+    if (!batchClaim.batchSize) {
+      throw new BadRequestException(`Claim ${batchClaimId} is not a batch claim`);
+    }
+    if (String(batchClaim.claimRequestorUserId) !== String(userId)) {
+      this.logger.warn(`User ${userId} is not authorized to use batch claim ${batchClaimId}`);
+      throw new ForbiddenException(`User ${userId} is not authorized to use claim ${batchClaimId}`);
+    }
+
+    const items = await this.uploadClaimModel.find({ parentClaimId: batchClaimId, status: ClaimStatus.PENDING })
+      .sort({ batchIndex: 1 })
+      .limit(count)
+      .exec();
+
+    if (items.length < count) {
+      throw new BadRequestException(`Batch claim ${batchClaimId} only has ${items.length} unused item claims left`);
+    }
+    return items;
+  }
+
   /**
    * Updates the status of a claim
    * @param claimId The ID of the claim to update
@@ -154,7 +434,10 @@ export class UploadClaimService {
    * @param fileUrl Optional URL to the uploaded file
    * @param moderationMessage Optional message from moderation
    * @param fileMetadata Optional metadata about the uploaded file
+   * @param options Optional events to publish together with the status change
    * @returns Promise with the updated claim
+   * @throws ConflictException if options.expectedStatus is set and the claim is in another status
+   * @throws InvalidClaimTransitionException if the claim cannot move to the new status
    */
   async updateClaimStatus(
     claimId: string, 
@@ -162,7 +445,8 @@ export class UploadClaimService {
     reason?: string,
     fileUrl?: string,
     moderationMessage?: string,
-    fileMetadata?: any
+    fileMetadata?: any,
+    options: UpdateClaimStatusOptions = {}
   ): Promise<UploadClaim> {
     this.logger.log(`Updating claim ${claimId} status to ${status}`);
     
@@ -173,19 +457,107 @@ export class UploadClaimService {
       throw new NotFoundException(errorMsg);
     }
 
+    if (options.expectedStatus) {
+      if (claim.status !== options.expectedStatus) {
+        throw new ConflictException(`Claim ${claimId} is ${claim.status}, expected ${options.expectedStatus}`);
+      }
+      // Makes the save fail if the status changed concurrently
+      claim.$where = { status: options.expectedStatus };
+    }
+
     const previousStatus = claim.status;
+    assertClaimTransition(claimId, previousStatus, status);
+
     claim.status = status;
+    if (status !== previousStatus) {
+      // The transition was validated against the loaded status, so it must not have changed since
+      claim.$where = { status: previousStatus };
+      claim.statusHistory.push({
+        at: new Date(),
+        actor: options.actor ?? ClaimActor.SYSTEM,
+        actorId: options.actorId,
+        from: previousStatus,
+        to: status,
+        reason,
+      });
+    }
+    if (status === ClaimStatus.PROCESSING && previousStatus !== ClaimStatus.PROCESSING) {
+      claim.processingStartedAt = new Date();
+    }
+    if (options.storageFolder) claim.storageFolder = options.storageFolder;
+    if (status === ClaimStatus.FAILED) {
+      claim.errorCode = options.errorCode ?? ClaimErrorCode.UNKNOWN;
+      claim.retryable = isClaimErrorRetryable(claim.errorCode);
+    } else if (previousStatus === ClaimStatus.FAILED) {
+      if (status === ClaimStatus.PROCESSING) {
+        claim.retryCount = (claim.retryCount ?? 0) + 1;
+      }
+      claim.errorCode = undefined;
+      claim.retryable = undefined;
+    }
     if (reason) claim.reason = reason;
     if (fileUrl) claim.fileUrl = fileUrl;
     if (moderationMessage) claim.moderationMessage = moderationMessage;
     if (fileMetadata) claim.fileMetadata = fileMetadata;
 
-    await claim.save();
+    const events = options.events ? options.events(claim) : [];
+    if (status === ClaimStatus.FAILED) {
+      events.push(claimFailedEvent(claim));
+    }
+    const tasks = options.tasks ? options.tasks(claim) : [];
+
+    // The slot was released when the claim failed, uploading it again needs a new one
+    const retried = previousStatus === ClaimStatus.FAILED && status === ClaimStatus.PROCESSING;
+    if (retried) {
+      await this.reserveRateLimitSlots(claim.claimRequestorUserId, claim.uploadProfile, [claimId]);
+    }
+
+    if (options.session) {
+      try {
+        await claim.save({ session: options.session });
+      } catch (error) {
+        if (retried) {
+          await this.releaseRateLimitSlot(claim);
+        }
+        if (error instanceof MongooseError.DocumentNotFoundError) {
+          throw new ConflictException(`Claim ${claimId} changed its status concurrently`);
+        }
+        throw error;
+      }
+      await this.outboxService.enqueue(events, options.session);
+      await this.outboxService.enqueueTasks(tasks, options.session);
+      this.logger.log(`Claim ${claimId} status updated to ${status} within a transaction`);
+      return claim;
+    }
+
+    try {
+      if (events.length || tasks.length) {
+        // Persist the claim and its outbox messages in one transaction so nothing is lost on crash
+        const taskIds = await this.outboxService.withTransaction(async session => {
+          await claim.save({ session });
+          await this.outboxService.enqueue(events, session);
+          return this.outboxService.enqueueTasks(tasks, session);
+        });
+        void this.outboxService.processNow(taskIds);
+      } else {
+        await claim.save();
+      }
+    } catch (error) {
+      if (retried) {
+        await this.releaseRateLimitSlot(claim);
+      }
+      if (error instanceof MongooseError.DocumentNotFoundError) {
+        throw new ConflictException(`Claim ${claimId} changed its status concurrently`);
+      }
+      throw error;
+    }
     this.logger.log(`Claim ${claimId} status updated to ${status}`);
-    
-    // If this is the first time the claim is being marked as 'uploaded', track it for rate limiting
-    if (status === 'uploaded' && previousStatus !== 'uploaded') {
-      await this.trackSuccessfulUpload(claim.claimRequestorUserId, claim.uploadProfile);
+
+    if (status !== previousStatus) {
+      // The claim is already saved, a failed slot update must not fail the status change
+      await this.settleRateLimitSlot(claim).catch(error => {
+        this.logger.error(`Failed to update the rate limit slot of claim ${claimId}: ${error.message}`, error.stack);
+      });
     }
     
     return claim;
@@ -209,6 +581,34 @@ export class UploadClaimService {
     return claim;
   }
 
+  /**
+   * Retrieves the status history of a claim
+   * @param claimId The ID of the claim
+   * @param userId The ID of the requesting user, must be the claim requestor
+   * @returns Promise with the status changes, oldest first
+   * @throws ForbiddenException if the claim belongs to another user
+   */
+  async getClaimHistory(claimId: string, userId: string): Promise<ClaimHistoryResponseDto> {
+    const claim = await this.getClaim(claimId);
+    if (String(claim.claimRequestorUserId) !== String(userId)) {
+      this.logger.warn(`User ${userId} is not authorized to view claim ${claimId}`);
+      throw new ForbiddenException(`User ${userId} is not authorized to view claim ${claimId}`);
+    }
+
+    return {
+      claimId: claim.claimId,
+      status: claim.status,
+      history: claim.statusHistory.map(change => ({
+        at: change.at,
+        actor: change.actor as ClaimActor,
+        actorId: change.actorId,
+        from: change.from,
+        to: change.to,
+        reason: change.reason,
+      })),
+    };
+  }
+
   /**
    * Validates if a claim can be used for uploads
    * @param claimId The ID of the claim to validate
@@ -220,6 +620,10 @@ export class UploadClaimService {
     this.logger.log(`Validating claim ${claimId} for upload`);
     
     const claim = await this.getClaim(claimId);
+
+    if (claim.batchSize) {
+      throw new ForbiddenException(`Claim ${claimId} is a batch claim, upload to its item claims instead`);
+    }
     
     // Check if claim has expired
     if (claim.expiresAt && new Date() > claim.expiresAt) {
@@ -245,24 +649,29 @@ export class UploadClaimService {
       case 'moderation_rejected':
         // Claim was rejected by moderation - no retries
         throw new ForbiddenException(`Claim ${claimId} was rejected by moderation and cannot be retried`);
+
+      case 'expired':
+        // Expired by the claim sweeper
+        throw new ForbiddenException(`Claim ${claimId} has expired`);
+
+      case 'cancelled':
+        // Released by its owner
+        throw new ForbiddenException(`Claim ${claimId} was cancelled`);
       
-      case 'failed':
-        // Need to check if the failure was for a non-transient reason that allows retries
-        const retryableFailureReasons = [
-          'File processing error.',
-          'Server error during processing.',
-          'Content moderation failed',
-          'Error creating video upload'
-        ];
-        
-        if (claim.reason && retryableFailureReasons.includes(claim.reason)) {
-          this.logger.log(`Allowing retry for claim ${claimId} with retryable failure reason: ${claim.reason}`);
+      case 'failed': {
+        // Only failures with a retryable error code can be retried, up to the profile's retry limit
+        const maxRetries = this.getMaxRetries(claim.uploadProfile);
+        if (canRetryClaim(claim, maxRetries)) {
+          this.logger.log(`Allowing retry ${claim.retryCount + 1}/${maxRetries} for claim ${claimId} failed with ${claim.errorCode}`);
           return claim;
-        } else {
-          const errorMsg = `Claim ${claimId} failed for a non-retryable reason: ${claim.reason}`;
-          this.logger.warn(errorMsg);
-          throw new ForbiddenException(errorMsg);
         }
+
+        const errorMsg = claim.retryable
+          ? `Claim ${claimId} has used all ${maxRetries} retries`
+          : `Claim ${claimId} failed for a non-retryable reason: ${claim.reason}`;
+        this.logger.warn(errorMsg);
+        throw new ForbiddenException(errorMsg);
+      }
       
       default:
         const errorMsg = `Claim ${claimId} has an invalid status: ${claim.status}`;
@@ -271,6 +680,137 @@ export class UploadClaimService {
     }
   }
 
+  /**
+   * Issues a presigned S3 PUT URL so the client can upload an image directly to S3.
+   * The image is processed once the client calls the completion endpoint.
+   * @param claimId The ID of the claim to upload for
+   * @param userId The ID of the user performing the upload
+   * @param dto Content type, size and filename of the image
+   * @returns The presigned upload information
+   */
+  async createPresignedImageUpload(
+    claimId: string,
+    userId: string,
+    dto: CreatePresignedUploadDto
+  ): Promise<PresignedUploadResponseDto> {
+    this.logger.log(`Creating presigned image upload for claim ${claimId}`);
+
+    const claim = await this.validateClaimForUpload(claimId);
+    if (String(claim.claimRequestorUserId) !== String(userId)) {
+      const errorMsg = `User ${userId} is not authorized to use claim ${claimId}`;
+      this.logger.warn(errorMsg);
+      throw new ForbiddenException(errorMsg);
+    }
+
+    const profile = config.media.uploadProfiles.find(p => p.name === claim.uploadProfile);
+    if (!profile) {
+      throw new BadRequestException(`Upload profile ${claim.uploadProfile} does not support image uploads`);
+    }
+
+    if (!config.media.allowedMimeTypes.includes(dto.contentType)) {
+      throw new UnsupportedMediaTypeException(
+        `File type ${dto.contentType} not allowed. Allowed types: ${config.media.allowedMimeTypes.join(', ')}`
+      );
+    }
+
+    const maxSize = Math.min(profile.constraints.maxSize, config.media.maxFileSize);
+    if (dto.contentLength > maxSize) {
+      throw new PayloadTooLargeException(`File size ${dto.contentLength} exceeds the maximum of ${maxSize} bytes`);
+    }
+
+    const { stagingPrefix, urlExpirySeconds } = config.media.directUpload;
+    const key = `${stagingPrefix}${claimId}`;
+    const uploadUrl = await this.objectStorageService.createPresignedPutUrl(
+      key,
+      dto.contentType,
+      dto.contentLength,
+      urlExpirySeconds
+    );
+
+    await this.uploadClaimModel.updateOne(
+      { claimId },
+      {
+        $set: {
+          directUploadKey: key,
+          uploadMetadata: { filename: dto.filename || claimId, filetype: dto.contentType },
+        },
+      }
+    ).exec();
+
+    const expiresAt = new Date(Date.now() + urlExpirySeconds * 1000);
+    this.logger.log(`Presigned upload created for claim ${claimId}, expires at ${expiresAt.toISOString()}`);
+
+    return {
+      claimId,
+      uploadUrl,
+      method: 'PUT',
+      headers: {
+        'Content-Type': dto.contentType,
+        'Content-Length': String(dto.contentLength),
+      },
+      expiresAt: expiresAt.toISOString(),
+      maxSize,
+    };
+  }
+
+  /**
+   * Starts (or restarts) a resumable upload session on a claim
+   * @param claimId The ID of the claim
+   * @param uploadLength Total number of bytes the client announced
+   * @param uploadMetadata Decoded tus Upload-Metadata (filename, filetype)
+   * @returns Promise with the updated claim
+   */
+  async startResumableUpload(
+    claimId: string,
+    uploadLength: number,
+    uploadMetadata: Record<string, string>
+  ): Promise<UploadClaim> {
+    this.logger.log(`Starting resumable upload for claim ${claimId}: ${uploadLength} bytes`);
+
+    const claim = await this.uploadClaimModel.findOneAndUpdate(
+      { claimId },
+      { $set: { uploadLength, uploadOffset: 0, uploadMetadata } },
+      { new: true }
+    ).exec();
+
+    if (!claim) {
+      const errorMsg = `Claim with ID ${claimId} not found`;
+      this.logger.warn(errorMsg);
+      throw new NotFoundException(errorMsg);
+    }
+
+    return claim;
+  }
+
+  /**
+   * Moves the resumable upload offset of a claim forward, but only if the
+   * stored offset still matches the one the chunk was written at
+   * @param claimId The ID of the claim
+   * @param fromOffset The offset the chunk was appended at
+   * @param toOffset The offset after the chunk
+   * @returns Promise with the updated claim, or null if the offset moved in the meantime
+   */
+  async advanceUploadOffset(claimId: string, fromOffset: number, toOffset: number): Promise<UploadClaim | null> {
+    return this.uploadClaimModel.findOneAndUpdate(
+      { claimId, uploadOffset: fromOffset },
+      { $set: { uploadOffset: toOffset } },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Moves the resumable upload offset of a claim back to the start, after its chunks were dropped
+   * @param claimId The ID of the claim
+   * @returns Promise with the updated claim, or null if it does not exist
+   */
+  async rewindUploadOffset(claimId: string): Promise<UploadClaim | null> {
+    return this.uploadClaimModel.findOneAndUpdate(
+      { claimId },
+      { $set: { uploadOffset: 0 } },
+      { new: true }
+    ).exec();
+  }
+
   /**
    * Gets rate limit information for a user and upload profile
    * @param userId The user ID
@@ -286,65 +826,46 @@ export class UploadClaimService {
       throw new BadRequestException(`Upload profile ${uploadProfile} not found`);
     }
     
-    if (!profile.rateLimit) {
+    const { rateLimit, override } = await this.getEffectiveRateLimit(userId, uploadProfile);
+    const overrideInfo = override ? {
+      maxUploads: override.maxUploads,
+      periodDays: override.periodDays,
+      exempt: override.exempt,
+      expiresAt: override.expiresAt ? override.expiresAt.toISOString() : 'N/A',
+    } : null;
+
+    if (!rateLimit) {
       return {
         uploadProfile,
         maxUploads: 'unlimited',
         periodDays: 'N/A',
         remainingUploads: 'unlimited',
-        nextResetDate: 'N/A'
-      };
-    }
-    
-    const { maxUploads, periodDays } = profile.rateLimit;
-    
-    // Get the user's upload stats
-    const userStats = await this.userUploadStatsModel.findOne({ 
-      userId, 
-      profileName: uploadProfile 
-    }).exec();
-    
-    // Calculate cutoff date for rate limit period
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - periodDays);
-    
-    // If user has no stats or no uploads, they have all their uploads available
-    if (!userStats || userStats.uploadDates.length === 0) {
-      return {
-        uploadProfile,
-        maxUploads,
-        periodDays,
-        remainingUploads: maxUploads,
-        nextResetDate: 'N/A'
+        nextResetDate: 'N/A',
+        override: overrideInfo
       };
     }
     
-    // Filter to get only recent uploads within the period
-    const recentUploads = userStats.uploadDates.filter(date => new Date(date) > cutoffDate);
-    
-    // Calculate remaining uploads
-    const remainingUploads = Math.max(0, maxUploads - recentUploads.length);
-    
-    // Calculate next reset date (when the oldest upload within the period will expire)
-    let nextResetDate = 'N/A';
-    if (recentUploads.length > 0 && recentUploads.length >= maxUploads) {
-      // Sort dates in ascending order
-      const sortedDates = [...recentUploads].sort((a, b) => a.getTime() - b.getTime());
-      const oldestDate = new Date(sortedDates[0]);
-      
-      // The reset date is when the oldest upload ages out of the rate limit period
-      const resetDate = new Date(oldestDate);
-      resetDate.setDate(resetDate.getDate() + periodDays);
-      
-      nextResetDate = resetDate.toISOString();
-    }
-    
+    const { maxUploads, periodDays } = rateLimit;
+    const usage = await this.getRateLimitUsage(userId, uploadProfile, rateLimit);
+
+    // Uploads are possible again once every full window has room
+    const resetDates = usage.filter(window => window.resetsAt).map(window => window.resetsAt!.getTime());
+    const nextResetDate = resetDates.length ? new Date(Math.max(...resetDates)).toISOString() : 'N/A';
+
     return {
       uploadProfile,
       maxUploads,
       periodDays,
-      remainingUploads,
-      nextResetDate
+      remainingUploads: getRemainingRateLimit(usage),
+      nextResetDate,
+      windows: usage.map(window => ({
+        maxUploads: window.maxUploads,
+        periodHours: window.periodMs / (60 * 60 * 1000),
+        usedUploads: window.used,
+        remainingUploads: window.remaining,
+        resetDate: window.resetsAt ? window.resetsAt.toISOString() : 'N/A',
+      })),
+      override: overrideInfo,
     };
   }
 
@@ -394,6 +915,10 @@ export class UploadClaimService {
    * @returns Formatted claim response
    */
   async formatClaimResponse(claim: UploadClaim): Promise<ClaimResponseDto> {
+    if (claim.batchSize) {
+      return this.formatBatchClaimResponse(claim);
+    }
+
     const response: ClaimResponseDto = {
       claimId: claim.claimId,
       status: claim.status,
@@ -403,6 +928,34 @@ export class UploadClaimService {
     if (claim.reason) response.reason = claim.reason;
     if (claim.fileUrl) response.fileUrl = claim.fileUrl;
     if (claim.moderationMessage) response.moderationMessage = claim.moderationMessage;
+    if (claim.expectedMimeType || claim.expectedFileSize || claim.clientFilename) {
+      response.expected = {
+        mimeType: claim.expectedMimeType,
+        fileSize: claim.expectedFileSize,
+        filename: claim.clientFilename,
+      };
+    }
+    if (claim.context) response.context = claim.context;
+    if (claim.target) response.target = { type: claim.target.type, id: claim.target.id };
+    if (claim.parentClaimId) {
+      response.parentClaimId = claim.parentClaimId;
+      response.batchIndex = claim.batchIndex;
+    }
+
+    // Tell clients whether prompting the user to upload again makes sense
+    if (claim.status === ClaimStatus.FAILED) {
+      const maxRetries = this.getMaxRetries(claim.uploadProfile);
+      response.errorCode = claim.errorCode ?? ClaimErrorCode.UNKNOWN;
+      response.retryable = canRetryClaim(claim, maxRetries);
+      response.retryCount = claim.retryCount ?? 0;
+      response.maxRetries = maxRetries;
+    }
+
+    // Expose resumable upload progress so clients can continue after a disconnect
+    if (claim.uploadLength !== undefined && claim.uploadLength !== null) {
+      response.uploadLength = claim.uploadLength;
+      response.uploadOffset = claim.uploadOffset ?? 0;
+    }
 
     // Look up associated image asset if one exists
     const imageAsset = await this.imageAssetModel.findOne({ claimId: claim.claimId }).exec();
@@ -419,6 +972,53 @@ export class UploadClaimService {
     return response;
   }
 
+  /**
+   * Formats a batch claim, its status is derived from the statuses of its items
+   */
+  private async formatBatchClaimResponse(claim: UploadClaim): Promise<ClaimResponseDto> {
+    const items = await this.uploadClaimModel.find({ parentClaimId: claim.claimId }).sort({ batchIndex: 1 }).exec();
+    const statuses = items.map(item => item.status);
+    const status = aggregateBatchStatus(statuses);
+
+    return {
+      claimId: claim.claimId,
+      status,
+      message: this.getMessageForStatus(status),
+      batch: {
+        size: items.length,
+        counts: countClaimStatuses(statuses),
+        items: await Promise.all(items.map(item => this.formatClaimResponse(item))),
+      },
+    };
+  }
+
+  /**
+   * Gets the retry limit of an upload profile
+   */
+  private getMaxRetries(profileName: string): number {
+    return this.getUploadProfile(profileName)?.maxRetries ?? config.claims.defaultMaxRetries;
+  }
+
+  /**
+   * Gets the limits of an upload profile that the client's expectations are checked against
+   */
+  private getClaimUploadConstraints(profileName: string): ClaimUploadConstraints {
+    const imageProfile = config.media.uploadProfiles.find(profile => profile.name === profileName);
+    if (imageProfile) {
+      return {
+        maxSize: Math.min(imageProfile.constraints.maxSize, config.media.maxFileSize),
+        allowedMimeTypes: config.media.allowedMimeTypes,
+      };
+    }
+
+    const videoProfile = config.videoProfiles.find(profile => profile.name === profileName);
+    return {
+      maxSize: videoProfile?.maxSizeBytes,
+      allowedFormats: videoProfile?.allowedFormats,
+      allowedContextKeys: videoProfile?.passThroughParams,
+    };
+  }
+
   /**
    * Gets an upload profile by name
    * @param profileName The name of the profile to retrieve
@@ -466,6 +1066,10 @@ export class UploadClaimService {
         return 'Upload failed.';
       case 'moderation_rejected':
         return 'Image rejected by moderation.';
+      case 'expired':
+        return 'Claim has expired.';
+      case 'cancelled':
+        return 'Claim was cancelled.';
       default:
         return 'Unknown status.';
     }
@@ -0,0 +1,122 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UserUploadStats } from './schemas/user-upload-stats.schema';
+import { UserUploadStatsDedupeService } from './user-upload-stats-dedupe.service';
+
+const DAY = new Date('2026-01-01T12:00:00Z');
+
+const exec = <T>(result: T) => ({
+  exec: jest.fn().mockResolvedValue(result),
+});
+
+describe('UserUploadStatsDedupeService', () => {
+  let service: UserUploadStatsDedupeService;
+  let userUploadStatsModel: {
+    listIndexes: jest.Mock;
+    aggregate: jest.Mock;
+    find: jest.Mock;
+    findOneAndDelete: jest.Mock;
+    updateOne: jest.Mock;
+    createIndexes: jest.Mock;
+  };
+
+  const kept = {
+    _id: 'stats-1',
+    uploadDates: [],
+    slots: [{ claimId: 'claim-1', at: DAY, committed: true }],
+  };
+  const duplicate = {
+    _id: 'stats-2',
+    uploadDates: [DAY],
+    slots: [
+      { claimId: 'claim-1', at: DAY, committed: false },
+      { claimId: 'claim-2', at: DAY, committed: false },
+    ],
+  };
+
+  beforeEach(async () => {
+    userUploadStatsModel = {
+      listIndexes: jest.fn().mockResolvedValue([{ name: '_id_' }]),
+      aggregate: jest.fn().mockReturnValue({
+        allowDiskUse: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([
+          {
+            _id: { userId: 'user-1', profileName: 'profile_picture' },
+            ids: ['stats-1', 'stats-2'],
+          },
+        ]),
+      }),
+      find: jest.fn().mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([kept, duplicate]),
+      }),
+      findOneAndDelete: jest.fn().mockReturnValue(exec(duplicate)),
+      updateOne: jest.fn().mockReturnValue(exec({})),
+      createIndexes: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserUploadStatsDedupeService,
+        {
+          provide: getModelToken(UserUploadStats.name),
+          useValue: userUploadStatsModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserUploadStatsDedupeService>(
+      UserUploadStatsDedupeService,
+    );
+  });
+
+  it('should merge duplicates into the oldest stats and build the index', async () => {
+    await expect(service.migrate()).resolves.toBe(1);
+
+    expect(userUploadStatsModel.findOneAndDelete).toHaveBeenCalledWith({
+      _id: 'stats-2',
+    });
+    expect(userUploadStatsModel.updateOne).toHaveBeenCalledWith(
+      { _id: 'stats-1' },
+      {
+        $push: {
+          uploadDates: { $each: [DAY] },
+          // The slot of claim-1 is kept already
+          slots: { $each: [duplicate.slots[1]] },
+        },
+      },
+    );
+    expect(userUploadStatsModel.createIndexes).toHaveBeenCalled();
+  });
+
+  it('should not merge duplicates another replica removed meanwhile', async () => {
+    userUploadStatsModel.findOneAndDelete.mockReturnValue(exec(null));
+
+    await expect(service.migrate()).resolves.toBe(0);
+
+    expect(userUploadStatsModel.updateOne).not.toHaveBeenCalled();
+    expect(userUploadStatsModel.createIndexes).toHaveBeenCalled();
+  });
+
+  it('should do nothing once the unique index exists', async () => {
+    userUploadStatsModel.listIndexes.mockResolvedValue([
+      { name: '_id_' },
+      { name: 'userId_1_profileName_1', unique: true },
+    ]);
+
+    await expect(service.migrate()).resolves.toBe(0);
+
+    expect(userUploadStatsModel.aggregate).not.toHaveBeenCalled();
+    expect(userUploadStatsModel.createIndexes).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing if there are no stats yet', async () => {
+    userUploadStatsModel.listIndexes.mockRejectedValue(
+      Object.assign(new Error('ns does not exist'), { code: 26 }),
+    );
+
+    await expect(service.migrate()).resolves.toBe(0);
+
+    expect(userUploadStatsModel.aggregate).not.toHaveBeenCalled();
+  });
+});
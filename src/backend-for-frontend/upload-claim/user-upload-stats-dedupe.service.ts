@@ -0,0 +1,128 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { UserUploadStats } from './schemas/user-upload-stats.schema';
+
+// Name Mongo gives the unique index on (userId, profileName)
+const USER_PROFILE_INDEX = 'userId_1_profileName_1';
+
+interface DuplicateStats {
+  _id: { userId: string; profileName: string };
+  ids: Types.ObjectId[];
+}
+
+/**
+ * One-off migration for the unique (userId, profileName) index of the upload stats. Concurrent upserts
+ * used to create several stats for the same user and profile, which keeps Mongo from building the index.
+ * Until the index exists, duplicates are merged into the oldest stats on startup and the index is built.
+ */
+@Injectable()
+export class UserUploadStatsDedupeService implements OnModuleInit {
+  private readonly logger = new Logger(UserUploadStatsDedupeService.name);
+
+  constructor(
+    @InjectModel(UserUploadStats.name)
+    private userUploadStatsModel: Model<UserUploadStats>,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.migrate();
+    } catch (error) {
+      this.logger.error(
+        `Failed to deduplicate user upload stats: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  /**
+   * Merges duplicate stats and builds the unique index, unless it exists already
+   * @returns Number of removed duplicates
+   */
+  async migrate(): Promise<number> {
+    let indexes: { name?: string }[];
+    try {
+      indexes = (await this.userUploadStatsModel.listIndexes()) as {
+        name?: string;
+      }[];
+    } catch (error) {
+      // NamespaceNotFound - no stats yet, Mongoose builds the index together with the collection
+      if ((error as { code?: number }).code === 26) {
+        return 0;
+      }
+      throw error;
+    }
+    if (indexes.some((index) => index.name === USER_PROFILE_INDEX)) {
+      return 0;
+    }
+
+    const duplicates = await this.userUploadStatsModel
+      .aggregate<DuplicateStats>([
+        {
+          $group: {
+            _id: { userId: '$userId', profileName: '$profileName' },
+            ids: { $push: '$_id' },
+            count: { $sum: 1 },
+          },
+        },
+        { $match: { count: { $gt: 1 } } },
+      ])
+      .allowDiskUse(true)
+      .exec();
+
+    let removed = 0;
+    for (const duplicate of duplicates) {
+      removed += await this.merge(duplicate.ids);
+    }
+
+    await this.userUploadStatsModel.createIndexes();
+    this.logger.log(
+      `Built the unique user upload stats index after removing ${removed} duplicate(s) of ${duplicates.length} user profile(s)`,
+    );
+    return removed;
+  }
+
+  /**
+   * Moves the upload dates and slots of all stats but the oldest into the oldest
+   */
+  private async merge(ids: Types.ObjectId[]): Promise<number> {
+    const [kept, ...others] = await this.userUploadStatsModel
+      .find({ _id: { $in: ids } })
+      .sort({ createdAt: 1, _id: 1 })
+      .exec();
+    if (!kept) {
+      return 0;
+    }
+    const keptClaimIds = new Set(kept.slots.map((slot) => slot.claimId));
+
+    let removed = 0;
+    for (const other of others) {
+      // Deleted first, so stats another replica merged meanwhile are not counted twice
+      const duplicate = await this.userUploadStatsModel
+        .findOneAndDelete({ _id: other._id })
+        .exec();
+      if (!duplicate) {
+        continue;
+      }
+
+      const slots = duplicate.slots.filter(
+        (slot) => !keptClaimIds.has(slot.claimId),
+      );
+      slots.forEach((slot) => keptClaimIds.add(slot.claimId));
+      await this.userUploadStatsModel
+        .updateOne(
+          { _id: kept._id },
+          {
+            $push: {
+              uploadDates: { $each: duplicate.uploadDates },
+              slots: { $each: slots },
+            },
+          },
+        )
+        .exec();
+      removed++;
+    }
+    return removed;
+  }
+}
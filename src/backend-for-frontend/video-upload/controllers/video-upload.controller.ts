@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Param,
   Query,
   Body,
@@ -9,6 +10,7 @@ import {
   NotFoundException,
   ForbiddenException,
   HttpCode,
+  HttpStatus,
   Headers,
 } from '@nestjs/common';
 import { VideoUploadService } from '../services/video-upload.service';
@@ -24,13 +26,17 @@ import {
   ApiHeader,
 } from '@nestjs/swagger';
 import { WithDecodedUserJWT, UserID } from '@gpe/backend-common/dist/auth';
+import { IDEMPOTENCY_KEY_HEADER, IdempotencyScope, IdempotencyService } from '../../../core/idempotency/idempotency.service';
 
 @ApiTags('videos')
 @Controller('videos')
 export class VideoUploadController {
   private readonly logger = new Logger(VideoUploadController.name);
 
-  constructor(private readonly videoUploadService: VideoUploadService) {
+  constructor(
+    private readonly videoUploadService: VideoUploadService,
+    private readonly idempotencyService: IdempotencyService,
+  ) {
     this.logger.log('VideoUploadController initialized');
   }
 
@@ -72,12 +78,15 @@ export class VideoUploadController {
   })
   @ApiResponse({ status: 400, description: 'Bad request or invalid claim' })
   @ApiResponse({ status: 403, description: 'Claim cannot be used or user not authorized' })
+  @ApiHeader({ name: IDEMPOTENCY_KEY_HEADER, required: false, description: 'Optional client-generated key, a retried request with the same key replays the first response instead of running again' })
+  @ApiResponse({ status: 409, description: 'Idempotency-Key reused for a different request or still in progress' })
   @ApiBearerAuth()
   @WithDecodedUserJWT()
   async createDirectUpload(
     @UserID() userId: string,
     @Query('claimId') claimId: string,
-    @Query('originalFilename') originalFilename?: string
+    @Query('originalFilename') originalFilename?: string,
+    @Headers('idempotency-key') idempotencyKey?: string
   ) {
     this.logger.log(`Received direct upload URL request: claimId=${claimId}, userId=${userId}`);
 
@@ -85,10 +94,33 @@ export class VideoUploadController {
     const { v4: uuidv4 } = require('uuid');
     const filename = originalFilename || `video-${uuidv4()}.mp4`;
 
-    return this.videoUploadService.createDirectUploadWithClaim(
-      userId,
-      claimId,
-      filename,
+    return this.idempotencyService.execute(
+      { key: idempotencyKey, userId, scope: IdempotencyScope.VIDEO_UPLOAD_URL, parameters: { claimId, originalFilename } },
+      () => this.videoUploadService.createDirectUploadWithClaim(
+        userId,
+        claimId,
+        filename,
+      )
     );
   }
-}
\ No newline at end of file
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a video',
+    description: 'Soft-deletes the video. It is deleted at Mux (or its pending upload cancelled) once the retention period of the upload profile elapsed. Only the owner can delete a video.'
+  })
+  @ApiParam({ name: 'id', description: 'The video asset ID (without the video- prefix)' })
+  @ApiResponse({ status: 204, description: 'Video deleted' })
+  @ApiResponse({ status: 403, description: 'User is not the owner of the video' })
+  @ApiResponse({ status: 404, description: 'Video not found' })
+  @ApiBearerAuth()
+  @WithDecodedUserJWT()
+  async deleteVideo(
+    @UserID() userId: string,
+    @Param('id') id: string,
+  ): Promise<void> {
+    this.logger.log(`Received video deletion request: id=${id}`);
+    await this.videoUploadService.deleteVideoAssetForOwner(id, userId);
+  }
+}
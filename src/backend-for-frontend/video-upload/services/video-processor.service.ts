@@ -7,6 +7,7 @@ import config from '../../../config';
 import Mux from '@mux/mux-node';
 import { MuxPassTroghUplaodPayload } from 'src/shared/interfaces/mux.interface';
 import { S3Service } from '@gpe/backend-common/dist/aws/s3';
+import { QuotaService } from '../../../core/quota/quota.service';
 
 @Injectable()
 export class VideoProcessorService {
@@ -15,6 +16,7 @@ export class VideoProcessorService {
 
   constructor(
     private readonly awsS3Service: S3Service,
+    private readonly quotaService: QuotaService,
     @InjectModel(VideoAsset.name) private videoAssetModel: Model<VideoAsset>
   ) {
     this.logger.log('VideoProcessorService initialized');
@@ -37,7 +39,8 @@ export class VideoProcessorService {
     userId: string,
     profileName: string,
     originalFilename?: string,
-    claimId?: string
+    claimId?: string,
+    fileSize?: number
   ) {
     this.logger.log(`Creating direct upload for user ${userId} with profile ${profileName}`);
 
@@ -79,11 +82,14 @@ export class VideoProcessorService {
         passTroughUploadID,
         muxDirectUploadId: directUpload.id,
         originalFilename,
+        fileSize,
         customParams: {},
         claimId,
       });
 
       await asset.save();
+      // Counted with the size announced for the claim, Mux does not report the size of the uploaded file
+      await this.quotaService.recordAssetStored(userId, fileSize ?? 0);
 
       this.logger.log(`Direct upload created successfully: ${directUpload.id}`);
 
@@ -98,4 +104,40 @@ export class VideoProcessorService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Cancels a Mux direct upload so its upload URL no longer accepts a file
+   * @param muxDirectUploadId The ID of the direct upload
+   */
+  async cancelDirectUpload(muxDirectUploadId: string): Promise<void> {
+    try {
+      await this.muxClient.video.uploads.cancel(muxDirectUploadId);
+      this.logger.log(`Cancelled Mux direct upload ${muxDirectUploadId}`);
+    } catch (error) {
+      if (error instanceof Mux.NotFoundError) {
+        this.logger.log(`Mux direct upload ${muxDirectUploadId} was already gone`);
+        return;
+      }
+      this.logger.error(`Error cancelling Mux direct upload ${muxDirectUploadId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a Mux asset including its renditions
+   * @param muxAssetId The ID of the Mux asset
+   */
+  async deleteMuxAsset(muxAssetId: string): Promise<void> {
+    try {
+      await this.muxClient.video.assets.delete(muxAssetId);
+      this.logger.log(`Deleted Mux asset ${muxAssetId}`);
+    } catch (error) {
+      if (error instanceof Mux.NotFoundError) {
+        this.logger.log(`Mux asset ${muxAssetId} was already gone`);
+        return;
+      }
+      this.logger.error(`Error deleting Mux asset ${muxAssetId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
@@ -5,7 +5,9 @@ import { VideoAsset } from '../../../shared/schemas/video-asset.schema';
 import { VideoProcessorService } from './video-processor.service';
 import { UploadClaimService } from '../../upload-claim/upload-claim.service';
 import config from '../../../config';
-import { ClaimStatus } from 'src/backend-for-frontend/upload-claim/schemas/upload-claim.schema';
+import { ClaimErrorCode, ClaimStatus } from 'src/backend-for-frontend/upload-claim/schemas/upload-claim.schema';
+import { AssetDeletionService } from '../../../core/asset-deletion/asset-deletion.service';
+import { ClaimActor } from '../../upload-claim/claim-transitions';
 
 @Injectable()
 export class VideoUploadService {
@@ -14,7 +16,8 @@ export class VideoUploadService {
   constructor(
     @InjectModel(VideoAsset.name) private videoAssetModel: Model<VideoAsset>,
     private readonly videoProcessorService: VideoProcessorService,
-    private readonly uploadClaimService: UploadClaimService
+    private readonly uploadClaimService: UploadClaimService,
+    private readonly assetDeletionService: AssetDeletionService
   ) {
     this.logger.log('VideoUploadService initialized');
   }
@@ -59,14 +62,18 @@ export class VideoUploadService {
       this.logger.log(`Using video profile ${profileName} for upload`);
 
       // Update claim status to processing
-      await this.uploadClaimService.updateClaimStatus(claimId,ClaimStatus.PROCESSING) ;
+      await this.uploadClaimService.updateClaimStatus(claimId, ClaimStatus.PROCESSING, undefined, undefined, undefined, undefined, {
+        actor: ClaimActor.USER,
+        actorId: userId,
+      });
 
       // Create the direct upload via the processor service
       const result = await this.videoProcessorService.createDirectUpload(
         userId,
         profileName,
         originalFilename,
-        claimId
+        claimId,
+        claim.expectedFileSize
       );
 
       this.logger.log(`Direct upload created successfully: ${result.muxDirectUploadId}`);
@@ -94,7 +101,9 @@ export class VideoUploadService {
             ClaimStatus.FAILED,
             'Error creating video upload',
             undefined,
-            error.message
+            error.message,
+            undefined,
+            { errorCode: ClaimErrorCode.VIDEO_UPLOAD_ERROR }
           );
         } catch (updateError) {
           this.logger.error(`Failed to update claim status: ${updateError.message}`, updateError.stack);
@@ -159,4 +168,14 @@ export class VideoUploadService {
     return asset;
   }
 
+  /**
+   * Delete a video asset, but only if the user is the owner
+   * @param assetId The ID of the video asset to delete
+   * @param userId The ID of the user making the request
+   */
+  async deleteVideoAssetForOwner(assetId: string, userId: string): Promise<void> {
+    const asset = await this.getVideoAssetForOwner(assetId, userId);
+    await this.assetDeletionService.deleteVideo(asset, userId);
+  }
+
 }
\ No newline at end of file
@@ -6,6 +6,9 @@ import { VideoProcessorService } from './services/video-processor.service';
 import { VideoUploadService } from './services/video-upload.service';
 import { ModerationModule } from '../../core/moderation/moderation.module';
 import { UploadClaimModule } from '../upload-claim/upload-claim.module';
+import { AssetDeletionModule } from '../../core/asset-deletion/asset-deletion.module';
+import { IdempotencyModule } from '../../core/idempotency/idempotency.module';
+import { QuotaModule } from '../../core/quota/quota.module';
 import { S3Module } from '@gpe/backend-common/dist/aws/s3';
 import config from 'src/config';
 
@@ -20,6 +23,9 @@ import config from 'src/config';
       region: config.aws.services.s3.region,
     }),
     ModerationModule,
+    forwardRef(() => AssetDeletionModule),
+    IdempotencyModule,
+    QuotaModule,
     forwardRef(() => UploadClaimModule), // Use forwardRef to break circular dependency
   ],
   controllers: [VideoUploadController],
@@ -19,6 +19,12 @@ const config = Object.freeze<GPEMediaServiceConfig>({
       consumerGroupId: "gpe-media-api-service-deploymnet-d",
       topics: {
         muxVideoAssetsTopic: parseEnv<string>(process.env.KAFKA_MUX_VIDEO_ASSETS_TOPIC, 'mux.video-assets'),
+        mediaImageReadyTopic: parseEnv<string>(process.env.KAFKA_MEDIA_IMAGE_READY_TOPIC, 'media.image.ready'),
+        mediaVideoReadyTopic: parseEnv<string>(process.env.KAFKA_MEDIA_VIDEO_READY_TOPIC, 'media.video.ready'),
+        mediaAssetDeletedTopic: parseEnv<string>(process.env.KAFKA_MEDIA_ASSET_DELETED_TOPIC, 'media.asset.deleted'),
+        mediaClaimFailedTopic: parseEnv<string>(process.env.KAFKA_MEDIA_CLAIM_FAILED_TOPIC, 'media.claim.failed'),
+        mediaModerationRejectedTopic: parseEnv<string>(process.env.KAFKA_MEDIA_MODERATION_REJECTED_TOPIC, 'media.moderation.rejected'),
+        userDeletedTopic: parseEnv<string>(process.env.KAFKA_USER_DELETED_TOPIC, 'user.deleted'),
       }
     }
   },
@@ -79,12 +85,15 @@ const config = Object.freeze<GPEMediaServiceConfig>({
           maxHeight: 1280,
           aspectRatio: "1:1", // Square images
           allowedDeviation: 0.075, // 7.5% deviation allowed from the perfect aspect ratio
+          cropMode: "attention", // Crop other images to the most salient square, usually the face
+          outputFormats: ["webp", "avif", "jpeg"], // JPEG for email clients and Open Graph scrapers
           resolutions: [
             {
               suffix: "thumbnail",
               width: 50,
               height: 50,
-              quality: 80
+              quality: 80,
+              formats: ["webp", "jpeg"] // AVIF saves next to nothing at this size
             },
             {
               suffix: "small",
@@ -103,9 +112,36 @@ const config = Object.freeze<GPEMediaServiceConfig>({
         rateLimit: {
           maxUploads: parseEnv<number>(process.env.PROFILE_PIC_MAX_UPLOADS, 300), // Default: 3 uploads
           periodDays: parseEnv<number>(process.env.PROFILE_PIC_PERIOD_DAYS, 30), // Default: 30 days
+          windows: [
+            {
+              maxUploads: parseEnv<number>(process.env.PROFILE_PIC_MAX_UPLOADS_PER_HOUR, 20),
+              periodHours: 1,
+            }
+          ],
+        },
+        deletedRetentionDays: parseEnv<number>(process.env.PROFILE_PIC_DELETED_RETENTION_DAYS, 30),
+        // Profile pictures are square, a width is enough. Kept small since every variant is cached and counted
+        transform: {
+          widths: [48, 96, 192, 384],
+          heights: [],
+          fits: ["cover"],
+          formats: ["webp", "jpeg"],
+          qualities: [75],
         },
       }
     ],
+    resumableUpload: {
+      maxChunkSize: parseEnv<number>(process.env.RESUMABLE_UPLOAD_MAX_CHUNK_SIZE, 5 * 1024 * 1024), // 5MB default
+    },
+    directUpload: {
+      stagingPrefix: parseEnv<string>(process.env.DIRECT_UPLOAD_STAGING_PREFIX, 'uploads/staging/'),
+      urlExpirySeconds: parseEnv<number>(process.env.DIRECT_UPLOAD_URL_EXPIRY_SECONDS, 15 * 60), // 15 minutes
+    },
+    transform: {
+      cacheMaxAgeSeconds: parseEnv<number>(process.env.IMAGE_TRANSFORM_CACHE_MAX_AGE_SECONDS, 30 * 24 * 60 * 60), // 30 days
+      variantPrefix: parseEnv<string>(process.env.IMAGE_TRANSFORM_VARIANT_PREFIX, 'transform-'),
+      maxConcurrentGenerations: parseEnv<number>(process.env.IMAGE_TRANSFORM_MAX_CONCURRENT_GENERATIONS, 2), // Per replica
+    },
     moderation: {
       rules: {
         defaultThreshold: 60, // Default confidence threshold for moderation (60%)
@@ -172,7 +208,9 @@ const config = Object.freeze<GPEMediaServiceConfig>({
       maxDurationSeconds: 300, // 5 minutes
       maxSizeBytes: 1024 * 1024 * 500, // 500MB
       allowedFormats: ["mp4", "mov", "avi", "webm"],
-      passThroughParams: ["userId", "profileName"]
+      passThroughParams: ["userId", "profileName"],
+      deletedRetentionDays: 30,
+      processingTimeoutMinutes: 6 * 60 // 6 hours to upload and encode
     },
     {
       name: "course_content",
@@ -180,9 +218,85 @@ const config = Object.freeze<GPEMediaServiceConfig>({
       maxDurationSeconds: 3600, // 1 hour
       maxSizeBytes: 1024 * 1024 * 2000, // 2GB
       allowedFormats: ["mp4", "mov", "avi", "webm"],
-      passThroughParams: ["userId", "courseId", "lessonId"]
+      passThroughParams: ["userId", "courseId", "lessonId"],
+      deletedRetentionDays: 90,
+      processingTimeoutMinutes: 24 * 60 // 24 hours to upload and encode
     }
-  ]
+  ],
+  claims: {
+    defaultMaxRetries: parseEnv<number>(process.env.CLAIM_DEFAULT_MAX_RETRIES, 3),
+    batch: {
+      maxItems: parseEnv<number>(process.env.CLAIM_BATCH_MAX_ITEMS, 20),
+    },
+    statusStream: {
+      heartbeatIntervalMs: parseEnv<number>(process.env.CLAIM_STATUS_STREAM_HEARTBEAT_MS, 15000), // 15 seconds
+      maxClaimsPerStream: parseEnv<number>(process.env.CLAIM_STATUS_STREAM_MAX_CLAIMS, 25),
+    },
+    sweeper: {
+      intervalMs: parseEnv<number>(process.env.CLAIM_SWEEPER_INTERVAL_MS, 5 * 60 * 1000), // 5 minutes
+      batchSize: parseEnv<number>(process.env.CLAIM_SWEEPER_BATCH_SIZE, 100),
+      defaultProcessingTimeoutMinutes: parseEnv<number>(process.env.CLAIM_PROCESSING_TIMEOUT_MINUTES, 30),
+    }
+  },
+  webhooks: {
+    maxAttempts: parseEnv<number>(process.env.WEBHOOK_MAX_ATTEMPTS, 8),
+    initialBackoffMs: parseEnv<number>(process.env.WEBHOOK_INITIAL_BACKOFF_MS, 30 * 1000), // 30 seconds
+    maxBackoffMs: parseEnv<number>(process.env.WEBHOOK_MAX_BACKOFF_MS, 6 * 60 * 60 * 1000), // 6 hours
+    requestTimeoutMs: parseEnv<number>(process.env.WEBHOOK_REQUEST_TIMEOUT_MS, 10 * 1000), // 10 seconds
+    dispatchIntervalMs: parseEnv<number>(process.env.WEBHOOK_DISPATCH_INTERVAL_MS, 15 * 1000), // 15 seconds
+    batchSize: parseEnv<number>(process.env.WEBHOOK_BATCH_SIZE, 50),
+  },
+  outbox: {
+    relayIntervalMs: parseEnv<number>(process.env.OUTBOX_RELAY_INTERVAL_MS, 2 * 1000), // 2 seconds
+    batchSize: parseEnv<number>(process.env.OUTBOX_BATCH_SIZE, 100),
+    leaseMs: parseEnv<number>(process.env.OUTBOX_LEASE_MS, 30 * 1000), // 30 seconds
+    maxAttempts: parseEnv<number>(process.env.OUTBOX_MAX_ATTEMPTS, 20),
+    initialBackoffMs: parseEnv<number>(process.env.OUTBOX_INITIAL_BACKOFF_MS, 5 * 1000), // 5 seconds
+    maxBackoffMs: parseEnv<number>(process.env.OUTBOX_MAX_BACKOFF_MS, 30 * 60 * 1000), // 30 minutes
+  },
+  assetDeletion: {
+    defaultRetentionDays: parseEnv<number>(process.env.DELETED_ASSET_RETENTION_DAYS, 30),
+    purgeIntervalMs: parseEnv<number>(process.env.DELETED_ASSET_PURGE_INTERVAL_MS, 10 * 60 * 1000), // 10 minutes
+    purgeBatchSize: parseEnv<number>(process.env.DELETED_ASSET_PURGE_BATCH_SIZE, 100),
+  },
+  userData: {
+    exportPrefix: parseEnv<string>(process.env.USER_DATA_EXPORT_PREFIX, 'user-data-exports/'),
+    exportUrlExpirySeconds: parseEnv<number>(process.env.USER_DATA_EXPORT_URL_EXPIRY_SECONDS, 7 * 24 * 60 * 60), // 7 days
+  },
+  reconciliation: {
+    scheduleEnabled: parseEnv<boolean>(process.env.RECONCILIATION_SCHEDULE_ENABLED, false),
+    intervalMs: parseEnv<number>(process.env.RECONCILIATION_INTERVAL_MS, 24 * 60 * 60 * 1000), // 24 hours
+    deleteOrphans: parseEnv<boolean>(process.env.RECONCILIATION_DELETE_ORPHANS, false),
+    gracePeriodHours: parseEnv<number>(process.env.RECONCILIATION_GRACE_PERIOD_HOURS, 24),
+    maxReportedItems: parseEnv<number>(process.env.RECONCILIATION_MAX_REPORTED_ITEMS, 1000),
+  },
+  renditionBackfill: {
+    pollIntervalMs: parseEnv<number>(process.env.RENDITION_BACKFILL_POLL_INTERVAL_MS, 10 * 1000), // 10 seconds
+    batchSize: parseEnv<number>(process.env.RENDITION_BACKFILL_BATCH_SIZE, 20),
+    throttleMs: parseEnv<number>(process.env.RENDITION_BACKFILL_THROTTLE_MS, 250),
+    leaseMs: parseEnv<number>(process.env.RENDITION_BACKFILL_LEASE_MS, 5 * 60 * 1000), // 5 minutes
+    maxReportedFailures: parseEnv<number>(process.env.RENDITION_BACKFILL_MAX_REPORTED_FAILURES, 100),
+  },
+  idempotency: {
+    ttlHours: parseEnv<number>(process.env.IDEMPOTENCY_TTL_HOURS, 24),
+    lockTimeoutMs: parseEnv<number>(process.env.IDEMPOTENCY_LOCK_TIMEOUT_MS, 5 * 60 * 1000), // 5 minutes
+  },
+  quotas: {
+    defaultTier: parseEnv<string>(process.env.QUOTA_DEFAULT_TIER, 'free'),
+    tiers: {
+      free: {
+        maxBytes: parseEnv<number>(process.env.QUOTA_FREE_MAX_BYTES, 2 * 1024 * 1024 * 1024), // 2GB
+        maxAssets: parseEnv<number>(process.env.QUOTA_FREE_MAX_ASSETS, 1000),
+      },
+      premium: {
+        maxBytes: parseEnv<number>(process.env.QUOTA_PREMIUM_MAX_BYTES, 50 * 1024 * 1024 * 1024), // 50GB
+        maxAssets: parseEnv<number>(process.env.QUOTA_PREMIUM_MAX_ASSETS, 20000),
+      },
+      unlimited: {},
+    },
+    recountIntervalMs: parseEnv<number>(process.env.QUOTA_RECOUNT_INTERVAL_MS, 60 * 60 * 1000), // 1 hour
+    recountBatchSize: parseEnv<number>(process.env.QUOTA_RECOUNT_BATCH_SIZE, 100),
+  }
 });
 
 export default config;
\ No newline at end of file
@@ -45,6 +45,12 @@ export type OnboardingConfig = {
 export type KafkaConfigWithTopics = IGPEAppConfig['db']['kafka'] & {
   topics: {
     muxVideoAssetsTopic: string;
+    mediaImageReadyTopic: string;
+    mediaVideoReadyTopic: string;
+    mediaAssetDeletedTopic: string;
+    mediaClaimFailedTopic: string;
+    mediaModerationRejectedTopic: string;
+    userDeletedTopic: string;
   }
 };
 
@@ -82,13 +88,23 @@ export interface ModerationApiConfig {
   };
 }
 
+export type ImageOutputFormat = 'webp' | 'avif' | 'jpeg';
+
 export interface ImageResolution {
   width: number;
   height: number;
   quality?: number;
   suffix: string; // e.g., "thumbnail", "small", "medium"
+  formats?: ImageOutputFormat[]; // Formats to encode this resolution in, the first is the primary one (default: the profile's outputFormats)
 }
 
+/**
+ * How images whose aspect ratio deviates from the profile's are handled: rejected, or cropped to it around
+ * the center, the most salient region (attention), the most detailed region (entropy) or the focal point
+ * sent with the upload
+ */
+export type ImageCropMode = 'reject' | 'center' | 'attention' | 'entropy' | 'focalPoint';
+
 export interface UploadProfileConstraints {
   maxSize: number;
   allowedFormats: string[];
@@ -98,12 +114,30 @@ export interface UploadProfileConstraints {
   maxHeight?: number;
   aspectRatio?: string;
   allowedDeviation?: number; // Percentage of allowed deviation from the aspect ratio (e.g., 0.075 = 7.5%)
+  cropMode?: ImageCropMode; // What happens to images exceeding the allowed deviation (default: reject)
   resolutions?: ImageResolution[]; // Additional resolutions to generate for images
+  outputFormats?: ImageOutputFormat[]; // Formats to encode the main image in, the first is the primary one (default: webp)
+}
+
+export interface RateLimitWindow {
+  maxUploads: number;      // Maximum number of uploads allowed in the window
+  periodHours: number;     // Length of the window in hours
 }
 
 export interface UploadRateLimit {
   maxUploads: number;      // Maximum number of uploads allowed in the time period
   periodDays: number;      // Time period in days for the rate limit
+  windows?: RateLimitWindow[]; // Additional windows that must have room as well (e.g. 5 uploads per hour)
+}
+
+export type ImageTransformFit = 'cover' | 'contain' | 'inside';
+
+export interface ImageTransformAllowlist {
+  widths: number[]; // Widths that may be requested
+  heights: number[]; // Heights that may be requested
+  fits: ImageTransformFit[]; // The first is used if none is requested
+  formats: ImageOutputFormat[]; // The first is used if none is requested
+  qualities: number[]; // The first is used if none is requested
 }
 
 export interface UploadProfileS3Config {
@@ -117,6 +151,10 @@ export interface UploadProfile {
   s3: UploadProfileS3Config;
   constraints: UploadProfileConstraints;
   rateLimit?: UploadRateLimit; // Optional rate limiting configuration
+  deletedRetentionDays?: number; // Days a deleted asset can be restored before it is purged (default: assetDeletion.defaultRetentionDays)
+  processingTimeoutMinutes?: number; // Claims processing longer than this are failed by the sweeper (default: claims.sweeper.defaultProcessingTimeoutMinutes)
+  maxRetries?: number; // How often a claim may be uploaded again after a retryable failure (default: claims.defaultMaxRetries)
+  transform?: ImageTransformAllowlist; // Renditions that can be derived on the fly, disabled if not set
 }
 
 export interface ModerationFeatures {
@@ -129,11 +167,29 @@ export interface ModerationFeatures {
   };
 }
 
+export interface ResumableUploadConfig {
+  maxChunkSize: number; // Maximum size of a single PATCH body in bytes
+}
+
+export interface DirectUploadConfig {
+  stagingPrefix: string; // S3 prefix clients upload to before the image is processed
+  urlExpirySeconds: number; // Validity of presigned upload URLs
+}
+
+export interface ImageTransformConfig {
+  cacheMaxAgeSeconds: number; // Cache-Control max-age of transformed images
+  variantPrefix: string; // File name prefix of variants cached in the asset folder
+  maxConcurrentGenerations: number; // Variants generated at the same time, further requests are rejected until one is done
+}
+
 export interface MediaConfig {
   allowedMimeTypes: string[];
   maxFileSize: number; // in bytes
-  defaultQuality: number; // WebP compression quality (0-100)
+  defaultQuality: number; // Compression quality of all output formats (0-100)
   uploadProfiles: UploadProfile[];
+  resumableUpload: ResumableUploadConfig;
+  directUpload: DirectUploadConfig;
+  transform: ImageTransformConfig;
   moderation: {
     rules: ModerationRules;
     api: ModerationApiConfig;
@@ -155,6 +211,93 @@ export interface VideoUploadProfile {
   maxSizeBytes?: number;
   allowedFormats?: string[];
   passThroughParams?: string[];
+  deletedRetentionDays?: number; // Days a deleted video can be restored before it is purged (default: assetDeletion.defaultRetentionDays)
+  processingTimeoutMinutes?: number; // Claims processing longer than this are failed and their Mux direct upload cancelled (default: claims.sweeper.defaultProcessingTimeoutMinutes)
+  maxRetries?: number; // How often a claim may be uploaded again after a retryable failure (default: claims.defaultMaxRetries)
+}
+
+export interface ClaimStatusStreamConfig {
+  heartbeatIntervalMs: number; // Interval of keep-alive events on open SSE connections
+  maxClaimsPerStream: number; // Maximum number of claim IDs a single stream may watch
+}
+
+export interface ClaimSweeperConfig {
+  intervalMs: number; // How often expired and stuck claims are swept
+  batchSize: number; // Maximum claims of each kind swept per run
+  defaultProcessingTimeoutMinutes: number; // Processing timeout of profiles without processingTimeoutMinutes
+}
+
+export interface ClaimBatchConfig {
+  maxItems: number; // Maximum number of items of a batch claim
+}
+
+export interface ClaimsConfig {
+  defaultMaxRetries: number; // Retries of profiles without maxRetries
+  batch: ClaimBatchConfig;
+  statusStream: ClaimStatusStreamConfig;
+  sweeper: ClaimSweeperConfig;
+}
+
+export interface WebhooksConfig {
+  maxAttempts: number; // Deliveries are marked failed after this many attempts
+  initialBackoffMs: number; // Delay before the first retry, doubled on every further attempt
+  maxBackoffMs: number; // Upper bound for the retry delay
+  requestTimeoutMs: number; // Timeout of a single delivery request
+  dispatchIntervalMs: number; // How often due deliveries are picked up
+  batchSize: number; // Maximum deliveries attempted per dispatch run
+}
+
+export interface OutboxConfig {
+  relayIntervalMs: number; // How often pending outbox messages are picked up
+  batchSize: number; // Maximum messages published per relay run
+  leaseMs: number; // How long a message is hidden from other replicas while it is being published
+  maxAttempts: number; // Messages are marked failed after this many attempts
+  initialBackoffMs: number; // Delay before the first retry, doubled on every further attempt
+  maxBackoffMs: number; // Upper bound for the retry delay
+}
+
+export interface AssetDeletionConfig {
+  defaultRetentionDays: number; // Restore window of profiles without their own deletedRetentionDays
+  purgeIntervalMs: number; // How often assets past their restore window are purged
+  purgeBatchSize: number; // Maximum assets purged per run
+}
+
+export interface UserDataConfig {
+  exportPrefix: string; // S3 prefix the export manifests are written to
+  exportUrlExpirySeconds: number; // Validity of the signed links in and to the export manifest (max 7 days)
+}
+
+export interface ReconciliationConfig {
+  scheduleEnabled: boolean; // Run the reconciliation periodically in addition to on demand
+  intervalMs: number; // How often scheduled runs start
+  deleteOrphans: boolean; // Whether scheduled runs delete orphaned folders or only report them
+  gracePeriodHours: number; // Orphaned folders modified more recently are never deleted (uploads in flight)
+  maxReportedItems: number; // Maximum orphans and dangling assets listed per profile in a report
+}
+
+export interface RenditionBackfillConfig {
+  pollIntervalMs: number; // How often a pending or interrupted backfill job is picked up
+  batchSize: number; // Assets processed per run before the job is picked up again
+  throttleMs: number; // Pause between two assets to limit the load on S3 and the CPU
+  leaseMs: number; // How long a job is hidden from other replicas while a batch is processed, renewed after every asset
+  maxReportedFailures: number; // Maximum failed assets listed in a job
+}
+
+export interface IdempotencyConfig {
+  ttlHours: number; // How long responses are replayed for a reused Idempotency-Key
+  lockTimeoutMs: number; // A request still in progress after this long is considered abandoned and may be retried
+}
+
+export interface QuotaTier {
+  maxBytes?: number; // Total bytes a user may store across all profiles, unlimited if not set
+  maxAssets?: number; // Total number of assets a user may store across all profiles, unlimited if not set
+}
+
+export interface QuotaConfig {
+  defaultTier: string; // Tier of users that were not assigned one
+  tiers: Record<string, QuotaTier>;
+  recountIntervalMs: number; // How often the usage counters are recounted from the assets
+  recountBatchSize: number; // Users recounted per run, least recently recounted first
 }
 
 export interface GPEMediaServiceConfig extends IGPEAppConfig {
@@ -169,4 +312,13 @@ export interface GPEMediaServiceConfig extends IGPEAppConfig {
   media: MediaConfig;
   mux: MuxConfig;
   videoProfiles: VideoUploadProfile[];
+  claims: ClaimsConfig;
+  webhooks: WebhooksConfig;
+  outbox: OutboxConfig;
+  assetDeletion: AssetDeletionConfig;
+  userData: UserDataConfig;
+  reconciliation: ReconciliationConfig;
+  renditionBackfill: RenditionBackfillConfig;
+  idempotency: IdempotencyConfig;
+  quotas: QuotaConfig;
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { S3Module } from '@gpe/backend-common/dist/aws/s3';
+import { AssetDeletionService } from './asset-deletion.service';
+import { OutboxModule } from '../outbox/outbox.module';
+import { QuotaModule } from '../quota/quota.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { VideoUploadModule } from '../../backend-for-frontend/video-upload/video-upload.module';
+import { StorageModule } from '../../shared/storage/storage.module';
+import {
+  ImageAsset,
+  ImageAssetSchema,
+} from '../../shared/schemas/image-asset.schema';
+import {
+  VideoAsset,
+  VideoAssetSchema,
+} from '../../shared/schemas/video-asset.schema';
+import config from 'src/config';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ImageAsset.name, schema: ImageAssetSchema },
+      { name: VideoAsset.name, schema: VideoAssetSchema },
+    ]),
+    S3Module.register({
+      bucket: config.aws.services.s3.bucket,
+      urlPrefix: config.aws.services.s3.urlPrefix,
+      region: config.aws.services.s3.region,
+    }),
+    StorageModule,
+    OutboxModule,
+    QuotaModule,
+    WebhooksModule,
+    forwardRef(() => VideoUploadModule), // Owns the Mux client; imports this module to delete videos
+  ],
+  providers: [AssetDeletionService],
+  exports: [AssetDeletionService],
+})
+export class AssetDeletionModule {}
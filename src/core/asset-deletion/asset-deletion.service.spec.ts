@@ -0,0 +1,324 @@
+import {
+  BadRequestException,
+  ConflictException,
+  GoneException,
+  NotFoundException,
+} from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { S3Service } from '@gpe/backend-common/dist/aws/s3';
+import config from '../../config';
+import { ImageAsset } from '../../shared/schemas/image-asset.schema';
+import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { ObjectStorageService } from '../../shared/storage/object-storage.service';
+import { VideoProcessorService } from '../../backend-for-frontend/video-upload/services/video-processor.service';
+import { OutboxHandler, OutboxService } from '../outbox/outbox.service';
+import { OutboxMessageKind } from '../outbox/schemas/outbox-message.schema';
+import { QuotaService } from '../quota/quota.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/schemas/webhook-subscription.schema';
+import { AssetDeletionService } from './asset-deletion.service';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SESSION = { id: 'session' };
+const IMAGE_ID = '64f0c0ffee';
+const FOLDER = `uploads/profile_pictures/${IMAGE_ID}/`;
+
+// Chainable stand-in for findById().select().exec()
+const query = <T>(result: T) => ({
+  select: jest.fn().mockReturnThis(),
+  exec: jest.fn().mockResolvedValue(result),
+});
+
+type AssetModelMock = { findById: jest.Mock; findOneAndUpdate: jest.Mock };
+
+describe('AssetDeletionService', () => {
+  let service: AssetDeletionService;
+  let imageAssetModel: AssetModelMock;
+  let videoAssetModel: AssetModelMock;
+  let outboxService: {
+    withTransaction: jest.Mock;
+    enqueue: jest.Mock;
+    enqueueTasks: jest.Mock;
+    processNow: jest.Mock;
+    registerHandler: jest.Mock;
+  };
+  let quotaService: {
+    recordAssetStored: jest.Mock;
+    recordAssetRemoved: jest.Mock;
+  };
+  let videoProcessorService: {
+    deleteMuxAsset: jest.Mock;
+    cancelDirectUpload: jest.Mock;
+  };
+  let image: ImageAsset;
+  const profile = config.media.uploadProfiles.find(
+    (p) => p.name === 'profile_picture',
+  )!;
+  const retentionDays = profile.deletedRetentionDays!;
+
+  const storedTasks = (): unknown[] =>
+    outboxService.enqueueTasks.mock.calls.flatMap(
+      ([tasks]: [unknown[]]) => tasks,
+    );
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+
+    image = {
+      _id: IMAGE_ID,
+      userId: 'user-1',
+      profileName: 'profile_picture',
+      fileSize: 100,
+      storageKey: `${FOLDER}image.webp`,
+    } as unknown as ImageAsset;
+
+    imageAssetModel = {
+      findById: jest.fn().mockReturnValue(query(image)),
+      findOneAndUpdate: jest.fn().mockReturnValue(query(image)),
+    };
+    videoAssetModel = {
+      findById: jest.fn().mockReturnValue(query(null)),
+      findOneAndUpdate: jest.fn().mockReturnValue(query(null)),
+    };
+    outboxService = {
+      withTransaction: jest.fn((fn: (session: unknown) => unknown) =>
+        fn(SESSION),
+      ),
+      enqueue: jest.fn().mockResolvedValue(['event-1']),
+      enqueueTasks: jest.fn().mockResolvedValue(['task-1']),
+      processNow: jest.fn().mockResolvedValue(undefined),
+      registerHandler: jest.fn(),
+    };
+    quotaService = {
+      recordAssetStored: jest.fn().mockResolvedValue(undefined),
+      recordAssetRemoved: jest.fn().mockResolvedValue(undefined),
+    };
+    videoProcessorService = {
+      deleteMuxAsset: jest.fn().mockResolvedValue(undefined),
+      cancelDirectUpload: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AssetDeletionService,
+        { provide: S3Service, useValue: {} },
+        { provide: ObjectStorageService, useValue: {} },
+        { provide: OutboxService, useValue: outboxService },
+        { provide: QuotaService, useValue: quotaService },
+        { provide: WebhooksService, useValue: {} },
+        { provide: VideoProcessorService, useValue: videoProcessorService },
+        { provide: getModelToken(ImageAsset.name), useValue: imageAssetModel },
+        { provide: getModelToken(VideoAsset.name), useValue: videoAssetModel },
+      ],
+    }).compile();
+
+    service = module.get<AssetDeletionService>(AssetDeletionService);
+  });
+
+  afterEach(() => {
+    profile.deletedRetentionDays = retentionDays;
+    jest.useRealTimers();
+  });
+
+  describe('deleteImage', () => {
+    it('should tombstone the image and notify in the same transaction', async () => {
+      await service.deleteImage(image, 'user-1');
+
+      expect(imageAssetModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: IMAGE_ID, deletedAt: { $exists: false } },
+        {
+          deletedAt: NOW,
+          deletedBy: 'user-1',
+          purgeAfter: new Date(NOW.getTime() + retentionDays * DAY_MS),
+        },
+        { new: true, session: SESSION },
+      );
+      expect(quotaService.recordAssetRemoved).toHaveBeenCalledWith(
+        'user-1',
+        100,
+        SESSION,
+      );
+      const [events, session] = outboxService.enqueue.mock.calls[0] as [
+        unknown[],
+        unknown,
+      ];
+      expect(events).toHaveLength(1);
+      expect(session).toBe(SESSION);
+      expect(outboxService.enqueueTasks).toHaveBeenCalledWith(
+        [
+          {
+            kind: OutboxMessageKind.ASSET_NOTIFICATION,
+            payload: {
+              event: WebhookEvent.ASSET_DELETED,
+              assetId: `image-${IMAGE_ID}`,
+            },
+          },
+        ],
+        SESSION,
+      );
+      expect(outboxService.processNow).toHaveBeenCalledWith(['task-1']);
+    });
+
+    it('should do nothing if the image was already deleted', async () => {
+      imageAssetModel.findOneAndUpdate.mockReturnValue(query(null));
+
+      await expect(service.deleteImage(image, 'user-1')).resolves.toBe(image);
+
+      expect(quotaService.recordAssetRemoved).not.toHaveBeenCalled();
+      expect(outboxService.enqueue).not.toHaveBeenCalled();
+      expect(outboxService.enqueueTasks).not.toHaveBeenCalled();
+    });
+
+    it('should purge right away if the profile keeps no deleted assets', async () => {
+      profile.deletedRetentionDays = 0;
+
+      await service.deleteImage(image, 'user-1');
+
+      expect(imageAssetModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        {
+          _id: IMAGE_ID,
+          deletedAt: { $exists: true },
+          purgedAt: { $exists: false },
+        },
+        { purgedAt: NOW },
+        { session: SESSION },
+      );
+      expect(storedTasks()).toContainEqual({
+        kind: OutboxMessageKind.S3_CLEANUP,
+        payload: { folderPath: FOLDER },
+      });
+      expect(storedTasks()).toContainEqual({
+        kind: OutboxMessageKind.ASSET_NOTIFICATION,
+        payload: {
+          event: WebhookEvent.ASSET_PURGED,
+          assetId: `image-${IMAGE_ID}`,
+        },
+      });
+    });
+
+    it('should not purge an image that was restored in the meantime', async () => {
+      profile.deletedRetentionDays = 0;
+      imageAssetModel.findOneAndUpdate
+        .mockReturnValueOnce(query(image))
+        // A restore cleared the tombstone before the purge
+        .mockReturnValueOnce(query(null));
+
+      await service.deleteImage(image, 'user-1');
+
+      expect(outboxService.enqueueTasks).toHaveBeenCalledTimes(1);
+      expect(storedTasks()).not.toContainEqual(
+        expect.objectContaining({ kind: OutboxMessageKind.S3_CLEANUP }),
+      );
+      expect(outboxService.processNow).toHaveBeenLastCalledWith([]);
+    });
+  });
+
+  describe('restoreAsset', () => {
+    it('should clear the tombstone, count the image again and notify', async () => {
+      const restored = await service.restoreAsset(`image-${IMAGE_ID}`);
+
+      expect(imageAssetModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: IMAGE_ID,
+          deletedAt: { $exists: true },
+          purgedAt: { $exists: false },
+        },
+        { $unset: { deletedAt: 1, deletedBy: 1, purgeAfter: 1 } },
+        { new: true, session: SESSION },
+      );
+      expect(outboxService.enqueueTasks).toHaveBeenCalledWith(
+        [
+          {
+            kind: OutboxMessageKind.ASSET_NOTIFICATION,
+            payload: {
+              event: WebhookEvent.ASSET_RESTORED,
+              assetId: `image-${IMAGE_ID}`,
+            },
+          },
+        ],
+        SESSION,
+      );
+      expect(quotaService.recordAssetStored).toHaveBeenCalledWith(
+        'user-1',
+        100,
+      );
+      expect(outboxService.processNow).toHaveBeenCalledWith(['task-1']);
+      expect(restored).toMatchObject({ id: `image-${IMAGE_ID}` });
+    });
+
+    it('should refuse to restore an image that was purged first', async () => {
+      imageAssetModel.findOneAndUpdate.mockReturnValue(query(null));
+      imageAssetModel.findById.mockReturnValue(
+        query({ deletedAt: NOW, purgedAt: NOW }),
+      );
+
+      await expect(service.restoreAsset(`image-${IMAGE_ID}`)).rejects.toThrow(
+        GoneException,
+      );
+      expect(outboxService.enqueueTasks).not.toHaveBeenCalled();
+      expect(quotaService.recordAssetStored).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to restore an image that is not deleted', async () => {
+      imageAssetModel.findOneAndUpdate.mockReturnValue(query(null));
+      imageAssetModel.findById.mockReturnValue(query({}));
+
+      await expect(service.restoreAsset(`image-${IMAGE_ID}`)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should refuse to restore an unknown asset', async () => {
+      await expect(service.restoreAsset('video-missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should refuse malformed asset IDs', async () => {
+      await expect(service.restoreAsset('audio-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('Mux cleanup handler', () => {
+    let deleteMux: OutboxHandler<{
+      muxAssetId?: string;
+      muxDirectUploadId?: string;
+    }>;
+
+    beforeEach(() => {
+      service.onModuleInit();
+      deleteMux = (
+        outboxService.registerHandler.mock.calls as [
+          OutboxMessageKind,
+          typeof deleteMux,
+        ][]
+      ).find(([kind]) => kind === OutboxMessageKind.MUX_ASSET_DELETE)![1];
+    });
+
+    afterEach(() => {
+      service.onModuleDestroy();
+    });
+
+    it('should delete the Mux asset of a video', async () => {
+      await deleteMux({ muxAssetId: 'mux-asset', muxDirectUploadId: 'up' });
+
+      expect(videoProcessorService.deleteMuxAsset).toHaveBeenCalledWith(
+        'mux-asset',
+      );
+      expect(videoProcessorService.cancelDirectUpload).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the direct upload if Mux has not created the asset yet', async () => {
+      await deleteMux({ muxDirectUploadId: 'up' });
+
+      expect(videoProcessorService.cancelDirectUpload).toHaveBeenCalledWith(
+        'up',
+      );
+      expect(videoProcessorService.deleteMuxAsset).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,587 @@
+import {
+  BadRequestException,
+  ConflictException,
+  GoneException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Subscription } from 'rxjs';
+import { S3Service } from '@gpe/backend-common/dist/aws/s3';
+import config from '../../config';
+import { startPolling } from '../../shared/utils/polling.util';
+import { ImageAsset } from '../../shared/schemas/image-asset.schema';
+import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { AssetType, toAssetFacade } from '../../shared/utils/asset-facade.util';
+import {
+  imageStorageKeys,
+  storageFolderOfKey,
+} from '../../shared/utils/storage-key.util';
+import { imageStoredBytes } from '../../shared/utils/storage-quota.util';
+import { OutboxService, OutboxTask } from '../outbox/outbox.service';
+import { OutboxMessageKind } from '../outbox/schemas/outbox-message.schema';
+import { assetDeletedEvent } from '../events/media-events';
+import { QuotaService } from '../quota/quota.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/schemas/webhook-subscription.schema';
+import { ObjectStorageService } from '../../shared/storage/object-storage.service';
+import { VideoProcessorService } from '../../backend-for-frontend/video-upload/services/video-processor.service';
+
+export const INTERNAL_DELETION_ACTOR = 'internal';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deletes, restores and purges image and video assets.
+ *
+ * Deleting an asset only tombstones the record (deletedAt) and starts the restore window of its
+ * upload profile. Once the window elapsed the purger removes the stored files through outbox tasks,
+ * so S3 objects and Mux assets are cleaned up even if the process dies in between.
+ */
+@Injectable()
+export class AssetDeletionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AssetDeletionService.name);
+  private purgeSubscription?: Subscription;
+
+  constructor(
+    private readonly awsS3Service: S3Service,
+    private readonly objectStorageService: ObjectStorageService,
+    private readonly outboxService: OutboxService,
+    private readonly quotaService: QuotaService,
+    private readonly webhooksService: WebhooksService,
+    private readonly videoProcessorService: VideoProcessorService,
+    @InjectModel(ImageAsset.name) private imageAssetModel: Model<ImageAsset>,
+    @InjectModel(VideoAsset.name) private videoAssetModel: Model<VideoAsset>,
+  ) {}
+
+  /**
+   * Register the handlers of the cleanup tasks stored in the outbox and start the purger
+   */
+  onModuleInit(): void {
+    this.outboxService.registerHandler(
+      OutboxMessageKind.S3_CLEANUP,
+      (payload: { folderPath: string }) =>
+        this.deleteStorageFolder(payload.folderPath),
+    );
+    this.outboxService.registerHandler(
+      OutboxMessageKind.MUX_ASSET_DELETE,
+      (payload: { muxAssetId?: string; muxDirectUploadId?: string }) =>
+        this.deleteMuxAsset(payload.muxAssetId, payload.muxDirectUploadId),
+    );
+    this.outboxService.registerHandler(
+      OutboxMessageKind.S3_OBJECT_DELETE,
+      (payload: { key: string }) =>
+        this.objectStorageService.deleteObject(payload.key),
+    );
+    this.outboxService.registerHandler(
+      OutboxMessageKind.ASSET_ERASE,
+      (payload: { assetId: string; deletedBy: string }) =>
+        this.eraseAsset(payload.assetId, payload.deletedBy),
+    );
+    this.outboxService.registerHandler(
+      OutboxMessageKind.ASSET_NOTIFICATION,
+      (payload: { event: WebhookEvent; assetId: string }) =>
+        this.notifyAssetWebhooks(payload.event, payload.assetId),
+    );
+
+    this.purgeSubscription = startPolling(
+      config.assetDeletion.purgeIntervalMs,
+      () => this.purgeDueAssets(),
+      this.logger,
+      'Asset purge run',
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.purgeSubscription?.unsubscribe();
+  }
+
+  /**
+   * Deletes an asset by its prefixed ID
+   * @param assetId Format: 'type-id' (e.g., 'image-123', 'video-456')
+   * @param deletedBy Who deleted the asset
+   */
+  async deleteAsset(
+    assetId: string,
+    deletedBy: string = INTERNAL_DELETION_ACTOR,
+  ): Promise<void> {
+    const { type, id } = this.parseAssetId(assetId);
+
+    if (type === 'image') {
+      const asset = await this.imageAssetModel.findById(id).exec();
+      if (!asset) {
+        throw new NotFoundException(`Image asset with ID "${id}" not found`);
+      }
+      await this.deleteImage(asset, deletedBy);
+    } else {
+      const asset = await this.videoAssetModel.findById(id).exec();
+      if (!asset) {
+        throw new NotFoundException(`Video asset with ID "${id}" not found`);
+      }
+      await this.deleteVideo(asset, deletedBy);
+    }
+  }
+
+  /**
+   * Soft-deletes an image. Deleting an already deleted image is a no-op.
+   */
+  async deleteImage(asset: ImageAsset, deletedBy: string): Promise<ImageAsset> {
+    const retentionDays = this.getRetentionDays('image', asset.profileName);
+    const deleted = await this.softDelete(
+      this.imageAssetModel,
+      asset,
+      'image',
+      deletedBy,
+      retentionDays,
+    );
+
+    if (deleted && retentionDays === 0) {
+      await this.purgeImage(deleted);
+    }
+    return deleted || asset;
+  }
+
+  /**
+   * Soft-deletes a video. Deleting an already deleted video is a no-op.
+   */
+  async deleteVideo(asset: VideoAsset, deletedBy: string): Promise<VideoAsset> {
+    const retentionDays = this.getRetentionDays('video', asset.profileName);
+    const deleted = await this.softDelete(
+      this.videoAssetModel,
+      asset,
+      'video',
+      deletedBy,
+      retentionDays,
+    );
+
+    if (deleted && retentionDays === 0) {
+      await this.purgeVideo(deleted);
+    }
+    return deleted || asset;
+  }
+
+  /**
+   * Deletes an image and purges it right away, skipping the restore window (e.g. for GDPR erasure)
+   */
+  async eraseImage(asset: ImageAsset, deletedBy: string): Promise<void> {
+    await this.softDelete(this.imageAssetModel, asset, 'image', deletedBy, 0);
+    await this.purgeImage(asset);
+  }
+
+  /**
+   * Deletes a video and purges it right away, skipping the restore window (e.g. for GDPR erasure)
+   */
+  async eraseVideo(asset: VideoAsset, deletedBy: string): Promise<void> {
+    await this.softDelete(this.videoAssetModel, asset, 'video', deletedBy, 0);
+    await this.purgeVideo(asset);
+  }
+
+  /**
+   * Restores a soft-deleted asset whose restore window has not elapsed yet
+   * @param assetId Format: 'type-id' (e.g., 'image-123', 'video-456')
+   * @returns The restored asset facade
+   */
+  async restoreAsset(assetId: string): Promise<ImageAsset | VideoAsset> {
+    const { type, id } = this.parseAssetId(assetId);
+
+    const { restored, taskIds } =
+      type === 'image'
+        ? await this.restore(this.imageAssetModel, assetId, id, type)
+        : await this.restore(this.videoAssetModel, assetId, id, type);
+    await this.quotaService.recordAssetStored(
+      restored.userId,
+      this.getStoredBytes(restored, type),
+    );
+    await this.outboxService.processNow(taskIds);
+
+    this.logger.log(`Restored ${type} asset ${id}`);
+    return toAssetFacade(restored, type);
+  }
+
+  /**
+   * Purges all soft-deleted assets whose restore window elapsed
+   * @returns Number of purged assets
+   */
+  private async purgeDueAssets(): Promise<number> {
+    const filter = {
+      purgeAfter: { $lte: new Date() },
+      purgedAt: { $exists: false },
+    };
+    const { purgeBatchSize } = config.assetDeletion;
+
+    const images = await this.imageAssetModel
+      .find(filter)
+      .limit(purgeBatchSize)
+      .exec();
+    for (const image of images) {
+      await this.purgeImage(image);
+    }
+
+    const videos = await this.videoAssetModel
+      .find(filter)
+      .limit(purgeBatchSize)
+      .exec();
+    for (const video of videos) {
+      await this.purgeVideo(video);
+    }
+
+    if (images.length || videos.length) {
+      this.logger.log(
+        `Purged ${images.length} image(s) and ${videos.length} video(s)`,
+      );
+    }
+    return images.length + videos.length;
+  }
+
+  /**
+   * Tombstones an asset and emits media.asset.deleted and the asset.deleted webhook in the same transaction
+   * @returns The deleted asset, or null if it was already deleted
+   */
+  private async softDelete<T extends ImageAsset | VideoAsset>(
+    model: Model<T>,
+    asset: T,
+    type: AssetType,
+    deletedBy: string,
+    retentionDays: number,
+  ): Promise<T | null> {
+    const now = new Date();
+
+    const { deleted, taskIds } = await this.outboxService.withTransaction(
+      async (session) => {
+        const updated = await model
+          .findOneAndUpdate(
+            { _id: asset._id, deletedAt: { $exists: false } },
+            {
+              deletedAt: now,
+              deletedBy,
+              purgeAfter: new Date(now.getTime() + retentionDays * DAY_MS),
+            },
+            { new: true, session },
+          )
+          .exec();
+        if (updated) {
+          await this.quotaService.recordAssetRemoved(
+            updated.userId,
+            this.getStoredBytes(updated, type),
+            session,
+          );
+          await this.outboxService.enqueue(
+            [assetDeletedEvent(updated, type)],
+            session,
+          );
+          return {
+            deleted: updated,
+            taskIds: await this.outboxService.enqueueTasks(
+              [
+                this.assetNotification(
+                  WebhookEvent.ASSET_DELETED,
+                  type,
+                  updated,
+                ),
+              ],
+              session,
+            ),
+          };
+        }
+        return { deleted: null, taskIds: [] };
+      },
+    );
+    await this.outboxService.processNow(taskIds);
+
+    if (!deleted) {
+      this.logger.log(
+        `${type} asset ${asset._id.toString()} was already deleted`,
+      );
+      return null;
+    }
+
+    this.logger.log(
+      `${type} asset ${asset._id.toString()} deleted by ${deletedBy}, restorable for ${retentionDays} day(s)`,
+    );
+    return deleted as T;
+  }
+
+  /**
+   * Clears the tombstone of an asset that was deleted but not purged yet and stores the asset.restored webhook with it
+   * @returns The restored asset and the IDs of the stored outbox messages
+   */
+  private async restore<T extends ImageAsset | VideoAsset>(
+    model: Model<T>,
+    assetId: string,
+    id: string,
+    type: AssetType,
+  ): Promise<{ restored: T; taskIds: string[] }> {
+    const result = await this.outboxService.withTransaction(async (session) => {
+      const restored = await model
+        .findOneAndUpdate(
+          {
+            _id: id,
+            deletedAt: { $exists: true },
+            purgedAt: { $exists: false },
+          },
+          { $unset: { deletedAt: 1, deletedBy: 1, purgeAfter: 1 } },
+          { new: true, session },
+        )
+        .exec();
+      if (!restored) {
+        return null;
+      }
+      const taskIds = await this.outboxService.enqueueTasks(
+        [this.assetNotification(WebhookEvent.ASSET_RESTORED, type, restored)],
+        session,
+      );
+      return { restored, taskIds };
+    });
+
+    if (result) {
+      return result;
+    }
+
+    const asset = await model.findById(id).select('deletedAt purgedAt').exec();
+    if (!asset) {
+      throw new NotFoundException(`Asset with ID "${assetId}" not found`);
+    }
+    if (asset.purgedAt) {
+      throw new GoneException(
+        `Asset with ID "${assetId}" was already purged and cannot be restored`,
+      );
+    }
+    throw new ConflictException(`Asset with ID "${assetId}" is not deleted`);
+  }
+
+  /**
+   * Marks an image as purged and removes the folders of the original and all resized versions from S3
+   */
+  private async purgeImage(asset: ImageAsset): Promise<void> {
+    const tasks: OutboxTask[] = [
+      ...this.getImageStorageFolders(asset).map((folderPath) => ({
+        kind: OutboxMessageKind.S3_CLEANUP as const,
+        payload: { folderPath },
+      })),
+      this.assetNotification(WebhookEvent.ASSET_PURGED, 'image', asset),
+    ];
+
+    const taskIds = await this.outboxService.withTransaction(
+      async (session) => {
+        // Only purge if the image was not restored in the meantime
+        const purged = await this.imageAssetModel
+          .findOneAndUpdate(
+            {
+              _id: asset._id,
+              deletedAt: { $exists: true },
+              purgedAt: { $exists: false },
+            },
+            { purgedAt: new Date() },
+            { session },
+          )
+          .exec();
+        return purged ? this.outboxService.enqueueTasks(tasks, session) : [];
+      },
+    );
+
+    await this.outboxService.processNow(taskIds);
+  }
+
+  /**
+   * Marks a video as purged and deletes its Mux asset, or cancels the direct upload if Mux has not created the asset yet
+   */
+  private async purgeVideo(asset: VideoAsset): Promise<void> {
+    const taskIds = await this.outboxService.withTransaction(
+      async (session) => {
+        // Only purge if the video was not restored in the meantime
+        const purged = await this.videoAssetModel
+          .findOneAndUpdate(
+            {
+              _id: asset._id,
+              deletedAt: { $exists: true },
+              purgedAt: { $exists: false },
+            },
+            { status: 'deleted', purgedAt: new Date() },
+            { session },
+          )
+          .exec();
+        if (!purged) {
+          return [];
+        }
+        return this.outboxService.enqueueTasks(
+          [
+            {
+              kind: OutboxMessageKind.MUX_ASSET_DELETE,
+              payload: {
+                muxAssetId: asset.muxAssetId,
+                muxDirectUploadId: asset.muxDirectUploadId,
+              },
+            },
+            this.assetNotification(WebhookEvent.ASSET_PURGED, 'video', asset),
+          ],
+          session,
+        );
+      },
+    );
+
+    await this.outboxService.processNow(taskIds);
+  }
+
+  /**
+   * Webhook notification about an asset, delivered to the subscribers of its upload profile
+   */
+  private assetNotification(
+    event: WebhookEvent,
+    type: AssetType,
+    asset: ImageAsset | VideoAsset,
+  ): OutboxTask {
+    return {
+      kind: OutboxMessageKind.ASSET_NOTIFICATION,
+      payload: { event, assetId: `${type}-${asset._id.toString()}` },
+    };
+  }
+
+  private parseAssetId(assetId: string): { type: AssetType; id: string } {
+    const [type, id] = assetId.split('-');
+
+    if (!type || !id) {
+      throw new BadRequestException(
+        'Invalid asset ID format. Expected format: {type}-{id}',
+      );
+    }
+
+    const lowerType = type.toLowerCase();
+    if (lowerType !== 'image' && lowerType !== 'video') {
+      throw new BadRequestException(
+        `Invalid asset type: ${type}. Expected 'image' or 'video'`,
+      );
+    }
+
+    return { type: lowerType, id };
+  }
+
+  /**
+   * Restore window of the asset's upload profile in days
+   */
+  private getRetentionDays(type: AssetType, profileName: string): number {
+    const profile =
+      type === 'image'
+        ? config.media.uploadProfiles.find((p) => p.name === profileName)
+        : config.videoProfiles.find((p) => p.name === profileName);
+
+    return (
+      profile?.deletedRetentionDays ?? config.assetDeletion.defaultRetentionDays
+    );
+  }
+
+  /**
+   * Bytes an asset counts against the storage quota of its owner
+   */
+  private getStoredBytes(
+    asset: ImageAsset | VideoAsset,
+    type: AssetType,
+  ): number {
+    return type === 'image' ? imageStoredBytes(asset) : (asset.fileSize ?? 0);
+  }
+
+  /**
+   * Collects the S3 folders of an image. The original and the resized versions normally share one folder.
+   */
+  private getImageStorageFolders(asset: ImageAsset): string[] {
+    const folders = new Set<string>();
+    imageStorageKeys(asset).forEach((key) => {
+      const folder = storageFolderOfKey(key);
+      if (this.isDeletableFolder(folder)) {
+        folders.add(folder);
+      } else {
+        this.logger.warn(
+          `Skipping S3 cleanup of key ${key} of image asset ${asset._id.toString()}: not inside an asset folder`,
+        );
+      }
+    });
+
+    return [...folders];
+  }
+
+  /**
+   * Only per-asset folders may be deleted, never the bucket root or an upload profile prefix
+   */
+  private isDeletableFolder(folderPath: string): boolean {
+    if (!folderPath || !folderPath.endsWith('/')) {
+      return false;
+    }
+    return !config.media.uploadProfiles.some(
+      (profile) => profile.s3.prefix === folderPath,
+    );
+  }
+
+  /**
+   * Outbox handler: removes every object in an asset folder
+   */
+  private async deleteStorageFolder(folderPath: string): Promise<void> {
+    if (!this.isDeletableFolder(folderPath)) {
+      throw new Error(`Refusing to delete S3 folder "${folderPath}"`);
+    }
+
+    await this.awsS3Service.deleteFolder(folderPath);
+    this.logger.log(`Deleted S3 folder ${folderPath}`);
+  }
+
+  /**
+   * Outbox handler: erases an asset by its prefixed ID. Erasing an asset that is gone or already purged is a no-op.
+   * @param assetId Format: 'type-id' (e.g., 'image-123', 'video-456')
+   */
+  private async eraseAsset(assetId: string, deletedBy: string): Promise<void> {
+    const { type, id } = this.parseAssetId(assetId);
+
+    if (type === 'image') {
+      const asset = await this.imageAssetModel.findById(id).exec();
+      if (asset && !asset.purgedAt) {
+        await this.eraseImage(asset, deletedBy);
+      }
+    } else {
+      const asset = await this.videoAssetModel.findById(id).exec();
+      if (asset && !asset.purgedAt) {
+        await this.eraseVideo(asset, deletedBy);
+      }
+    }
+  }
+
+  /**
+   * Outbox handler: sends an asset webhook with the current state of the asset
+   * @param assetId Format: 'type-id' (e.g., 'image-123', 'video-456')
+   */
+  private async notifyAssetWebhooks(
+    event: WebhookEvent,
+    assetId: string,
+  ): Promise<void> {
+    const { type, id } = this.parseAssetId(assetId);
+    const asset =
+      type === 'image'
+        ? await this.imageAssetModel.findById(id).exec()
+        : await this.videoAssetModel.findById(id).exec();
+    if (!asset) {
+      this.logger.warn(`Not notifying ${event} of missing asset ${assetId}`);
+      return;
+    }
+
+    await this.webhooksService.dispatch(
+      event,
+      asset.profileName,
+      toAssetFacade(asset, type),
+    );
+  }
+
+  /**
+   * Outbox handler: deletes a Mux asset or cancels a pending direct upload. Already removed resources count as success.
+   */
+  private async deleteMuxAsset(
+    muxAssetId?: string,
+    muxDirectUploadId?: string,
+  ): Promise<void> {
+    if (muxAssetId) {
+      await this.videoProcessorService.deleteMuxAsset(muxAssetId);
+    } else if (muxDirectUploadId) {
+      await this.videoProcessorService.cancelDirectUpload(muxDirectUploadId);
+    }
+  }
+}
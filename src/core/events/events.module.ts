@@ -1,15 +1,16 @@
 import { Module } from '@nestjs/common';
 import { EventsService } from './events.service';
 import { KafkaConsumerService } from '@gpe/backend-common/dist/shared/kafka/consumer';
-import { KafkaProducerService } from '@gpe/backend-common/dist/shared/kafka/producer';
 import { UploadClaimModule } from 'src/backend-for-frontend/upload-claim/upload-claim.module';
 import { MongooseModule } from '@nestjs/mongoose';
 import { VideoAsset, VideoAssetSchema } from 'src/shared/schemas/video-asset.schema';
+import { OutboxModule } from '../outbox/outbox.module';
+import { UserDataModule } from '../user-data/user-data.module';
 
 @Module({
-  imports: [UploadClaimModule, MongooseModule.forFeature([
+  imports: [UploadClaimModule, OutboxModule, UserDataModule, MongooseModule.forFeature([
     { name: VideoAsset.name, schema: VideoAssetSchema },
   ])],
-  providers: [EventsService, KafkaConsumerService, KafkaProducerService]
+  providers: [EventsService, KafkaConsumerService]
 })
 export class EventsModule { }
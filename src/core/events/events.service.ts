@@ -2,7 +2,6 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { KafkaConsumerService } from '@gpe/backend-common/dist/shared/kafka/consumer';
-import { KafkaProducerService } from '@gpe/backend-common/dist/shared/kafka/producer';
 import { EachMessagePayload } from 'kafkajs';
 import { UserCreatedEvent } from '@gpe/backend-common/dist/shared/kafka/events';
 import { map, tap, mergeMap, catchError } from 'rxjs/operators';
@@ -13,6 +12,9 @@ import { UploadClaimService } from '../../backend-for-frontend/upload-claim/uplo
 import { handleMuxWebhookEvent } from './handlers/mux-webhook.handler';
 import config from '../../config'
 import { BaseEvent } from './types/base.event';
+import { OutboxService } from '../outbox/outbox.service';
+import { UserDataService, USER_DELETED_EVENT_REQUESTER } from '../user-data/user-data.service';
+import { UserDeletedEventPayload } from './types/user.events';
 
 /**
  * EventsService consumes Kafka events and routes them to handlers.
@@ -24,8 +26,9 @@ export class EventsService implements OnModuleInit {
 
     constructor(
         private readonly kafkaConsumer: KafkaConsumerService,
-        private readonly kafkaProducer: KafkaProducerService,
         private readonly uploadClaimService: UploadClaimService,
+        private readonly outboxService: OutboxService,
+        private readonly userDataService: UserDataService,
         @InjectModel(VideoAsset.name) private videoAssetModel: Model<VideoAsset>
     ) { }
 
@@ -37,11 +40,12 @@ export class EventsService implements OnModuleInit {
     }
 
     /**
-     * Subscribe to all configured Kafka topics
+     * Subscribe to the consumed Kafka topics
+     * The media.* topics are only produced by this service (see OutboxService) and are not consumed
      * Uses the KafkaConsumerService's DLQ mechanism for handling errors
      */
     private subscribeToAllTopics(): void {
-        const topics: string[] = Object.values(config.db.kafka.topics);
+        const topics: string[] = [config.db.kafka.topics.muxVideoAssetsTopic, config.db.kafka.topics.userDeletedTopic];
         this.logger.log(`Subscribing to topics: ${topics.join(', ')}`);
 
         this.kafkaConsumer
@@ -108,10 +112,13 @@ export class EventsService implements OnModuleInit {
                         originalPayload,
                         this.videoAssetModel,
                         this.uploadClaimService,
+                        this.outboxService,
                         this.kafkaConsumer,
                         this.logger
                     )
                 )
+            } else if (originalPayload.topic === config.db.kafka.topics.userDeletedTopic) {
+                return this.handleUserDeleted(event, originalPayload);
             } else {
                 throw new Error(`No handler for event type: ${event.type} from topic: ${originalPayload.topic}`);
             }
@@ -120,6 +127,23 @@ export class EventsService implements OnModuleInit {
         }
     }
 
+    /**
+     * Starts the erasure of all data of a deleted user
+     */
+    private handleUserDeleted(event: BaseEvent<UserDeletedEventPayload>, originalPayload: EachMessagePayload): Observable<void> {
+        const userId = event.payload?.userId;
+        if (!userId) {
+            throw new Error(`${event.type} event without userId`);
+        }
+
+        return from(this.userDataService.requestErasure(userId, USER_DELETED_EVENT_REQUESTER)).pipe(
+            map(job => {
+                this.logger.log(`Erasure job ${job._id.toString()} started for deleted user ${userId}`);
+            }),
+            catchError(error => this.handleProcessingError(error, originalPayload))
+        );
+    }
+
     /**
      * Handle errors that occur during stream processing
      */
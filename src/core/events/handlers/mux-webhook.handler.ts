@@ -1,7 +1,7 @@
 import { Logger } from '@nestjs/common';
 import { KafkaConsumerService } from '@gpe/backend-common/dist/shared/kafka/consumer';
 import { EachMessagePayload } from 'kafkajs';
-import { Model } from 'mongoose';
+import { ClientSession, Model } from 'mongoose';
 import { firstValueFrom } from 'rxjs';
 
 import { VideoAsset } from '../../../shared/schemas/video-asset.schema';
@@ -9,8 +9,13 @@ import { UploadClaimService } from '../../../backend-for-frontend/upload-claim/u
 import { BaseEvent } from '../types/base.event';
 import { VideoAssetCreatedWebhookEvent, VideoAssetDeletedWebhookEvent, VideoAssetErroredWebhookEvent, VideoAssetReadyWebhookEvent } from '@mux/mux-node/resources/webhooks';
 import { MuxPassTroghUplaodPayload } from 'src/shared/interfaces/mux.interface';
-import { ClaimStatus } from 'src/backend-for-frontend/upload-claim/schemas/upload-claim.schema';
+import { ClaimErrorCode, ClaimStatus, UploadClaim } from 'src/backend-for-frontend/upload-claim/schemas/upload-claim.schema';
+import { ClaimActor, InvalidClaimTransitionException } from '../../../backend-for-frontend/upload-claim/claim-transitions';
 import { MuxUploadStatus } from '@gpe/backend-common/dist/schema/media';
+import { WebhookEvent } from '../../webhooks/schemas/webhook-subscription.schema';
+import { OutboxService } from '../../outbox/outbox.service';
+import { OutboxMessageKind } from '../../outbox/schemas/outbox-message.schema';
+import { assetDeletedEvent, videoReadyEvent } from '../media-events';
 
 /**
  * Sends the original payload and error message to the Dead Letter Queue (DLQ) and logs the result.
@@ -46,28 +51,46 @@ async function findAndUpdateAssetByPassthrough(
     model: Model<VideoAsset>,
     passTroughUploadID: string,
     update: Partial<VideoAsset>,
-    logger: Logger
+    logger: Logger,
+    session?: ClientSession
 ): Promise<VideoAsset | null> {
-    const asset = await model.findOneAndUpdate({ passTroughUploadID }, update, { new: true }).exec();
+    const asset = await model.findOneAndUpdate({ passTroughUploadID }, update, { new: true, session }).exec();
     if (!asset) logger.warn(`No asset found with passTroughUploadID: ${passTroughUploadID}`);
     return asset;
 }
 
-// if asset.claimId exists, update claim and log
+// if asset.claimId exists, update claim, notify its webhook subscribers through the outbox and log,
+// skip updates the claim can no longer take
 async function updateClaimIfExists(
     asset: VideoAsset,
     svc: UploadClaimService,
     status: ClaimStatus,
     message: string,
+    notify: WebhookEvent,
     playbackUrl?: string,
     errorMessage?: string,
     extra?: Record<string, any>,
-    logger?: Logger
-): Promise<void> {
-    if (!asset.claimId) return;
+    logger?: Logger,
+    errorCode?: ClaimErrorCode
+): Promise<UploadClaim | null> {
+    if (!asset.claimId) return null;
     const claimId = String(asset.claimId);
-    await svc.updateClaimStatus(claimId, status, message, playbackUrl, errorMessage, extra);
+    let claim: UploadClaim;
+    try {
+        claim = await svc.updateClaimStatus(claimId, status, message, playbackUrl, errorMessage, extra, {
+            actor: ClaimActor.MUX,
+            errorCode,
+            tasks: () => [{ kind: OutboxMessageKind.CLAIM_NOTIFICATION, payload: { event: notify, claimId } }]
+        });
+    } catch (error) {
+        if (error instanceof InvalidClaimTransitionException) {
+            logger?.warn(`Skipping update of claim ${claimId}: ${error.message}`);
+            return null;
+        }
+        throw error;
+    }
     logger?.log(`Updated claim ${claimId} for asset ${asset._id}`);
+    return claim;
 }
 
 /**
@@ -108,6 +131,7 @@ async function handleAssetReady(
     muxEvent: BaseEvent<VideoAssetReadyWebhookEvent>,
     videoAssetModel: Model<VideoAsset>,
     uploadClaimService: UploadClaimService,
+    outboxService: OutboxService,
     logger: Logger
 ): Promise<boolean> {
     console.log(`Mux event: ${JSON.stringify(muxEvent, null, 2)}`);
@@ -118,22 +142,28 @@ async function handleAssetReady(
     const playId = ids[0].id;
     const url = `https://stream.mux.com/${playId}.m3u8`;
 
-    const asset = await findAndUpdateAssetByPassthrough(
-        videoAssetModel,
-        parsed.passTroughUploadID,
-        {
-            status: 'ready',
-            duration: muxEvent.payload.data.duration,
-            aspectRatio: muxEvent.payload.data.aspect_ratio,
-            muxInfo: muxEvent.payload.data,
-            playbackUrl: url,
-            gifThumbnailUrl: `https://image.mux.com/${playId}/animated.gif`,
-            thumbnailUrl: `https://image.mux.com/${playId}/thumbnail.jpg`,
-            resolution: muxEvent.payload.data.resolution_tier,
-            muxUploadStatus: muxEvent.payload.data.status
-        },
-        logger
-    );
+    // The media.video.ready event is committed together with the asset update
+    const asset = await outboxService.withTransaction(async session => {
+        const updated = await findAndUpdateAssetByPassthrough(
+            videoAssetModel,
+            parsed.passTroughUploadID,
+            {
+                status: 'ready',
+                duration: muxEvent.payload.data.duration,
+                aspectRatio: muxEvent.payload.data.aspect_ratio,
+                muxInfo: muxEvent.payload.data,
+                playbackUrl: url,
+                gifThumbnailUrl: `https://image.mux.com/${playId}/animated.gif`,
+                thumbnailUrl: `https://image.mux.com/${playId}/thumbnail.jpg`,
+                resolution: muxEvent.payload.data.resolution_tier,
+                muxUploadStatus: muxEvent.payload.data.status
+            },
+            logger,
+            session
+        );
+        if (updated) await outboxService.enqueue([videoReadyEvent(updated)], session);
+        return updated;
+    });
     if (!asset) {
         logger.warn(`No asset found with passTroughUploadID: ${parsed.passTroughUploadID}`);
         return false;
@@ -144,6 +174,7 @@ async function handleAssetReady(
         uploadClaimService,
         ClaimStatus.READY,
         'Video ready for playback',
+        WebhookEvent.CLAIM_READY,
         url,
         undefined,
         {
@@ -165,12 +196,13 @@ async function handleAssetErrored(
     muxEvent: BaseEvent<VideoAssetErroredWebhookEvent>,
     videoAssetModel: Model<VideoAsset>,
     uploadClaimService: UploadClaimService,
+    outboxService: OutboxService,
     logger: Logger
 ): Promise<boolean> {
     const parsed = parsePassthroughData(muxEvent.payload.data.passthrough);
     const errMsg = muxEvent.payload.data.errors?.[0]?.message || 'Unknown processing error';
 
-    const asset = await findAndUpdateAssetByPassthrough(
+    const asset = await outboxService.withTransaction(session => findAndUpdateAssetByPassthrough(
         videoAssetModel,
         parsed.passTroughUploadID,
         {
@@ -179,14 +211,26 @@ async function handleAssetErrored(
             muxInfo: muxEvent.payload.data,
             muxUploadStatus: muxEvent.payload.data.status
         },
-        logger
-    );
+        logger,
+        session
+    ));
     if (!asset) {
         logger.warn(`No asset found with passTroughUploadID: ${parsed.passTroughUploadID}`);
         return false;
     }
 
-    await updateClaimIfExists(asset, uploadClaimService, ClaimStatus.FAILED, 'Video processing failed', undefined, errMsg, undefined, logger);
+    await updateClaimIfExists(
+        asset,
+        uploadClaimService,
+        ClaimStatus.FAILED,
+        'Video processing failed',
+        WebhookEvent.CLAIM_FAILED,
+        undefined,
+        errMsg,
+        undefined,
+        logger,
+        ClaimErrorCode.VIDEO_PROCESSING_FAILED
+    );
     logger.log(`Asset ${asset._id} failed: ${errMsg}`);
     return true;
 }
@@ -197,17 +241,35 @@ async function handleAssetErrored(
 async function handleAssetDeleted(
     muxEvent: BaseEvent<VideoAssetDeletedWebhookEvent>,
     videoAssetModel: Model<VideoAsset>,
+    outboxService: OutboxService,
     logger: Logger
 ): Promise<boolean> {
     const assetId = muxEvent.payload.object.id;
 
-    const asset = await videoAssetModel.findOneAndUpdate(
-        { muxAssetId: assetId },
-        { status: 'deleted' },
-        { new: true }
-    ).exec();
+    // Deleted directly in Mux, there is nothing left to restore or purge.
+    // The media.asset.deleted event is committed together with the status change
+    const asset = await outboxService.withTransaction(async session => {
+        const now = new Date();
+        const deleted = await videoAssetModel.findOneAndUpdate(
+            { muxAssetId: assetId, deletedAt: { $exists: false } },
+            { status: 'deleted', deletedAt: now, deletedBy: 'mux', purgedAt: now },
+            { new: true, session }
+        ).exec();
+        if (deleted) await outboxService.enqueue([assetDeletedEvent(deleted, 'video')], session);
+        return deleted;
+    });
 
     if (!asset) {
+        // Purges through our API are confirmed by Mux with this event as well.
+        // A soft-deleted asset removed in Mux can no longer be restored
+        const purged = await videoAssetModel.findOneAndUpdate(
+            { muxAssetId: assetId, purgedAt: { $exists: false } },
+            { status: 'deleted', purgedAt: new Date() }
+        ).exec();
+        if (purged || await videoAssetModel.exists({ muxAssetId: assetId })) {
+            logger.log(`Asset with muxAssetId ${assetId} was already deleted`);
+            return true;
+        }
         logger.warn(`No asset found with muxAssetId: ${assetId}`);
         return false;
     }
@@ -223,6 +285,7 @@ async function handleAssetDeleted(
  * @param muxEvent - The Mux webhook event to process
  * @param videoAssetModel - Mongoose model for VideoAsset
  * @param uploadClaimService - Service for updating upload claims
+ * @param outboxService - Outbox for publishing media events
  * @param logger - Logger instance
  * @returns true if the event was processed successfully, false otherwise
  */
@@ -230,6 +293,7 @@ async function processEvent(
     muxEvent: BaseEvent<any>,
     videoAssetModel: Model<VideoAsset>,
     uploadClaimService: UploadClaimService,
+    outboxService: OutboxService,
     logger: Logger
 ): Promise<boolean> {
     logger.log(`Processing event of type: ${muxEvent.type}`);
@@ -240,13 +304,13 @@ async function processEvent(
                 return await handleAssetCreated(muxEvent, videoAssetModel, logger);
 
             case 'video.asset.ready':
-                return await handleAssetReady(muxEvent, videoAssetModel, uploadClaimService, logger);
+                return await handleAssetReady(muxEvent, videoAssetModel, uploadClaimService, outboxService, logger);
 
             case 'video.asset.errored':
-                return await handleAssetErrored(muxEvent, videoAssetModel, uploadClaimService, logger);
+                return await handleAssetErrored(muxEvent, videoAssetModel, uploadClaimService, outboxService, logger);
 
             case 'video.asset.deleted':
-                return await handleAssetDeleted(muxEvent, videoAssetModel, logger);
+                return await handleAssetDeleted(muxEvent, videoAssetModel, outboxService, logger);
 
             default:
                 logger.warn(`Unhandled Mux event type: ${muxEvent.type}`);
@@ -266,6 +330,7 @@ async function processEvent(
  * @param originalPayload - The original Kafka message payload
  * @param videoAssetModel - Mongoose model for VideoAsset
  * @param uploadClaimService - Service for managing upload claims
+ * @param outboxService - Outbox for publishing media events
  * @param kafkaConsumer - Kafka consumer service for DLQ operations
  * @param logger - Logger instance
  * @returns void
@@ -275,6 +340,7 @@ export async function handleMuxWebhookEvent(
     originalPayload: EachMessagePayload,
     videoAssetModel: Model<VideoAsset>,
     uploadClaimService: UploadClaimService,
+    outboxService: OutboxService,
     kafkaConsumer: KafkaConsumerService,
     logger: Logger
 ): Promise<void> {
@@ -285,6 +351,7 @@ export async function handleMuxWebhookEvent(
             event,
             videoAssetModel,
             uploadClaimService,
+            outboxService,
             logger
         );
 
@@ -0,0 +1,106 @@
+import config from '../../config';
+import { AssetType, toAssetFacade } from '../../shared/utils/asset-facade.util';
+import { ImageAsset } from '../../shared/schemas/image-asset.schema';
+import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { UploadClaim } from '../../backend-for-frontend/upload-claim/schemas/upload-claim.schema';
+import { ModerationResult } from '../moderation/moderation.service';
+import { OutboxEvent } from '../outbox/outbox.service';
+import {
+  ClaimFailedEventPayload,
+  MediaAssetEventPayload,
+  MediaEventType,
+  ModerationRejectedEventPayload,
+} from './types/media.events';
+
+const MEDIA_EVENT_TOPICS: Record<MediaEventType, string> = {
+  [MediaEventType.IMAGE_READY]: config.db.kafka.topics.mediaImageReadyTopic,
+  [MediaEventType.VIDEO_READY]: config.db.kafka.topics.mediaVideoReadyTopic,
+  [MediaEventType.ASSET_DELETED]: config.db.kafka.topics.mediaAssetDeletedTopic,
+  [MediaEventType.CLAIM_FAILED]: config.db.kafka.topics.mediaClaimFailedTopic,
+  [MediaEventType.MODERATION_REJECTED]:
+    config.db.kafka.topics.mediaModerationRejectedTopic,
+};
+
+function createMediaEvent<T>(
+  type: MediaEventType,
+  key: string,
+  payload: T,
+): OutboxEvent<T> {
+  return {
+    topic: MEDIA_EVENT_TOPICS[type],
+    event: {
+      initiatorService: config.serviceName,
+      type,
+      key,
+      payload,
+    },
+  };
+}
+
+function createAssetEvent(
+  type: MediaEventType,
+  asset: ImageAsset | VideoAsset,
+  assetType: AssetType,
+): OutboxEvent<MediaAssetEventPayload> {
+  const facade = toAssetFacade(asset, assetType);
+  // Keyed by the asset so all events of one asset land on the same partition. The outbox does not guarantee
+  // they are published in the order they happened
+  return createMediaEvent<MediaAssetEventPayload>(type, facade.id, facade);
+}
+
+export function imageReadyEvent(
+  asset: ImageAsset,
+): OutboxEvent<MediaAssetEventPayload> {
+  return createAssetEvent(MediaEventType.IMAGE_READY, asset, 'image');
+}
+
+export function videoReadyEvent(
+  asset: VideoAsset,
+): OutboxEvent<MediaAssetEventPayload> {
+  return createAssetEvent(MediaEventType.VIDEO_READY, asset, 'video');
+}
+
+export function assetDeletedEvent(
+  asset: ImageAsset | VideoAsset,
+  assetType: AssetType,
+): OutboxEvent<MediaAssetEventPayload> {
+  return createAssetEvent(MediaEventType.ASSET_DELETED, asset, assetType);
+}
+
+/**
+ * Claims that failed before an asset existed are keyed by the claim ID
+ */
+export function claimFailedEvent(
+  claim: UploadClaim,
+): OutboxEvent<ClaimFailedEventPayload> {
+  return createMediaEvent<ClaimFailedEventPayload>(
+    MediaEventType.CLAIM_FAILED,
+    claim.claimId,
+    {
+      claimId: claim.claimId,
+      uploadProfile: claim.uploadProfile,
+      userId: claim.claimRequestorUserId,
+      reason: claim.reason,
+      moderationMessage: claim.moderationMessage,
+      failedAt: new Date().toISOString(),
+    },
+  );
+}
+
+export function moderationRejectedEvent(
+  claim: UploadClaim,
+  moderationResult: ModerationResult,
+): OutboxEvent<ModerationRejectedEventPayload> {
+  return createMediaEvent<ModerationRejectedEventPayload>(
+    MediaEventType.MODERATION_REJECTED,
+    claim.claimId,
+    {
+      claimId: claim.claimId,
+      uploadProfile: claim.uploadProfile,
+      userId: claim.claimRequestorUserId,
+      message: moderationResult.message,
+      detectedLabels: moderationResult.detectedLabels,
+      rejectedAt: new Date().toISOString(),
+    },
+  );
+}
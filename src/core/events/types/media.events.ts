@@ -0,0 +1,37 @@
+/**
+ * Events published by the media service about the lifecycle of media assets and claims
+ */
+export enum MediaEventType {
+  IMAGE_READY = 'media.image.ready',
+  VIDEO_READY = 'media.video.ready',
+  ASSET_DELETED = 'media.asset.deleted',
+  CLAIM_FAILED = 'media.claim.failed',
+  MODERATION_REJECTED = 'media.moderation.rejected',
+}
+
+/**
+ * Payload of asset events: the asset facade as returned by the retrieval API
+ */
+export type MediaAssetEventPayload = Record<string, any> & { id: string };
+
+export interface ClaimFailedEventPayload {
+  claimId: string;
+  uploadProfile: string;
+  userId: string;
+  reason?: string;
+  moderationMessage?: string;
+  failedAt: string;
+}
+
+export interface ModerationRejectedEventPayload {
+  claimId: string;
+  uploadProfile: string;
+  userId: string;
+  message?: string;
+  detectedLabels?: Array<{
+    name: string;
+    confidence: number;
+    parentName?: string;
+  }>;
+  rejectedAt: string;
+}
@@ -0,0 +1,10 @@
+/**
+ * Events published by the user service that the media service reacts to
+ */
+export enum UserEventType {
+  USER_DELETED = 'user.deleted',
+}
+
+export interface UserDeletedEventPayload {
+  userId: string;
+}
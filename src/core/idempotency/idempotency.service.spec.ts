@@ -0,0 +1,228 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import config from '../../config';
+import { fingerprintRequest } from '../../shared/utils/idempotency.util';
+import {
+  IdempotencyRecord,
+  IdempotencyRecordStatus,
+} from './schemas/idempotency-record.schema';
+import {
+  IdempotencyScope,
+  IdempotencyService,
+  IdempotentRequest,
+} from './idempotency.service';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const exec = <T>(result: T) => ({
+  exec: jest.fn().mockResolvedValue(result),
+});
+
+const duplicateKeyError = () =>
+  Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+  let idempotencyRecordModel: {
+    create: jest.Mock;
+    findOne: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    updateOne: jest.Mock;
+    deleteOne: jest.Mock;
+  };
+  let handler: jest.Mock;
+
+  const request: IdempotentRequest = {
+    key: 'key-1',
+    userId: 'user-1',
+    scope: IdempotencyScope.CLAIM_CREATE,
+    parameters: { uploadProfile: 'profile_picture' },
+  };
+  const fingerprint = fingerprintRequest(request.parameters);
+
+  // A record stored by an earlier request with the same key
+  const givenRecord = (record: Partial<IdempotencyRecord>) => {
+    idempotencyRecordModel.create.mockRejectedValue(duplicateKeyError());
+    idempotencyRecordModel.findOne.mockReturnValue(
+      exec({
+        _id: 'record-1',
+        fingerprint,
+        expiresAt: new Date(NOW.getTime() + HOUR_MS),
+        ...record,
+      }),
+    );
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+
+    idempotencyRecordModel = {
+      create: jest.fn().mockResolvedValue({
+        _id: 'record-1',
+        status: IdempotencyRecordStatus.IN_PROGRESS,
+      }),
+      findOne: jest.fn().mockReturnValue(exec(null)),
+      findOneAndUpdate: jest.fn().mockReturnValue(exec(null)),
+      updateOne: jest.fn().mockReturnValue(exec({})),
+      deleteOne: jest.fn().mockReturnValue(exec({})),
+    };
+    handler = jest.fn().mockResolvedValue({ claimId: 'claim-1' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        {
+          provide: getModelToken(IdempotencyRecord.name),
+          useValue: idempotencyRecordModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run the handler without storing anything if no key was sent', async () => {
+    await expect(
+      service.execute({ ...request, key: undefined }, handler),
+    ).resolves.toEqual({ claimId: 'claim-1' });
+
+    expect(idempotencyRecordModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse keys that are blank or too long', async () => {
+    await expect(
+      service.execute({ ...request, key: '  ' }, handler),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.execute({ ...request, key: 'k'.repeat(256) }, handler),
+    ).rejects.toThrow(BadRequestException);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should store the response of the first request with a key', async () => {
+    await expect(service.execute(request, handler)).resolves.toEqual({
+      claimId: 'claim-1',
+    });
+
+    expect(idempotencyRecordModel.create).toHaveBeenCalledWith({
+      userId: 'user-1',
+      scope: IdempotencyScope.CLAIM_CREATE,
+      key: 'key-1',
+      fingerprint,
+      status: IdempotencyRecordStatus.IN_PROGRESS,
+      lockedUntil: new Date(NOW.getTime() + config.idempotency.lockTimeoutMs),
+      expiresAt: new Date(
+        NOW.getTime() + config.idempotency.ttlHours * HOUR_MS,
+      ),
+    });
+    expect(idempotencyRecordModel.updateOne).toHaveBeenCalledWith(
+      { _id: 'record-1' },
+      {
+        status: IdempotencyRecordStatus.COMPLETED,
+        response: { claimId: 'claim-1' },
+        $unset: { lockedUntil: 1 },
+      },
+    );
+  });
+
+  it('should replay the stored response for a reused key', async () => {
+    givenRecord({
+      status: IdempotencyRecordStatus.COMPLETED,
+      response: { claimId: 'claim-0' },
+    });
+
+    await expect(service.execute(request, handler)).resolves.toEqual({
+      claimId: 'claim-0',
+    });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a reused key with different parameters', async () => {
+    givenRecord({
+      status: IdempotencyRecordStatus.COMPLETED,
+      fingerprint: fingerprintRequest({ uploadProfile: 'user_video' }),
+    });
+
+    await expect(service.execute(request, handler)).rejects.toThrow(
+      'was already used for a different request',
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a reused key whose request is still in progress', async () => {
+    givenRecord({
+      status: IdempotencyRecordStatus.IN_PROGRESS,
+      lockedUntil: new Date(NOW.getTime() + 1000),
+    });
+
+    await expect(service.execute(request, handler)).rejects.toThrow(
+      ConflictException,
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should take over an expired record even if its parameters differ', async () => {
+    givenRecord({
+      status: IdempotencyRecordStatus.COMPLETED,
+      fingerprint: fingerprintRequest({ uploadProfile: 'user_video' }),
+      expiresAt: new Date(NOW.getTime() - 1000),
+      response: { claimId: 'claim-0' },
+    });
+    idempotencyRecordModel.findOneAndUpdate.mockReturnValue(
+      exec({ _id: 'record-1', status: IdempotencyRecordStatus.IN_PROGRESS }),
+    );
+
+    await expect(service.execute(request, handler)).resolves.toEqual({
+      claimId: 'claim-1',
+    });
+
+    expect(idempotencyRecordModel.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: 'record-1',
+        $or: [
+          { expiresAt: { $lte: NOW } },
+          {
+            status: IdempotencyRecordStatus.IN_PROGRESS,
+            lockedUntil: { $lte: NOW },
+          },
+        ],
+      },
+      expect.objectContaining({
+        fingerprint,
+        status: IdempotencyRecordStatus.IN_PROGRESS,
+        $unset: { response: 1 },
+      }),
+      { new: true },
+    );
+    expect(handler).toHaveBeenCalled();
+  });
+
+  it('should release the key if the handler fails so the request can be retried', async () => {
+    handler.mockRejectedValue(new Error('Mongo unavailable'));
+
+    await expect(service.execute(request, handler)).rejects.toThrow(
+      'Mongo unavailable',
+    );
+
+    expect(idempotencyRecordModel.deleteOne).toHaveBeenCalledWith({
+      _id: 'record-1',
+      status: IdempotencyRecordStatus.IN_PROGRESS,
+    });
+    expect(idempotencyRecordModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should ask to retry if the record was released between insert and lookup', async () => {
+    idempotencyRecordModel.create.mockRejectedValue(duplicateKeyError());
+
+    await expect(service.execute(request, handler)).rejects.toThrow(
+      'just failed, retry it',
+    );
+  });
+});
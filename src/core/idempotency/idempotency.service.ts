@@ -0,0 +1,192 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import config from '../../config';
+import { fingerprintRequest } from '../../shared/utils/idempotency.util';
+import {
+  IdempotencyRecord,
+  IdempotencyRecordStatus,
+} from './schemas/idempotency-record.schema';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+/**
+ * Operations that accept an Idempotency-Key
+ */
+export enum IdempotencyScope {
+  CLAIM_CREATE = 'claim.create',
+  // Deprecated GET claim route, its parameters are fingerprinted in a different shape than POST claims
+  LEGACY_CLAIM_CREATE = 'claim.legacy-create',
+  BATCH_CLAIM_CREATE = 'claim.batch.create',
+  IMAGE_UPLOAD = 'image.upload',
+  VIDEO_UPLOAD_URL = 'video.upload-url',
+}
+
+export interface IdempotentRequest {
+  /** Value of the Idempotency-Key header, the request is not deduplicated without one */
+  key?: string;
+  userId: string;
+  scope: IdempotencyScope;
+  /** Parameters that must be equal whenever the key is reused */
+  parameters: unknown;
+}
+
+/**
+ * Deduplicates retried requests. The first request with a key runs, its response is stored and
+ * replayed to every later request with the same key until the record expires. Failed requests
+ * are not stored, so they can be retried with the same key.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  constructor(
+    @InjectModel(IdempotencyRecord.name)
+    private idempotencyRecordModel: Model<IdempotencyRecord>,
+  ) {}
+
+  /**
+   * Runs a request once per idempotency key
+   * @param request The key and the request it was sent with
+   * @param handler Performs the request
+   * @returns The response of the handler, or the stored response for a reused key
+   * @throws BadRequestException if the key is empty or too long
+   * @throws ConflictException if the key was used for different parameters or its request is still in progress
+   */
+  async execute<T>(
+    request: IdempotentRequest,
+    handler: () => Promise<T>,
+  ): Promise<T> {
+    if (request.key === undefined || request.key === null) {
+      return handler();
+    }
+
+    const key = request.key.trim();
+    if (!key || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+      throw new BadRequestException(
+        `${IDEMPOTENCY_KEY_HEADER} must be between 1 and ${IDEMPOTENCY_KEY_MAX_LENGTH} characters`,
+      );
+    }
+
+    const record = await this.acquire(
+      key,
+      request,
+      fingerprintRequest(request.parameters),
+    );
+    if (record.status === IdempotencyRecordStatus.COMPLETED) {
+      this.logger.log(
+        `Replaying ${request.scope} response for ${IDEMPOTENCY_KEY_HEADER} ${key} of user ${request.userId}`,
+      );
+      return record.response as T;
+    }
+
+    let response: T;
+    try {
+      response = await handler();
+    } catch (error) {
+      await this.idempotencyRecordModel
+        .deleteOne({
+          _id: record._id,
+          status: IdempotencyRecordStatus.IN_PROGRESS,
+        })
+        .exec()
+        .catch((deleteError: Error) => {
+          this.logger.error(
+            `Failed to release ${IDEMPOTENCY_KEY_HEADER} ${key}: ${deleteError.message}`,
+            deleteError.stack,
+          );
+        });
+      throw error;
+    }
+
+    await this.idempotencyRecordModel
+      .updateOne(
+        { _id: record._id },
+        {
+          status: IdempotencyRecordStatus.COMPLETED,
+          // Stored the way it is sent to the client
+          response: JSON.parse(JSON.stringify(response ?? null)),
+          $unset: { lockedUntil: 1 },
+        },
+      )
+      .exec();
+
+    return response;
+  }
+
+  /**
+   * Creates the record of a key, or returns the existing one if it may be replayed
+   */
+  private async acquire(
+    key: string,
+    request: IdempotentRequest,
+    fingerprint: string,
+  ): Promise<IdempotencyRecord> {
+    const now = new Date();
+    const { ttlHours, lockTimeoutMs } = config.idempotency;
+    const filter = { userId: request.userId, scope: request.scope, key };
+    const lock = {
+      fingerprint,
+      status: IdempotencyRecordStatus.IN_PROGRESS,
+      lockedUntil: new Date(now.getTime() + lockTimeoutMs),
+      expiresAt: new Date(now.getTime() + ttlHours * 60 * 60 * 1000),
+    };
+
+    try {
+      return await this.idempotencyRecordModel.create({ ...filter, ...lock });
+    } catch (error) {
+      // Unique index on (userId, scope, key) - the key was used before
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+
+    const existing = await this.idempotencyRecordModel.findOne(filter).exec();
+    if (!existing) {
+      throw new ConflictException(
+        `The request with ${IDEMPOTENCY_KEY_HEADER} ${key} just failed, retry it`,
+      );
+    }
+
+    const expired = existing.expiresAt <= now;
+    if (!expired && existing.fingerprint !== fingerprint) {
+      throw new ConflictException(
+        `${IDEMPOTENCY_KEY_HEADER} ${key} was already used for a different request`,
+      );
+    }
+    if (!expired && existing.status === IdempotencyRecordStatus.COMPLETED) {
+      return existing;
+    }
+
+    // Take over records that expired but were not removed yet, or whose request was abandoned
+    const taken = await this.idempotencyRecordModel
+      .findOneAndUpdate(
+        {
+          _id: existing._id,
+          $or: [
+            { expiresAt: { $lte: now } },
+            {
+              status: IdempotencyRecordStatus.IN_PROGRESS,
+              lockedUntil: { $lte: now },
+            },
+          ],
+        },
+        { ...lock, $unset: { response: 1 } },
+        { new: true },
+      )
+      .exec();
+
+    if (!taken) {
+      throw new ConflictException(
+        `A request with ${IDEMPOTENCY_KEY_HEADER} ${key} is still in progress`,
+      );
+    }
+    return taken;
+  }
+}
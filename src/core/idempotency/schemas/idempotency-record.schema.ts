@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export enum IdempotencyRecordStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+}
+
+/**
+ * The outcome of a request sent with an Idempotency-Key, replayed for requests reusing the key
+ */
+@Schema({ timestamps: true })
+export class IdempotencyRecord extends Document {
+  @Prop({ required: true })
+  key: string;
+
+  @Prop({ required: true })
+  userId: string;
+
+  // The operation the key was used for, keys are unique per user and scope
+  @Prop({ required: true })
+  scope: string;
+
+  // Hash of the request parameters, a reused key must come with the same parameters
+  @Prop({ required: true })
+  fingerprint: string;
+
+  @Prop({
+    required: true,
+    enum: IdempotencyRecordStatus,
+    default: IdempotencyRecordStatus.IN_PROGRESS,
+  })
+  status: IdempotencyRecordStatus;
+
+  // The response body of the completed request
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  response?: any;
+
+  // Lease of the request in progress, it is considered abandoned afterwards
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const IdempotencyRecordSchema =
+  SchemaFactory.createForClass(IdempotencyRecord);
+
+// Indexes
+IdempotencyRecordSchema.index(
+  { userId: 1, scope: 1, key: 1 },
+  { unique: true },
+);
+IdempotencyRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  OutboxMessageKind,
+  OutboxMessageStatus,
+} from '../schemas/outbox-message.schema';
+
+export class ListOutboxMessagesDto {
+  @ApiProperty({
+    description: 'Only messages of this kind',
+    enum: OutboxMessageKind,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(OutboxMessageKind)
+  kind?: OutboxMessageKind;
+
+  @ApiProperty({
+    description: 'Only messages in this status',
+    enum: OutboxMessageStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(OutboxMessageStatus)
+  status?: OutboxMessageStatus;
+
+  @ApiProperty({
+    description: 'Maximum number of messages to return',
+    required: false,
+    example: 50,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @Type(() => Number)
+  limit?: number;
+
+  @ApiProperty({
+    description: 'Number of messages to skip',
+    required: false,
+    example: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  skip?: number;
+}
@@ -0,0 +1,51 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { OutboxService } from './outbox.service';
+import { ListOutboxMessagesDto } from './dto/list-outbox-messages.dto';
+import { OutboxMessage } from './schemas/outbox-message.schema';
+
+@ApiTags('outbox')
+@Controller('v1/core/outbox')
+export class OutboxController {
+  constructor(private readonly outboxService: OutboxService) {}
+
+  @Get('messages')
+  @ApiOperation({
+    summary: 'List outbox messages',
+    description:
+      'Pending, processed and failed side-effects including attempt count and last error.',
+  })
+  @ApiResponse({ status: 200, description: 'Messages, newest first' })
+  async listMessages(
+    @Query() query: ListOutboxMessagesDto,
+  ): Promise<OutboxMessage[]> {
+    return this.outboxService.listMessages(query);
+  }
+
+  @Post('messages/:messageId/retry')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Retry an outbox message',
+    description: 'Resets the attempt counter and processes the message again.',
+  })
+  @ApiParam({ name: 'messageId', description: 'The outbox message ID' })
+  @ApiResponse({ status: 200, description: 'Message after the new attempt' })
+  @ApiNotFoundResponse({ description: 'Message not found' })
+  async retry(@Param('messageId') messageId: string): Promise<OutboxMessage> {
+    return this.outboxService.retry(messageId);
+  }
+}
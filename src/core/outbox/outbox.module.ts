@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { KafkaProducerService } from '@gpe/backend-common/dist/shared/kafka/producer';
+import { OutboxController } from './outbox.controller';
+import { OutboxService } from './outbox.service';
+import {
+  OutboxMessage,
+  OutboxMessageSchema,
+} from './schemas/outbox-message.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OutboxMessage.name, schema: OutboxMessageSchema },
+    ]),
+  ],
+  controllers: [OutboxController],
+  providers: [OutboxService, KafkaProducerService],
+  exports: [OutboxService, KafkaProducerService],
+})
+export class OutboxModule {}
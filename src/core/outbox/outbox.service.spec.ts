@@ -0,0 +1,236 @@
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { KafkaProducerService } from '@gpe/backend-common/dist/shared/kafka/producer';
+import { ClientSession } from 'mongoose';
+import { of } from 'rxjs';
+import config from '../../config';
+import {
+  OutboxMessage,
+  OutboxMessageKind,
+  OutboxMessageStatus,
+} from './schemas/outbox-message.schema';
+import { OutboxService } from './outbox.service';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+// Stand-in for a leased OutboxMessage document
+interface MessageDoc {
+  _id: string;
+  kind: OutboxMessageKind;
+  topic?: string;
+  event?: Record<string, any>;
+  payload?: Record<string, any>;
+  status: OutboxMessageStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+  processedAt?: Date;
+  save: jest.Mock;
+}
+
+const exec = <T>(result: T) => ({
+  exec: jest.fn().mockResolvedValue(result),
+});
+
+describe('OutboxService', () => {
+  let service: OutboxService;
+  let outboxMessageModel: {
+    insertMany: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+  };
+  let kafkaProducer: { produce: jest.Mock };
+  let message: MessageDoc;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+
+    message = {
+      _id: 'message-1',
+      kind: OutboxMessageKind.S3_CLEANUP,
+      payload: { folderPath: 'profile/asset/' },
+      status: OutboxMessageStatus.PENDING,
+      attempts: 0,
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    outboxMessageModel = {
+      insertMany: jest
+        .fn()
+        .mockResolvedValue([{ _id: 'message-1' }, { _id: 'message-2' }]),
+      findOneAndUpdate: jest.fn().mockReturnValue(exec(message)),
+    };
+    kafkaProducer = { produce: jest.fn().mockReturnValue(of(undefined)) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxService,
+        { provide: getConnectionToken(), useValue: {} },
+        {
+          provide: getModelToken(OutboxMessage.name),
+          useValue: outboxMessageModel,
+        },
+        { provide: KafkaProducerService, useValue: kafkaProducer },
+      ],
+    }).compile();
+
+    service = module.get<OutboxService>(OutboxService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should store tasks with the session of the transaction', async () => {
+    const session = {} as ClientSession;
+    const tasks = [
+      {
+        kind: OutboxMessageKind.S3_CLEANUP as const,
+        payload: { folderPath: 'a/' },
+      },
+      {
+        kind: OutboxMessageKind.S3_CLEANUP as const,
+        payload: { folderPath: 'b/' },
+      },
+    ];
+
+    await expect(service.enqueueTasks(tasks, session)).resolves.toEqual([
+      'message-1',
+      'message-2',
+    ]);
+    expect(outboxMessageModel.insertMany).toHaveBeenCalledWith(tasks, {
+      session,
+    });
+  });
+
+  it('should not store anything for an empty batch', async () => {
+    await expect(service.enqueueTasks([])).resolves.toEqual([]);
+    expect(outboxMessageModel.insertMany).not.toHaveBeenCalled();
+  });
+
+  it('should run the registered handler and mark the message as processed', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    service.registerHandler(OutboxMessageKind.S3_CLEANUP, handler);
+
+    await service.processNow(['message-1']);
+
+    expect(handler).toHaveBeenCalledWith({ folderPath: 'profile/asset/' });
+    expect(message).toMatchObject({
+      status: OutboxMessageStatus.PROCESSED,
+      attempts: 1,
+      processedAt: NOW,
+    });
+    expect(message.save).toHaveBeenCalled();
+  });
+
+  it('should publish Kafka events to their topic', async () => {
+    message.kind = OutboxMessageKind.KAFKA_EVENT;
+    message.topic = 'media.asset.deleted';
+    message.event = { type: 'media.asset.deleted', key: 'asset-1' };
+
+    await service.processNow(['message-1']);
+
+    expect(kafkaProducer.produce).toHaveBeenCalledWith(
+      'media.asset.deleted',
+      message.event,
+    );
+    expect(message.status).toBe(OutboxMessageStatus.PROCESSED);
+  });
+
+  it('should lease the message before running its handler', async () => {
+    service.registerHandler(
+      OutboxMessageKind.S3_CLEANUP,
+      jest.fn().mockResolvedValue(undefined),
+    );
+
+    await service.processNow(['message-1']);
+
+    expect(outboxMessageModel.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: 'message-1',
+        status: OutboxMessageStatus.PENDING,
+        nextAttemptAt: { $lte: NOW },
+      },
+      { nextAttemptAt: new Date(NOW.getTime() + config.outbox.leaseMs) },
+      { new: true },
+    );
+  });
+
+  it('should skip messages leased by another replica', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    service.registerHandler(OutboxMessageKind.S3_CLEANUP, handler);
+    outboxMessageModel.findOneAndUpdate.mockReturnValue(exec(null));
+
+    await service.processNow(['message-1']);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should take over a message whose lease expired and count the lost attempt', async () => {
+    // The replica that leased the message died before recording the outcome
+    const handler = jest.fn().mockResolvedValue(undefined);
+    service.registerHandler(OutboxMessageKind.S3_CLEANUP, handler);
+    message.attempts = 1;
+
+    await service.processNow(['message-1']);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(message).toMatchObject({
+      status: OutboxMessageStatus.PROCESSED,
+      attempts: 2,
+    });
+  });
+
+  it('should retry messages without a registered handler', async () => {
+    await service.processNow(['message-1']);
+
+    expect(message).toMatchObject({
+      status: OutboxMessageStatus.PENDING,
+      attempts: 1,
+      lastError: 'No outbox handler registered for s3.cleanup',
+      nextAttemptAt: new Date(NOW.getTime() + config.outbox.initialBackoffMs),
+    });
+  });
+
+  it('should back off exponentially after a failed attempt', async () => {
+    service.registerHandler(
+      OutboxMessageKind.S3_CLEANUP,
+      jest.fn().mockRejectedValue(new Error('S3 unavailable')),
+    );
+    message.attempts = 2;
+
+    await service.processNow(['message-1']);
+
+    expect(message).toMatchObject({
+      status: OutboxMessageStatus.PENDING,
+      attempts: 3,
+      lastError: 'S3 unavailable',
+      nextAttemptAt: new Date(
+        NOW.getTime() + config.outbox.initialBackoffMs * 4,
+      ),
+    });
+  });
+
+  it('should fail the message once it ran out of attempts', async () => {
+    service.registerHandler(
+      OutboxMessageKind.S3_CLEANUP,
+      jest.fn().mockRejectedValue(new Error('S3 unavailable')),
+    );
+    message.attempts = config.outbox.maxAttempts - 1;
+
+    await service.processNow(['message-1']);
+
+    expect(message).toMatchObject({
+      status: OutboxMessageStatus.FAILED,
+      attempts: config.outbox.maxAttempts,
+      lastError: 'S3 unavailable',
+    });
+    expect(message.save).toHaveBeenCalled();
+  });
+
+  it('should not reject when a message cannot be processed', async () => {
+    outboxMessageModel.findOneAndUpdate.mockReturnValue({
+      exec: jest.fn().mockRejectedValue(new Error('Mongo unavailable')),
+    });
+
+    await expect(service.processNow(['message-1'])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,316 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Connection, Model } from 'mongoose';
+import { KafkaProducerService } from '@gpe/backend-common/dist/shared/kafka/producer';
+import { Subscription, firstValueFrom } from 'rxjs';
+import config from '../../config';
+import { startPolling } from '../../shared/utils/polling.util';
+import { computeBackoffDelay } from '../../shared/utils/backoff.util';
+import { BaseEvent } from '../events/types/base.event';
+import {
+  OutboxMessage,
+  OutboxMessageKind,
+  OutboxMessageStatus,
+} from './schemas/outbox-message.schema';
+import { ListOutboxMessagesDto } from './dto/list-outbox-messages.dto';
+
+/**
+ * An event to be published to a Kafka topic once the surrounding transaction commits
+ */
+export interface OutboxEvent<T = any> {
+  topic: string;
+  event: BaseEvent<T>;
+}
+
+/**
+ * A side-effect to be executed by the handler registered for its kind once the surrounding transaction commits
+ */
+export interface OutboxTask {
+  kind: Exclude<OutboxMessageKind, OutboxMessageKind.KAFKA_EVENT>;
+  payload: Record<string, any>;
+}
+
+/**
+ * Executes a task. Handlers are retried until they resolve, so they have to be idempotent.
+ * The payload type is the one the enqueueing services store for the kind.
+ */
+export type OutboxHandler<P = Record<string, any>> = (
+  payload: P,
+) => Promise<void>;
+
+/**
+ * Transactional outbox for Kafka events and other side-effects.
+ * Messages are inserted in the same Mongo transaction as the write they belong to and a background
+ * relay executes them afterwards, so nothing is lost when the process dies in between.
+ * Delivery is at-least-once, Kafka consumers and task handlers have to be idempotent.
+ */
+@Injectable()
+export class OutboxService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxService.name);
+  private readonly handlers = new Map<OutboxMessageKind, OutboxHandler>();
+  private relaySubscription?: Subscription;
+
+  constructor(
+    @InjectConnection() private readonly connection: Connection,
+    @InjectModel(OutboxMessage.name)
+    private outboxMessageModel: Model<OutboxMessage>,
+    private readonly kafkaProducer: KafkaProducerService,
+  ) {}
+
+  /**
+   * Start relaying pending messages when the module starts
+   */
+  onModuleInit(): void {
+    this.relaySubscription = startPolling(
+      config.outbox.relayIntervalMs,
+      () => this.relayPendingMessages(),
+      this.logger,
+      'Outbox relay run',
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.relaySubscription?.unsubscribe();
+  }
+
+  /**
+   * Registers the handler that executes tasks of a kind. Called by the owning services on module init.
+   */
+  registerHandler<P = Record<string, any>>(
+    kind: OutboxTask['kind'],
+    handler: OutboxHandler<P>,
+  ): void {
+    this.handlers.set(kind, handler as OutboxHandler);
+  }
+
+  /**
+   * Runs the callback in a Mongo transaction. Writes made with the session and the messages
+   * enqueued with it are committed together or not at all.
+   */
+  async withTransaction<T>(
+    fn: (session: ClientSession) => Promise<T>,
+  ): Promise<T> {
+    return this.connection.transaction(fn);
+  }
+
+  /**
+   * Stores Kafka events in the outbox
+   * @param events The events to publish
+   * @param session The session of the transaction the events belong to
+   * @returns IDs of the stored messages
+   */
+  async enqueue(
+    events: OutboxEvent[],
+    session?: ClientSession,
+  ): Promise<string[]> {
+    return this.insertMessages(
+      events.map(({ topic, event }) => ({
+        kind: OutboxMessageKind.KAFKA_EVENT,
+        topic,
+        key: event.key,
+        event,
+      })),
+      session,
+    );
+  }
+
+  /**
+   * Stores side-effects in the outbox
+   * @param tasks The tasks to execute
+   * @param session The session of the transaction the tasks belong to
+   * @returns IDs of the stored messages
+   */
+  async enqueueTasks(
+    tasks: OutboxTask[],
+    session?: ClientSession,
+  ): Promise<string[]> {
+    return this.insertMessages(tasks, session);
+  }
+
+  /**
+   * Executes messages right away instead of waiting for the next relay run.
+   * Must only be called after the transaction that stored them committed. Never rejects,
+   * failed messages are retried by the relay.
+   */
+  async processNow(messageIds: string[]): Promise<void> {
+    for (const messageId of messageIds) {
+      try {
+        await this.processMessage(messageId);
+      } catch (error) {
+        this.logger.error(
+          `Failed to process outbox message ${messageId}: ${(error as Error).message}`,
+          (error as Error).stack,
+        );
+      }
+    }
+  }
+
+  /**
+   * Lists outbox messages including their retry state
+   */
+  async listMessages(query: ListOutboxMessagesDto): Promise<OutboxMessage[]> {
+    const filter: Record<string, any> = {};
+    if (query.kind) filter.kind = query.kind;
+    if (query.status) filter.status = query.status;
+
+    return this.outboxMessageModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(query.limit || 50)
+      .skip(query.skip || 0)
+      .exec();
+  }
+
+  /**
+   * Re-queues a message regardless of its current status and processes it right away
+   */
+  async retry(messageId: string): Promise<OutboxMessage> {
+    const message = await this.outboxMessageModel
+      .findByIdAndUpdate(
+        messageId,
+        {
+          status: OutboxMessageStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          $unset: { lastError: 1, processedAt: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!message) {
+      throw new NotFoundException(`Outbox message ${messageId} not found`);
+    }
+
+    this.logger.log(`Retrying outbox message ${messageId}`);
+    await this.processNow([messageId]);
+
+    return (await this.outboxMessageModel.findById(messageId).exec())!;
+  }
+
+  private async insertMessages(
+    messages: Partial<OutboxMessage>[],
+    session?: ClientSession,
+  ): Promise<string[]> {
+    if (!messages.length) {
+      return [];
+    }
+
+    const inserted = await this.outboxMessageModel.insertMany(messages, {
+      session,
+    });
+    return inserted.map((message) => message._id.toString());
+  }
+
+  /**
+   * Processes all pending messages that are due
+   * @returns Number of attempted messages
+   */
+  private async relayPendingMessages(): Promise<number> {
+    const due = await this.outboxMessageModel
+      .find({
+        status: OutboxMessageStatus.PENDING,
+        nextAttemptAt: { $lte: new Date() },
+      })
+      .select('_id')
+      // Oldest first so no message waits behind newer ones. This is no ordering guarantee: messages processed
+      // right after their transaction (processNow) and messages waiting for a retry are overtaken
+      .sort({ createdAt: 1 })
+      .limit(config.outbox.batchSize)
+      .exec();
+
+    for (const message of due) {
+      await this.processMessage(message._id.toString());
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Performs a single attempt and records the outcome
+   */
+  private async processMessage(messageId: string): Promise<void> {
+    const now = new Date();
+    const { leaseMs, maxAttempts, initialBackoffMs, maxBackoffMs } =
+      config.outbox;
+
+    // Lease the message so other replicas skip it while it is being processed
+    const message = await this.outboxMessageModel
+      .findOneAndUpdate(
+        {
+          _id: messageId,
+          status: OutboxMessageStatus.PENDING,
+          nextAttemptAt: { $lte: now },
+        },
+        { nextAttemptAt: new Date(now.getTime() + leaseMs) },
+        { new: true },
+      )
+      .exec();
+
+    if (!message) {
+      return;
+    }
+
+    const label =
+      message.kind === OutboxMessageKind.KAFKA_EVENT
+        ? `${message.event?.type} (key ${message.key})`
+        : message.kind;
+    const attempts = message.attempts + 1;
+    message.attempts = attempts;
+    message.lastAttemptAt = now;
+
+    try {
+      await this.execute(message);
+      message.status = OutboxMessageStatus.PROCESSED;
+      message.processedAt = new Date();
+      message.lastError = undefined;
+      this.logger.log(
+        `Outbox message ${messageId} ${label} processed after ${attempts} attempt(s)`,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      message.lastError = errorMessage;
+
+      if (attempts >= maxAttempts) {
+        message.status = OutboxMessageStatus.FAILED;
+        this.logger.error(
+          `Outbox message ${messageId} ${label} failed permanently: ${errorMessage}`,
+        );
+      } else {
+        const delay = computeBackoffDelay(
+          attempts,
+          initialBackoffMs,
+          maxBackoffMs,
+        );
+        message.nextAttemptAt = new Date(Date.now() + delay);
+        this.logger.warn(
+          `Outbox message ${messageId} ${label} failed, retrying in ${delay}ms: ${errorMessage}`,
+        );
+      }
+    }
+
+    await message.save();
+  }
+
+  private async execute(message: OutboxMessage): Promise<void> {
+    if (message.kind === OutboxMessageKind.KAFKA_EVENT) {
+      await firstValueFrom(
+        this.kafkaProducer.produce(message.topic, message.event),
+      );
+      return;
+    }
+
+    const handler = this.handlers.get(message.kind);
+    if (!handler) {
+      throw new Error(`No outbox handler registered for ${message.kind}`);
+    }
+    await handler(message.payload || {});
+  }
+}
@@ -0,0 +1,85 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { BaseEvent } from '../../events/types/base.event';
+
+export enum OutboxMessageKind {
+  KAFKA_EVENT = 'kafka.event',
+  CLAIM_UPDATE = 'claim.update',
+  S3_CLEANUP = 's3.cleanup',
+  CLAIM_NOTIFICATION = 'claim.notification',
+  MUX_ASSET_DELETE = 'mux.asset.delete',
+  USER_DATA_JOB = 'user-data.job',
+  S3_OBJECT_DELETE = 's3.object.delete',
+  ASSET_ERASE = 'asset.erase',
+  ASSET_NOTIFICATION = 'asset.notification',
+}
+
+export enum OutboxMessageStatus {
+  PENDING = 'pending',
+  PROCESSED = 'processed',
+  FAILED = 'failed',
+}
+
+@Schema({ timestamps: true })
+export class OutboxMessage extends Document {
+  @Prop({
+    required: true,
+    enum: OutboxMessageKind,
+    default: OutboxMessageKind.KAFKA_EVENT,
+  })
+  kind: OutboxMessageKind;
+
+  // Kafka events only
+  @Prop()
+  topic?: string;
+
+  @Prop()
+  key?: string;
+
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  event?: BaseEvent<any>;
+
+  // Input of the handler of all other kinds
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  payload?: Record<string, any>;
+
+  @Prop({
+    required: true,
+    enum: OutboxMessageStatus,
+    default: OutboxMessageStatus.PENDING,
+  })
+  status: OutboxMessageStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  // When the message is due next; also used as a lease while it is being processed
+  @Prop({ default: Date.now })
+  nextAttemptAt: Date;
+
+  @Prop()
+  lastAttemptAt?: Date;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop()
+  processedAt?: Date;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const OutboxMessageSchema = SchemaFactory.createForClass(OutboxMessage);
+
+// Indexes
+OutboxMessageSchema.index({ status: 1, nextAttemptAt: 1 });
+OutboxMessageSchema.index({ kind: 1, status: 1, createdAt: -1 });
+// Processed messages are only kept for a week for debugging
+OutboxMessageSchema.index(
+  { processedAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 60 * 60 },
+);
@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class QuotaResponseDto {
+  @ApiProperty({ description: 'The user ID', example: 'user123' })
+  userId: string;
+
+  @ApiProperty({ description: 'Quota tier of the user', example: 'free' })
+  tier: string;
+
+  @ApiProperty({
+    description:
+      'Bytes stored across all upload profiles, including resized versions',
+    example: 52428800,
+  })
+  usedBytes: number;
+
+  @ApiProperty({
+    description: 'Number of stored assets across all upload profiles',
+    example: 42,
+  })
+  usedAssets: number;
+
+  @ApiProperty({
+    description: 'Bytes the user may store, null if unlimited',
+    example: 2147483648,
+    nullable: true,
+    type: Number,
+  })
+  maxBytes: number | null;
+
+  @ApiProperty({
+    description: 'Number of assets the user may store, null if unlimited',
+    example: 1000,
+    nullable: true,
+    type: Number,
+  })
+  maxAssets: number | null;
+
+  @ApiProperty({
+    description: 'Bytes left, null if unlimited',
+    example: 2095054848,
+    nullable: true,
+    type: Number,
+  })
+  remainingBytes: number | null;
+
+  @ApiProperty({
+    description: 'Number of assets left, null if unlimited',
+    example: 958,
+    nullable: true,
+    type: Number,
+  })
+  remainingAssets: number | null;
+
+  @ApiProperty({
+    description: 'When the usage was last recounted from the stored assets',
+    required: false,
+  })
+  recountedAt?: Date;
+}
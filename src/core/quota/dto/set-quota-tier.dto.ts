@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsString } from 'class-validator';
+import config from '../../../config';
+
+export class SetQuotaTierDto {
+  @ApiProperty({
+    description: 'Quota tier to assign to the user',
+    enum: Object.keys(config.quotas.tiers),
+    example: 'premium',
+  })
+  @IsString()
+  @IsIn(Object.keys(config.quotas.tiers))
+  tier: string;
+}
@@ -0,0 +1,60 @@
+import { Controller, Get, Put, Post, Param, Body } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiBody,
+} from '@nestjs/swagger';
+import { QuotaService } from './quota.service';
+import { QuotaResponseDto } from './dto/quota-response.dto';
+import { SetQuotaTierDto } from './dto/set-quota-tier.dto';
+
+@ApiTags('quotas')
+@Controller('v1/core/quotas')
+export class QuotaController {
+  constructor(private readonly quotaService: QuotaService) {}
+
+  @Get('users/:userId')
+  @ApiOperation({ summary: 'Get the storage usage and quota of a user' })
+  @ApiParam({ name: 'userId', description: 'The user ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Usage and limits of the user',
+    type: QuotaResponseDto,
+  })
+  async getQuota(@Param('userId') userId: string): Promise<QuotaResponseDto> {
+    return this.quotaService.getQuota(userId);
+  }
+
+  @Put('users/:userId/tier')
+  @ApiOperation({ summary: 'Assign a quota tier to a user' })
+  @ApiParam({ name: 'userId', description: 'The user ID' })
+  @ApiBody({ type: SetQuotaTierDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Usage and limits of the user in the new tier',
+    type: QuotaResponseDto,
+  })
+  async setTier(
+    @Param('userId') userId: string,
+    @Body() dto: SetQuotaTierDto,
+  ): Promise<QuotaResponseDto> {
+    return this.quotaService.setTier(userId, dto.tier);
+  }
+
+  @Post('users/:userId/recount')
+  @ApiOperation({
+    summary: 'Recount the storage usage of a user from their stored assets',
+  })
+  @ApiParam({ name: 'userId', description: 'The user ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Recounted usage and limits of the user',
+    type: QuotaResponseDto,
+  })
+  async recount(@Param('userId') userId: string): Promise<QuotaResponseDto> {
+    await this.quotaService.recountUser(userId);
+    return this.quotaService.getQuota(userId);
+  }
+}
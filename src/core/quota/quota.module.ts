@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { QuotaController } from './quota.controller';
+import { QuotaService } from './quota.service';
+import {
+  UserStorageUsage,
+  UserStorageUsageSchema,
+} from './schemas/user-storage-usage.schema';
+import {
+  ImageAsset,
+  ImageAssetSchema,
+} from '../../shared/schemas/image-asset.schema';
+import {
+  VideoAsset,
+  VideoAssetSchema,
+} from '../../shared/schemas/video-asset.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: UserStorageUsage.name, schema: UserStorageUsageSchema },
+      { name: ImageAsset.name, schema: ImageAssetSchema },
+      { name: VideoAsset.name, schema: VideoAssetSchema },
+    ]),
+  ],
+  controllers: [QuotaController],
+  providers: [QuotaService],
+  exports: [QuotaService],
+})
+export class QuotaModule {}
@@ -0,0 +1,298 @@
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model } from 'mongoose';
+import { Subscription } from 'rxjs';
+import config from '../../config';
+import { startPolling } from '../../shared/utils/polling.util';
+import { QuotaTier } from '../../config/types';
+import { ImageAsset } from '../../shared/schemas/image-asset.schema';
+import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import {
+  StorageUsage,
+  computeQuotaStatus,
+  findQuotaViolation,
+} from '../../shared/utils/storage-quota.util';
+import { UserStorageUsage } from './schemas/user-storage-usage.schema';
+import { QuotaResponseDto } from './dto/quota-response.dto';
+
+/**
+ * Limits the total bytes and assets a user stores across all upload profiles.
+ *
+ * Usage counters are adjusted whenever an asset is stored, deleted or restored. Since uploads that
+ * fail half-way or happen while a recount is running can still make them drift, the counters are
+ * periodically recounted from the assets.
+ */
+@Injectable()
+export class QuotaService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(QuotaService.name);
+  private recountSubscription?: Subscription;
+
+  constructor(
+    @InjectModel(UserStorageUsage.name)
+    private userStorageUsageModel: Model<UserStorageUsage>,
+    @InjectModel(ImageAsset.name) private imageAssetModel: Model<ImageAsset>,
+    @InjectModel(VideoAsset.name) private videoAssetModel: Model<VideoAsset>,
+  ) {}
+
+  /**
+   * Start recounting when the module starts
+   */
+  onModuleInit(): void {
+    this.recountSubscription = startPolling(
+      config.quotas.recountIntervalMs,
+      () => this.recountDueUsage(),
+      this.logger,
+      'Storage usage recount',
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.recountSubscription?.unsubscribe();
+  }
+
+  /**
+   * Gets the storage usage of a user and the limits of their tier
+   */
+  async getQuota(userId: string): Promise<QuotaResponseDto> {
+    const usage = await this.getUsage(userId);
+    const tier = usage.tier ?? config.quotas.defaultTier;
+
+    return {
+      userId,
+      tier,
+      ...computeQuotaStatus(usage, this.getTier(tier)),
+      recountedAt: usage.recountedAt,
+    };
+  }
+
+  /**
+   * Rejects uploads that would exceed the quota of a user
+   * @param userId The user ID
+   * @param additional The bytes and assets the uploads will add
+   * @throws ForbiddenException if the uploads do not fit into the quota
+   */
+  async assertWithinQuota(
+    userId: string,
+    additional: StorageUsage,
+  ): Promise<void> {
+    const usage = await this.getUsage(userId);
+    const status = computeQuotaStatus(
+      usage,
+      this.getTier(usage.tier ?? config.quotas.defaultTier),
+    );
+
+    const violation = findQuotaViolation(status, additional);
+    if (violation) {
+      this.logger.warn(
+        `User ${userId} exceeds the storage quota: ${violation}`,
+      );
+      throw new ForbiddenException(violation);
+    }
+  }
+
+  /**
+   * Counts a stored asset
+   * @param session Session of the transaction that stores the asset
+   */
+  async recordAssetStored(
+    userId: string,
+    bytes: number,
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.adjustUsage(userId, { bytes, assets: 1 }, session);
+  }
+
+  /**
+   * Stops counting a deleted asset
+   * @param session Session of the transaction that deletes the asset
+   */
+  async recordAssetRemoved(
+    userId: string,
+    bytes: number,
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.adjustUsage(userId, { bytes: -bytes, assets: -1 }, session);
+  }
+
+  /**
+   * Counts bytes added to or removed from an asset that stays stored, e.g. regenerated renditions
+   * @param bytes The difference, negative if the asset shrank
+   */
+  async recordBytesChanged(userId: string, bytes: number): Promise<void> {
+    await this.adjustUsage(userId, { bytes, assets: 0 });
+  }
+
+  /**
+   * Assigns a quota tier to a user
+   */
+  async setTier(userId: string, tier: string): Promise<QuotaResponseDto> {
+    await this.userStorageUsageModel
+      .updateOne({ userId }, { $set: { tier } }, { upsert: true })
+      .exec();
+    this.logger.log(`Assigned quota tier ${tier} to user ${userId}`);
+    return this.getQuota(userId);
+  }
+
+  /**
+   * Recounts the usage of a user from their stored assets
+   */
+  async recountUser(userId: string): Promise<UserStorageUsage> {
+    // Bytes of a rendition: all formats it was encoded in, or its size if it is stored in one format
+    const renditionBytes = (size: string, formats: string) => {
+      const versions = { $objectToArray: { $ifNull: [formats, {}] } };
+      return {
+        $cond: [
+          { $gt: [{ $size: versions }, 0] },
+          {
+            $sum: {
+              $map: { input: versions, in: { $ifNull: ['$$this.v.size', 0] } },
+            },
+          },
+          { $ifNull: [size, 0] },
+        ],
+      };
+    };
+
+    const [images] = await this.imageAssetModel
+      .aggregate<StorageUsage>([
+        { $match: { userId, deletedAt: { $exists: false } } },
+        {
+          $group: {
+            _id: null,
+            assets: { $sum: 1 },
+            bytes: {
+              $sum: {
+                $add: [
+                  { $ifNull: ['$original.size', 0] },
+                  { $ifNull: ['$transformVariantsSize', 0] },
+                  renditionBytes('$fileSize', '$formats'),
+                  // Resized versions are stored as an object keyed by their suffix
+                  {
+                    $sum: {
+                      $map: {
+                        input: {
+                          $objectToArray: { $ifNull: ['$resizedVersions', {}] },
+                        },
+                        as: 'version',
+                        in: renditionBytes(
+                          '$$version.v.size',
+                          '$$version.v.formats',
+                        ),
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      ])
+      .exec();
+
+    const [videos] = await this.videoAssetModel
+      .aggregate<StorageUsage>([
+        {
+          $match: {
+            userId,
+            deletedAt: { $exists: false },
+            status: { $ne: 'errored' },
+          },
+        },
+        {
+          $group: {
+            _id: null,
+            assets: { $sum: 1 },
+            bytes: { $sum: { $ifNull: ['$fileSize', 0] } },
+          },
+        },
+      ])
+      .exec();
+
+    const usage = await this.userStorageUsageModel
+      .findOneAndUpdate(
+        { userId },
+        {
+          $set: {
+            bytes: (images?.bytes ?? 0) + (videos?.bytes ?? 0),
+            assets: (images?.assets ?? 0) + (videos?.assets ?? 0),
+            recountedAt: new Date(),
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .exec();
+
+    this.logger.log(
+      `Recounted storage usage of user ${userId}: ${usage.bytes} bytes in ${usage.assets} asset(s)`,
+    );
+    return usage;
+  }
+
+  /**
+   * Recounts the usage that was recounted least recently
+   * @returns Number of recounted users
+   */
+  private async recountDueUsage(): Promise<number> {
+    const due = await this.userStorageUsageModel
+      .find({
+        recountedAt: {
+          $lt: new Date(Date.now() - config.quotas.recountIntervalMs),
+        },
+      })
+      .select('userId')
+      .sort({ recountedAt: 1 })
+      .limit(config.quotas.recountBatchSize)
+      .exec();
+
+    // Usage that was only ever adjusted lacks the assets stored before it was created
+    const neverRecounted = await this.userStorageUsageModel
+      .find({ recountedAt: { $exists: false } })
+      .select('userId')
+      .limit(config.quotas.recountBatchSize)
+      .exec();
+
+    const userIds = new Set(
+      [...neverRecounted, ...due].map((usage) => usage.userId),
+    );
+    for (const userId of userIds) {
+      await this.recountUser(userId);
+    }
+    return userIds.size;
+  }
+
+  /**
+   * Gets the usage of a user, users without usage are counted on first access
+   */
+  private async getUsage(userId: string): Promise<UserStorageUsage> {
+    const usage = await this.userStorageUsageModel.findOne({ userId }).exec();
+    return usage && usage.recountedAt ? usage : this.recountUser(userId);
+  }
+
+  private async adjustUsage(
+    userId: string,
+    delta: StorageUsage,
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.userStorageUsageModel
+      .updateOne(
+        { userId },
+        { $inc: { bytes: delta.bytes, assets: delta.assets } },
+        { upsert: true, session },
+      )
+      .exec();
+  }
+
+  private getTier(tier: string): QuotaTier {
+    return (
+      config.quotas.tiers[tier] ??
+      config.quotas.tiers[config.quotas.defaultTier] ??
+      {}
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Bytes and assets a user stores across all upload profiles. The counters are updated whenever
+ * an asset is stored, deleted or restored and periodically recounted from the assets.
+ */
+@Schema({ timestamps: true })
+export class UserStorageUsage extends Document {
+  @Prop({ required: true })
+  userId: string;
+
+  // Quota tier, the default tier applies if not set
+  @Prop()
+  tier?: string;
+
+  @Prop({ default: 0 })
+  bytes: number;
+
+  @Prop({ default: 0 })
+  assets: number;
+
+  // When the counters were last recounted from the assets, never recounted usage is recounted first
+  @Prop()
+  recountedAt?: Date;
+}
+
+export const UserStorageUsageSchema =
+  SchemaFactory.createForClass(UserStorageUsage);
+
+// Indexes
+UserStorageUsageSchema.index({ userId: 1 }, { unique: true });
+UserStorageUsageSchema.index({ recountedAt: 1 });
@@ -0,0 +1,97 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import config from '../../../config';
+
+export const RATE_LIMITED_PROFILE_NAMES = [
+  ...config.media.uploadProfiles.map((profile) => profile.name),
+  ...config.videoProfiles.map((profile) => profile.name),
+];
+
+export class GrantRateLimitOverrideDto {
+  @ApiProperty({
+    description: 'The user the override is granted to',
+    example: 'user-123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+
+  @ApiProperty({
+    description: 'The upload profile whose rate limit is replaced',
+    enum: RATE_LIMITED_PROFILE_NAMES,
+    example: 'profile_picture',
+  })
+  @IsString()
+  @IsIn(RATE_LIMITED_PROFILE_NAMES)
+  profileName: string;
+
+  @ApiProperty({
+    description:
+      'Uploads allowed per period, required unless the user is exempt',
+    required: false,
+    example: 20,
+  })
+  @ValidateIf((dto: GrantRateLimitOverrideDto) => !dto.exempt)
+  @IsInt()
+  @Min(1)
+  maxUploads?: number;
+
+  @ApiProperty({
+    description:
+      'Length of the period in days, required unless the user is exempt',
+    required: false,
+    example: 30,
+  })
+  @ValidateIf((dto: GrantRateLimitOverrideDto) => !dto.exempt)
+  @IsInt()
+  @Min(1)
+  periodDays?: number;
+
+  @ApiProperty({
+    description: 'Lift the rate limit entirely',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  exempt?: boolean;
+
+  @ApiProperty({
+    description: 'When the override stops applying, never if not set',
+    required: false,
+    example: '2025-07-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expiresAt?: Date;
+
+  @ApiProperty({
+    description: 'Why the override was granted',
+    example: 'Photographer onboarding, ticket #4821',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiProperty({
+    description: 'Who granted the override',
+    example: 'support@example.com',
+  })
+  @IsString()
+  @IsNotEmpty()
+  grantedBy: string;
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class ListRateLimitOverridesDto {
+  @ApiProperty({ description: 'Only overrides of this user', required: false })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiProperty({
+    description: 'Only overrides of this upload profile',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  profileName?: string;
+
+  @ApiProperty({
+    description: 'Also list revoked and expired overrides',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeInactive?: boolean;
+}
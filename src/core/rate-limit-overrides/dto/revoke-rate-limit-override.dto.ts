@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RevokeRateLimitOverrideDto {
+  @ApiProperty({
+    description: 'Who revoked the override',
+    example: 'support@example.com',
+  })
+  @IsString()
+  @IsNotEmpty()
+  revokedBy: string;
+}
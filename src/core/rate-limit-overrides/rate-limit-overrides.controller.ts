@@ -0,0 +1,90 @@
+import { Controller, Get, Post, Param, Query, Body } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiNotFoundResponse,
+  ApiBody,
+} from '@nestjs/swagger';
+import { RateLimitOverridesService } from './rate-limit-overrides.service';
+import { GrantRateLimitOverrideDto } from './dto/grant-rate-limit-override.dto';
+import { ListRateLimitOverridesDto } from './dto/list-rate-limit-overrides.dto';
+import { RevokeRateLimitOverrideDto } from './dto/revoke-rate-limit-override.dto';
+import { RateLimitOverride } from './schemas/rate-limit-override.schema';
+
+@ApiTags('rate-limits')
+@Controller('v1/core/rate-limits')
+export class RateLimitOverridesController {
+  constructor(
+    private readonly rateLimitOverridesService: RateLimitOverridesService,
+  ) {}
+
+  @Post('overrides')
+  @ApiOperation({
+    summary: 'Grant a user a rate limit override',
+    description:
+      'Replaces the rate limit of an upload profile for one user, or lifts it when exempt. Revokes the active override of the user for the profile.',
+  })
+  @ApiBody({ type: GrantRateLimitOverrideDto })
+  @ApiResponse({ status: 201, description: 'Override granted' })
+  async grantOverride(
+    @Body() dto: GrantRateLimitOverrideDto,
+  ): Promise<RateLimitOverride> {
+    return this.rateLimitOverridesService.grant(dto);
+  }
+
+  @Get('overrides')
+  @ApiOperation({ summary: 'List rate limit overrides' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Active overrides, or all overrides when includeInactive is set, most recent first',
+  })
+  async listOverrides(
+    @Query() query: ListRateLimitOverridesDto,
+  ): Promise<RateLimitOverride[]> {
+    return this.rateLimitOverridesService.list(query);
+  }
+
+  @Post('overrides/:overrideId/revoke')
+  @ApiOperation({ summary: 'Revoke a rate limit override' })
+  @ApiParam({ name: 'overrideId', description: 'The override ID' })
+  @ApiBody({ type: RevokeRateLimitOverrideDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Override revoked, the configured rate limit applies again',
+  })
+  @ApiNotFoundResponse({ description: 'Override not found' })
+  async revokeOverride(
+    @Param('overrideId') overrideId: string,
+    @Body() dto: RevokeRateLimitOverrideDto,
+  ): Promise<RateLimitOverride> {
+    return this.rateLimitOverridesService.revoke(overrideId, dto.revokedBy);
+  }
+
+  @Post('users/:userId/reset')
+  @ApiOperation({
+    summary: 'Reset the upload stats of a user',
+    description:
+      'Forgets the uploads and reservations counted against the rate limits of the user, so they can upload again right away.',
+  })
+  @ApiParam({ name: 'userId', description: 'The user ID' })
+  @ApiQuery({
+    name: 'profileName',
+    required: false,
+    description: 'Only reset this upload profile',
+  })
+  @ApiResponse({ status: 201, description: 'Number of reset profiles' })
+  async resetUploadStats(
+    @Param('userId') userId: string,
+    @Query('profileName') profileName?: string,
+  ): Promise<{ userId: string; resetProfiles: number }> {
+    const resetProfiles = await this.rateLimitOverridesService.resetUploadStats(
+      userId,
+      profileName,
+    );
+    return { userId, resetProfiles };
+  }
+}
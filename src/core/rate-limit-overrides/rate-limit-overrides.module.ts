@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { RateLimitOverridesController } from './rate-limit-overrides.controller';
+import { RateLimitOverridesService } from './rate-limit-overrides.service';
+import {
+  RateLimitOverride,
+  RateLimitOverrideSchema,
+} from './schemas/rate-limit-override.schema';
+import {
+  UserUploadStats,
+  UserUploadStatsSchema,
+} from '../../backend-for-frontend/upload-claim/schemas/user-upload-stats.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: RateLimitOverride.name, schema: RateLimitOverrideSchema },
+      { name: UserUploadStats.name, schema: UserUploadStatsSchema },
+    ]),
+  ],
+  controllers: [RateLimitOverridesController],
+  providers: [RateLimitOverridesService],
+  exports: [RateLimitOverridesService],
+})
+export class RateLimitOverridesModule {}
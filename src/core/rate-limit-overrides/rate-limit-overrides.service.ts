@@ -0,0 +1,167 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, isValidObjectId } from 'mongoose';
+import { RateLimitOverride } from './schemas/rate-limit-override.schema';
+import { UserUploadStats } from '../../backend-for-frontend/upload-claim/schemas/user-upload-stats.schema';
+import { GrantRateLimitOverrideDto } from './dto/grant-rate-limit-override.dto';
+import { ListRateLimitOverridesDto } from './dto/list-rate-limit-overrides.dto';
+
+/**
+ * Lets support grant single users other rate limits than the ones configured for an upload profile.
+ * At most one override per user and profile is active, granting a new one revokes the previous.
+ */
+@Injectable()
+export class RateLimitOverridesService {
+  private readonly logger = new Logger(RateLimitOverridesService.name);
+
+  constructor(
+    @InjectModel(RateLimitOverride.name)
+    private rateLimitOverrideModel: Model<RateLimitOverride>,
+    @InjectModel(UserUploadStats.name)
+    private userUploadStatsModel: Model<UserUploadStats>,
+  ) {}
+
+  /**
+   * Grants an override, replacing the active override of the user for the profile
+   * @throws BadRequestException if the override would already be expired
+   */
+  async grant(dto: GrantRateLimitOverrideDto): Promise<RateLimitOverride> {
+    const now = new Date();
+    if (dto.expiresAt && dto.expiresAt <= now) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    await this.rateLimitOverrideModel
+      .updateMany(
+        {
+          userId: dto.userId,
+          profileName: dto.profileName,
+          ...this.activeFilter(now),
+        },
+        { $set: { revokedAt: now, revokedBy: dto.grantedBy } },
+      )
+      .exec();
+
+    const override = await this.rateLimitOverrideModel.create({
+      userId: dto.userId,
+      profileName: dto.profileName,
+      maxUploads: dto.exempt ? undefined : dto.maxUploads,
+      periodDays: dto.exempt ? undefined : dto.periodDays,
+      exempt: dto.exempt ?? false,
+      expiresAt: dto.expiresAt,
+      reason: dto.reason,
+      grantedBy: dto.grantedBy,
+    });
+
+    const limit = override.exempt
+      ? 'exempt'
+      : `${override.maxUploads} uploads per ${override.periodDays} day(s)`;
+    this.logger.log(
+      `${dto.grantedBy} granted user ${dto.userId} a rate limit override for ${dto.profileName} (${limit}): ${dto.reason}`,
+    );
+    return override;
+  }
+
+  /**
+   * Lists overrides, most recently granted first
+   */
+  async list(query: ListRateLimitOverridesDto): Promise<RateLimitOverride[]> {
+    const filter: FilterQuery<RateLimitOverride> = {
+      ...(query.userId ? { userId: query.userId } : {}),
+      ...(query.profileName ? { profileName: query.profileName } : {}),
+      ...(query.includeInactive ? {} : this.activeFilter(new Date())),
+    };
+
+    return this.rateLimitOverrideModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(500)
+      .exec();
+  }
+
+  /**
+   * Revokes an override, the configured rate limit applies again
+   * @throws NotFoundException if the override does not exist
+   */
+  async revoke(
+    overrideId: string,
+    revokedBy: string,
+  ): Promise<RateLimitOverride> {
+    if (!isValidObjectId(overrideId)) {
+      throw new NotFoundException(
+        `Rate limit override ${overrideId} not found`,
+      );
+    }
+
+    const override = await this.rateLimitOverrideModel
+      .findById(overrideId)
+      .exec();
+    if (!override) {
+      throw new NotFoundException(
+        `Rate limit override ${overrideId} not found`,
+      );
+    }
+    if (override.revokedAt) {
+      return override;
+    }
+
+    override.revokedAt = new Date();
+    override.revokedBy = revokedBy;
+    await override.save();
+
+    this.logger.log(
+      `${revokedBy} revoked rate limit override ${overrideId} of user ${override.userId} for ${override.profileName}`,
+    );
+    return override;
+  }
+
+  /**
+   * Gets the override that currently applies to a user and profile
+   */
+  async findActive(
+    userId: string,
+    profileName: string,
+  ): Promise<RateLimitOverride | null> {
+    return this.rateLimitOverrideModel
+      .findOne({ userId, profileName, ...this.activeFilter(new Date()) })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Forgets the uploads and reservations counted against the rate limits of a user
+   * @param profileName Only reset this profile, every profile if not set
+   * @returns Number of reset profiles
+   */
+  async resetUploadStats(
+    userId: string,
+    profileName?: string,
+  ): Promise<number> {
+    const result = await this.userUploadStatsModel
+      .updateMany(
+        { userId, ...(profileName ? { profileName } : {}) },
+        { $set: { uploadDates: [], slots: [] } },
+      )
+      .exec();
+
+    this.logger.log(
+      `Reset upload stats of user ${userId} for ${profileName ?? 'all profiles'} (${result.modifiedCount} profile(s))`,
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Matches overrides that are neither revoked nor expired
+   */
+  private activeFilter(now: Date): FilterQuery<RateLimitOverride> {
+    return {
+      revokedAt: { $exists: false },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: now } }],
+    };
+  }
+}
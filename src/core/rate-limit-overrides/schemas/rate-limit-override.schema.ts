@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Rate limit granted to a single user for an upload profile, replacing the configured one while it
+ * is active. Revoked and expired overrides are kept as a record of what support granted.
+ */
+@Schema({ timestamps: true })
+export class RateLimitOverride extends Document {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  profileName: string;
+
+  // Falls back to the profile's limit if not set
+  @Prop()
+  maxUploads?: number;
+
+  // Falls back to the profile's period if not set
+  @Prop()
+  periodDays?: number;
+
+  // Lifts the rate limit entirely
+  @Prop({ default: false })
+  exempt: boolean;
+
+  // The override no longer applies after this date, never expires if not set
+  @Prop()
+  expiresAt?: Date;
+
+  @Prop({ required: true })
+  reason: string;
+
+  @Prop({ required: true })
+  grantedBy: string;
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop()
+  revokedBy?: string;
+}
+
+export const RateLimitOverrideSchema =
+  SchemaFactory.createForClass(RateLimitOverride);
+
+// Indexes
+RateLimitOverrideSchema.index({ userId: 1, profileName: 1, revokedAt: 1 });
+RateLimitOverrideSchema.index({ createdAt: -1 });
@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import config from '../../../config';
+
+export class StartReconciliationDto {
+  @ApiProperty({
+    description:
+      'Only report orphans and dangling assets without deleting anything',
+    required: false,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiProperty({
+    description: 'Upload profiles to reconcile (default: all)',
+    required: false,
+    type: [String],
+    example: ['profile_picture'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsIn(config.media.uploadProfiles.map((profile) => profile.name), {
+    each: true,
+  })
+  profiles?: string[];
+
+  @ApiProperty({
+    description:
+      'Orphaned folders modified within this many hours are never deleted (default: reconciliation.gracePeriodHours)',
+    required: false,
+    example: 24,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  gracePeriodHours?: number;
+}
@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiNotFoundResponse,
+  ApiBody,
+} from '@nestjs/swagger';
+import { ReconciliationService } from './reconciliation.service';
+import { StartReconciliationDto } from './dto/start-reconciliation.dto';
+import { ReconciliationRun } from './schemas/reconciliation-run.schema';
+
+@ApiTags('reconciliation')
+@Controller('v1/core/reconciliation')
+export class ReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  @Post('runs')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Start a reconciliation run',
+    description:
+      'Diffs the S3 prefixes of the upload profiles against the image assets. Runs are dry runs unless dryRun is false, then orphaned folders older than the grace period are deleted. Poll the run for the report.',
+  })
+  @ApiBody({ type: StartReconciliationDto })
+  @ApiResponse({ status: 202, description: 'Run started' })
+  async startRun(
+    @Body() dto: StartReconciliationDto,
+  ): Promise<ReconciliationRun> {
+    return this.reconciliationService.startRun(dto);
+  }
+
+  @Get('runs')
+  @ApiOperation({
+    summary: 'List reconciliation runs',
+    description: 'Latest runs without their reports.',
+  })
+  @ApiResponse({ status: 200, description: 'Runs, newest first' })
+  async listRuns(): Promise<ReconciliationRun[]> {
+    return this.reconciliationService.listRuns();
+  }
+
+  @Get('runs/:runId')
+  @ApiOperation({ summary: 'Get a reconciliation run including its report' })
+  @ApiParam({ name: 'runId', description: 'The run ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The run and its per-profile reports',
+  })
+  @ApiNotFoundResponse({ description: 'Run not found' })
+  async getRun(@Param('runId') runId: string): Promise<ReconciliationRun> {
+    return this.reconciliationService.getRun(runId);
+  }
+}
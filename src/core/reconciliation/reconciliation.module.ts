@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ReconciliationController } from './reconciliation.controller';
+import { ReconciliationService } from './reconciliation.service';
+import {
+  ReconciliationRun,
+  ReconciliationRunSchema,
+} from './schemas/reconciliation-run.schema';
+import {
+  ImageAsset,
+  ImageAssetSchema,
+} from '../../shared/schemas/image-asset.schema';
+import { StorageModule } from '../../shared/storage/storage.module';
+import { OutboxModule } from '../outbox/outbox.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ReconciliationRun.name, schema: ReconciliationRunSchema },
+      { name: ImageAsset.name, schema: ImageAssetSchema },
+    ]),
+    StorageModule,
+    OutboxModule,
+  ],
+  controllers: [ReconciliationController],
+  providers: [ReconciliationService],
+})
+export class ReconciliationModule {}
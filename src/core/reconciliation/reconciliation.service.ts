@@ -0,0 +1,297 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Subscription } from 'rxjs';
+import config from '../../config';
+import { startPolling } from '../../shared/utils/polling.util';
+import { UploadProfile } from '../../config/types';
+import { ImageAsset } from '../../shared/schemas/image-asset.schema';
+import { ObjectStorageService } from '../../shared/storage/object-storage.service';
+import { diffStorage } from '../../shared/utils/reconciliation.util';
+import {
+  imageStorageKeys,
+  storageFolderOfKey,
+} from '../../shared/utils/storage-key.util';
+import { OutboxService, OutboxTask } from '../outbox/outbox.service';
+import { OutboxMessageKind } from '../outbox/schemas/outbox-message.schema';
+import { StartReconciliationDto } from './dto/start-reconciliation.dto';
+import {
+  OrphanFolderReport,
+  ProfileReconciliationReport,
+  ReconciliationRun,
+  ReconciliationRunStatus,
+  ReconciliationTrigger,
+} from './schemas/reconciliation-run.schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Finds S3 folders below the upload profile prefixes that no image asset points into (orphans, e.g. left behind
+ * by failed uploads or moderation rejections) and image assets pointing to objects that do not exist (dangling).
+ * Orphans older than the grace period are deleted through the outbox unless the run is a dry run.
+ */
+@Injectable()
+export class ReconciliationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private scheduleSubscription?: Subscription;
+
+  constructor(
+    private readonly objectStorageService: ObjectStorageService,
+    private readonly outboxService: OutboxService,
+    @InjectModel(ReconciliationRun.name)
+    private reconciliationRunModel: Model<ReconciliationRun>,
+    @InjectModel(ImageAsset.name) private imageAssetModel: Model<ImageAsset>,
+  ) {}
+
+  /**
+   * Start the scheduled runs if enabled
+   */
+  onModuleInit(): void {
+    if (!config.reconciliation.scheduleEnabled) {
+      return;
+    }
+
+    this.scheduleSubscription = startPolling(
+      config.reconciliation.intervalMs,
+      () => this.runScheduled(),
+      this.logger,
+      'Scheduled reconciliation',
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.scheduleSubscription?.unsubscribe();
+  }
+
+  /**
+   * Starts a reconciliation run in the background
+   * @returns The run, poll it for the report
+   */
+  async startRun(dto: StartReconciliationDto): Promise<ReconciliationRun> {
+    const run = await this.createRun(
+      ReconciliationTrigger.MANUAL,
+      dto.dryRun ?? true,
+      dto.gracePeriodHours ?? config.reconciliation.gracePeriodHours,
+      dto.profiles,
+    );
+
+    // Listing the bucket can take a while, do not block the request on it
+    void this.executeRun(run);
+    return run;
+  }
+
+  async listRuns(limit = 20): Promise<ReconciliationRun[]> {
+    // Reports can be large, the list only contains the run metadata
+    return this.reconciliationRunModel
+      .find()
+      .select('-reports')
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  async getRun(runId: string): Promise<ReconciliationRun> {
+    const run = await this.reconciliationRunModel.findById(runId).exec();
+    if (!run) {
+      throw new NotFoundException(`Reconciliation run ${runId} not found`);
+    }
+    return run;
+  }
+
+  /**
+   * Starts a scheduled run unless another replica started one during this interval already
+   */
+  private async runScheduled(): Promise<void> {
+    const recentRun = await this.reconciliationRunModel.exists({
+      trigger: ReconciliationTrigger.SCHEDULED,
+      createdAt: {
+        $gte: new Date(Date.now() - config.reconciliation.intervalMs / 2),
+      },
+    });
+    if (recentRun) {
+      return;
+    }
+
+    const run = await this.createRun(
+      ReconciliationTrigger.SCHEDULED,
+      !config.reconciliation.deleteOrphans,
+      config.reconciliation.gracePeriodHours,
+    );
+    await this.executeRun(run);
+  }
+
+  private async createRun(
+    trigger: ReconciliationTrigger,
+    dryRun: boolean,
+    gracePeriodHours: number,
+    profileNames?: string[],
+  ): Promise<ReconciliationRun> {
+    const profiles = profileNames?.length
+      ? config.media.uploadProfiles.filter((profile) =>
+          profileNames.includes(profile.name),
+        )
+      : config.media.uploadProfiles;
+
+    const run = await this.reconciliationRunModel.create({
+      trigger,
+      dryRun,
+      gracePeriodHours,
+      profileNames: profiles.map((profile) => profile.name),
+    });
+
+    this.logger.log(
+      `Starting ${trigger} reconciliation run ${run._id.toString()} (dryRun=${dryRun}) for profiles: ${run.profileNames.join(', ')}`,
+    );
+    return run;
+  }
+
+  /**
+   * Reconciles every profile of the run and stores the reports. Never rejects.
+   */
+  private async executeRun(run: ReconciliationRun): Promise<void> {
+    const profiles = config.media.uploadProfiles.filter((profile) =>
+      run.profileNames.includes(profile.name),
+    );
+
+    try {
+      const reports: ProfileReconciliationReport[] = [];
+      for (const profile of profiles) {
+        reports.push(
+          await this.reconcileProfile(
+            profile,
+            run.dryRun,
+            run.gracePeriodHours,
+          ),
+        );
+      }
+
+      await this.reconciliationRunModel
+        .updateOne(
+          { _id: run._id },
+          {
+            status: ReconciliationRunStatus.COMPLETED,
+            completedAt: new Date(),
+            reports,
+          },
+        )
+        .exec();
+
+      const orphans = reports.reduce(
+        (sum, report) => sum + report.orphanCount,
+        0,
+      );
+      const dangling = reports.reduce(
+        (sum, report) => sum + report.danglingCount,
+        0,
+      );
+      this.logger.log(
+        `Reconciliation run ${run._id.toString()} completed: ${orphans} orphaned folder(s), ${dangling} dangling asset(s)`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Reconciliation run ${run._id.toString()} failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+      await this.reconciliationRunModel
+        .updateOne(
+          { _id: run._id },
+          {
+            status: ReconciliationRunStatus.FAILED,
+            completedAt: new Date(),
+            error: (error as Error).message,
+          },
+        )
+        .exec()
+        .catch((updateError: Error) => {
+          this.logger.error(
+            `Failed to record the failure of reconciliation run ${run._id.toString()}: ${updateError.message}`,
+          );
+        });
+    }
+  }
+
+  private async reconcileProfile(
+    profile: UploadProfile,
+    dryRun: boolean,
+    gracePeriodHours: number,
+  ): Promise<ProfileReconciliationReport> {
+    const { prefix } = profile.s3;
+    const { maxReportedItems } = config.reconciliation;
+
+    const objects = await this.objectStorageService.listObjects(prefix);
+
+    // Profiles can share or nest prefixes, so every asset stored below this prefix counts as a reference.
+    // Soft-deleted assets keep their files until they are purged.
+    const profileNames = config.media.uploadProfiles
+      .filter(
+        (other) =>
+          other.s3.prefix.startsWith(prefix) ||
+          prefix.startsWith(other.s3.prefix),
+      )
+      .map((other) => other.name);
+    const assets = await this.imageAssetModel
+      .find({
+        profileName: { $in: profileNames },
+        purgedAt: { $exists: false },
+      })
+      .select('storageUrl storageKey formats original resizedVersions')
+      .lean()
+      .exec();
+
+    const diff = diffStorage(
+      prefix,
+      objects,
+      assets.map((asset) => ({
+        assetId: `image-${asset._id.toString()}`,
+        keys: imageStorageKeys(asset),
+      })),
+    );
+
+    const cutoff = new Date(Date.now() - gracePeriodHours * HOUR_MS);
+    const orphanFolders: OrphanFolderReport[] = diff.orphanFolders.map(
+      (folder) => ({
+        ...folder,
+        deletionQueued: !dryRun && folder.lastModified < cutoff,
+      }),
+    );
+
+    const tasks: OutboxTask[] = orphanFolders
+      .filter((folder) => folder.deletionQueued)
+      .map((folder) => ({
+        kind: OutboxMessageKind.S3_CLEANUP,
+        payload: { folderPath: folder.folder },
+      }));
+    if (tasks.length) {
+      this.logger.log(
+        `Deleting ${tasks.length} orphaned folder(s) below ${prefix}`,
+      );
+      await this.outboxService.processNow(
+        await this.outboxService.enqueueTasks(tasks),
+      );
+    }
+
+    return {
+      profileName: profile.name,
+      prefix,
+      scannedObjects: objects.length,
+      scannedFolders: new Set(
+        objects.map((object) => storageFolderOfKey(object.key)),
+      ).size,
+      orphanCount: orphanFolders.length,
+      orphanSize: orphanFolders.reduce(
+        (sum, folder) => sum + folder.totalSize,
+        0,
+      ),
+      deletionQueuedCount: tasks.length,
+      danglingCount: diff.danglingAssets.length,
+      orphanFolders: orphanFolders.slice(0, maxReportedItems),
+      danglingAssets: diff.danglingAssets.slice(0, maxReportedItems),
+    };
+  }
+}
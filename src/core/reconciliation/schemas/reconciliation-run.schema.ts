@@ -0,0 +1,82 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import {
+  DanglingAsset,
+  StorageFolderSummary,
+} from '../../../shared/utils/reconciliation.util';
+
+export enum ReconciliationRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export enum ReconciliationTrigger {
+  MANUAL = 'manual',
+  SCHEDULED = 'scheduled',
+}
+
+export interface OrphanFolderReport extends StorageFolderSummary {
+  deletionQueued: boolean; // False for dry runs and folders inside the grace period
+}
+
+/**
+ * Result of diffing the S3 prefix of one upload profile against the image assets
+ */
+export interface ProfileReconciliationReport {
+  profileName: string;
+  prefix: string;
+  scannedObjects: number;
+  scannedFolders: number;
+  orphanCount: number;
+  orphanSize: number; // Bytes stored in orphaned folders
+  deletionQueuedCount: number;
+  danglingCount: number;
+  orphanFolders: OrphanFolderReport[]; // Limited to reconciliation.maxReportedItems
+  danglingAssets: DanglingAsset[]; // Limited to reconciliation.maxReportedItems
+}
+
+@Schema({ timestamps: true })
+export class ReconciliationRun extends Document {
+  @Prop({ required: true, enum: ReconciliationTrigger })
+  trigger: ReconciliationTrigger;
+
+  // Dry runs only report, orphans are never deleted
+  @Prop({ required: true })
+  dryRun: boolean;
+
+  @Prop({ required: true })
+  gracePeriodHours: number;
+
+  @Prop({ type: [String], required: true })
+  profileNames: string[];
+
+  @Prop({
+    required: true,
+    enum: ReconciliationRunStatus,
+    default: ReconciliationRunStatus.RUNNING,
+  })
+  status: ReconciliationRunStatus;
+
+  @Prop({ type: [MongooseSchema.Types.Mixed], default: [] })
+  reports: ProfileReconciliationReport[];
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  error?: string;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const ReconciliationRunSchema =
+  SchemaFactory.createForClass(ReconciliationRun);
+
+// Indexes
+ReconciliationRunSchema.index({ createdAt: -1 });
+ReconciliationRunSchema.index({ trigger: 1, createdAt: -1 });
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsIn, IsOptional, IsString } from 'class-validator';
+import config from '../../../config';
+
+export class StartRenditionBackfillDto {
+  @ApiProperty({
+    description: 'Upload profile whose images are re-processed',
+    example: 'profile_picture',
+  })
+  @IsString()
+  @IsIn(
+    config.media.uploadProfiles
+      .filter((profile) => profile.constraints.resolutions?.length)
+      .map((profile) => profile.name),
+  )
+  profileName: string;
+
+  @ApiProperty({
+    description:
+      'Regenerate every resolution, including those already matching the profile',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+}
@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiBody,
+} from '@nestjs/swagger';
+import { RenditionBackfillService } from './rendition-backfill.service';
+import { StartRenditionBackfillDto } from './dto/start-rendition-backfill.dto';
+import { RenditionBackfillJob } from './schemas/rendition-backfill-job.schema';
+
+@ApiTags('rendition-backfill')
+@Controller('v1/core/rendition-backfills')
+export class RenditionBackfillController {
+  constructor(
+    private readonly renditionBackfillService: RenditionBackfillService,
+  ) {}
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Start a rendition backfill',
+    description:
+      'Regenerates the resized versions of every image of the profile that are missing or were stored with other dimensions or formats than the profile declares. Returns the active job instead if one is already queued or running for the profile. Poll the job for its progress.',
+  })
+  @ApiBody({ type: StartRenditionBackfillDto })
+  @ApiResponse({ status: 202, description: 'Job queued' })
+  async startJob(
+    @Body() dto: StartRenditionBackfillDto,
+  ): Promise<RenditionBackfillJob> {
+    return this.renditionBackfillService.startJob(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List rendition backfill jobs' })
+  @ApiResponse({ status: 200, description: 'Jobs, newest first' })
+  async listJobs(): Promise<RenditionBackfillJob[]> {
+    return this.renditionBackfillService.listJobs();
+  }
+
+  @Get(':jobId')
+  @ApiOperation({ summary: 'Get the progress of a rendition backfill job' })
+  @ApiParam({ name: 'jobId', description: 'The job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The job, its cursor, counters and failed assets',
+  })
+  @ApiNotFoundResponse({ description: 'Job not found' })
+  async getJob(@Param('jobId') jobId: string): Promise<RenditionBackfillJob> {
+    return this.renditionBackfillService.getJob(jobId);
+  }
+
+  @Post(':jobId/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a rendition backfill job',
+    description:
+      'The job stops after the asset currently being processed and can be resumed later.',
+  })
+  @ApiParam({ name: 'jobId', description: 'The job ID' })
+  @ApiResponse({ status: 200, description: 'Job cancelled' })
+  @ApiNotFoundResponse({ description: 'Job not found' })
+  @ApiConflictResponse({ description: 'Job already ended' })
+  async cancelJob(
+    @Param('jobId') jobId: string,
+  ): Promise<RenditionBackfillJob> {
+    return this.renditionBackfillService.cancelJob(jobId);
+  }
+
+  @Post(':jobId/resume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Resume a failed or cancelled rendition backfill job',
+    description: 'Continues after the last processed asset.',
+  })
+  @ApiParam({ name: 'jobId', description: 'The job ID' })
+  @ApiResponse({ status: 202, description: 'Job queued again' })
+  @ApiNotFoundResponse({ description: 'Job not found' })
+  @ApiConflictResponse({
+    description:
+      'Job neither failed nor was cancelled, or another job is active for the profile',
+  })
+  async resumeJob(
+    @Param('jobId') jobId: string,
+  ): Promise<RenditionBackfillJob> {
+    return this.renditionBackfillService.resumeJob(jobId);
+  }
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { S3Module } from '@gpe/backend-common/dist/aws/s3';
+import { RenditionBackfillController } from './rendition-backfill.controller';
+import { RenditionBackfillService } from './rendition-backfill.service';
+import {
+  RenditionBackfillJob,
+  RenditionBackfillJobSchema,
+} from './schemas/rendition-backfill-job.schema';
+import {
+  ImageAsset,
+  ImageAssetSchema,
+} from '../../shared/schemas/image-asset.schema';
+import { StorageModule } from '../../shared/storage/storage.module';
+import { ImageUploadModule } from '../../backend-for-frontend/image-upload/image-upload.module';
+import { QuotaModule } from '../quota/quota.module';
+import config from '../../config';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: RenditionBackfillJob.name, schema: RenditionBackfillJobSchema },
+      { name: ImageAsset.name, schema: ImageAssetSchema },
+    ]),
+    S3Module.register({
+      bucket: config.aws.services.s3.bucket,
+      urlPrefix: config.aws.services.s3.urlPrefix,
+      region: config.aws.services.s3.region,
+    }),
+    StorageModule,
+    ImageUploadModule,
+    QuotaModule,
+  ],
+  controllers: [RenditionBackfillController],
+  providers: [RenditionBackfillService],
+})
+export class RenditionBackfillModule {}
@@ -0,0 +1,580 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, isValidObjectId } from 'mongoose';
+import { Subscription, firstValueFrom, timer } from 'rxjs';
+import { S3AccessLevel, S3Service } from '@gpe/backend-common/dist/aws/s3';
+import config from '../../config';
+import { startPolling } from '../../shared/utils/polling.util';
+import { UploadProfile } from '../../config/types';
+import { ResolutionOption } from '../../shared/interfaces/image-options.interface';
+import {
+  ImageAsset,
+  ImageFormatVersion,
+} from '../../shared/schemas/image-asset.schema';
+import { ObjectStorageService } from '../../shared/storage/object-storage.service';
+import {
+  IMAGE_FORMAT_MIME_TYPES,
+  renditionFileName,
+  resolveImageFormats,
+} from '../../shared/utils/image-format.util';
+import { findStaleResolutions } from '../../shared/utils/rendition.util';
+import {
+  storageFolderOfKey,
+  storageKeyFromUrl,
+} from '../../shared/utils/storage-key.util';
+import { imageStoredBytes } from '../../shared/utils/storage-quota.util';
+import { ImageProcessorService } from '../../backend-for-frontend/image-upload/services/image-processor.service';
+import { QuotaService } from '../quota/quota.service';
+import { StartRenditionBackfillDto } from './dto/start-rendition-backfill.dto';
+import {
+  RenditionBackfillJob,
+  RenditionBackfillStatus,
+} from './schemas/rendition-backfill-job.schema';
+
+type ResizedVersion = NonNullable<
+  NonNullable<ImageAsset['resizedVersions']>[string]
+>;
+
+type AssetOutcome = 'updatedAssets' | 'skippedAssets' | 'failedAssets';
+
+const ACTIVE_STATUSES = [
+  RenditionBackfillStatus.PENDING,
+  RenditionBackfillStatus.RUNNING,
+];
+
+/**
+ * Regenerates resized versions of existing images after the resolutions or output formats of their upload
+ * profile changed. Jobs are processed in batches by whichever replica leases them first, the cursor is
+ * saved after every asset so interrupted jobs resume where they stopped.
+ */
+@Injectable()
+export class RenditionBackfillService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RenditionBackfillService.name);
+  private workerSubscription?: Subscription;
+
+  constructor(
+    private readonly awsS3Service: S3Service,
+    private readonly objectStorageService: ObjectStorageService,
+    private readonly imageProcessorService: ImageProcessorService,
+    private readonly quotaService: QuotaService,
+    @InjectModel(RenditionBackfillJob.name)
+    private renditionBackfillJobModel: Model<RenditionBackfillJob>,
+    @InjectModel(ImageAsset.name) private imageAssetModel: Model<ImageAsset>,
+  ) {}
+
+  /**
+   * Start picking up jobs when the module starts
+   */
+  onModuleInit(): void {
+    this.workerSubscription = startPolling(
+      config.renditionBackfill.pollIntervalMs,
+      () => this.processNextBatch(),
+      this.logger,
+      'Rendition backfill batch',
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.workerSubscription?.unsubscribe();
+  }
+
+  /**
+   * Queues a backfill job for an upload profile
+   * @returns The new job, or the job already queued or running for the profile
+   */
+  async startJob(
+    dto: StartRenditionBackfillDto,
+  ): Promise<RenditionBackfillJob> {
+    const active = await this.renditionBackfillJobModel
+      .findOne({
+        profileName: dto.profileName,
+        status: { $in: ACTIVE_STATUSES },
+      })
+      .exec();
+    if (active) {
+      return active;
+    }
+
+    let job: RenditionBackfillJob;
+    try {
+      job = await this.renditionBackfillJobModel.create({
+        profileName: dto.profileName,
+        force: dto.force ?? false,
+      });
+    } catch (error) {
+      // Unique index on the active job of a profile - another request queued one meanwhile
+      if ((error as { code?: number }).code === 11000) {
+        const queued = await this.renditionBackfillJobModel
+          .findOne({
+            profileName: dto.profileName,
+            status: { $in: ACTIVE_STATUSES },
+          })
+          .exec();
+        if (queued) {
+          return queued;
+        }
+      }
+      throw error;
+    }
+    this.logger.log(
+      `Queued rendition backfill job ${job._id.toString()} for profile ${dto.profileName} (force=${job.force})`,
+    );
+    return job;
+  }
+
+  async listJobs(limit = 20): Promise<RenditionBackfillJob[]> {
+    return this.renditionBackfillJobModel
+      .find()
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  async getJob(jobId: string): Promise<RenditionBackfillJob> {
+    const job = isValidObjectId(jobId)
+      ? await this.renditionBackfillJobModel.findById(jobId).exec()
+      : null;
+    if (!job) {
+      throw new NotFoundException(`Rendition backfill job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Stops a job after the asset currently being processed
+   * @throws ConflictException if the job already ended
+   */
+  async cancelJob(jobId: string): Promise<RenditionBackfillJob> {
+    if (!isValidObjectId(jobId)) {
+      throw new NotFoundException(`Rendition backfill job ${jobId} not found`);
+    }
+    const job = await this.renditionBackfillJobModel
+      .findOneAndUpdate(
+        { _id: jobId, status: { $in: ACTIVE_STATUSES } },
+        {
+          $set: {
+            status: RenditionBackfillStatus.CANCELLED,
+            completedAt: new Date(),
+          },
+          $unset: { leaseUntil: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!job) {
+      // Not found takes precedence
+      const ended = await this.getJob(jobId);
+      throw new ConflictException(
+        `Rendition backfill job ${jobId} already ${ended.status}`,
+      );
+    }
+
+    this.logger.log(
+      `Cancelled rendition backfill job ${jobId} at cursor ${job.cursor ?? '(start)'}`,
+    );
+    return job;
+  }
+
+  /**
+   * Continues a failed or cancelled job from its cursor
+   * @throws ConflictException if the job did not fail and was not cancelled, or another job runs for the profile
+   */
+  async resumeJob(jobId: string): Promise<RenditionBackfillJob> {
+    const job = await this.getJob(jobId);
+    if (
+      ![
+        RenditionBackfillStatus.FAILED,
+        RenditionBackfillStatus.CANCELLED,
+      ].includes(job.status)
+    ) {
+      throw new ConflictException(
+        `Rendition backfill job ${jobId} is ${job.status}, only failed or cancelled jobs can be resumed`,
+      );
+    }
+    if (
+      await this.renditionBackfillJobModel.exists({
+        profileName: job.profileName,
+        status: { $in: ACTIVE_STATUSES },
+      })
+    ) {
+      throw new ConflictException(
+        `Another rendition backfill job is active for profile ${job.profileName}`,
+      );
+    }
+
+    let resumed: RenditionBackfillJob | null;
+    try {
+      resumed = await this.renditionBackfillJobModel
+        .findOneAndUpdate(
+          { _id: jobId, status: job.status },
+          {
+            $set: { status: RenditionBackfillStatus.PENDING },
+            $unset: { completedAt: 1, error: 1 },
+          },
+          { new: true },
+        )
+        .exec();
+    } catch (error) {
+      // Unique index on the active job of a profile - a job was started meanwhile
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException(
+          `Another rendition backfill job is active for profile ${job.profileName}`,
+        );
+      }
+      throw error;
+    }
+    if (!resumed) {
+      throw new ConflictException(
+        `Rendition backfill job ${jobId} changed while resuming it`,
+      );
+    }
+
+    this.logger.log(
+      `Resuming rendition backfill job ${jobId} from cursor ${resumed.cursor ?? '(start)'}`,
+    );
+    return resumed;
+  }
+
+  /**
+   * Leases the oldest active job and processes its next batch of assets
+   * @returns Number of processed assets
+   */
+  private async processNextBatch(): Promise<number> {
+    const now = new Date();
+    const job = await this.renditionBackfillJobModel
+      .findOneAndUpdate(
+        {
+          status: { $in: ACTIVE_STATUSES },
+          $or: [
+            { leaseUntil: { $exists: false } },
+            { leaseUntil: { $lte: now } },
+          ],
+        },
+        {
+          $set: {
+            status: RenditionBackfillStatus.RUNNING,
+            leaseUntil: this.leaseUntil(),
+          },
+        },
+        { sort: { createdAt: 1 }, new: true },
+      )
+      .exec();
+    if (!job) {
+      return 0;
+    }
+
+    const profile = config.media.uploadProfiles.find(
+      (p) => p.name === job.profileName,
+    );
+    if (!profile?.constraints.resolutions?.length) {
+      await this.endJob(
+        job,
+        RenditionBackfillStatus.FAILED,
+        `Upload profile ${job.profileName} has no resolutions`,
+      );
+      return 0;
+    }
+
+    const filter = {
+      profileName: job.profileName,
+      // Deleted assets are not counted towards quotas and their files are purged anyway
+      deletedAt: { $exists: false },
+      ...(job.cursor ? { _id: { $gt: new Types.ObjectId(job.cursor) } } : {}),
+    };
+
+    if (!job.startedAt) {
+      const totalAssets = await this.imageAssetModel
+        .countDocuments(filter)
+        .exec();
+      await this.renditionBackfillJobModel
+        .updateOne({ _id: job._id }, { $set: { startedAt: now, totalAssets } })
+        .exec();
+      this.logger.log(
+        `Started rendition backfill job ${job._id.toString()} for ${totalAssets} asset(s) of profile ${job.profileName}`,
+      );
+    }
+
+    const assets = await this.imageAssetModel
+      .find(filter)
+      .sort({ _id: 1 })
+      .limit(config.renditionBackfill.batchSize)
+      .exec();
+    if (!assets.length) {
+      await this.endJob(job, RenditionBackfillStatus.COMPLETED);
+      return 0;
+    }
+
+    let processed = 0;
+    for (const asset of assets) {
+      let outcome: AssetOutcome;
+      let error: string | undefined;
+      try {
+        outcome = (await this.backfillAsset(asset, profile, job.force))
+          ? 'updatedAssets'
+          : 'skippedAssets';
+      } catch (err) {
+        this.logger.error(
+          `Failed to backfill renditions of image ${asset._id.toString()}: ${(err as Error).message}`,
+          (err as Error).stack,
+        );
+        outcome = 'failedAssets';
+        error = (err as Error).message;
+      }
+      processed++;
+
+      if (
+        !(await this.recordProgress(job, asset._id.toString(), outcome, error))
+      ) {
+        this.logger.log(
+          `Rendition backfill job ${job._id.toString()} was cancelled, stopping`,
+        );
+        return processed;
+      }
+      await firstValueFrom(timer(config.renditionBackfill.throttleMs));
+    }
+
+    // Let the next tick (on any replica) continue with the next batch
+    await this.renditionBackfillJobModel
+      .updateOne(
+        { _id: job._id, status: RenditionBackfillStatus.RUNNING },
+        { $unset: { leaseUntil: 1 } },
+      )
+      .exec();
+    return processed;
+  }
+
+  /**
+   * Regenerates the resized versions of an image that are missing or do not match its profile
+   * @param force Regenerate every resolution of the profile
+   * @returns Whether any resized version was regenerated
+   */
+  private async backfillAsset(
+    asset: ImageAsset,
+    profile: UploadProfile,
+    force: boolean,
+  ): Promise<boolean> {
+    const resolutions = profile.constraints.resolutions ?? [];
+    const stale = force
+      ? resolutions
+      : findStaleResolutions(
+          asset.resizedVersions,
+          resolutions,
+          profile.constraints.outputFormats,
+        );
+    if (!stale.length) {
+      return false;
+    }
+
+    // Images uploaded before the sanitized original was kept are resized from their main image
+    const mainKey = asset.storageUrl
+      ? storageKeyFromUrl(asset.storageUrl)
+      : asset.storageKey!;
+    const source = await this.objectStorageService.getObjectBuffer(
+      asset.original?.storageKey ?? mainKey,
+    );
+    const folderPath = storageFolderOfKey(mainKey);
+
+    const versions: Record<string, ResizedVersion> = {};
+    for (const resolution of stale) {
+      versions[resolution.suffix] = await this.renderResolution(
+        source,
+        folderPath,
+        {
+          ...resolution,
+          formats: resolveImageFormats(
+            resolution.formats,
+            profile.constraints.outputFormats,
+          ),
+          // Cut from the same region as the other renditions
+          crop: asset.original ? asset.crop : undefined,
+        },
+      );
+    }
+
+    const previous = Object.fromEntries(
+      stale.map((resolution) => [
+        resolution.suffix,
+        asset.resizedVersions?.[resolution.suffix],
+      ]),
+    );
+    const updated = await this.imageAssetModel
+      .updateOne(
+        { _id: asset._id, deletedAt: { $exists: false } },
+        {
+          $set: Object.fromEntries(
+            Object.entries(versions).map(([suffix, version]) => [
+              `resizedVersions.${suffix}`,
+              version,
+            ]),
+          ),
+        },
+      )
+      .exec();
+    if (!updated.matchedCount) {
+      // Deleted meanwhile, the new files are purged together with the asset folder
+      return false;
+    }
+
+    await this.quotaService.recordBytesChanged(
+      asset.userId,
+      imageStoredBytes({ resizedVersions: versions }) -
+        imageStoredBytes({ resizedVersions: previous }),
+    );
+    await this.deleteReplacedFiles(previous, versions);
+
+    this.logger.log(
+      `Regenerated ${stale.map((resolution) => resolution.suffix).join(', ')} of image ${asset._id.toString()}`,
+    );
+    return true;
+  }
+
+  /**
+   * Resizes the source to one resolution and uploads it in all its formats
+   */
+  private async renderResolution(
+    source: Buffer,
+    folderPath: string,
+    resolution: ResolutionOption,
+  ): Promise<ResizedVersion> {
+    const encodings = await firstValueFrom(
+      this.imageProcessorService.processImageAtResolution(source, resolution),
+    );
+
+    const formats: Record<string, ImageFormatVersion> = {};
+    for (const { format, buffer } of encodings) {
+      const path = `${folderPath}${renditionFileName(resolution.suffix, format)}`;
+      const url: string = await firstValueFrom(
+        this.awsS3Service.uploadFile(
+          path,
+          buffer,
+          IMAGE_FORMAT_MIME_TYPES[format],
+          {
+            acl: S3AccessLevel.PUBLIC_READ,
+          },
+        ),
+      );
+      formats[format] = {
+        url,
+        storageKey: storageKeyFromUrl(url),
+        size: buffer.length,
+      };
+    }
+
+    const primary = formats[encodings[0].format];
+    return {
+      url: primary.url,
+      width: resolution.width,
+      height: resolution.height,
+      storageKey: primary.storageKey,
+      size: primary.size,
+      formats,
+    };
+  }
+
+  /**
+   * Deletes files of the previous resized versions that were not overwritten, e.g. formats the profile dropped
+   */
+  private async deleteReplacedFiles(
+    previous: Record<string, ResizedVersion | undefined>,
+    versions: Record<string, ResizedVersion>,
+  ): Promise<void> {
+    const keysOf = (version?: ResizedVersion) =>
+      version
+        ? [
+            version.storageKey,
+            ...Object.values(version.formats ?? {}).map(
+              (format) => format.storageKey,
+            ),
+          ]
+        : [];
+    const kept = new Set(Object.values(versions).flatMap(keysOf));
+    const replaced = new Set(
+      Object.values(previous)
+        .flatMap(keysOf)
+        .filter((key) => key && !kept.has(key)),
+    );
+
+    for (const key of replaced) {
+      try {
+        await this.objectStorageService.deleteObject(key);
+      } catch (error) {
+        // Left for the reconciliation to report
+        this.logger.warn(
+          `Failed to delete replaced rendition ${key}: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Advances the cursor past an asset and renews the lease
+   * @returns False if the job is no longer running, e.g. because it was cancelled
+   */
+  private async recordProgress(
+    job: RenditionBackfillJob,
+    assetId: string,
+    outcome: AssetOutcome,
+    error?: string,
+  ): Promise<boolean> {
+    const result = await this.renditionBackfillJobModel
+      .updateOne(
+        { _id: job._id, status: RenditionBackfillStatus.RUNNING },
+        {
+          $set: { cursor: assetId, leaseUntil: this.leaseUntil() },
+          $inc: { processedAssets: 1, [outcome]: 1 },
+          ...(error
+            ? {
+                $push: {
+                  failures: {
+                    $each: [{ assetId, error }],
+                    $slice: config.renditionBackfill.maxReportedFailures,
+                  },
+                },
+              }
+            : {}),
+        },
+      )
+      .exec();
+    return result.matchedCount > 0;
+  }
+
+  private async endJob(
+    job: RenditionBackfillJob,
+    status: RenditionBackfillStatus,
+    error?: string,
+  ): Promise<void> {
+    await this.renditionBackfillJobModel
+      .updateOne(
+        { _id: job._id, status: RenditionBackfillStatus.RUNNING },
+        {
+          $set: {
+            status,
+            completedAt: new Date(),
+            ...(error ? { error } : {}),
+          },
+          $unset: { leaseUntil: 1 },
+        },
+      )
+      .exec();
+
+    const message = `Rendition backfill job ${job._id.toString()} for profile ${job.profileName} ${status}`;
+    if (error) {
+      this.logger.error(`${message}: ${error}`);
+    } else {
+      this.logger.log(
+        `${message}: ${job.updatedAssets} updated, ${job.skippedAssets} skipped, ${job.failedAssets} failed`,
+      );
+    }
+  }
+
+  private leaseUntil(): Date {
+    return new Date(Date.now() + config.renditionBackfill.leaseMs);
+  }
+}
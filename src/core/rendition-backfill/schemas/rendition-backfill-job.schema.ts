@@ -0,0 +1,96 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export enum RenditionBackfillStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface RenditionBackfillFailure {
+  assetId: string;
+  error: string;
+}
+
+/**
+ * Regenerates the resized versions of every image of an upload profile that are missing or were stored
+ * with other dimensions or formats than the profile declares now. Assets are processed in _id order,
+ * the cursor allows interrupted jobs to resume where they stopped.
+ */
+@Schema({ timestamps: true })
+export class RenditionBackfillJob extends Document {
+  @Prop({ required: true })
+  profileName: string;
+
+  // Regenerate every resolution, even those that match the profile
+  @Prop({ default: false })
+  force: boolean;
+
+  @Prop({
+    required: true,
+    enum: RenditionBackfillStatus,
+    default: RenditionBackfillStatus.PENDING,
+  })
+  status: RenditionBackfillStatus;
+
+  @Prop()
+  cursor?: string; // ID of the last processed asset
+
+  @Prop({ default: 0 })
+  totalAssets: number; // Assets of the profile when the job started
+
+  @Prop({ default: 0 })
+  processedAssets: number;
+
+  @Prop({ default: 0 })
+  updatedAssets: number;
+
+  @Prop({ default: 0 })
+  skippedAssets: number; // Assets whose resized versions were already up to date
+
+  @Prop({ default: 0 })
+  failedAssets: number;
+
+  @Prop({ type: [MongooseSchema.Types.Mixed], default: [] })
+  failures: RenditionBackfillFailure[]; // Limited to renditionBackfill.maxReportedFailures
+
+  @Prop()
+  leaseUntil?: Date; // Other replicas do not pick up the job before
+
+  @Prop()
+  startedAt?: Date;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  error?: string;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const RenditionBackfillJobSchema =
+  SchemaFactory.createForClass(RenditionBackfillJob);
+
+// Indexes
+RenditionBackfillJobSchema.index({ status: 1, createdAt: 1 });
+RenditionBackfillJobSchema.index({ profileName: 1, status: 1 });
+// At most one queued or running job per profile
+RenditionBackfillJobSchema.index(
+  { profileName: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      status: {
+        $in: [RenditionBackfillStatus.PENDING, RenditionBackfillStatus.RUNNING],
+      },
+    },
+  },
+);
+RenditionBackfillJobSchema.index({ createdAt: -1 });
@@ -1,4 +1,4 @@
-import { IsArray, IsString, ArrayMinSize, ArrayMaxSize } from 'class-validator';
+import { IsArray, IsString, ArrayMinSize, ArrayMaxSize, IsBoolean, IsOptional } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { IsAssetIdArray } from '../validators/asset-id.validator';
 
@@ -14,4 +14,13 @@ export class BulkRetrievalDto {
   @IsString({ each: true })
   @IsAssetIdArray({ message: 'Each asset ID must be in format "image-{objectId}" or "video-{objectId}" with a valid MongoDB ObjectId' })
   ids: string[];
+
+  @ApiProperty({
+    description: 'Also return soft-deleted assets that are still inside their restore window',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeDeleted?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class IncludeDeletedQueryDto {
+  @ApiProperty({
+    description:
+      'Also return soft-deleted assets that are still inside their restore window',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === true || value === 'true')
+  includeDeleted?: boolean;
+}
@@ -1,14 +1,19 @@
-import { Controller, Get, Post, Param, HttpStatus, HttpCode, NotFoundException, BadRequestException, Body, Head, ValidationPipe } from '@nestjs/common';
+import { Controller, Get, Post, Delete, Param, Query, HttpStatus, HttpCode, NotFoundException, BadRequestException, Body, Head, ValidationPipe, GoneException } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiParam, ApiResponse, ApiNotFoundResponse, ApiBody, ApiBadRequestResponse } from '@nestjs/swagger';
 import { RetrivalService, BulkExistenceResult } from './retrival.service';
 import { IImageAsset, IVideoAsset } from '@gpe/backend-common/dist/schema/media';
 import { BulkRetrievalDto } from './dto/bulk-retrieval.dto';
 import { AssetIdParamDto } from './dto/asset-id-param.dto';
+import { IncludeDeletedQueryDto } from './dto/include-deleted-query.dto';
+import { AssetDeletionService } from '../asset-deletion/asset-deletion.service';
 
 @ApiTags('retrieval')
 @Controller('v1/core/retrival')
 export class RetrivalController {
-    constructor(private readonly retrivalService: RetrivalService) { }
+    constructor(
+        private readonly retrivalService: RetrivalService,
+        private readonly assetDeletionService: AssetDeletionService,
+    ) { }
 
     @Get(':assetId')
     @HttpCode(HttpStatus.OK)
@@ -16,28 +21,63 @@ export class RetrivalController {
     @ApiParam({ name: 'assetId', description: 'The asset ID in format type-mongoId (e.g., image-123456 or video-123456)' })
     @ApiResponse({ status: 200, description: 'The asset was successfully retrieved' })
     @ApiNotFoundResponse({ description: 'Asset with the specified ID was not found' })
+    @ApiResponse({ status: 410, description: 'Asset was deleted and includeDeleted was not set' })
     @ApiBadRequestResponse({ description: 'Invalid asset ID format or unsupported asset type' })
-    async getAssetById(@Param() params: AssetIdParamDto): Promise<IImageAsset | IVideoAsset> {
-        return this.retrivalService.getAssetById(params.assetId);
+    async getAssetById(@Param() params: AssetIdParamDto, @Query() query: IncludeDeletedQueryDto): Promise<IImageAsset | IVideoAsset> {
+        return this.retrivalService.getAssetById(params.assetId, query.includeDeleted);
     }
 
     @Head(':assetId')
     @HttpCode(HttpStatus.OK)
     @ApiOperation({
         summary: 'Check if asset exists',
-        description: 'Checks if an asset exists without retrieving its data. Returns 200 OK if asset exists, 404 Not Found if it does not.'
+        description: 'Checks if an asset exists without retrieving its data. Returns 200 OK if asset exists, 404 Not Found if it does not and 410 Gone if it was deleted.'
     })
     @ApiParam({ name: 'assetId', description: 'The asset ID in format type-mongoId (e.g., image-123456 or video-123456)' })
     @ApiResponse({ status: 200, description: 'Asset exists', schema: { type: 'object' } })
     @ApiNotFoundResponse({ description: 'Asset with the specified ID was not found' })
+    @ApiResponse({ status: 410, description: 'Asset was deleted and includeDeleted was not set' })
     @ApiBadRequestResponse({ description: 'Invalid asset ID format or unsupported asset type' })
-    async headAssetById(@Param() params: AssetIdParamDto): Promise<void> {
-        const result = await this.retrivalService.headAsset(params.assetId);
+    async headAssetById(@Param() params: AssetIdParamDto, @Query() query: IncludeDeletedQueryDto): Promise<void> {
+        const result = await this.retrivalService.headAsset(params.assetId, query.includeDeleted);
         if (!result.exists) {
+            if (result.deleted) {
+                throw new GoneException(`Asset with ID "${params.assetId}" was deleted`);
+            }
             throw new NotFoundException(`Asset with ID "${params.assetId}" not found`);
         }
     }
 
+    @Delete(':assetId')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({
+        summary: 'Delete asset by ID',
+        description: 'Soft-deletes an asset regardless of its owner. The asset can be restored until the retention period of its upload profile elapsed, afterwards its S3 objects or Mux asset are purged.'
+    })
+    @ApiParam({ name: 'assetId', description: 'The asset ID in format type-mongoId (e.g., image-123456 or video-123456)' })
+    @ApiResponse({ status: 204, description: 'Asset deleted' })
+    @ApiNotFoundResponse({ description: 'Asset with the specified ID was not found' })
+    @ApiBadRequestResponse({ description: 'Invalid asset ID format or unsupported asset type' })
+    async deleteAssetById(@Param() params: AssetIdParamDto): Promise<void> {
+        await this.assetDeletionService.deleteAsset(params.assetId);
+    }
+
+    @Post(':assetId/restore')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Restore a deleted asset',
+        description: 'Restores a soft-deleted asset whose retention period has not elapsed yet.'
+    })
+    @ApiParam({ name: 'assetId', description: 'The asset ID in format type-mongoId (e.g., image-123456 or video-123456)' })
+    @ApiResponse({ status: 200, description: 'The restored asset' })
+    @ApiNotFoundResponse({ description: 'Asset with the specified ID was not found' })
+    @ApiResponse({ status: 409, description: 'Asset is not deleted' })
+    @ApiResponse({ status: 410, description: 'Asset was already purged' })
+    @ApiBadRequestResponse({ description: 'Invalid asset ID format or unsupported asset type' })
+    async restoreAssetById(@Param() params: AssetIdParamDto): Promise<IImageAsset | IVideoAsset> {
+        return this.assetDeletionService.restoreAsset(params.assetId);
+    }
+
     @Post('bulk')
     @HttpCode(HttpStatus.OK)
     @ApiOperation({
@@ -62,7 +102,7 @@ export class RetrivalController {
     })
     @ApiBadRequestResponse({ description: 'Invalid request format or too many asset IDs requested' })
     async bulkRetrieveAssets(@Body() dto: BulkRetrievalDto): Promise<Record<string, IImageAsset | IVideoAsset>> {
-        return this.retrivalService.getMultipleAssets(dto.ids);
+        return this.retrivalService.getMultipleAssets(dto.ids, dto.includeDeleted);
     }
 
     @Post('bulk-head')
@@ -93,6 +133,6 @@ export class RetrivalController {
     })
     @ApiBadRequestResponse({ description: 'Invalid request format or too many asset IDs requested' })
     async bulkHeadAssets(@Body() dto: BulkRetrievalDto): Promise<BulkExistenceResult> {
-        return this.retrivalService.bulkHeadAssets(dto.ids);
+        return this.retrivalService.bulkHeadAssets(dto.ids, dto.includeDeleted);
     }
 }
@@ -4,6 +4,7 @@ import { RetrivalController } from './retrival.controller';
 import { RetrivalService } from './retrival.service';
 import { ImageAsset, ImageAssetSchema } from '../../shared/schemas/image-asset.schema';
 import { VideoAsset, VideoAssetSchema } from '../../shared/schemas/video-asset.schema';
+import { AssetDeletionModule } from '../asset-deletion/asset-deletion.module';
 
 @Module({
   imports: [
@@ -11,6 +12,7 @@ import { VideoAsset, VideoAssetSchema } from '../../shared/schemas/video-asset.s
       { name: ImageAsset.name, schema: ImageAssetSchema },
       { name: VideoAsset.name, schema: VideoAssetSchema },
     ]),
+    AssetDeletionModule,
   ],
   controllers: [RetrivalController],
   providers: [RetrivalService]
@@ -1,4 +1,4 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, GoneException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { forkJoin, from, Observable, of } from 'rxjs';
@@ -6,6 +6,7 @@ import { map, mergeMap, catchError } from 'rxjs/operators';
 import { IImageAsset, IVideoAsset } from '@gpe/backend-common/dist/schema/media';
 import { ImageAsset } from '../../shared/schemas/image-asset.schema';
 import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { toAssetFacade } from '../../shared/utils/asset-facade.util';
 
 interface AssetTypeMap {
     image: string[];
@@ -16,6 +17,7 @@ interface AssetTypeMap {
 export interface AssetExistenceResult {
     exists: boolean;
     type?: string;
+    deleted?: boolean; // The asset existed but was deleted (tombstone)
 }
 
 export interface BulkExistenceResult {
@@ -25,11 +27,11 @@ export interface BulkExistenceResult {
 @Injectable()
 export class RetrivalService {
     constructor(
-        @InjectModel(ImageAsset.name) private readonly imageAssetModel: Model<IImageAsset>,
-        @InjectModel(VideoAsset.name) private readonly videoAssetModel: Model<IVideoAsset>
+        @InjectModel(ImageAsset.name) private readonly imageAssetModel: Model<ImageAsset>,
+        @InjectModel(VideoAsset.name) private readonly videoAssetModel: Model<VideoAsset>
     ) { }
 
-    async getAssetById(assetId: string): Promise<IImageAsset | IVideoAsset> {
+    async getAssetById(assetId: string, includeDeleted = false): Promise<IImageAsset | IVideoAsset> {
         const [type, id] = assetId.split('-');
 
         if (!type || !id) {
@@ -37,17 +39,17 @@ export class RetrivalService {
         }
 
         if (type.toLowerCase() === 'image') {
-            const asset = await this.getImageAssetById(id);
-            return this.withPrefixedId(asset, 'image');
+            const asset = await this.getImageAssetById(id, includeDeleted);
+            return toAssetFacade(asset, 'image');
         } else if (type.toLowerCase() === 'video') {
-            const asset = await this.getVideoAssetById(id);
-            return this.withPrefixedId(asset, 'video');
+            const asset = await this.getVideoAssetById(id, includeDeleted);
+            return toAssetFacade(asset, 'video');
         } else {
             throw new BadRequestException(`Invalid asset type: ${type}. Expected 'image' or 'video'`);
         }
     }
 
-    async getMultipleAssets(assetIds: string[]): Promise<Record<string, IImageAsset | IVideoAsset>> {
+    async getMultipleAssets(assetIds: string[], includeDeleted = false): Promise<Record<string, IImageAsset | IVideoAsset>> {
         // Enforce maximum limit of 25 assets
         if (assetIds.length > 25) {
             throw new BadRequestException('Cannot retrieve more than 25 assets at once');
@@ -71,8 +73,8 @@ export class RetrivalService {
         });
 
         // Prepare observables for each asset type query
-        const imageObservable = this.fetchImageAssets(groupedAssets.image);
-        const videoObservable = this.fetchVideoAssets(groupedAssets.video);
+        const imageObservable = this.fetchImageAssets(groupedAssets.image, includeDeleted);
+        const videoObservable = this.fetchVideoAssets(groupedAssets.video, includeDeleted);
 
         // Run all queries in parallel using forkJoin
         const result = await forkJoin({
@@ -87,7 +89,7 @@ export class RetrivalService {
                     const id = image._id as unknown as { toString(): string };
                     const originalId = idMap[id.toString()];
                     if (originalId) {
-                        resultMap[originalId] = this.withPrefixedId(image, 'image');
+                        resultMap[originalId] = toAssetFacade(image, 'image');
                     }
                 });
 
@@ -95,7 +97,7 @@ export class RetrivalService {
                     const id = video._id as unknown as { toString(): string };
                     const originalId = idMap[id.toString()];
                     if (originalId) {
-                        resultMap[originalId] = this.withPrefixedId(video, 'video');
+                        resultMap[originalId] = toAssetFacade(video, 'video');
                     }
                 });
 
@@ -109,9 +111,10 @@ export class RetrivalService {
     /**
      * HEAD method - Check if a single asset exists without retrieving its data
      * @param assetId Format: 'type-id' (e.g., 'image-123', 'video-456')
+     * @param includeDeleted Whether soft-deleted assets count as existing
      * @returns Object with existence status and type information
      */
-    async headAsset(assetId: string): Promise<AssetExistenceResult> {
+    async headAsset(assetId: string, includeDeleted = false): Promise<AssetExistenceResult> {
         const [type, id] = assetId.split('-');
 
         if (!type || !id) {
@@ -119,28 +122,30 @@ export class RetrivalService {
         }
 
         const lowerType = type.toLowerCase();
-        let exists = false;
+        let state: { exists: boolean; deleted: boolean };
 
         if (lowerType === 'image') {
-            exists = await this.checkImageAssetExists(id);
+            state = await this.checkImageAssetExists(id, includeDeleted);
         } else if (lowerType === 'video') {
-            exists = await this.checkVideoAssetExists(id);
+            state = await this.checkVideoAssetExists(id, includeDeleted);
         } else {
             throw new BadRequestException(`Invalid asset type: ${type}. Expected 'image' or 'video'`);
         }
 
         return {
-            exists,
-            type: exists ? lowerType : undefined
+            exists: state.exists,
+            type: state.exists ? lowerType : undefined,
+            deleted: state.deleted
         };
     }
 
     /**
      * BULKHEAD method - Check if multiple assets exist in a single efficient operation
      * @param assetIds Array of asset IDs in format: 'type-id'
+     * @param includeDeleted Whether soft-deleted assets count as existing
      * @returns Map of assetId to existence information
      */
-    async bulkHeadAssets(assetIds: string[]): Promise<BulkExistenceResult> {
+    async bulkHeadAssets(assetIds: string[], includeDeleted = false): Promise<BulkExistenceResult> {
         // Enforce maximum limit of 100 assets
         if (assetIds.length > 100) {
             throw new BadRequestException('Cannot check existence of more than 100 assets at once');
@@ -164,8 +169,8 @@ export class RetrivalService {
         });
 
         // Prepare observables for each asset type existence check
-        const imageExistsObservable = this.checkMultipleImageAssetsExist(groupedAssets.image);
-        const videoExistsObservable = this.checkMultipleVideoAssetsExist(groupedAssets.video);
+        const imageExistsObservable = this.checkMultipleImageAssetsExist(groupedAssets.image, includeDeleted);
+        const videoExistsObservable = this.checkMultipleVideoAssetsExist(groupedAssets.video, includeDeleted);
 
         // Run all queries in parallel using forkJoin
         const result = await forkJoin({
@@ -226,15 +231,22 @@ export class RetrivalService {
         return groupedAssets;
     }
 
+    /**
+     * Soft-deleted assets are hidden unless explicitly requested
+     */
+    private visibilityFilter(includeDeleted: boolean): Record<string, any> {
+        return includeDeleted ? {} : { deletedAt: { $exists: false } };
+    }
+
     /**
      * Fetches multiple image assets in a single query
      */
-    private fetchImageAssets(imageIds: string[]): Observable<IImageAsset[]> {
+    private fetchImageAssets(imageIds: string[], includeDeleted: boolean): Observable<IImageAsset[]> {
         if (!imageIds.length) {
             return of([]);
         }
 
-        return from(this.imageAssetModel.find({ _id: { $in: imageIds } }).exec()).pipe(
+        return from(this.imageAssetModel.find({ _id: { $in: imageIds }, ...this.visibilityFilter(includeDeleted) }).exec()).pipe(
             catchError(error => {
                 console.error('Error fetching image assets:', error);
                 return of([]);
@@ -245,12 +257,12 @@ export class RetrivalService {
     /**
      * Fetches multiple video assets in a single query
      */
-    private fetchVideoAssets(videoIds: string[]): Observable<IVideoAsset[]> {
+    private fetchVideoAssets(videoIds: string[], includeDeleted: boolean): Observable<IVideoAsset[]> {
         if (!videoIds.length) {
             return of([]);
         }
 
-        return from(this.videoAssetModel.find({ _id: { $in: videoIds } }).exec()).pipe(
+        return from(this.videoAssetModel.find({ _id: { $in: videoIds }, ...this.visibilityFilter(includeDeleted) }).exec()).pipe(
             catchError(error => {
                 console.error('Error fetching video assets:', error);
                 return of([]);
@@ -262,14 +274,14 @@ export class RetrivalService {
      * Check if a single image asset exists
      * @param id Image asset ID
      */
-    private async checkImageAssetExists(id: string): Promise<boolean> {
+    private async checkImageAssetExists(id: string, includeDeleted: boolean): Promise<{ exists: boolean; deleted: boolean }> {
         try {
-            // Use countDocuments with limit(1) for fastest existence check
-            const count = await this.imageAssetModel.countDocuments({ _id: id }).limit(1).exec();
-            return count > 0;
+            // Only select the tombstone for the fastest existence check
+            const asset = await this.imageAssetModel.findById(id).select('deletedAt').lean().exec();
+            return { exists: !!asset && (includeDeleted || !asset.deletedAt), deleted: !!asset?.deletedAt };
         } catch (error) {
             console.error(`Error checking if image asset ${id} exists:`, error);
-            return false;
+            return { exists: false, deleted: false };
         }
     }
 
@@ -277,14 +289,14 @@ export class RetrivalService {
      * Check if a single video asset exists
      * @param id Video asset ID
      */
-    private async checkVideoAssetExists(id: string): Promise<boolean> {
+    private async checkVideoAssetExists(id: string, includeDeleted: boolean): Promise<{ exists: boolean; deleted: boolean }> {
         try {
-            // Use countDocuments with limit(1) for fastest existence check
-            const count = await this.videoAssetModel.countDocuments({ _id: id }).limit(1).exec();
-            return count > 0;
+            // Only select the tombstone for the fastest existence check
+            const asset = await this.videoAssetModel.findById(id).select('deletedAt').lean().exec();
+            return { exists: !!asset && (includeDeleted || !asset.deletedAt), deleted: !!asset?.deletedAt };
         } catch (error) {
             console.error(`Error checking if video asset ${id} exists:`, error);
-            return false;
+            return { exists: false, deleted: false };
         }
     }
 
@@ -293,14 +305,14 @@ export class RetrivalService {
      * @param imageIds Array of image asset IDs
      * @returns Map of image ID to existence status
      */
-    private checkMultipleImageAssetsExist(imageIds: string[]): Observable<Record<string, boolean>> {
+    private checkMultipleImageAssetsExist(imageIds: string[], includeDeleted: boolean): Observable<Record<string, boolean>> {
         if (!imageIds.length) {
             return of({});
         }
 
         return from(
             this.imageAssetModel
-                .find({ _id: { $in: imageIds } })
+                .find({ _id: { $in: imageIds }, ...this.visibilityFilter(includeDeleted) })
                 .select('_id') // Only select the ID field for efficiency
                 .exec()
         ).pipe(
@@ -337,14 +349,14 @@ export class RetrivalService {
      * @param videoIds Array of video asset IDs
      * @returns Map of video ID to existence status
      */
-    private checkMultipleVideoAssetsExist(videoIds: string[]): Observable<Record<string, boolean>> {
+    private checkMultipleVideoAssetsExist(videoIds: string[], includeDeleted: boolean): Observable<Record<string, boolean>> {
         if (!videoIds.length) {
             return of({});
         }
 
         return from(
             this.videoAssetModel
-                .find({ _id: { $in: videoIds } })
+                .find({ _id: { $in: videoIds }, ...this.visibilityFilter(includeDeleted) })
                 .select('_id') // Only select the ID field for efficiency
                 .exec()
         ).pipe(
@@ -376,31 +388,25 @@ export class RetrivalService {
         );
     }
 
-    /**
-     * Helper to add id with prefix and remove _id from asset
-     */
-    private withPrefixedId<T extends { _id?: any; toObject?: () => any }>(asset: T, type: 'image' | 'video'): T & { id: string } {
-        // Ensure we are working with a plain object, not a Mongoose document
-        const plain = typeof asset.toObject === 'function' ? asset.toObject() : { ...asset };
-        const id = plain._id?.toString?.() || '';
-        const newAsset = { ...plain, id: `${type}-${id}` };
-        delete (newAsset as any)._id;
-        return newAsset;
-    }
-
-    private async getImageAssetById(id: string): Promise<IImageAsset> {
+    private async getImageAssetById(id: string, includeDeleted: boolean): Promise<IImageAsset> {
         const imageAsset = await this.imageAssetModel.findById(id).exec();
         if (!imageAsset) {
             throw new NotFoundException(`Image asset with ID "${id}" not found`);
         }
+        if (imageAsset.deletedAt && !includeDeleted) {
+            throw new GoneException(`Image asset with ID "${id}" was deleted`);
+        }
         return imageAsset;
     }
 
-    private async getVideoAssetById(id: string): Promise<IVideoAsset> {
+    private async getVideoAssetById(id: string, includeDeleted: boolean): Promise<IVideoAsset> {
         const videoAsset = await this.videoAssetModel.findById(id).exec();
         if (!videoAsset) {
             throw new NotFoundException(`Video asset with ID "${id}" not found`);
         }
+        if (videoAsset.deletedAt && !includeDeleted) {
+            throw new GoneException(`Video asset with ID "${id}" was deleted`);
+        }
         return videoAsset;
     }
 }
@@ -0,0 +1,85 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export enum UserDataJobType {
+  EXPORT = 'export',
+  ERASURE = 'erasure',
+}
+
+export enum UserDataJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Number of records found (export) or removed (erasure) per collection
+ */
+export interface UserDataCounts {
+  imageAssets: number;
+  videoAssets: number;
+  uploadClaims: number;
+  uploadStats: number;
+  uploadRecords: number;
+  storageUsage: number;
+  rateLimitOverrides: number;
+}
+
+export interface UserDataExportResult {
+  manifestKey: string;
+  manifestUrl: string; // Signed download link of the JSON manifest
+  expiresAt: Date; // When the signed links in and to the manifest expire
+  counts: UserDataCounts;
+}
+
+export interface UserDataErasureResult {
+  counts: UserDataCounts;
+}
+
+@Schema({ timestamps: true })
+export class UserDataJob extends Document {
+  @Prop({ required: true, index: true })
+  userId: string;
+
+  @Prop({ required: true, enum: UserDataJobType })
+  type: UserDataJobType;
+
+  @Prop({
+    required: true,
+    enum: UserDataJobStatus,
+    default: UserDataJobStatus.PENDING,
+  })
+  status: UserDataJobStatus;
+
+  // 'internal' for API requests, 'kafka' for user.deleted events
+  @Prop({ required: true })
+  requestedBy: string;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop()
+  startedAt?: Date;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  result?: UserDataExportResult | UserDataErasureResult;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const UserDataJobSchema = SchemaFactory.createForClass(UserDataJob);
+
+// Indexes
+UserDataJobSchema.index({ userId: 1, type: 1, status: 1 });
+UserDataJobSchema.index({ createdAt: -1 });
@@ -0,0 +1,70 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import { UserDataService } from './user-data.service';
+import { UserDataJob } from './schemas/user-data-job.schema';
+
+@ApiTags('user-data')
+@Controller('v1/core/user-data')
+export class UserDataController {
+  constructor(private readonly userDataService: UserDataService) {}
+
+  @Post('users/:userId/export')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Export all data of a user',
+    description:
+      'Starts a job that writes a JSON manifest with every record tied to the user and signed download links of the stored images. Poll the job for the manifest link.',
+  })
+  @ApiParam({ name: 'userId', description: 'The user ID' })
+  @ApiResponse({ status: 202, description: 'Export job created' })
+  async requestExport(@Param('userId') userId: string): Promise<UserDataJob> {
+    return this.userDataService.requestExport(userId);
+  }
+
+  @Post('users/:userId/erasure')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Erase all data of a user',
+    description:
+      'Starts a job that purges all assets of the user (S3 folders and Mux assets, without restore window) and removes every record tied to the user. Returns the running erasure job if there is one already.',
+  })
+  @ApiParam({ name: 'userId', description: 'The user ID' })
+  @ApiResponse({ status: 202, description: 'Erasure job created' })
+  async requestErasure(@Param('userId') userId: string): Promise<UserDataJob> {
+    return this.userDataService.requestErasure(userId);
+  }
+
+  @Get('users/:userId/jobs')
+  @ApiOperation({ summary: 'List the export and erasure jobs of a user' })
+  @ApiParam({ name: 'userId', description: 'The user ID' })
+  @ApiResponse({ status: 200, description: 'Jobs, newest first' })
+  async listJobs(@Param('userId') userId: string): Promise<UserDataJob[]> {
+    return this.userDataService.listJobs(userId);
+  }
+
+  @Get('jobs/:jobId')
+  @ApiOperation({
+    summary: 'Get the status of an export or erasure job',
+    description:
+      'Completed export jobs contain the signed link of the manifest.',
+  })
+  @ApiParam({ name: 'jobId', description: 'The job ID' })
+  @ApiResponse({ status: 200, description: 'The job' })
+  @ApiNotFoundResponse({ description: 'Job not found' })
+  async getJob(@Param('jobId') jobId: string): Promise<UserDataJob> {
+    return this.userDataService.getJob(jobId);
+  }
+}
@@ -0,0 +1,58 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UserDataController } from './user-data.controller';
+import { UserDataService } from './user-data.service';
+import { UserDataJob, UserDataJobSchema } from './schemas/user-data-job.schema';
+import {
+  ImageAsset,
+  ImageAssetSchema,
+} from '../../shared/schemas/image-asset.schema';
+import {
+  VideoAsset,
+  VideoAssetSchema,
+} from '../../shared/schemas/video-asset.schema';
+import {
+  UploadRecord,
+  UploadRecordSchema,
+} from '../../shared/schemas/upload-record.schema';
+import {
+  UploadClaim,
+  UploadClaimSchema,
+} from '../../backend-for-frontend/upload-claim/schemas/upload-claim.schema';
+import {
+  UserUploadStats,
+  UserUploadStatsSchema,
+} from '../../backend-for-frontend/upload-claim/schemas/user-upload-stats.schema';
+import {
+  UserStorageUsage,
+  UserStorageUsageSchema,
+} from '../quota/schemas/user-storage-usage.schema';
+import {
+  RateLimitOverride,
+  RateLimitOverrideSchema,
+} from '../rate-limit-overrides/schemas/rate-limit-override.schema';
+import { StorageModule } from '../../shared/storage/storage.module';
+import { AssetDeletionModule } from '../asset-deletion/asset-deletion.module';
+import { OutboxModule } from '../outbox/outbox.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: UserDataJob.name, schema: UserDataJobSchema },
+      { name: ImageAsset.name, schema: ImageAssetSchema },
+      { name: VideoAsset.name, schema: VideoAssetSchema },
+      { name: UploadClaim.name, schema: UploadClaimSchema },
+      { name: UserUploadStats.name, schema: UserUploadStatsSchema },
+      { name: UploadRecord.name, schema: UploadRecordSchema },
+      { name: UserStorageUsage.name, schema: UserStorageUsageSchema },
+      { name: RateLimitOverride.name, schema: RateLimitOverrideSchema },
+    ]),
+    StorageModule,
+    AssetDeletionModule,
+    OutboxModule,
+  ],
+  controllers: [UserDataController],
+  providers: [UserDataService],
+  exports: [UserDataService],
+})
+export class UserDataModule {}
@@ -0,0 +1,305 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import config from '../../config';
+import { ImageAsset } from '../../shared/schemas/image-asset.schema';
+import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { UploadRecord } from '../../shared/schemas/upload-record.schema';
+import { ObjectStorageService } from '../../shared/storage/object-storage.service';
+import { UploadClaim } from '../../backend-for-frontend/upload-claim/schemas/upload-claim.schema';
+import { UserUploadStats } from '../../backend-for-frontend/upload-claim/schemas/user-upload-stats.schema';
+import { AssetDeletionService } from '../asset-deletion/asset-deletion.service';
+import { OutboxHandler, OutboxService } from '../outbox/outbox.service';
+import { OutboxMessageKind } from '../outbox/schemas/outbox-message.schema';
+import { UserStorageUsage } from '../quota/schemas/user-storage-usage.schema';
+import { RateLimitOverride } from '../rate-limit-overrides/schemas/rate-limit-override.schema';
+import {
+  UserDataJob,
+  UserDataJobStatus,
+  UserDataJobType,
+} from './schemas/user-data-job.schema';
+import { UserDataService } from './user-data.service';
+
+const USER_ID = 'user-1';
+const JOB_ID = '65a000000000000000000001';
+
+// Query stand-in that resolves to the given result with or without lean()
+const query = <T>(result: T) => {
+  const exec = jest.fn().mockResolvedValue(result);
+  return { exec, lean: () => ({ exec }) };
+};
+
+const mockModel = (records: unknown[] = []) => ({
+  find: jest.fn().mockReturnValue(query(records)),
+  findOne: jest.fn().mockReturnValue(query(null)),
+  findOneAndUpdate: jest.fn().mockReturnValue(query(null)),
+  updateOne: jest.fn().mockReturnValue(query({})),
+  updateMany: jest.fn().mockReturnValue(query({})),
+  deleteMany: jest
+    .fn()
+    .mockReturnValue(query({ deletedCount: records.length })),
+  create: jest.fn(),
+});
+
+describe('UserDataService', () => {
+  let service: UserDataService;
+  let runJob: (payload: { jobId: string }) => Promise<void>;
+  let outboxService: Record<string, jest.Mock>;
+  let assetDeletionService: { eraseImage: jest.Mock; eraseVideo: jest.Mock };
+  let objectStorageService: {
+    putObject: jest.Mock;
+    createPresignedGetUrl: jest.Mock;
+  };
+  let models: Record<string, ReturnType<typeof mockModel>>;
+
+  const image = {
+    _id: 'image-id',
+    userId: USER_ID,
+    storageUrl: 'https://bucket.s3.amazonaws.com/images/a/index.webp',
+    original: { storageKey: 'images/a/original.png' },
+    formats: {
+      webp: { storageKey: 'images/a/index.webp' },
+      jpeg: { storageKey: 'images/a/index.jpg' },
+    },
+    resizedVersions: {
+      small: {
+        url: 'https://bucket.s3.amazonaws.com/images/a/small.webp',
+        storageKey: 'images/a/small.webp',
+      },
+    },
+  };
+  const video = { _id: 'video-id', userId: USER_ID };
+
+  const givenJob = (type: UserDataJobType, attempts = 1) => {
+    models.job.findOneAndUpdate.mockReturnValue(
+      query({ _id: JOB_ID, userId: USER_ID, type, attempts }),
+    );
+  };
+  const completedResult = () =>
+    models.job.updateOne.mock.calls
+      .map(([, update]) => update as { status?: string; result?: unknown })
+      .find((update) => update.status === UserDataJobStatus.COMPLETED)?.result;
+
+  const writtenManifest = () => {
+    const [, body] = objectStorageService.putObject.mock.calls[0] as [
+      string,
+      Buffer,
+    ];
+    return JSON.parse(body.toString()) as {
+      imageAssets: { downloads: Record<string, string> }[];
+      uploadClaims: unknown[];
+    };
+  };
+
+  beforeEach(async () => {
+    outboxService = {
+      registerHandler: jest.fn(),
+      enqueueTasks: jest.fn().mockResolvedValue(['task-1']),
+      processNow: jest.fn().mockResolvedValue(undefined),
+      withTransaction: jest.fn((fn: (session: string) => unknown) =>
+        fn('session'),
+      ),
+    };
+    assetDeletionService = {
+      eraseImage: jest.fn().mockResolvedValue(undefined),
+      eraseVideo: jest.fn().mockResolvedValue(undefined),
+    };
+    objectStorageService = {
+      putObject: jest.fn().mockResolvedValue(undefined),
+      createPresignedGetUrl: jest.fn((key: string) =>
+        Promise.resolve(`signed:${key}`),
+      ),
+    };
+    models = {
+      job: mockModel(),
+      image: mockModel([image]),
+      video: mockModel([video]),
+      claim: mockModel([{ claimId: 'claim-1' }]),
+      stats: mockModel(),
+      record: mockModel(),
+      usage: mockModel([{ userId: USER_ID }]),
+      override: mockModel(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserDataService,
+        { provide: OutboxService, useValue: outboxService },
+        { provide: AssetDeletionService, useValue: assetDeletionService },
+        { provide: ObjectStorageService, useValue: objectStorageService },
+        { provide: getModelToken(UserDataJob.name), useValue: models.job },
+        { provide: getModelToken(ImageAsset.name), useValue: models.image },
+        { provide: getModelToken(VideoAsset.name), useValue: models.video },
+        { provide: getModelToken(UploadClaim.name), useValue: models.claim },
+        {
+          provide: getModelToken(UserUploadStats.name),
+          useValue: models.stats,
+        },
+        { provide: getModelToken(UploadRecord.name), useValue: models.record },
+        {
+          provide: getModelToken(UserStorageUsage.name),
+          useValue: models.usage,
+        },
+        {
+          provide: getModelToken(RateLimitOverride.name),
+          useValue: models.override,
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserDataService>(UserDataService);
+    service.onModuleInit();
+    const handlers = outboxService.registerHandler.mock.calls as [
+      OutboxMessageKind,
+      OutboxHandler,
+    ][];
+    runJob = handlers.find(
+      ([kind]) => kind === OutboxMessageKind.USER_DATA_JOB,
+    )![1];
+  });
+
+  it('should return the running erasure instead of starting another one', async () => {
+    const activeJob = {
+      _id: JOB_ID,
+      type: UserDataJobType.ERASURE,
+      status: UserDataJobStatus.RUNNING,
+    };
+    models.job.findOne.mockReturnValue(query(activeJob));
+
+    await expect(service.requestErasure(USER_ID)).resolves.toBe(activeJob);
+    expect(models.job.create).not.toHaveBeenCalled();
+    expect(outboxService.enqueueTasks).not.toHaveBeenCalled();
+  });
+
+  it('should store a requested job together with its outbox task', async () => {
+    models.job.create.mockResolvedValue([{ _id: JOB_ID }]);
+
+    await service.requestErasure(USER_ID);
+
+    expect(models.job.create).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          userId: USER_ID,
+          type: UserDataJobType.ERASURE,
+        }),
+      ],
+      { session: 'session' },
+    );
+    expect(outboxService.enqueueTasks).toHaveBeenCalledWith(
+      [{ kind: OutboxMessageKind.USER_DATA_JOB, payload: { jobId: JOB_ID } }],
+      'session',
+    );
+    expect(outboxService.processNow).toHaveBeenCalledWith(['task-1']);
+  });
+
+  it('should erase all assets, exports and records of the user', async () => {
+    givenJob(UserDataJobType.ERASURE);
+
+    await runJob({ jobId: JOB_ID });
+
+    expect(assetDeletionService.eraseImage).toHaveBeenCalledWith(
+      image,
+      'gdpr-erasure',
+    );
+    expect(assetDeletionService.eraseVideo).toHaveBeenCalledWith(
+      video,
+      'gdpr-erasure',
+    );
+    expect(outboxService.enqueueTasks).toHaveBeenCalledWith([
+      {
+        kind: OutboxMessageKind.S3_CLEANUP,
+        payload: { folderPath: `${config.userData.exportPrefix}${USER_ID}/` },
+      },
+    ]);
+    for (const model of Object.values(models).filter(
+      (model) => model !== models.job,
+    )) {
+      expect(model.deleteMany).toHaveBeenCalledTimes(1);
+    }
+    expect(models.claim.deleteMany).toHaveBeenCalledWith({
+      claimRequestorUserId: USER_ID,
+    });
+    expect(models.job.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: USER_ID,
+        type: UserDataJobType.EXPORT,
+      }),
+      { $unset: { 'result.manifestUrl': 1 } },
+    );
+    expect(completedResult()).toEqual({
+      counts: {
+        imageAssets: 1,
+        videoAssets: 1,
+        uploadClaims: 1,
+        uploadStats: 0,
+        uploadRecords: 0,
+        storageUsage: 1,
+        rateLimitOverrides: 0,
+      },
+    });
+  });
+
+  it('should keep the job retryable until the outbox gives up on it', async () => {
+    assetDeletionService.eraseImage.mockRejectedValue(
+      new Error('S3 unavailable'),
+    );
+
+    givenJob(UserDataJobType.ERASURE, 1);
+    await expect(runJob({ jobId: JOB_ID })).rejects.toThrow('S3 unavailable');
+    expect(models.job.updateOne).toHaveBeenLastCalledWith(
+      { _id: JOB_ID },
+      { lastError: 'S3 unavailable' },
+    );
+    expect(models.image.deleteMany).not.toHaveBeenCalled();
+
+    givenJob(UserDataJobType.ERASURE, config.outbox.maxAttempts);
+    await expect(runJob({ jobId: JOB_ID })).rejects.toThrow('S3 unavailable');
+    expect(models.job.updateOne).toHaveBeenLastCalledWith(
+      { _id: JOB_ID },
+      { lastError: 'S3 unavailable', status: UserDataJobStatus.FAILED },
+    );
+  });
+
+  it('should skip jobs that already finished', async () => {
+    await runJob({ jobId: JOB_ID });
+
+    expect(assetDeletionService.eraseImage).not.toHaveBeenCalled();
+    expect(models.job.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should export a manifest with signed links to every stored file of an image', async () => {
+    givenJob(UserDataJobType.EXPORT);
+
+    await runJob({ jobId: JOB_ID });
+
+    const manifestKey = `${config.userData.exportPrefix}${USER_ID}/${JOB_ID}/manifest.json`;
+    const [key] = objectStorageService.putObject.mock.calls[0] as [string];
+    expect(key).toBe(manifestKey);
+
+    const manifest = writtenManifest();
+    expect(manifest.imageAssets[0].downloads).toEqual({
+      original: 'signed:images/a/index.webp',
+      'original.jpeg': 'signed:images/a/index.jpg',
+      master: 'signed:images/a/original.png',
+      small: 'signed:images/a/small.webp',
+    });
+    expect(manifest.uploadClaims).toEqual([{ claimId: 'claim-1' }]);
+    expect(completedResult()).toMatchObject({
+      manifestKey,
+      manifestUrl: `signed:${manifestKey}`,
+      counts: { imageAssets: 1, videoAssets: 1, uploadClaims: 1 },
+    });
+    expect(assetDeletionService.eraseImage).not.toHaveBeenCalled();
+  });
+
+  it('should not link files of purged images', async () => {
+    models.image.find.mockReturnValue(
+      query([{ ...image, purgedAt: new Date() }]),
+    );
+    givenJob(UserDataJobType.EXPORT);
+
+    await runJob({ jobId: JOB_ID });
+
+    const manifest = writtenManifest();
+    expect(manifest.imageAssets[0].downloads).toEqual({});
+  });
+});
@@ -0,0 +1,417 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import config from '../../config';
+import { ImageAsset } from '../../shared/schemas/image-asset.schema';
+import { VideoAsset } from '../../shared/schemas/video-asset.schema';
+import { UploadRecord } from '../../shared/schemas/upload-record.schema';
+import { UploadClaim } from '../../backend-for-frontend/upload-claim/schemas/upload-claim.schema';
+import { UserUploadStats } from '../../backend-for-frontend/upload-claim/schemas/user-upload-stats.schema';
+import { UserStorageUsage } from '../quota/schemas/user-storage-usage.schema';
+import { RateLimitOverride } from '../rate-limit-overrides/schemas/rate-limit-override.schema';
+import { ObjectStorageService } from '../../shared/storage/object-storage.service';
+import { toAssetFacade } from '../../shared/utils/asset-facade.util';
+import { storageKeyFromUrl } from '../../shared/utils/storage-key.util';
+import { AssetDeletionService } from '../asset-deletion/asset-deletion.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { OutboxMessageKind } from '../outbox/schemas/outbox-message.schema';
+import {
+  UserDataCounts,
+  UserDataErasureResult,
+  UserDataExportResult,
+  UserDataJob,
+  UserDataJobStatus,
+  UserDataJobType,
+} from './schemas/user-data-job.schema';
+
+export const USER_DATA_API_REQUESTER = 'internal';
+export const USER_DELETED_EVENT_REQUESTER = 'kafka';
+
+// Recorded as deletedBy on erased assets
+const ERASURE_ACTOR = 'gdpr-erasure';
+
+/**
+ * Exports and erases everything tied to a user ID (GDPR).
+ *
+ * Jobs are persisted as UserDataJob records and executed through the outbox, so a job requested
+ * right before the process dies is still picked up. Both job types are idempotent and safe to rerun.
+ */
+@Injectable()
+export class UserDataService implements OnModuleInit {
+  private readonly logger = new Logger(UserDataService.name);
+
+  constructor(
+    private readonly outboxService: OutboxService,
+    private readonly assetDeletionService: AssetDeletionService,
+    private readonly objectStorageService: ObjectStorageService,
+    @InjectModel(UserDataJob.name) private userDataJobModel: Model<UserDataJob>,
+    @InjectModel(ImageAsset.name) private imageAssetModel: Model<ImageAsset>,
+    @InjectModel(VideoAsset.name) private videoAssetModel: Model<VideoAsset>,
+    @InjectModel(UploadClaim.name) private uploadClaimModel: Model<UploadClaim>,
+    @InjectModel(UserUploadStats.name)
+    private userUploadStatsModel: Model<UserUploadStats>,
+    @InjectModel(UploadRecord.name)
+    private uploadRecordModel: Model<UploadRecord>,
+    @InjectModel(UserStorageUsage.name)
+    private userStorageUsageModel: Model<UserStorageUsage>,
+    @InjectModel(RateLimitOverride.name)
+    private rateLimitOverrideModel: Model<RateLimitOverride>,
+  ) {}
+
+  onModuleInit(): void {
+    this.outboxService.registerHandler(
+      OutboxMessageKind.USER_DATA_JOB,
+      (payload: { jobId: string }) => this.runJob(payload.jobId),
+    );
+  }
+
+  /**
+   * Starts an export of all data of a user
+   * @returns The job record, poll it for the manifest link
+   */
+  async requestExport(
+    userId: string,
+    requestedBy: string = USER_DATA_API_REQUESTER,
+  ): Promise<UserDataJob> {
+    return this.createJob(userId, UserDataJobType.EXPORT, requestedBy);
+  }
+
+  /**
+   * Starts the erasure of all data of a user. Returns the running erasure job instead if there is one already,
+   * so redelivered user.deleted events do not start a second erasure.
+   * @returns The job record
+   */
+  async requestErasure(
+    userId: string,
+    requestedBy: string = USER_DATA_API_REQUESTER,
+  ): Promise<UserDataJob> {
+    const activeJob = await this.userDataJobModel
+      .findOne({
+        userId,
+        type: UserDataJobType.ERASURE,
+        status: { $in: [UserDataJobStatus.PENDING, UserDataJobStatus.RUNNING] },
+      })
+      .exec();
+
+    if (activeJob) {
+      this.logger.log(
+        `Erasure of user ${userId} is already in progress (job ${activeJob._id.toString()})`,
+      );
+      return activeJob;
+    }
+
+    return this.createJob(userId, UserDataJobType.ERASURE, requestedBy);
+  }
+
+  async getJob(jobId: string): Promise<UserDataJob> {
+    const job = await this.userDataJobModel.findById(jobId).exec();
+    if (!job) {
+      throw new NotFoundException(`User data job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  async listJobs(userId: string): Promise<UserDataJob[]> {
+    return this.userDataJobModel
+      .find({ userId })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Stores the job and its outbox task in one transaction and starts it right away
+   */
+  private async createJob(
+    userId: string,
+    type: UserDataJobType,
+    requestedBy: string,
+  ): Promise<UserDataJob> {
+    this.logger.log(
+      `Requesting ${type} of user ${userId} (requested by ${requestedBy})`,
+    );
+
+    const { job, taskIds } = await this.outboxService.withTransaction(
+      async (session) => {
+        const [created] = await this.userDataJobModel.create(
+          [{ userId, type, requestedBy }],
+          { session },
+        );
+        const ids = await this.outboxService.enqueueTasks(
+          [
+            {
+              kind: OutboxMessageKind.USER_DATA_JOB,
+              payload: { jobId: created._id.toString() },
+            },
+          ],
+          session,
+        );
+        return { job: created, taskIds: ids };
+      },
+    );
+
+    // Jobs can take a while, do not block the request on them
+    void this.outboxService.processNow(taskIds);
+    return job;
+  }
+
+  /**
+   * Outbox handler: executes a job and records its outcome. Failures are rethrown so the outbox retries the job.
+   */
+  private async runJob(jobId: string): Promise<void> {
+    const job = await this.userDataJobModel
+      .findOneAndUpdate(
+        {
+          _id: jobId,
+          status: {
+            $in: [UserDataJobStatus.PENDING, UserDataJobStatus.RUNNING],
+          },
+        },
+        {
+          status: UserDataJobStatus.RUNNING,
+          startedAt: new Date(),
+          $inc: { attempts: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!job) {
+      this.logger.warn(`User data job ${jobId} not found or already finished`);
+      return;
+    }
+
+    try {
+      const result =
+        job.type === UserDataJobType.EXPORT
+          ? await this.exportUserData(job)
+          : await this.eraseUserData(job);
+
+      await this.userDataJobModel
+        .updateOne(
+          { _id: jobId },
+          {
+            status: UserDataJobStatus.COMPLETED,
+            completedAt: new Date(),
+            result,
+            $unset: { lastError: 1 },
+          },
+        )
+        .exec();
+      this.logger.log(
+        `User data job ${jobId} (${job.type} of user ${job.userId}) completed`,
+      );
+    } catch (error) {
+      // The outbox gives up after maxAttempts, mark the job failed at the same point
+      const failed = job.attempts >= config.outbox.maxAttempts;
+      await this.userDataJobModel
+        .updateOne(
+          { _id: jobId },
+          {
+            lastError: (error as Error).message,
+            ...(failed ? { status: UserDataJobStatus.FAILED } : {}),
+          },
+        )
+        .exec();
+      this.logger.error(
+        `User data job ${jobId} (${job.type} of user ${job.userId}) failed: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a JSON manifest with all records of the user and signed download links of the stored images to S3
+   */
+  private async exportUserData(
+    job: UserDataJob,
+  ): Promise<UserDataExportResult> {
+    const { userId } = job;
+    const { exportPrefix, exportUrlExpirySeconds } = config.userData;
+
+    const [
+      images,
+      videos,
+      uploadClaims,
+      uploadStats,
+      uploadRecords,
+      storageUsage,
+      rateLimitOverrides,
+    ] = await Promise.all([
+      this.imageAssetModel.find({ userId }).exec(),
+      this.videoAssetModel.find({ userId }).exec(),
+      this.uploadClaimModel
+        .find({ claimRequestorUserId: userId })
+        .lean()
+        .exec(),
+      this.userUploadStatsModel.find({ userId }).lean().exec(),
+      this.uploadRecordModel.find({ userId }).lean().exec(),
+      this.userStorageUsageModel.find({ userId }).lean().exec(),
+      this.rateLimitOverrideModel.find({ userId }).lean().exec(),
+    ]);
+
+    const manifest = {
+      userId,
+      jobId: job._id.toString(),
+      generatedAt: new Date().toISOString(),
+      imageAssets: await Promise.all(
+        images.map(async (image) => ({
+          ...toAssetFacade(image, 'image'),
+          downloads: await this.createImageDownloadLinks(
+            image,
+            exportUrlExpirySeconds,
+          ),
+        })),
+      ),
+      // Videos are hosted by Mux, their playback URLs are part of the asset
+      videoAssets: videos.map((video) => toAssetFacade(video, 'video')),
+      uploadClaims,
+      uploadStats,
+      uploadRecords,
+      storageUsage,
+      rateLimitOverrides,
+    };
+
+    const manifestKey = `${exportPrefix}${userId}/${manifest.jobId}/manifest.json`;
+    await this.objectStorageService.putObject(
+      manifestKey,
+      Buffer.from(JSON.stringify(manifest, null, 2)),
+      'application/json',
+    );
+
+    return {
+      manifestKey,
+      manifestUrl: await this.objectStorageService.createPresignedGetUrl(
+        manifestKey,
+        exportUrlExpirySeconds,
+      ),
+      expiresAt: new Date(Date.now() + exportUrlExpirySeconds * 1000),
+      counts: {
+        imageAssets: images.length,
+        videoAssets: videos.length,
+        uploadClaims: uploadClaims.length,
+        uploadStats: uploadStats.length,
+        uploadRecords: uploadRecords.length,
+        storageUsage: storageUsage.length,
+        rateLimitOverrides: rateLimitOverrides.length,
+      },
+    };
+  }
+
+  /**
+   * Purges all assets of the user right away (S3 folders and Mux assets through the outbox),
+   * then removes every record tied to the user including earlier exports
+   */
+  private async eraseUserData(
+    job: UserDataJob,
+  ): Promise<UserDataErasureResult> {
+    const { userId } = job;
+
+    const images = await this.imageAssetModel.find({ userId }).exec();
+    for (const image of images) {
+      await this.assetDeletionService.eraseImage(image, ERASURE_ACTOR);
+    }
+
+    const videos = await this.videoAssetModel.find({ userId }).exec();
+    for (const video of videos) {
+      await this.assetDeletionService.eraseVideo(video, ERASURE_ACTOR);
+    }
+
+    const taskIds = await this.outboxService.enqueueTasks([
+      {
+        kind: OutboxMessageKind.S3_CLEANUP,
+        payload: { folderPath: `${config.userData.exportPrefix}${userId}/` },
+      },
+    ]);
+    await this.outboxService.processNow(taskIds);
+
+    const [
+      imageAssets,
+      videoAssets,
+      uploadClaims,
+      uploadStats,
+      uploadRecords,
+      storageUsage,
+      rateLimitOverrides,
+    ] = await Promise.all([
+      this.imageAssetModel.deleteMany({ userId }).exec(),
+      this.videoAssetModel.deleteMany({ userId }).exec(),
+      this.uploadClaimModel.deleteMany({ claimRequestorUserId: userId }).exec(),
+      this.userUploadStatsModel.deleteMany({ userId }).exec(),
+      this.uploadRecordModel.deleteMany({ userId }).exec(),
+      this.userStorageUsageModel.deleteMany({ userId }).exec(),
+      this.rateLimitOverrideModel.deleteMany({ userId }).exec(),
+    ]);
+
+    // Signed links of earlier exports point to files that no longer exist
+    await this.userDataJobModel
+      .updateMany(
+        {
+          userId,
+          type: UserDataJobType.EXPORT,
+          'result.manifestUrl': { $exists: true },
+        },
+        { $unset: { 'result.manifestUrl': 1 } },
+      )
+      .exec();
+
+    const counts: UserDataCounts = {
+      imageAssets: imageAssets.deletedCount,
+      videoAssets: videoAssets.deletedCount,
+      uploadClaims: uploadClaims.deletedCount,
+      uploadStats: uploadStats.deletedCount,
+      uploadRecords: uploadRecords.deletedCount,
+      storageUsage: storageUsage.deletedCount,
+      rateLimitOverrides: rateLimitOverrides.deletedCount,
+    };
+    this.logger.log(`Erased data of user ${userId}: ${JSON.stringify(counts)}`);
+
+    return { counts };
+  }
+
+  /**
+   * Signed download links of the original and all resized versions of an image, keyed by version.
+   * Formats other than the primary one are keyed by version and format, e.g. "small.avif", the sanitized upload by "master".
+   */
+  private async createImageDownloadLinks(
+    image: ImageAsset,
+    expiresInSeconds: number,
+  ): Promise<Record<string, string>> {
+    if (image.purgedAt) {
+      return {};
+    }
+
+    const keys: Record<string, string> = {};
+    if (image.storageUrl) keys.original = storageKeyFromUrl(image.storageUrl);
+    else if (image.storageKey) keys.original = image.storageKey;
+    Object.entries(image.resizedVersions || {}).forEach(([suffix, version]) => {
+      if (version?.storageKey) keys[suffix] = version.storageKey;
+      else if (version?.url) keys[suffix] = storageKeyFromUrl(version.url);
+    });
+    const addFormats = (name: string, formats: ImageAsset['formats']) => {
+      Object.entries(formats || {}).forEach(([format, version]) => {
+        if (version.storageKey !== keys[name])
+          keys[`${name}.${format}`] = version.storageKey;
+      });
+    };
+    addFormats('original', image.formats);
+    if (image.original) keys.master = image.original.storageKey;
+    Object.entries(image.resizedVersions || {}).forEach(([suffix, version]) =>
+      addFormats(suffix, version?.formats),
+    );
+
+    const links: Record<string, string> = {};
+    for (const [version, key] of Object.entries(keys)) {
+      links[version] = await this.objectStorageService.createPresignedGetUrl(
+        key,
+        expiresInSeconds,
+      );
+    }
+    return links;
+  }
+}
@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MinLength,
+} from 'class-validator';
+import { WebhookEvent } from '../schemas/webhook-subscription.schema';
+
+export class CreateWebhookSubscriptionDto {
+  @ApiProperty({
+    description: 'Upload profile whose claims and assets trigger this webhook',
+    example: 'course_content',
+  })
+  @IsNotEmpty()
+  @IsString()
+  uploadProfile: string;
+
+  @ApiProperty({
+    description: 'Endpoint the events are POSTed to',
+    example: 'https://courses.internal/media-webhooks',
+  })
+  @IsUrl({ require_tld: false })
+  url: string;
+
+  @ApiProperty({
+    description: 'Events to deliver, defaults to all events',
+    enum: WebhookEvent,
+    isArray: true,
+    required: false,
+    example: [WebhookEvent.CLAIM_READY, WebhookEvent.CLAIM_FAILED],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(WebhookEvent, { each: true })
+  events?: WebhookEvent[];
+
+  @ApiProperty({
+    description: 'Secret used to sign payloads, generated when omitted',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+
+  @ApiProperty({
+    description: 'Free text description of the subscriber',
+    required: false,
+    example: 'Course service lesson videos',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { WebhookDeliveryStatus } from '../schemas/webhook-delivery.schema';
+
+export class ListWebhookDeliveriesDto {
+  @ApiProperty({
+    description: 'Only deliveries of this subscription',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  subscriptionId?: string;
+
+  @ApiProperty({
+    description: 'Only deliveries in this status',
+    enum: WebhookDeliveryStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+
+  @ApiProperty({
+    description: 'Maximum number of deliveries to return',
+    required: false,
+    example: 50,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @Type(() => Number)
+  limit?: number;
+
+  @ApiProperty({
+    description: 'Number of deliveries to skip',
+    required: false,
+    example: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  skip?: number;
+}
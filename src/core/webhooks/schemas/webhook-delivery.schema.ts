@@ -0,0 +1,63 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { WebhookEvent } from './webhook-subscription.schema';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+@Schema({ timestamps: true })
+export class WebhookDelivery extends Document {
+  @Prop({ required: true, index: true })
+  subscriptionId: string;
+
+  @Prop({ required: true, enum: WebhookEvent })
+  event: WebhookEvent;
+
+  @Prop({ required: true })
+  uploadProfile: string;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  payload: Record<string, any>;
+
+  @Prop({
+    required: true,
+    enum: WebhookDeliveryStatus,
+    default: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  // When the delivery is due next; also used as a lease while an attempt is in flight
+  @Prop({ default: Date.now })
+  nextAttemptAt: Date;
+
+  @Prop()
+  lastAttemptAt?: Date;
+
+  @Prop()
+  lastResponseStatus?: number;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop()
+  deliveredAt?: Date;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const WebhookDeliverySchema =
+  SchemaFactory.createForClass(WebhookDelivery);
+
+// Indexes
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ createdAt: -1 });
@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Events subscribers can receive. Every claim that reaches a final status notifies, including
+ * claims cancelled by their owner and pending claims expired by the sweeper.
+ */
+export enum WebhookEvent {
+  CLAIM_READY = 'claim.ready',
+  CLAIM_FAILED = 'claim.failed',
+  CLAIM_CANCELLED = 'claim.cancelled',
+  CLAIM_EXPIRED = 'claim.expired',
+  ASSET_DELETED = 'asset.deleted',
+  ASSET_RESTORED = 'asset.restored',
+  ASSET_PURGED = 'asset.purged',
+}
+
+@Schema({ timestamps: true })
+export class WebhookSubscription extends Document {
+  @Prop({ required: true, index: true })
+  uploadProfile: string;
+
+  @Prop({ required: true })
+  url: string;
+
+  // Shared secret used to HMAC-sign every payload
+  @Prop({ required: true })
+  secret: string;
+
+  @Prop({
+    type: [String],
+    enum: WebhookEvent,
+    default: Object.values(WebhookEvent),
+  })
+  events: WebhookEvent[];
+
+  @Prop({ default: true })
+  active: boolean;
+
+  @Prop()
+  description?: string;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const WebhookSubscriptionSchema =
+  SchemaFactory.createForClass(WebhookSubscription);
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  Body,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiNotFoundResponse,
+  ApiBody,
+} from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { ListWebhookDeliveriesDto } from './dto/list-webhook-deliveries.dto';
+import { WebhookSubscription } from './schemas/webhook-subscription.schema';
+import { WebhookDelivery } from './schemas/webhook-delivery.schema';
+
+@ApiTags('webhooks')
+@Controller('v1/core/webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post('subscriptions')
+  @ApiOperation({
+    summary: 'Register a webhook endpoint',
+    description:
+      'Registers an endpoint that receives HMAC-signed claim lifecycle events for an upload profile. The secret is only returned by this call.',
+  })
+  @ApiBody({ type: CreateWebhookSubscriptionDto })
+  @ApiResponse({ status: 201, description: 'Subscription created' })
+  async createSubscription(
+    @Body() dto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscription> {
+    return this.webhooksService.createSubscription(dto);
+  }
+
+  @Get('subscriptions')
+  @ApiOperation({ summary: 'List webhook subscriptions' })
+  @ApiQuery({
+    name: 'uploadProfile',
+    required: false,
+    description: 'Only subscriptions of this upload profile',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscriptions without their secrets',
+  })
+  async listSubscriptions(
+    @Query('uploadProfile') uploadProfile?: string,
+  ): Promise<WebhookSubscription[]> {
+    return this.webhooksService.listSubscriptions(uploadProfile);
+  }
+
+  @Delete('subscriptions/:subscriptionId')
+  @ApiOperation({ summary: 'Deactivate a webhook subscription' })
+  @ApiParam({ name: 'subscriptionId', description: 'The subscription ID' })
+  @ApiResponse({ status: 200, description: 'Subscription deactivated' })
+  @ApiNotFoundResponse({ description: 'Subscription not found' })
+  async deactivateSubscription(
+    @Param('subscriptionId') subscriptionId: string,
+  ): Promise<WebhookSubscription> {
+    return this.webhooksService.deactivateSubscription(subscriptionId);
+  }
+
+  @Get('deliveries')
+  @ApiOperation({
+    summary: 'List webhook deliveries',
+    description:
+      'Delivery log including attempt count, last response status and last error.',
+  })
+  @ApiResponse({ status: 200, description: 'Deliveries, newest first' })
+  async listDeliveries(
+    @Query() query: ListWebhookDeliveriesDto,
+  ): Promise<WebhookDelivery[]> {
+    return this.webhooksService.listDeliveries(query);
+  }
+
+  @Post('deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Redeliver a webhook',
+    description:
+      'Resets the attempt counter and delivers the stored payload again.',
+  })
+  @ApiParam({ name: 'deliveryId', description: 'The delivery ID' })
+  @ApiResponse({ status: 200, description: 'Delivery after the new attempt' })
+  @ApiNotFoundResponse({ description: 'Delivery not found' })
+  async redeliver(
+    @Param('deliveryId') deliveryId: string,
+  ): Promise<WebhookDelivery> {
+    return this.webhooksService.redeliver(deliveryId);
+  }
+}
@@ -0,0 +1,229 @@
+import { NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import config from '../../config';
+import {
+  WebhookEvent,
+  WebhookSubscription,
+} from './schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './schemas/webhook-delivery.schema';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WebhooksService,
+} from './webhooks.service';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+const SECRET = 'subscriber-secret';
+
+interface PostedRequest {
+  url: string;
+  body: string;
+  headers: Record<string, string>;
+}
+
+// Stand-in for a leased WebhookDelivery document
+interface DeliveryDoc {
+  _id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+  lastResponseStatus?: number;
+  deliveredAt?: Date;
+  save: jest.Mock;
+}
+
+const exec = <T>(result: T) => ({
+  exec: jest.fn().mockResolvedValue(result),
+});
+
+describe('WebhooksService', () => {
+  let service: WebhooksService;
+  let webhookSubscriptionModel: { find: jest.Mock; findById: jest.Mock };
+  let webhookDeliveryModel: {
+    insertMany: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    findByIdAndUpdate: jest.Mock;
+    findById: jest.Mock;
+  };
+  let post: jest.SpyInstance;
+  let delivery: DeliveryDoc;
+
+  const postedRequest = (): PostedRequest => {
+    const [url, body, options] = post.mock.calls[0] as [
+      string,
+      string,
+      { headers: Record<string, string> },
+    ];
+    return { url, body, headers: options.headers };
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+
+    delivery = {
+      _id: 'delivery-1',
+      subscriptionId: 'subscription-1',
+      event: WebhookEvent.CLAIM_READY,
+      payload: { event: WebhookEvent.CLAIM_READY, data: { claimId: 'c' } },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    const subscription = {
+      _id: 'subscription-1',
+      url: 'https://courses.internal/media-webhooks',
+      secret: SECRET,
+    };
+
+    webhookSubscriptionModel = {
+      find: jest.fn().mockReturnValue(exec([subscription])),
+      findById: jest.fn().mockReturnValue(exec(subscription)),
+    };
+    webhookDeliveryModel = {
+      insertMany: jest.fn().mockResolvedValue([{ _id: 'delivery-1' }]),
+      findOneAndUpdate: jest.fn().mockReturnValue(exec(delivery)),
+      findByIdAndUpdate: jest.fn().mockReturnValue(exec(delivery)),
+      findById: jest.fn().mockReturnValue(exec(delivery)),
+    };
+    post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 204 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        {
+          provide: getModelToken(WebhookSubscription.name),
+          useValue: webhookSubscriptionModel,
+        },
+        {
+          provide: getModelToken(WebhookDelivery.name),
+          useValue: webhookDeliveryModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhooksService>(WebhooksService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should sign the body with the HMAC of the timestamp and the body', async () => {
+    await service.dispatch(WebhookEvent.CLAIM_READY, 'course_content', {
+      claimId: 'c',
+    });
+
+    const { url, body, headers } = postedRequest();
+    const timestamp = String(NOW.getTime() / 1000);
+    const expected = createHmac('sha256', SECRET)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    expect(url).toBe('https://courses.internal/media-webhooks');
+    expect(JSON.parse(body)).toEqual({ id: 'delivery-1', ...delivery.payload });
+    expect(headers).toMatchObject({
+      [WEBHOOK_SIGNATURE_HEADER]: `sha256=${expected}`,
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+      [WEBHOOK_EVENT_HEADER]: WebhookEvent.CLAIM_READY,
+      [WEBHOOK_DELIVERY_HEADER]: 'delivery-1',
+    });
+  });
+
+  it('should only queue deliveries for subscriptions of the event', async () => {
+    webhookSubscriptionModel.find.mockReturnValue(exec([]));
+
+    await service.dispatch(WebhookEvent.ASSET_DELETED, 'course_content', {});
+
+    expect(webhookSubscriptionModel.find).toHaveBeenCalledWith({
+      uploadProfile: 'course_content',
+      active: true,
+      events: WebhookEvent.ASSET_DELETED,
+    });
+    expect(webhookDeliveryModel.insertMany).not.toHaveBeenCalled();
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('should mark the delivery as succeeded on a 2xx response', async () => {
+    await service.redeliver('delivery-1');
+
+    expect(delivery).toMatchObject({
+      status: WebhookDeliveryStatus.SUCCEEDED,
+      attempts: 1,
+      lastResponseStatus: 204,
+      deliveredAt: NOW,
+    });
+    expect(delivery.save).toHaveBeenCalled();
+  });
+
+  it('should back off exponentially after a failed attempt', async () => {
+    const { initialBackoffMs } = config.webhooks;
+    delivery.attempts = 2;
+    post.mockResolvedValue({ status: 503 });
+
+    await service.redeliver('delivery-1');
+
+    expect(delivery).toMatchObject({
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 3,
+      lastResponseStatus: 503,
+      lastError: 'Endpoint responded with HTTP 503',
+      nextAttemptAt: new Date(NOW.getTime() + initialBackoffMs * 4),
+    });
+  });
+
+  it('should fail the delivery once it ran out of attempts', async () => {
+    delivery.attempts = config.webhooks.maxAttempts - 1;
+    post.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await service.redeliver('delivery-1');
+
+    expect(delivery).toMatchObject({
+      status: WebhookDeliveryStatus.FAILED,
+      attempts: config.webhooks.maxAttempts,
+      lastError: 'connect ECONNREFUSED',
+    });
+    expect(delivery.save).toHaveBeenCalled();
+  });
+
+  it('should fail the delivery if its subscription no longer exists', async () => {
+    webhookSubscriptionModel.findById.mockReturnValue(exec(null));
+
+    await service.redeliver('delivery-1');
+
+    expect(post).not.toHaveBeenCalled();
+    expect(delivery).toMatchObject({
+      status: WebhookDeliveryStatus.FAILED,
+      lastError: 'Subscription no longer exists',
+    });
+  });
+
+  it('should skip deliveries leased by another attempt', async () => {
+    webhookDeliveryModel.findOneAndUpdate.mockReturnValue(exec(null));
+
+    await service.redeliver('delivery-1');
+
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to redeliver an unknown delivery', async () => {
+    webhookDeliveryModel.findByIdAndUpdate.mockReturnValue(exec(null));
+
+    await expect(service.redeliver('missing')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(post).not.toHaveBeenCalled();
+  });
+});
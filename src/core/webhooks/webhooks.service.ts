@@ -0,0 +1,346 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import { Subscription } from 'rxjs';
+import config from '../../config';
+import { startPolling } from '../../shared/utils/polling.util';
+import { computeBackoffDelay } from '../../shared/utils/backoff.util';
+import {
+  WebhookEvent,
+  WebhookSubscription,
+} from './schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './schemas/webhook-delivery.schema';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { ListWebhookDeliveriesDto } from './dto/list-webhook-deliveries.dto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-GPE-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-GPE-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-GPE-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-GPE-Delivery';
+
+/**
+ * Signs a webhook body. Receivers recompute the HMAC over "<timestamp>.<raw body>"
+ * with their secret and compare it to the signature header.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Delivers claim lifecycle events to subscribed downstream services.
+ * Every event is persisted as a WebhookDelivery first and retried with exponential
+ * backoff until it succeeds or runs out of attempts.
+ */
+@Injectable()
+export class WebhooksService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhooksService.name);
+  private dispatchSubscription?: Subscription;
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private webhookSubscriptionModel: Model<WebhookSubscription>,
+    @InjectModel(WebhookDelivery.name)
+    private webhookDeliveryModel: Model<WebhookDelivery>,
+  ) {}
+
+  /**
+   * Start picking up due deliveries when the module starts
+   */
+  onModuleInit(): void {
+    this.dispatchSubscription = startPolling(
+      config.webhooks.dispatchIntervalMs,
+      () => this.dispatchDueDeliveries(),
+      this.logger,
+      'Webhook dispatch run',
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.dispatchSubscription?.unsubscribe();
+  }
+
+  /**
+   * Registers a new webhook endpoint for an upload profile
+   * @returns The subscription including its secret (only returned here)
+   */
+  async createSubscription(
+    dto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscription> {
+    this.logger.log(
+      `Creating webhook subscription for profile ${dto.uploadProfile}: ${dto.url}`,
+    );
+
+    const subscription = new this.webhookSubscriptionModel({
+      uploadProfile: dto.uploadProfile,
+      url: dto.url,
+      secret: dto.secret || randomBytes(32).toString('hex'),
+      events: dto.events?.length ? dto.events : Object.values(WebhookEvent),
+      description: dto.description,
+    });
+
+    return subscription.save();
+  }
+
+  /**
+   * Lists webhook subscriptions without their secrets
+   */
+  async listSubscriptions(
+    uploadProfile?: string,
+  ): Promise<WebhookSubscription[]> {
+    const filter = uploadProfile ? { uploadProfile } : {};
+    return this.webhookSubscriptionModel
+      .find(filter)
+      .select('-secret')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Deactivates a subscription, pending deliveries are still attempted
+   */
+  async deactivateSubscription(
+    subscriptionId: string,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.webhookSubscriptionModel
+      .findByIdAndUpdate(subscriptionId, { active: false }, { new: true })
+      .select('-secret')
+      .exec();
+
+    if (!subscription) {
+      throw new NotFoundException(
+        `Webhook subscription ${subscriptionId} not found`,
+      );
+    }
+
+    this.logger.log(`Deactivated webhook subscription ${subscriptionId}`);
+    return subscription;
+  }
+
+  /**
+   * Queues an event for every active subscription of the upload profile and attempts delivery right away
+   * @param event The event type
+   * @param uploadProfile The upload profile of the claim or asset the event belongs to
+   * @param data The event data (formatted claim response or asset facade)
+   */
+  async dispatch(
+    event: WebhookEvent,
+    uploadProfile: string,
+    data: Record<string, any>,
+  ): Promise<void> {
+    const subscriptions = await this.webhookSubscriptionModel
+      .find({
+        uploadProfile,
+        active: true,
+        events: event,
+      })
+      .exec();
+
+    if (!subscriptions.length) {
+      return;
+    }
+
+    this.logger.log(
+      `Dispatching ${event} for profile ${uploadProfile} to ${subscriptions.length} subscriber(s)`,
+    );
+
+    const deliveries = await this.webhookDeliveryModel.insertMany(
+      subscriptions.map((subscription) => ({
+        subscriptionId: subscription._id.toString(),
+        event,
+        uploadProfile,
+        payload: {
+          event,
+          createdAt: new Date().toISOString(),
+          data,
+        },
+      })),
+    );
+
+    await Promise.all(
+      deliveries.map((delivery) =>
+        this.attemptDelivery(delivery._id.toString()),
+      ),
+    );
+  }
+
+  /**
+   * Lists the delivery log
+   */
+  async listDeliveries(
+    query: ListWebhookDeliveriesDto,
+  ): Promise<WebhookDelivery[]> {
+    const filter: Record<string, any> = {};
+    if (query.subscriptionId) filter.subscriptionId = query.subscriptionId;
+    if (query.status) filter.status = query.status;
+
+    return this.webhookDeliveryModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(query.limit || 50)
+      .skip(query.skip || 0)
+      .exec();
+  }
+
+  /**
+   * Re-queues a delivery regardless of its current status and attempts it right away
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.webhookDeliveryModel
+      .findByIdAndUpdate(
+        deliveryId,
+        {
+          status: WebhookDeliveryStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          $unset: { lastError: 1, deliveredAt: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${deliveryId} not found`);
+    }
+
+    this.logger.log(`Redelivering webhook delivery ${deliveryId}`);
+    await this.attemptDelivery(deliveryId);
+
+    return (await this.webhookDeliveryModel.findById(deliveryId).exec())!;
+  }
+
+  /**
+   * Attempts all pending deliveries that are due
+   * @returns Number of attempted deliveries
+   */
+  private async dispatchDueDeliveries(): Promise<number> {
+    const due = await this.webhookDeliveryModel
+      .find({
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { $lte: new Date() },
+      })
+      .select('_id')
+      .sort({ nextAttemptAt: 1 })
+      .limit(config.webhooks.batchSize)
+      .exec();
+
+    for (const delivery of due) {
+      await this.attemptDelivery(delivery._id.toString());
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Performs a single delivery attempt and records the outcome
+   */
+  private async attemptDelivery(deliveryId: string): Promise<void> {
+    const now = new Date();
+    const { requestTimeoutMs, maxAttempts, initialBackoffMs, maxBackoffMs } =
+      config.webhooks;
+
+    // Lease the delivery so other replicas skip it while this attempt is in flight
+    const delivery = await this.webhookDeliveryModel
+      .findOneAndUpdate(
+        {
+          _id: deliveryId,
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: { $lte: now },
+        },
+        { nextAttemptAt: new Date(now.getTime() + requestTimeoutMs * 2) },
+        { new: true },
+      )
+      .exec();
+
+    if (!delivery) {
+      return;
+    }
+
+    const subscription = await this.webhookSubscriptionModel
+      .findById(delivery.subscriptionId)
+      .exec();
+    if (!subscription) {
+      delivery.status = WebhookDeliveryStatus.FAILED;
+      delivery.lastError = 'Subscription no longer exists';
+      await delivery.save();
+      return;
+    }
+
+    const body = JSON.stringify({ id: deliveryId, ...delivery.payload });
+    const timestamp = String(Math.floor(now.getTime() / 1000));
+    const attempts = delivery.attempts + 1;
+
+    let responseStatus: number | undefined;
+    let errorMessage: string | undefined;
+
+    try {
+      const response = await axios.post(subscription.url, body, {
+        timeout: requestTimeoutMs,
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_EVENT_HEADER]: delivery.event,
+          [WEBHOOK_DELIVERY_HEADER]: deliveryId,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            subscription.secret,
+            timestamp,
+            body,
+          ),
+        },
+        validateStatus: () => true,
+      });
+      responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        errorMessage = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = (error as Error).message;
+    }
+
+    delivery.attempts = attempts;
+    delivery.lastAttemptAt = now;
+    delivery.lastResponseStatus = responseStatus;
+
+    if (!errorMessage) {
+      delivery.status = WebhookDeliveryStatus.SUCCEEDED;
+      delivery.deliveredAt = new Date();
+      delivery.lastError = undefined;
+      this.logger.log(
+        `Webhook delivery ${deliveryId} (${delivery.event}) succeeded after ${attempts} attempt(s)`,
+      );
+    } else if (attempts >= maxAttempts) {
+      delivery.status = WebhookDeliveryStatus.FAILED;
+      delivery.lastError = errorMessage;
+      this.logger.error(
+        `Webhook delivery ${deliveryId} (${delivery.event}) failed permanently: ${errorMessage}`,
+      );
+    } else {
+      const delay = computeBackoffDelay(
+        attempts,
+        initialBackoffMs,
+        maxBackoffMs,
+      );
+      delivery.nextAttemptAt = new Date(Date.now() + delay);
+      delivery.lastError = errorMessage;
+      this.logger.warn(
+        `Webhook delivery ${deliveryId} (${delivery.event}) failed, retrying in ${delay}ms: ${errorMessage}`,
+      );
+    }
+
+    await delivery.save();
+  }
+}
@@ -4,6 +4,7 @@ import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ValidationPipe, VersioningType } from '@nestjs/common';
 import config from './config';
 import * as bodyParser from 'body-parser';
+import { TUS_CHUNK_CONTENT_TYPE } from './shared/utils/tus.util';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
@@ -14,6 +15,8 @@ async function bootstrap() {
   // Set up custom body parsers
   app.use(bodyParser.json({ limit: '50mb' }));
   app.use(bodyParser.urlencoded({ extended: true, limit: '50mb' }));
+  // Raw chunks for resumable (tus) uploads
+  app.use(bodyParser.raw({ type: TUS_CHUNK_CONTENT_TYPE, limit: config.media.resumableUpload.maxChunkSize }));
   
   // Set up validation pipe
   app.useGlobalPipes(new ValidationPipe({
@@ -27,6 +30,7 @@ async function bootstrap() {
     origin: true,
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE,OPTIONS',
     credentials: true,
+    exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length', 'Upload-Expires', 'Tus-Resumable', 'Tus-Version', 'Tus-Extension', 'Tus-Max-Size'],
   });
 
   // Enable versioning
@@ -45,6 +49,10 @@ async function bootstrap() {
     .addTag('videos', 'Video upload and management')
     .addTag('upload-claim', 'Upload claim management')
     .addTag('retrieval', 'Media asset retrieval')
+    .addTag('webhooks', 'Outbound webhook subscriptions and deliveries')
+    .addTag('outbox', 'Pending and failed side-effects of the transactional outbox')
+    .addTag('user-data', 'GDPR export and erasure of user data')
+    .addTag('reconciliation', 'Orphaned S3 objects and dangling asset records')
     .addBearerAuth()
     .build();
   const document = SwaggerModule.createDocument(app, swaggerConfig);
@@ -37,4 +37,27 @@ export class UploadResponseDto implements UploadResult {
     example: 'webp',
   })
   format: string;
+
+  @ApiProperty({
+    description: 'URLs of the uploaded image in every output format, keyed by format',
+    example: {
+      webp: 'https://gpe-media.s3.eu-central-1.amazonaws.com/uploads/profile_pictures/123/index.webp',
+      avif: 'https://gpe-media.s3.eu-central-1.amazonaws.com/uploads/profile_pictures/123/index.avif',
+      jpeg: 'https://gpe-media.s3.eu-central-1.amazonaws.com/uploads/profile_pictures/123/index.jpg',
+    },
+    required: false,
+  })
+  formats?: Record<string, string>;
+
+  @ApiProperty({
+    description: 'URLs of every resolution in every output format, keyed by resolution and format',
+    example: {
+      thumbnail: {
+        webp: 'https://gpe-media.s3.eu-central-1.amazonaws.com/uploads/profile_pictures/123/thumbnail.webp',
+        jpeg: 'https://gpe-media.s3.eu-central-1.amazonaws.com/uploads/profile_pictures/123/thumbnail.jpg',
+      },
+    },
+    required: false,
+  })
+  resolutionFormats?: Record<string, Record<string, string>>;
 }
\ No newline at end of file
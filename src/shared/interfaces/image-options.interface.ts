@@ -1,8 +1,13 @@
+import { ImageCropMode, ImageOutputFormat } from '../../config/types';
+import { CropRect } from '../utils/image-crop.util';
+
 export interface ResolutionOption {
   width: number;
   height: number;
   quality?: number;
   suffix: string; // e.g., "thumbnail", "small", "medium"
+  formats?: ImageOutputFormat[]; // Formats to encode, the first is the primary one (default: webp)
+  crop?: CropRect; // Region of the source to resize
 }
 
 export interface ImageOptions {
@@ -16,5 +21,8 @@ export interface ImageOptions {
   format?: string;
   aspectRatio?: string; // e.g. '1:1', '16:9'
   allowedDeviation?: number; // e.g. 0.075 for 7.5%
+  cropMode?: ImageCropMode; // How images deviating from the aspect ratio are handled (default: reject)
+  crop?: CropRect; // Region of the source to process, checked against the aspect ratio instead of the whole image
   resolutions?: ResolutionOption[]; // Additional resolutions to generate
+  formats?: ImageOutputFormat[]; // Formats to encode, the first is the primary one (default: webp)
 }
\ No newline at end of file
@@ -5,6 +5,8 @@ export interface UploadResult {
   width: number;
   height: number;
   format: string;
-  resolutions?: Record<string, string>; // Map of resolution names to URLs
+  resolutions?: Record<string, string>; // Map of resolution names to URLs of their primary format
+  formats?: Record<string, string>; // Map of formats to URLs of the main image, e.g. for <picture> sources
+  resolutionFormats?: Record<string, Record<string, string>>; // Map of resolution names to their format maps
   moderationWarning?: string; // Warning message if content moderation detected potential issues
 }
\ No newline at end of file
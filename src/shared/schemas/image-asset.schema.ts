@@ -3,6 +3,28 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Schema as MongooseSchema } from 'mongoose';
 import { UploadClaim } from '../../backend-for-frontend/upload-claim/schemas/upload-claim.schema';
 import { IImageAsset, ModerationStatus } from '@gpe/backend-common/dist/schema/media';
+import { CropRect, FocalPoint } from '../utils/image-crop.util';
+
+/**
+ * A rendition stored in one output format
+ */
+export interface ImageFormatVersion {
+  url: string;
+  storageKey: string;
+  size?: number; // Bytes
+}
+
+/**
+ * The uploaded image without metadata and with its orientation applied, stored privately
+ */
+export interface ImageOriginal {
+  storageKey: string;
+  format: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  size: number; // Bytes
+}
 
 @Schema({ timestamps: true })
 export class ImageAsset extends Document implements IImageAsset {
@@ -31,7 +53,19 @@ export class ImageAsset extends Document implements IImageAsset {
   height?: number;
 
   @Prop()
-  format?: string;
+  format?: string; // Primary format, the one storageUrl points to
+
+  @Prop({ type: Object })
+  formats?: Record<string, ImageFormatVersion>; // The main image in every output format, including the primary one
+
+  @Prop({ type: Object })
+  original?: ImageOriginal; // Master every rendition is derived from, not set for images uploaded before it was kept
+
+  @Prop({ type: Object })
+  crop?: CropRect; // Region of the original the renditions show, not set if the image was not cropped
+
+  @Prop({ type: Object })
+  focalPoint?: FocalPoint; // Kept in view whenever renditions are cropped, relative to the original
 
   @Prop()
   storageUrl?: string;
@@ -85,6 +119,24 @@ export class ImageAsset extends Document implements IImageAsset {
   @Prop()
   processingDurationMs?: number; // Time it took to process the upload
 
+  @Prop()
+  deletedAt?: Date; // Tombstone, set once the asset was deleted
+
+  @Prop()
+  deletedBy?: string; // User ID of the owner or 'internal'
+
+  @Prop()
+  purgeAfter?: Date; // End of the restore window, the stored files are removed afterwards
+
+  @Prop()
+  purgedAt?: Date; // When the stored files were removed, the asset can no longer be restored
+
+  @Prop({ type: [String], default: undefined })
+  transformVariants?: string[]; // File names of the variants cached by the transformation endpoint
+
+  @Prop()
+  transformVariantsSize?: number; // Bytes of all cached variants
+
   @Prop({ type: Object })
   resizedVersions?: {
     thumbnail?: {
@@ -92,24 +144,32 @@ export class ImageAsset extends Document implements IImageAsset {
       width: number;
       height: number;
       storageKey: string;
+      size?: number; // Bytes
+      formats?: Record<string, ImageFormatVersion>;
     };
     small?: {
       url: string;
       width: number;
       height: number;
       storageKey: string;
+      size?: number; // Bytes
+      formats?: Record<string, ImageFormatVersion>;
     };
     medium?: {
       url: string;
       width: number;
       height: number;
       storageKey: string;
+      size?: number; // Bytes
+      formats?: Record<string, ImageFormatVersion>;
     };
     [key: string]: {
       url: string;
       width: number;
       height: number;
       storageKey: string;
+      size?: number; // Bytes
+      formats?: Record<string, ImageFormatVersion>; // Every output format, url/storageKey/size are the primary one's
     } | undefined;
   };
 }
@@ -123,4 +183,6 @@ ImageAssetSchema.index({ createdAt: -1 });
 ImageAssetSchema.index({ storageKey: 1 });
 ImageAssetSchema.index({ isPublic: 1 });
 ImageAssetSchema.index({ tags: 1 });
-ImageAssetSchema.index({ moderationStatus: 1 });
\ No newline at end of file
+ImageAssetSchema.index({ moderationStatus: 1 });
+ImageAssetSchema.index({ deletedAt: 1 });
+ImageAssetSchema.index({ purgeAfter: 1 });
\ No newline at end of file
@@ -67,6 +67,18 @@ export class VideoAsset extends Document implements IVideoAsset {
   @Prop({ type: String })
   claimId?: string;
 
+  @Prop()
+  deletedAt?: Date; // Tombstone, set once the asset was deleted
+
+  @Prop()
+  deletedBy?: string; // User ID of the owner, 'internal' or 'mux'
+
+  @Prop()
+  purgeAfter?: Date; // End of the restore window, the stored files are removed afterwards
+
+  @Prop()
+  purgedAt?: Date; // When the stored files were removed, the asset can no longer be restored
+
   @Prop({
     type: Object,
     default: () => ({})
@@ -82,4 +94,6 @@ VideoAssetSchema.index({ passTroughUploadID: 1 });
 VideoAssetSchema.index({ muxDirectUploadId: 1 });
 VideoAssetSchema.index({ muxAssetId: 1 });
 VideoAssetSchema.index({ claimId: 1 });
-VideoAssetSchema.index({ createdAt: -1 });
\ No newline at end of file
+VideoAssetSchema.index({ createdAt: -1 });
+VideoAssetSchema.index({ deletedAt: 1 });
+VideoAssetSchema.index({ purgeAfter: 1 });
\ No newline at end of file
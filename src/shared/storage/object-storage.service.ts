@@ -0,0 +1,201 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import config from '../../config';
+import { StoredObject } from '../utils/reconciliation.util';
+
+/**
+ * Low level S3 object operations that the shared S3Service does not cover
+ * (presigned URLs and reading objects back).
+ */
+@Injectable()
+export class ObjectStorageService {
+  private readonly logger = new Logger(ObjectStorageService.name);
+  private readonly s3Client: S3Client;
+  private readonly bucket = config.aws.services.s3.bucket;
+
+  constructor() {
+    this.s3Client = new S3Client({ region: config.aws.services.s3.region });
+    this.logger.log(
+      `ObjectStorageService initialized for bucket ${this.bucket}`,
+    );
+  }
+
+  /**
+   * Creates a presigned PUT URL that only accepts the given content type and length
+   * @param key The object key to upload to
+   * @param contentType The MIME type the client must send
+   * @param contentLength The exact number of bytes the client must send
+   * @param expiresInSeconds How long the URL stays valid
+   * @returns The presigned URL
+   */
+  async createPresignedPutUrl(
+    key: string,
+    contentType: string,
+    contentLength: number,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    this.logger.log(
+      `Creating presigned PUT URL for ${key} (${contentType}, ${contentLength} bytes)`,
+    );
+
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: contentType,
+      ContentLength: contentLength,
+    });
+
+    return getSignedUrl(this.s3Client, command, {
+      expiresIn: expiresInSeconds,
+      // Make S3 reject uploads that do not match the signed type and size
+      signableHeaders: new Set(['content-type', 'content-length']),
+    });
+  }
+
+  /**
+   * Creates a presigned GET URL for downloading an object
+   * @param key The object key
+   * @param expiresInSeconds How long the URL stays valid
+   * @returns The presigned URL
+   */
+  async createPresignedGetUrl(
+    key: string,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    const command = new GetObjectCommand({ Bucket: this.bucket, Key: key });
+    return getSignedUrl(this.s3Client, command, {
+      expiresIn: expiresInSeconds,
+    });
+  }
+
+  /**
+   * Uploads an object from memory
+   * @param key The object key
+   * @param body The object contents
+   * @param contentType The MIME type of the object
+   */
+  async putObject(
+    key: string,
+    body: Buffer,
+    contentType: string,
+  ): Promise<void> {
+    this.logger.log(
+      `Uploading object ${key} (${contentType}, ${body.length} bytes)`,
+    );
+    await this.s3Client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }),
+    );
+  }
+
+  /**
+   * Downloads an object into memory
+   * @param key The object key
+   * @returns The object contents
+   * @throws NotFoundException if the object does not exist
+   */
+  async getObjectBuffer(key: string): Promise<Buffer> {
+    this.logger.log(`Downloading object ${key}`);
+
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      const bytes = await response.Body!.transformToByteArray();
+      return Buffer.from(bytes);
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new NotFoundException(`Object ${key} not found`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists all objects below a prefix, following pagination
+   * @param prefix The key prefix
+   * @returns Key, size and modification date of every object
+   */
+  async listObjects(prefix: string): Promise<StoredObject[]> {
+    this.logger.log(`Listing objects below ${prefix}`);
+
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      (response.Contents || []).forEach((object) => {
+        if (object.Key) {
+          objects.push({
+            key: object.Key,
+            size: object.Size ?? 0,
+            lastModified: object.LastModified ?? new Date(0),
+          });
+        }
+      });
+      continuationToken = response.IsTruncated
+        ? response.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  /**
+   * Lists one page of objects below a prefix, in key order
+   * @param prefix The key prefix
+   * @param maxKeys Maximum number of objects to return
+   * @param startAfter Key to continue after, the last key of the previous page
+   * @returns The objects of the page and whether more objects follow
+   */
+  async listObjectPage(
+    prefix: string,
+    maxKeys: number,
+    startAfter?: string,
+  ): Promise<{ objects: StoredObject[]; isTruncated: boolean }> {
+    const response = await this.s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        MaxKeys: maxKeys,
+        StartAfter: startAfter,
+      }),
+    );
+    const objects = (response.Contents || [])
+      .filter((object) => object.Key)
+      .map((object) => ({
+        key: object.Key!,
+        size: object.Size ?? 0,
+        lastModified: object.LastModified ?? new Date(0),
+      }));
+    return { objects, isTruncated: !!response.IsTruncated };
+  }
+
+  /**
+   * Deletes a single object
+   * @param key The object key
+   */
+  async deleteObject(key: string): Promise<void> {
+    this.logger.log(`Deleting object ${key}`);
+    await this.s3Client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { toAssetFacade } from './asset-facade.util';
+
+describe('toAssetFacade', () => {
+  it('should replace _id with a type prefixed id', () => {
+    const facade = toAssetFacade(
+      { _id: 'abc123', storageUrl: 'https://cdn/a.webp' },
+      'image',
+    );
+    expect(facade).toEqual({
+      id: 'image-abc123',
+      storageUrl: 'https://cdn/a.webp',
+    });
+  });
+
+  it('should convert documents to plain objects first', () => {
+    const document = {
+      _id: 'def456',
+      toObject: () => ({ _id: 'def456', status: 'ready' }),
+    };
+    expect(toAssetFacade(document, 'video')).toEqual({
+      id: 'video-def456',
+      status: 'ready',
+    });
+  });
+});
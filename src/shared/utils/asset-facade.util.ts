@@ -0,0 +1,22 @@
+export type AssetType = 'image' | 'video';
+
+/**
+ * Converts an asset into its public facade: a plain object with a type prefixed id ("image-<id>")
+ * instead of the Mongo _id. Used by the retrieval API and for outgoing media events.
+ */
+export function toAssetFacade<
+  T extends { _id?: { toString(): string }; toObject?: () => unknown },
+>(asset: T, type: AssetType): Omit<T, 'id'> & { id: string } {
+  // Ensure we are working with a plain object, not a Mongoose document
+  const plain =
+    typeof asset.toObject === 'function'
+      ? (asset.toObject() as T)
+      : { ...asset };
+  const id = plain._id?.toString() ?? '';
+  const newAsset: Partial<T> & { id: string } = {
+    ...plain,
+    id: `${type}-${id}`,
+  };
+  delete newAsset._id;
+  return newAsset as Omit<T, 'id'> & { id: string };
+}
@@ -0,0 +1,17 @@
+import { computeBackoffDelay } from './backoff.util';
+
+describe('computeBackoffDelay', () => {
+  it('should double the delay with every attempt', () => {
+    expect(computeBackoffDelay(1, 1000, 60000)).toBe(1000);
+    expect(computeBackoffDelay(2, 1000, 60000)).toBe(2000);
+    expect(computeBackoffDelay(4, 1000, 60000)).toBe(8000);
+  });
+
+  it('should never exceed the maximum delay', () => {
+    expect(computeBackoffDelay(20, 1000, 60000)).toBe(60000);
+  });
+
+  it('should treat attempt 0 like the first attempt', () => {
+    expect(computeBackoffDelay(0, 1000, 60000)).toBe(1000);
+  });
+});
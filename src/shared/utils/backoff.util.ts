@@ -0,0 +1,15 @@
+/**
+ * Computes an exponential backoff delay for a retry attempt
+ * @param attempt The number of attempts made so far (1 = first attempt failed)
+ * @param initialDelayMs Delay after the first failed attempt
+ * @param maxDelayMs Upper bound for the delay
+ * @returns Delay in milliseconds before the next attempt
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  initialDelayMs: number,
+  maxDelayMs: number,
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(initialDelayMs * Math.pow(2, exponent), maxDelayMs);
+}
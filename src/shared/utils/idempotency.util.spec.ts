@@ -0,0 +1,42 @@
+import { fingerprintRequest, stableStringify } from './idempotency.util';
+
+describe('idempotency utils', () => {
+  describe('stableStringify', () => {
+    it('should not depend on the key order', () => {
+      expect(stableStringify({ b: 1, a: { d: 2, c: 3 } })).toBe(
+        stableStringify({ a: { c: 3, d: 2 }, b: 1 }),
+      );
+    });
+
+    it('should skip undefined properties', () => {
+      expect(stableStringify({ a: 1, b: undefined })).toBe(
+        stableStringify({ a: 1 }),
+      );
+    });
+
+    it('should hash buffers by content', () => {
+      expect(stableStringify(Buffer.from('image'))).toBe(
+        stableStringify(Buffer.from('image')),
+      );
+      expect(stableStringify(Buffer.from('image'))).not.toBe(
+        stableStringify(Buffer.from('other')),
+      );
+    });
+  });
+
+  describe('fingerprintRequest', () => {
+    it('should be equal for equal parameters', () => {
+      expect(
+        fingerprintRequest({ claimId: 'claim-1', file: Buffer.from('a') }),
+      ).toBe(
+        fingerprintRequest({ file: Buffer.from('a'), claimId: 'claim-1' }),
+      );
+    });
+
+    it('should differ for different parameters', () => {
+      expect(fingerprintRequest({ claimId: 'claim-1' })).not.toBe(
+        fingerprintRequest({ claimId: 'claim-2' }),
+      );
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { createHash } from 'crypto';
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal values always produce the same string
+ */
+export function stableStringify(value: unknown): string {
+  if (Buffer.isBuffer(value)) {
+    return JSON.stringify(createHash('sha256').update(value).digest('hex'));
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hashes the parameters of a request, used to detect an idempotency key being reused for a different request.
+ * Buffers (e.g. uploaded files) are hashed by content.
+ */
+export function fingerprintRequest(parameters: unknown): string {
+  return createHash('sha256').update(stableStringify(parameters)).digest('hex');
+}
@@ -0,0 +1,80 @@
+import {
+  aspectRatioDeviation,
+  computeCropRect,
+  cropCenter,
+  findCropViolation,
+  parseAspectRatio,
+} from './image-crop.util';
+
+describe('image crop util', () => {
+  const image = { left: 0, top: 0, width: 400, height: 200 };
+
+  it('should parse aspect ratios', () => {
+    expect(parseAspectRatio('16:9')).toBeCloseTo(16 / 9);
+    expect(parseAspectRatio('1:0')).toBeNull();
+    expect(parseAspectRatio(undefined)).toBeNull();
+    expect(aspectRatioDeviation(400, 200, 1)).toBe(1);
+  });
+
+  it('should crop the largest centered region by default', () => {
+    expect(computeCropRect(image, 1)).toEqual({
+      left: 100,
+      top: 0,
+      width: 200,
+      height: 200,
+    });
+    expect(computeCropRect(image, 4)).toEqual({
+      left: 0,
+      top: 50,
+      width: 400,
+      height: 100,
+    });
+  });
+
+  it('should center on the focus as far as the edges allow', () => {
+    expect(computeCropRect(image, 1, { x: 250, y: 100 })).toEqual({
+      left: 150,
+      top: 0,
+      width: 200,
+      height: 200,
+    });
+    expect(computeCropRect(image, 1, { x: 390, y: 10 })).toEqual({
+      left: 200,
+      top: 0,
+      width: 200,
+      height: 200,
+    });
+  });
+
+  it('should stay inside the bounds', () => {
+    const bounds = { left: 100, top: 50, width: 200, height: 100 };
+    expect(computeCropRect(bounds, 1, { x: 0, y: 0 })).toEqual({
+      left: 100,
+      top: 50,
+      width: 100,
+      height: 100,
+    });
+  });
+
+  it('should reject regions outside the image', () => {
+    expect(
+      findCropViolation({ left: 0, top: 0, width: 400, height: 200 }, 400, 200),
+    ).toBeNull();
+    expect(
+      findCropViolation(
+        { left: 300, top: 0, width: 200, height: 200 },
+        400,
+        200,
+      ),
+    ).toContain('exceeds the image');
+    expect(
+      findCropViolation({ left: 0, top: 0, width: 0, height: 200 }, 400, 200),
+    ).toContain('at least 1 pixel');
+  });
+
+  it('should locate the center of a region', () => {
+    expect(
+      cropCenter({ left: 200, top: 0, width: 200, height: 200 }, 400, 200),
+    ).toEqual({ x: 0.75, y: 0.5 });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Point of interest of an image, relative to its width and height (0-1)
+ */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Region of an image in pixels
+ */
+export interface CropRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Which part of an image its renditions show, both optional
+ */
+export interface ImageFraming {
+  crop?: CropRect; // Region of the original every rendition is cut from
+  focalPoint?: FocalPoint; // Kept in view when renditions are cropped further
+}
+
+/**
+ * Parses an aspect ratio like "16:9"
+ * @returns Width divided by height, null if the ratio is invalid
+ */
+export function parseAspectRatio(aspectRatio?: string): number | null {
+  const [num, denom] = (aspectRatio ?? '').split(':').map(Number);
+  return num > 0 && denom > 0 ? num / denom : null;
+}
+
+/**
+ * Relative deviation of the aspect ratio of an image from the expected one, e.g. 0.1 for 10%
+ */
+export function aspectRatioDeviation(
+  width: number,
+  height: number,
+  expectedRatio: number,
+): number {
+  return Math.abs(width / height - expectedRatio) / expectedRatio;
+}
+
+/**
+ * Largest region with the given aspect ratio inside the bounds, centered on the focus as far as the edges allow
+ * @param bounds Region to crop from, e.g. the whole image
+ * @param ratio Width divided by height of the region
+ * @param focus Point to center on in pixels, the center of the bounds if not set
+ */
+export function computeCropRect(
+  bounds: CropRect,
+  ratio: number,
+  focus?: { x: number; y: number },
+): CropRect {
+  const width = Math.max(
+    1,
+    Math.min(bounds.width, Math.round(bounds.height * ratio)),
+  );
+  const height = Math.max(
+    1,
+    Math.min(bounds.height, Math.round(width / ratio)),
+  );
+  const centerX = focus?.x ?? bounds.left + bounds.width / 2;
+  const centerY = focus?.y ?? bounds.top + bounds.height / 2;
+
+  const clamp = (start: number, size: number, min: number, max: number) =>
+    Math.min(Math.max(Math.round(start), min), max - size);
+  return {
+    left: clamp(
+      centerX - width / 2,
+      width,
+      bounds.left,
+      bounds.left + bounds.width,
+    ),
+    top: clamp(
+      centerY - height / 2,
+      height,
+      bounds.top,
+      bounds.top + bounds.height,
+    ),
+    width,
+    height,
+  };
+}
+
+/**
+ * Converts a focal point into pixels of an image of the given size
+ */
+export function focalPointToPixels(
+  focalPoint: FocalPoint,
+  width: number,
+  height: number,
+): { x: number; y: number } {
+  return { x: focalPoint.x * width, y: focalPoint.y * height };
+}
+
+/**
+ * The center of a region as focal point of an image of the given size
+ */
+export function cropCenter(
+  crop: CropRect,
+  width: number,
+  height: number,
+): FocalPoint {
+  return {
+    x: (crop.left + crop.width / 2) / width,
+    y: (crop.top + crop.height / 2) / height,
+  };
+}
+
+/**
+ * Checks whether a region lies within an image of the given size
+ * @returns Why it does not, or null if it does
+ */
+export function findCropViolation(
+  crop: CropRect,
+  width: number,
+  height: number,
+): string | null {
+  if (crop.width < 1 || crop.height < 1) {
+    return 'Crop width and height must be at least 1 pixel';
+  }
+  if (
+    crop.left < 0 ||
+    crop.top < 0 ||
+    crop.left + crop.width > width ||
+    crop.top + crop.height > height
+  ) {
+    return `Crop ${crop.width}x${crop.height} at ${crop.left},${crop.top} exceeds the image (${width}x${height})`;
+  }
+  return null;
+}
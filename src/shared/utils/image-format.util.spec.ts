@@ -0,0 +1,43 @@
+import {
+  imageEncoderOptions,
+  originalEncoding,
+  renditionFileName,
+  resolveImageFormats,
+} from './image-format.util';
+
+describe('image format util', () => {
+  it('should keep the declared order without duplicates', () => {
+    expect(resolveImageFormats(['avif', 'webp', 'avif', 'jpeg'])).toEqual([
+      'avif',
+      'webp',
+      'jpeg',
+    ]);
+  });
+
+  it('should fall back to the profile formats, then to webp', () => {
+    expect(resolveImageFormats(undefined, ['webp', 'jpeg'])).toEqual([
+      'webp',
+      'jpeg',
+    ]);
+    expect(resolveImageFormats([], [])).toEqual(['webp']);
+  });
+
+  it('should name renditions by their file extension', () => {
+    expect(renditionFileName('index', 'webp')).toBe('index.webp');
+    expect(renditionFileName('thumbnail', 'jpeg')).toBe('thumbnail.jpg');
+  });
+
+  it('should encode jpeg progressively', () => {
+    expect(imageEncoderOptions('jpeg', 80)).toEqual({
+      quality: 80,
+      mozjpeg: true,
+      progressive: true,
+    });
+  });
+
+  it('should store originals in their uploaded format or as PNG', () => {
+    expect(originalEncoding('jpeg').extension).toBe('jpg');
+    expect(originalEncoding('webp').options).toEqual({ lossless: true });
+    expect(originalEncoding('gif').format).toBe('png');
+  });
+});
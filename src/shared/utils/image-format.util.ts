@@ -0,0 +1,96 @@
+import { ImageOutputFormat } from '../../config/types';
+
+export const DEFAULT_IMAGE_FORMATS: ImageOutputFormat[] = ['webp'];
+
+export const IMAGE_FORMAT_MIME_TYPES: Record<ImageOutputFormat, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpeg: 'image/jpeg',
+};
+
+export const IMAGE_FORMAT_EXTENSIONS: Record<ImageOutputFormat, string> = {
+  webp: 'webp',
+  avif: 'avif',
+  jpeg: 'jpg',
+};
+
+/**
+ * Formats to encode a rendition in without duplicates, the first one is the primary format
+ * @param formats Formats of the rendition
+ * @param fallback Formats used if the rendition does not declare any
+ */
+export function resolveImageFormats(
+  formats?: ImageOutputFormat[],
+  fallback: ImageOutputFormat[] = DEFAULT_IMAGE_FORMATS,
+): ImageOutputFormat[] {
+  const resolved = [...new Set(formats?.length ? formats : fallback)];
+  return resolved.length ? resolved : DEFAULT_IMAGE_FORMATS;
+}
+
+/**
+ * Sharp encoder options of a format
+ */
+export function imageEncoderOptions(
+  format: ImageOutputFormat,
+  quality: number,
+): Record<string, unknown> {
+  switch (format) {
+    case 'avif':
+      return { quality, effort: 4 }; // AVIF encoding is slow, higher efforts barely pay off
+    case 'jpeg':
+      return { quality, mozjpeg: true, progressive: true };
+    default:
+      return { quality, effort: 6 }; // Higher compression effort
+  }
+}
+
+/**
+ * File name of a rendition in its asset folder, e.g. "index.webp" or "thumbnail.jpg"
+ */
+export function renditionFileName(
+  name: string,
+  format: ImageOutputFormat,
+): string {
+  return `${name}.${IMAGE_FORMAT_EXTENSIONS[format]}`;
+}
+
+/**
+ * Format of the sanitized original, the uploaded format where it can be re-encoded without visible loss
+ */
+export interface OriginalEncoding {
+  format: 'jpeg' | 'png' | 'webp';
+  extension: string;
+  mimeType: string;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Picks the format the sanitized original is stored in
+ * @param inputFormat Format of the uploaded file as detected by sharp
+ */
+export function originalEncoding(inputFormat?: string): OriginalEncoding {
+  switch (inputFormat) {
+    case 'jpeg':
+      return {
+        format: 'jpeg',
+        extension: 'jpg',
+        mimeType: 'image/jpeg',
+        options: { quality: 95, chromaSubsampling: '4:4:4' },
+      };
+    case 'webp':
+      return {
+        format: 'webp',
+        extension: 'webp',
+        mimeType: 'image/webp',
+        options: { lossless: true },
+      };
+    default:
+      // PNG keeps every pixel of the remaining formats (png, gif, tiff, ...)
+      return {
+        format: 'png',
+        extension: 'png',
+        mimeType: 'image/png',
+        options: {},
+      };
+  }
+}
@@ -0,0 +1,92 @@
+import { ImageTransformAllowlist } from '../../config/types';
+import {
+  findImageTransformViolation,
+  imageTransformETag,
+  imageTransformFileName,
+  imageTransformVersion,
+  matchesETag,
+  resolveImageTransform,
+} from './image-transform.util';
+
+describe('image transform util', () => {
+  const allowlist: ImageTransformAllowlist = {
+    widths: [128, 256],
+    heights: [128],
+    fits: ['inside', 'cover'],
+    formats: ['webp', 'jpeg'],
+    qualities: [75, 90],
+  };
+
+  it('should only allow listed values', () => {
+    expect(
+      findImageTransformViolation(
+        { width: 256, fit: 'cover', format: 'jpeg', quality: 90 },
+        allowlist,
+      ),
+    ).toBeNull();
+    expect(findImageTransformViolation({ width: 300 }, allowlist)).toContain(
+      'Width 300 is not allowed',
+    );
+    expect(
+      findImageTransformViolation({ height: 128, format: 'avif' }, allowlist),
+    ).toContain('Format avif');
+    expect(findImageTransformViolation({ fit: 'cover' }, allowlist)).toBe(
+      'Either a width or a height is required',
+    );
+  });
+
+  it('should default to the first allowed values', () => {
+    expect(resolveImageTransform({ width: 128 }, allowlist)).toEqual({
+      width: 128,
+      height: undefined,
+      fit: 'inside',
+      format: 'webp',
+      quality: 75,
+    });
+  });
+
+  it('should name cached renditions by their parameters and source version', () => {
+    const transform = resolveImageTransform(
+      { width: 256, format: 'jpeg' },
+      allowlist,
+    );
+    const fileName = imageTransformFileName('transform-', transform, 'v1');
+
+    expect(fileName).toBe('transform-256xauto-inside-q75-v1.jpg');
+    expect(imageTransformETag('abc', fileName)).toBe(
+      imageTransformETag('abc', fileName),
+    );
+    expect(imageTransformETag('abc', fileName)).not.toBe(
+      imageTransformETag('def', fileName),
+    );
+  });
+
+  it('should only change the version with the source and its framing', () => {
+    const version = imageTransformVersion('images/a/original.png', {
+      focalPoint: { x: 0.5, y: 0.5 },
+    });
+
+    expect(
+      imageTransformVersion('images/a/original.png', {
+        focalPoint: { x: 0.5, y: 0.5 },
+      }),
+    ).toBe(version);
+    expect(
+      imageTransformVersion('images/a/original.png', {
+        focalPoint: { x: 0.2, y: 0.5 },
+      }),
+    ).not.toBe(version);
+    expect(
+      imageTransformVersion('images/b/original.png', {
+        focalPoint: { x: 0.5, y: 0.5 },
+      }),
+    ).not.toBe(version);
+  });
+
+  it('should match If-None-Match lists and weak tags', () => {
+    expect(matchesETag('"a", W/"b"', '"b"')).toBe(true);
+    expect(matchesETag('*', '"b"')).toBe(true);
+    expect(matchesETag('"a"', '"b"')).toBe(false);
+    expect(matchesETag(undefined, '"b"')).toBe(false);
+  });
+});
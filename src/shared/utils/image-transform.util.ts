@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import {
+  ImageOutputFormat,
+  ImageTransformAllowlist,
+  ImageTransformFit,
+} from '../../config/types';
+import { renditionFileName } from './image-format.util';
+import { ImageFraming } from './image-crop.util';
+
+/**
+ * Rendition requested from the transformation endpoint, unset values fall back to the allowlist defaults
+ */
+export interface ImageTransformQuery {
+  width?: number;
+  height?: number;
+  fit?: ImageTransformFit;
+  format?: ImageOutputFormat;
+  quality?: number;
+}
+
+export interface ImageTransform {
+  width?: number;
+  height?: number;
+  fit: ImageTransformFit;
+  format: ImageOutputFormat;
+  quality: number;
+}
+
+/**
+ * Checks a requested rendition against the allowlist of an upload profile
+ * @returns Why the rendition is not allowed, or null if it is
+ */
+export function findImageTransformViolation(
+  query: ImageTransformQuery,
+  allowlist: ImageTransformAllowlist,
+): string | null {
+  if (query.width === undefined && query.height === undefined) {
+    return 'Either a width or a height is required';
+  }
+  if (query.width !== undefined && !allowlist.widths.includes(query.width)) {
+    return `Width ${query.width} is not allowed. Allowed: ${allowlist.widths.join(', ')}`;
+  }
+  if (query.height !== undefined && !allowlist.heights.includes(query.height)) {
+    return `Height ${query.height} is not allowed. Allowed: ${allowlist.heights.join(', ')}`;
+  }
+  if (query.fit !== undefined && !allowlist.fits.includes(query.fit)) {
+    return `Fit ${query.fit} is not allowed. Allowed: ${allowlist.fits.join(', ')}`;
+  }
+  if (query.format !== undefined && !allowlist.formats.includes(query.format)) {
+    return `Format ${query.format} is not allowed. Allowed: ${allowlist.formats.join(', ')}`;
+  }
+  if (
+    query.quality !== undefined &&
+    !allowlist.qualities.includes(query.quality)
+  ) {
+    return `Quality ${query.quality} is not allowed. Allowed: ${allowlist.qualities.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Fills unset values of an allowed rendition with the first entry of the allowlist
+ */
+export function resolveImageTransform(
+  query: ImageTransformQuery,
+  allowlist: ImageTransformAllowlist,
+): ImageTransform {
+  return {
+    width: query.width,
+    height: query.height,
+    fit: query.fit ?? allowlist.fits[0],
+    format: query.format ?? allowlist.formats[0],
+    quality: query.quality ?? allowlist.qualities[0],
+  };
+}
+
+/**
+ * Version of the source renditions are derived from. It only changes with the source file and its framing,
+ * not with other updates of the asset (e.g. a soft delete and restore).
+ * @param sourceKey Storage key of the file renditions are derived from
+ */
+export function imageTransformVersion(
+  sourceKey: string,
+  framing: ImageFraming,
+): string {
+  const source = JSON.stringify([
+    sourceKey,
+    framing.crop ?? null,
+    framing.focalPoint ?? null,
+  ]);
+  return createHash('sha1').update(source).digest('hex').slice(0, 8);
+}
+
+/**
+ * File name of a cached rendition in the asset folder, e.g. "transform-256xauto-inside-q75-3f2a9c1b.webp".
+ * The version of the source is part of the name, so renditions of a changed source are generated anew.
+ * @param prefix File name prefix of cached renditions
+ * @param version Version of the source, see imageTransformVersion
+ */
+export function imageTransformFileName(
+  prefix: string,
+  transform: ImageTransform,
+  version: string,
+): string {
+  const size = `${transform.width ?? 'auto'}x${transform.height ?? 'auto'}`;
+  const name = `${prefix}${size}-${transform.fit}-q${transform.quality}-${version}`;
+  return renditionFileName(name, transform.format);
+}
+
+/**
+ * Strong ETag of a cached rendition, derived from the asset and the file name so it is known before the rendition is generated
+ */
+export function imageTransformETag(assetId: string, fileName: string): string {
+  return `"${createHash('sha1').update(`${assetId}/${fileName}`).digest('hex')}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches an ETag
+ */
+export function matchesETag(
+  ifNoneMatch: string | undefined,
+  etag: string,
+): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
@@ -0,0 +1,59 @@
+import { Logger } from '@nestjs/common';
+import { startPolling } from './polling.util';
+
+describe('startPolling', () => {
+  const logError = jest.fn();
+  const logger = { error: logError } as unknown as Logger;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should skip ticks while the previous run is still busy', async () => {
+    let finish: () => void = () => undefined;
+    const run = jest.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        }),
+    );
+    const subscription = startPolling(1000, run, logger, 'Test run');
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    finish();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(2);
+    subscription.unsubscribe();
+  });
+
+  it('should log a failed run and keep polling', async () => {
+    const run = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValue(undefined);
+    const subscription = startPolling(1000, run, logger, 'Test run');
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(logError).toHaveBeenCalledWith(
+      'Test run failed: boom',
+      expect.any(String),
+    );
+    expect(run).toHaveBeenCalledTimes(2);
+    subscription.unsubscribe();
+  });
+
+  it('should stop once unsubscribed', async () => {
+    const run = jest.fn().mockResolvedValue(undefined);
+    startPolling(1000, run, logger, 'Test run').unsubscribe();
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { Logger } from '@nestjs/common';
+import {
+  EMPTY,
+  Subscription,
+  catchError,
+  defer,
+  exhaustMap,
+  interval,
+} from 'rxjs';
+
+/**
+ * Runs a background job periodically. Ticks are skipped while the previous run is still busy,
+ * a failed run is logged and does not stop the following ones.
+ * @param intervalMs Time between two ticks
+ * @param run The job, called once per tick
+ * @param logger Logger of the owning service
+ * @param name Names the job in the error log, e.g. "Webhook dispatch run"
+ * @returns The subscription, unsubscribe to stop polling
+ */
+export function startPolling(
+  intervalMs: number,
+  run: () => Promise<unknown>,
+  logger: Logger,
+  name: string,
+): Subscription {
+  return interval(intervalMs)
+    .pipe(
+      exhaustMap(() =>
+        defer(run).pipe(
+          catchError((error: Error) => {
+            logger.error(`${name} failed: ${error.message}`, error.stack);
+            return EMPTY;
+          }),
+        ),
+      ),
+    )
+    .subscribe();
+}
@@ -0,0 +1,81 @@
+import {
+  applyRateLimitOverride,
+  computeRateLimitUsage,
+  formatRateLimitPeriod,
+  getLongestRateLimitPeriodMs,
+  getRateLimitPeriods,
+  getRemainingRateLimit,
+} from './rate-limit.util';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('rate limit util', () => {
+  const now = new Date('2025-01-31T12:00:00Z');
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR_MS);
+  const periods = getRateLimitPeriods({
+    maxUploads: 50,
+    periodDays: 30,
+    windows: [{ maxUploads: 5, periodHours: 1 }],
+  });
+
+  it('should list the primary window first', () => {
+    expect(periods).toEqual([
+      { maxUploads: 50, periodMs: 30 * 24 * HOUR_MS },
+      { maxUploads: 5, periodMs: HOUR_MS },
+    ]);
+    expect(getLongestRateLimitPeriodMs(periods)).toBe(30 * 24 * HOUR_MS);
+  });
+
+  it('should only count uploads inside each window', () => {
+    const usage = computeRateLimitUsage(
+      [hoursAgo(0.5), hoursAgo(2), hoursAgo(31 * 24)],
+      periods,
+      now,
+    );
+
+    expect(usage.map((window) => window.used)).toEqual([2, 1]);
+    expect(getRemainingRateLimit(usage)).toBe(4);
+  });
+
+  it('should be limited by the fullest window', () => {
+    const dates = [0.1, 0.2, 0.3, 0.4, 0.5].map(hoursAgo);
+    const usage = computeRateLimitUsage(dates, periods, now);
+
+    expect(getRemainingRateLimit(usage)).toBe(0);
+    expect(usage[0].resetsAt).toBeNull();
+    expect(usage[1].resetsAt).toEqual(
+      new Date(hoursAgo(0.5).getTime() + HOUR_MS),
+    );
+  });
+
+  it('should replace every window of the profile with the override', () => {
+    const rateLimit = {
+      maxUploads: 50,
+      periodDays: 30,
+      windows: [{ maxUploads: 5, periodHours: 1 }],
+    };
+
+    expect(applyRateLimitOverride(rateLimit, null)).toBe(rateLimit);
+    expect(applyRateLimitOverride(rateLimit, { maxUploads: 200 })).toEqual({
+      maxUploads: 200,
+      periodDays: 30,
+    });
+    expect(
+      applyRateLimitOverride(undefined, { maxUploads: 10, periodDays: 1 }),
+    ).toEqual({ maxUploads: 10, periodDays: 1 });
+  });
+
+  it('should lift the rate limit of exempt users', () => {
+    expect(
+      applyRateLimitOverride(
+        { maxUploads: 3, periodDays: 30 },
+        { exempt: true, maxUploads: 10 },
+      ),
+    ).toBeUndefined();
+  });
+
+  it('should describe windows in days or hours', () => {
+    expect(formatRateLimitPeriod(30 * 24 * HOUR_MS)).toBe('30-day');
+    expect(formatRateLimitPeriod(HOUR_MS)).toBe('1-hour');
+  });
+});
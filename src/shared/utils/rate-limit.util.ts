@@ -0,0 +1,125 @@
+import { UploadRateLimit } from '../../config/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * A sliding window of a rate limit
+ */
+export interface RateLimitPeriod {
+  maxUploads: number;
+  periodMs: number;
+}
+
+/**
+ * Limits granted to a single user that replace the rate limit of a profile
+ */
+export interface RateLimitOverrideLimits {
+  maxUploads?: number;
+  periodDays?: number;
+  /** Lifts the rate limit entirely */
+  exempt?: boolean;
+}
+
+export interface RateLimitPeriodUsage extends RateLimitPeriod {
+  used: number;
+  remaining: number;
+  /** When the oldest counted upload leaves the window, only set while the window is full */
+  resetsAt: Date | null;
+}
+
+/**
+ * Lists every window of a rate limit, the primary maxUploads/periodDays window first
+ */
+export function getRateLimitPeriods(
+  rateLimit: UploadRateLimit,
+): RateLimitPeriod[] {
+  return [
+    {
+      maxUploads: rateLimit.maxUploads,
+      periodMs: rateLimit.periodDays * DAY_MS,
+    },
+    ...(rateLimit.windows ?? []).map((window) => ({
+      maxUploads: window.maxUploads,
+      periodMs: window.periodHours * HOUR_MS,
+    })),
+  ];
+}
+
+/**
+ * Applies the override of a user to the rate limit of a profile. The override replaces every window
+ * of the profile, limits it does not set are taken from the primary window.
+ * @returns The rate limit of the user, undefined if they are not limited
+ */
+export function applyRateLimitOverride(
+  rateLimit: UploadRateLimit | undefined,
+  override?: RateLimitOverrideLimits | null,
+): UploadRateLimit | undefined {
+  if (!override) {
+    return rateLimit;
+  }
+  if (override.exempt) {
+    return undefined;
+  }
+
+  const maxUploads = override.maxUploads ?? rateLimit?.maxUploads;
+  const periodDays = override.periodDays ?? rateLimit?.periodDays;
+  if (maxUploads === undefined || periodDays === undefined) {
+    return rateLimit;
+  }
+  return { maxUploads, periodDays };
+}
+
+/**
+ * Length of the longest window, uploads older than this no longer count and can be pruned
+ */
+export function getLongestRateLimitPeriodMs(
+  periods: RateLimitPeriod[],
+): number {
+  return Math.max(0, ...periods.map((period) => period.periodMs));
+}
+
+/**
+ * Counts the uploads of every window
+ * @param uploadDates When the counted uploads (or reservations) were made
+ * @param periods The windows of the rate limit
+ * @param now The current time
+ */
+export function computeRateLimitUsage(
+  uploadDates: Date[],
+  periods: RateLimitPeriod[],
+  now: Date = new Date(),
+): RateLimitPeriodUsage[] {
+  return periods.map((period) => {
+    const cutoff = now.getTime() - period.periodMs;
+    const inWindow = uploadDates
+      .map((date) => new Date(date).getTime())
+      .filter((time) => time > cutoff);
+    const remaining = Math.max(0, period.maxUploads - inWindow.length);
+
+    return {
+      ...period,
+      used: inWindow.length,
+      remaining,
+      resetsAt:
+        remaining === 0 && inWindow.length > 0
+          ? new Date(Math.min(...inWindow) + period.periodMs)
+          : null,
+    };
+  });
+}
+
+/**
+ * How many uploads are left before any window is full
+ */
+export function getRemainingRateLimit(usage: RateLimitPeriodUsage[]): number {
+  return Math.min(...usage.map((window) => window.remaining));
+}
+
+/**
+ * Describes the length of a window for messages, e.g. "30-day" or "1-hour"
+ */
+export function formatRateLimitPeriod(periodMs: number): string {
+  const hours = periodMs / HOUR_MS;
+  return hours % 24 === 0 ? `${hours / 24}-day` : `${hours}-hour`;
+}
@@ -0,0 +1,76 @@
+import { diffStorage, summarizeFolders } from './reconciliation.util';
+
+const object = (
+  key: string,
+  lastModified = new Date('2025-01-01T00:00:00Z'),
+  size = 10,
+) => ({ key, size, lastModified });
+
+describe('summarizeFolders', () => {
+  it('should count objects and keep the newest modification date per folder', () => {
+    const newest = new Date('2025-02-01T00:00:00Z');
+
+    expect(
+      summarizeFolders([
+        object('uploads/a/main.webp'),
+        object('uploads/a/small.webp', newest, 5),
+        object('uploads/b/main.webp'),
+      ]),
+    ).toEqual([
+      {
+        folder: 'uploads/a/',
+        objectCount: 2,
+        totalSize: 15,
+        lastModified: newest,
+      },
+      {
+        folder: 'uploads/b/',
+        objectCount: 1,
+        totalSize: 10,
+        lastModified: new Date('2025-01-01T00:00:00Z'),
+      },
+    ]);
+  });
+});
+
+describe('diffStorage', () => {
+  it('should report folders no asset points into as orphans', () => {
+    const diff = diffStorage(
+      'uploads/',
+      [object('uploads/a/main.webp'), object('uploads/b/main.webp')],
+      [{ assetId: 'image-1', keys: ['uploads/a/main.webp'] }],
+    );
+
+    expect(diff.orphanFolders.map((folder) => folder.folder)).toEqual([
+      'uploads/b/',
+    ]);
+    expect(diff.danglingAssets).toEqual([]);
+  });
+
+  it('should report assets pointing to keys that were not listed', () => {
+    const diff = diffStorage(
+      'uploads/',
+      [object('uploads/a/main.webp')],
+      [
+        {
+          assetId: 'image-1',
+          keys: ['uploads/a/main.webp', 'uploads/a/small.webp'],
+        },
+      ],
+    );
+
+    expect(diff.danglingAssets).toEqual([
+      { assetId: 'image-1', missingKeys: ['uploads/a/small.webp'] },
+    ]);
+  });
+
+  it('should ignore objects directly in the prefix and keys outside of it', () => {
+    const diff = diffStorage(
+      'uploads/',
+      [object('uploads/placeholder.webp')],
+      [{ assetId: 'image-1', keys: ['legacy/a/main.webp'] }],
+    );
+
+    expect(diff).toEqual({ orphanFolders: [], danglingAssets: [] });
+  });
+});
@@ -0,0 +1,99 @@
+import { storageFolderOfKey } from './storage-key.util';
+
+/**
+ * An object found while listing the bucket
+ */
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface StorageFolderSummary {
+  folder: string;
+  objectCount: number;
+  totalSize: number;
+  lastModified: Date; // Newest object in the folder
+}
+
+/**
+ * The object keys an asset record points to
+ */
+export interface ReferencedAssetKeys {
+  assetId: string;
+  keys: string[];
+}
+
+export interface DanglingAsset {
+  assetId: string;
+  missingKeys: string[];
+}
+
+export interface StorageDiff {
+  orphanFolders: StorageFolderSummary[];
+  danglingAssets: DanglingAsset[];
+}
+
+/**
+ * Groups listed objects by the folder they live in
+ */
+export function summarizeFolders(
+  objects: StoredObject[],
+): StorageFolderSummary[] {
+  const folders = new Map<string, StorageFolderSummary>();
+
+  objects.forEach((object) => {
+    const folder = storageFolderOfKey(object.key);
+    const summary = folders.get(folder);
+    if (!summary) {
+      folders.set(folder, {
+        folder,
+        objectCount: 1,
+        totalSize: object.size,
+        lastModified: object.lastModified,
+      });
+      return;
+    }
+    summary.objectCount++;
+    summary.totalSize += object.size;
+    if (object.lastModified > summary.lastModified) {
+      summary.lastModified = object.lastModified;
+    }
+  });
+
+  return [...folders.values()];
+}
+
+/**
+ * Diffs the objects listed under a prefix against the asset records.
+ * Orphans are folders below the prefix no asset points into, dangling assets point to keys below the prefix that were not listed.
+ * Objects directly in the prefix and asset keys outside of it are ignored.
+ */
+export function diffStorage(
+  prefix: string,
+  objects: StoredObject[],
+  assets: ReferencedAssetKeys[],
+): StorageDiff {
+  const listedKeys = new Set(objects.map((object) => object.key));
+  const referencedFolders = new Set<string>();
+  const danglingAssets: DanglingAsset[] = [];
+
+  assets.forEach((asset) => {
+    const keys = asset.keys.filter((key) => key.startsWith(prefix));
+    keys.forEach((key) => referencedFolders.add(storageFolderOfKey(key)));
+
+    const missingKeys = keys.filter((key) => !listedKeys.has(key));
+    if (missingKeys.length) {
+      danglingAssets.push({ assetId: asset.assetId, missingKeys });
+    }
+  });
+
+  const orphanFolders = summarizeFolders(objects)
+    .filter(
+      (summary) =>
+        summary.folder !== prefix && summary.folder.startsWith(prefix),
+    )
+    .filter((summary) => !referencedFolders.has(summary.folder));
+
+  return { orphanFolders, danglingAssets };
+}
@@ -0,0 +1,67 @@
+import { ImageResolution } from '../../config/types';
+import { findStaleResolutions } from './rendition.util';
+
+describe('findStaleResolutions', () => {
+  const thumbnail: ImageResolution = {
+    suffix: 'thumbnail',
+    width: 50,
+    height: 50,
+    formats: ['webp', 'jpeg'],
+  };
+  const large: ImageResolution = { suffix: 'large', width: 1024, height: 1024 };
+  const stored = {
+    thumbnail: {
+      width: 50,
+      height: 50,
+      storageKey: 'uploads/1/thumbnail.webp',
+      formats: { webp: {}, jpeg: {} },
+    },
+  };
+
+  it('should find missing resolutions', () => {
+    expect(findStaleResolutions(stored, [thumbnail, large], ['webp'])).toEqual([
+      large,
+    ]);
+  });
+
+  it('should find resolutions with other dimensions', () => {
+    const resized = { ...thumbnail, width: 64, height: 64 };
+    expect(findStaleResolutions(stored, [resized])).toEqual([resized]);
+  });
+
+  it('should find resolutions with other formats or another primary format', () => {
+    expect(
+      findStaleResolutions(stored, [
+        { ...thumbnail, formats: ['webp', 'jpeg', 'avif'] },
+      ]),
+    ).toHaveLength(1);
+    expect(
+      findStaleResolutions(stored, [
+        { ...thumbnail, formats: ['jpeg', 'webp'] },
+      ]),
+    ).toHaveLength(1);
+    expect(
+      findStaleResolutions(stored, [
+        { ...thumbnail, formats: ['webp', 'jpeg'] },
+      ]),
+    ).toEqual([]);
+  });
+
+  it('should treat resolutions stored without formats as WebP only', () => {
+    const legacy = {
+      small: { width: 128, height: 128, storageKey: 'uploads/1/small.webp' },
+    };
+    expect(
+      findStaleResolutions(legacy, [
+        { suffix: 'small', width: 128, height: 128 },
+      ]),
+    ).toEqual([]);
+    expect(
+      findStaleResolutions(
+        legacy,
+        [{ suffix: 'small', width: 128, height: 128 }],
+        ['webp', 'avif'],
+      ),
+    ).toHaveLength(1);
+  });
+});
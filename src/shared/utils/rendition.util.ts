@@ -0,0 +1,45 @@
+import { ImageOutputFormat, ImageResolution } from '../../config/types';
+import { renditionFileName, resolveImageFormats } from './image-format.util';
+
+interface StoredResolution {
+  width?: number;
+  height?: number;
+  storageKey?: string;
+  formats?: Record<string, unknown>;
+}
+
+/**
+ * Finds the resolutions of a profile that an image lacks or stored with other dimensions or formats
+ * @param resizedVersions The stored resolutions of the image, keyed by suffix
+ * @param resolutions The resolutions of the upload profile
+ * @param outputFormats Formats of resolutions that do not declare their own
+ */
+export function findStaleResolutions(
+  resizedVersions: Record<string, StoredResolution | undefined> | undefined,
+  resolutions: ImageResolution[],
+  outputFormats?: ImageOutputFormat[],
+): ImageResolution[] {
+  return resolutions.filter((resolution) => {
+    const stored = resizedVersions?.[resolution.suffix];
+    if (!stored) {
+      return true;
+    }
+    if (
+      stored.width !== resolution.width ||
+      stored.height !== resolution.height
+    ) {
+      return true;
+    }
+
+    const formats = resolveImageFormats(resolution.formats, outputFormats);
+    // Versions stored before formats were recorded only exist as WebP
+    const storedFormats = Object.keys(stored.formats ?? { webp: true });
+    const primaryChanged = !stored.storageKey?.endsWith(
+      renditionFileName(resolution.suffix, formats[0]),
+    );
+    return (
+      primaryChanged ||
+      [...storedFormats].sort().join() !== [...formats].sort().join()
+    );
+  });
+}
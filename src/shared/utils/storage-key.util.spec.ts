@@ -0,0 +1,78 @@
+import {
+  imageStorageKeys,
+  storageFolderOfKey,
+  storageKeyFromUrl,
+} from './storage-key.util';
+
+describe('storageKeyFromUrl', () => {
+  it('should strip the scheme and host', () => {
+    expect(
+      storageKeyFromUrl(
+        'https://bucket.s3.eu-central-1.amazonaws.com/uploads/a/b.webp',
+      ),
+    ).toBe('uploads/a/b.webp');
+  });
+});
+
+describe('storageFolderOfKey', () => {
+  it('should return the prefix including the trailing slash', () => {
+    expect(storageFolderOfKey('uploads/profile_pictures/123/small.webp')).toBe(
+      'uploads/profile_pictures/123/',
+    );
+  });
+
+  it('should return an empty string for keys in the bucket root', () => {
+    expect(storageFolderOfKey('image.webp')).toBe('');
+  });
+});
+
+describe('imageStorageKeys', () => {
+  it('should collect the original and resized version keys without duplicates', () => {
+    expect(
+      imageStorageKeys({
+        storageUrl: 'https://cdn.example.com/uploads/123/main.webp',
+        storageKey: 'uploads/123/main.webp',
+        resizedVersions: {
+          small: {
+            url: 'https://cdn.example.com/uploads/123/small.webp',
+            storageKey: 'uploads/123/small.webp',
+          },
+          medium: { url: 'https://cdn.example.com/uploads/123/medium.webp' },
+        },
+      }),
+    ).toEqual([
+      'uploads/123/main.webp',
+      'uploads/123/small.webp',
+      'uploads/123/medium.webp',
+    ]);
+  });
+
+  it('should collect the keys of every format', () => {
+    expect(
+      imageStorageKeys({
+        storageUrl: 'https://cdn.example.com/uploads/123/index.webp',
+        formats: {
+          webp: { storageKey: 'uploads/123/index.webp' },
+          jpeg: { storageKey: 'uploads/123/index.jpg' },
+        },
+        original: { storageKey: 'uploads/123/original.png' },
+        resizedVersions: {
+          small: {
+            storageKey: 'uploads/123/small.webp',
+            formats: { avif: { storageKey: 'uploads/123/small.avif' } },
+          },
+        },
+      }),
+    ).toEqual([
+      'uploads/123/index.webp',
+      'uploads/123/index.jpg',
+      'uploads/123/original.png',
+      'uploads/123/small.webp',
+      'uploads/123/small.avif',
+    ]);
+  });
+
+  it('should return no keys for an image without stored files', () => {
+    expect(imageStorageKeys({})).toEqual([]);
+  });
+});
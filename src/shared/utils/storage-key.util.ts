@@ -0,0 +1,58 @@
+/**
+ * Extracts the S3 object key from a public object URL ("https://<host>/<key>")
+ */
+export function storageKeyFromUrl(url: string): string {
+  return url.split('/').slice(3).join('/');
+}
+
+/**
+ * Returns the folder (prefix including the trailing slash) an object key lives in,
+ * or an empty string for keys in the bucket root
+ */
+export function storageFolderOfKey(key: string): string {
+  const index = key.lastIndexOf('/');
+  return index === -1 ? '' : key.substring(0, index + 1);
+}
+
+/**
+ * Where the files of an image are stored
+ */
+export interface ImageStorageLocation {
+  storageUrl?: string;
+  storageKey?: string;
+  formats?: Record<string, { storageKey?: string } | undefined>;
+  original?: { storageKey?: string };
+  resizedVersions?: Record<
+    string,
+    | {
+        url?: string;
+        storageKey?: string;
+        formats?: Record<string, { storageKey?: string } | undefined>;
+      }
+    | undefined
+  >;
+}
+
+/**
+ * Collects the object keys of the sanitized original, the main image and all resized versions of an image in all their formats
+ */
+export function imageStorageKeys(asset: ImageStorageLocation): string[] {
+  const keys = new Set<string>();
+  const addFormats = (
+    formats?: Record<string, { storageKey?: string } | undefined>,
+  ) =>
+    Object.values(formats || {}).forEach(
+      (version) => version?.storageKey && keys.add(version.storageKey),
+    );
+
+  if (asset.storageUrl) keys.add(storageKeyFromUrl(asset.storageUrl));
+  if (asset.storageKey) keys.add(asset.storageKey);
+  addFormats(asset.formats);
+  if (asset.original?.storageKey) keys.add(asset.original.storageKey);
+  Object.values(asset.resizedVersions || {}).forEach((version) => {
+    if (version?.storageKey) keys.add(version.storageKey);
+    else if (version?.url) keys.add(storageKeyFromUrl(version.url));
+    addFormats(version?.formats);
+  });
+  return [...keys];
+}
@@ -0,0 +1,85 @@
+import {
+  computeQuotaStatus,
+  findQuotaViolation,
+  imageStoredBytes,
+} from './storage-quota.util';
+
+describe('storage quota util', () => {
+  it('should count the main image and all resized versions', () => {
+    expect(
+      imageStoredBytes({
+        fileSize: 1000,
+        resizedVersions: {
+          thumbnail: { size: 50 },
+          medium: { size: 400 },
+          small: undefined,
+        },
+      }),
+    ).toBe(1450);
+  });
+
+  it('should count every format of a rendition', () => {
+    expect(
+      imageStoredBytes({
+        fileSize: 1000,
+        formats: {
+          webp: { size: 1000 },
+          avif: { size: 700 },
+          jpeg: { size: 1500 },
+        },
+        resizedVersions: {
+          thumbnail: {
+            size: 50,
+            formats: { webp: { size: 50 }, jpeg: { size: 80 } },
+          },
+        },
+      }),
+    ).toBe(3330);
+  });
+
+  it('should count the sanitized original', () => {
+    expect(imageStoredBytes({ fileSize: 1000, original: { size: 4000 } })).toBe(
+      5000,
+    );
+  });
+
+  it('should count images without recorded sizes as empty', () => {
+    expect(imageStoredBytes({ resizedVersions: { thumbnail: {} } })).toBe(0);
+  });
+
+  it('should compute the remaining quota', () => {
+    expect(
+      computeQuotaStatus(
+        { bytes: 700, assets: 3 },
+        { maxBytes: 1000, maxAssets: 2 },
+      ),
+    ).toEqual({
+      usedBytes: 700,
+      usedAssets: 3,
+      maxBytes: 1000,
+      maxAssets: 2,
+      remainingBytes: 300,
+      remainingAssets: 0,
+    });
+  });
+
+  it('should not limit tiers without limits', () => {
+    const status = computeQuotaStatus({ bytes: 1e12, assets: 1e6 }, {});
+    expect(status.remainingBytes).toBeNull();
+    expect(findQuotaViolation(status, { bytes: 1e9, assets: 100 })).toBeNull();
+  });
+
+  it('should reject uploads that do not fit', () => {
+    const status = computeQuotaStatus(
+      { bytes: 700, assets: 1 },
+      { maxBytes: 1000, maxAssets: 3 },
+    );
+    expect(findQuotaViolation(status, { bytes: 300, assets: 2 })).toBeNull();
+    expect(findQuotaViolation(status, { bytes: 301, assets: 1 })).toContain(
+      '300 left',
+    );
+    expect(findQuotaViolation(status, { bytes: 0, assets: 3 })).toContain(
+      '3 files, 2 left',
+    );
+  });
+});
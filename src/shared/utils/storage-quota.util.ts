@@ -0,0 +1,104 @@
+import { QuotaTier } from '../../config/types';
+
+export interface StorageUsage {
+  bytes: number;
+  assets: number;
+}
+
+export interface QuotaStatus {
+  usedBytes: number;
+  usedAssets: number;
+  /** Null if the tier does not limit bytes */
+  maxBytes: number | null;
+  /** Null if the tier does not limit the number of assets */
+  maxAssets: number | null;
+  remainingBytes: number | null;
+  remainingAssets: number | null;
+}
+
+interface StoredRendition {
+  size?: number;
+  formats?: Record<string, { size?: number } | undefined>;
+}
+
+/**
+ * Bytes stored for a rendition: every format it was encoded in, or just its size for renditions stored in one format
+ */
+function renditionStoredBytes(
+  size: number | undefined,
+  formats?: Record<string, { size?: number } | undefined>,
+): number {
+  const versions = Object.values(formats ?? {});
+  return versions.length
+    ? versions.reduce((sum, version) => sum + (version?.size ?? 0), 0)
+    : (size ?? 0);
+}
+
+/**
+ * Bytes stored for an image: the sanitized original, the main image, every resized version in all their formats
+ * and the variants cached by the transformation endpoint
+ */
+export function imageStoredBytes(asset: {
+  fileSize?: number;
+  formats?: StoredRendition['formats'];
+  original?: { size?: number };
+  resizedVersions?: Record<string, StoredRendition | undefined>;
+  transformVariantsSize?: number;
+}): number {
+  const resized = Object.values(asset.resizedVersions ?? {}).reduce(
+    (sum, version) =>
+      sum + renditionStoredBytes(version?.size, version?.formats),
+    0,
+  );
+  return (
+    (asset.original?.size ?? 0) +
+    renditionStoredBytes(asset.fileSize, asset.formats) +
+    resized +
+    (asset.transformVariantsSize ?? 0)
+  );
+}
+
+/**
+ * Compares the usage of a user with the limits of their tier
+ */
+export function computeQuotaStatus(
+  usage: StorageUsage,
+  tier: QuotaTier,
+): QuotaStatus {
+  const maxBytes = tier.maxBytes ?? null;
+  const maxAssets = tier.maxAssets ?? null;
+
+  return {
+    usedBytes: usage.bytes,
+    usedAssets: usage.assets,
+    maxBytes,
+    maxAssets,
+    remainingBytes:
+      maxBytes === null ? null : Math.max(0, maxBytes - usage.bytes),
+    remainingAssets:
+      maxAssets === null ? null : Math.max(0, maxAssets - usage.assets),
+  };
+}
+
+/**
+ * Checks whether additional uploads fit into the quota
+ * @returns Why they do not fit, or null if they do
+ */
+export function findQuotaViolation(
+  status: QuotaStatus,
+  additional: StorageUsage,
+): string | null {
+  if (
+    status.remainingAssets !== null &&
+    additional.assets > status.remainingAssets
+  ) {
+    return `Storage quota reached: You can store ${status.maxAssets} files, ${status.remainingAssets} left`;
+  }
+  if (
+    status.remainingBytes !== null &&
+    additional.bytes > status.remainingBytes
+  ) {
+    return `Storage quota reached: You can store ${status.maxBytes} bytes, ${status.remainingBytes} left`;
+  }
+  return null;
+}
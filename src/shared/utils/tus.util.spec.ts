@@ -0,0 +1,37 @@
+import { parseTusInteger, parseTusMetadata } from './tus.util';
+
+describe('tus utils', () => {
+  describe('parseTusMetadata', () => {
+    it('should decode base64 values', () => {
+      const header = `filename ${Buffer.from('avatar.png').toString('base64')},filetype ${Buffer.from('image/png').toString('base64')}`;
+      expect(parseTusMetadata(header)).toEqual({
+        filename: 'avatar.png',
+        filetype: 'image/png',
+      });
+    });
+
+    it('should map keys without a value to an empty string', () => {
+      expect(parseTusMetadata('is_confidential')).toEqual({
+        is_confidential: '',
+      });
+    });
+
+    it('should return an empty object for a missing header', () => {
+      expect(parseTusMetadata(undefined)).toEqual({});
+    });
+  });
+
+  describe('parseTusInteger', () => {
+    it('should parse non-negative integers', () => {
+      expect(parseTusInteger('0')).toBe(0);
+      expect(parseTusInteger('1024')).toBe(1024);
+    });
+
+    it('should reject missing, negative and fractional values', () => {
+      expect(parseTusInteger(undefined)).toBeNull();
+      expect(parseTusInteger('-1')).toBeNull();
+      expect(parseTusInteger('1.5')).toBeNull();
+      expect(parseTusInteger('abc')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Helpers for the tus 1.0 resumable upload protocol (https://tus.io/protocols/resumable-upload)
+ */
+export const TUS_RESUMABLE_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = ['creation', 'expiration'];
+export const TUS_CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+/**
+ * Parses a tus Upload-Metadata header into a plain key/value map
+ * @param header Comma separated list of "key base64value" pairs
+ * @returns Decoded metadata, keys without a value map to an empty string
+ */
+export function parseTusMetadata(header?: string): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) {
+    return metadata;
+  }
+
+  header.split(',').forEach((pair) => {
+    const [key, value] = pair.trim().split(' ');
+    if (!key) {
+      return;
+    }
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+  });
+
+  return metadata;
+}
+
+/**
+ * Parses a non-negative integer tus header (Upload-Length, Upload-Offset)
+ * @param header Raw header value
+ * @returns The parsed number, or null if the header is missing or invalid
+ */
+export function parseTusInteger(header?: string): number | null {
+  if (header === undefined || !/^\d+$/.test(header.trim())) {
+    return null;
+  }
+  return Number(header.trim());
+}